@@ -1,14 +1,104 @@
 import { container } from "tsyringe";
 import { db } from "../../db";
+import type { Notifier } from "../../domain/services/Notifier";
+import { ActivityController } from "../../infrastructure/controllers/ActivityController";
+import { DependencyController } from "../../infrastructure/controllers/DependencyController";
+import { EventController } from "../../infrastructure/controllers/EventController";
+import { ImportExportController } from "../../infrastructure/controllers/ImportExportController";
+import { RecurringPatternController } from "../../infrastructure/controllers/RecurringPatternController";
+import { ReminderController } from "../../infrastructure/controllers/ReminderController";
+import { TagController } from "../../infrastructure/controllers/TagController";
 import { TaskController } from "../../infrastructure/controllers/TaskController";
+import { TemplateController } from "../../infrastructure/controllers/TemplateController";
+import { TrashController } from "../../infrastructure/controllers/TrashController";
+import { UndoController } from "../../infrastructure/controllers/UndoController";
+import { WebhookController } from "../../infrastructure/controllers/WebhookController";
+import { InProcessTaskEventBus } from "../../infrastructure/events/InProcessTaskEventBus";
+import { LogNotifier } from "../../infrastructure/notifiers/LogNotifier";
+import { DrizzleRecurringPatternRepository } from "../../infrastructure/repositories/DrizzleRecurringPatternRepository";
+import { DrizzleReminderRepository } from "../../infrastructure/repositories/DrizzleReminderRepository";
+import { DrizzleStatusPropagationPolicyRepository } from "../../infrastructure/repositories/DrizzleStatusPropagationPolicyRepository";
+import { DrizzleTagRepository } from "../../infrastructure/repositories/DrizzleTagRepository";
+import { DrizzleTaskDependencyRepository } from "../../infrastructure/repositories/DrizzleTaskDependencyRepository";
+import { DrizzleTaskEventRepository } from "../../infrastructure/repositories/DrizzleTaskEventRepository";
 import { DrizzleTaskRepository } from "../../infrastructure/repositories/DrizzleTaskRepository";
+import { DrizzleTaskTemplateRepository } from "../../infrastructure/repositories/DrizzleTaskTemplateRepository";
+import { DrizzleTransactionManager } from "../../infrastructure/repositories/DrizzleTransactionManager";
+import { DrizzleWebhookDeliveryRepository } from "../../infrastructure/repositories/DrizzleWebhookDeliveryRepository";
+import { DrizzleWebhookRepository } from "../../infrastructure/repositories/DrizzleWebhookRepository";
+import { DrizzleWorkflowRepository } from "../../infrastructure/repositories/DrizzleWorkflowRepository";
+import { RankRebalanceScheduler } from "../../infrastructure/schedulers/RankRebalanceScheduler";
+import { ReminderScheduler } from "../../infrastructure/schedulers/ReminderScheduler";
+import { TrashPurgeScheduler } from "../../infrastructure/schedulers/TrashPurgeScheduler";
+import { WebhookDeliveryScheduler } from "../../infrastructure/schedulers/WebhookDeliveryScheduler";
+import { FetchWebhookSender } from "../../infrastructure/webhooks/FetchWebhookSender";
+import { AddTaskDependencyUseCase } from "../usecases/dependency/AddTaskDependencyUseCase";
+import { GetTaskBlockersUseCase } from "../usecases/dependency/GetTaskBlockersUseCase";
+import { RemoveTaskDependencyUseCase } from "../usecases/dependency/RemoveTaskDependencyUseCase";
+import { GetActivityUseCase } from "../usecases/history/GetActivityUseCase";
+import { GetTaskHistoryUseCase } from "../usecases/history/GetTaskHistoryUseCase";
+import { RedoUseCase } from "../usecases/history/RedoUseCase";
+import { RevertOperationUseCase } from "../usecases/history/RevertOperationUseCase";
+import { StreamTaskEventsUseCase } from "../usecases/history/StreamTaskEventsUseCase";
+import { UndoUseCase } from "../usecases/history/UndoUseCase";
+import { CreateNextRecurringInstanceUseCase } from "../usecases/recurring/CreateNextRecurringInstanceUseCase";
+import { CreateRecurringPatternUseCase } from "../usecases/recurring/CreateRecurringPatternUseCase";
+import { DeleteRecurringPatternUseCase } from "../usecases/recurring/DeleteRecurringPatternUseCase";
+import { GetRecurringPatternByIdUseCase } from "../usecases/recurring/GetRecurringPatternByIdUseCase";
+import { GetRecurringPatternsUseCase } from "../usecases/recurring/GetRecurringPatternsUseCase";
+import { UpdateRecurringPatternUseCase } from "../usecases/recurring/UpdateRecurringPatternUseCase";
+import { CreateReminderUseCase } from "../usecases/reminder/CreateReminderUseCase";
+import { DeleteReminderUseCase } from "../usecases/reminder/DeleteReminderUseCase";
+import { DismissReminderUseCase } from "../usecases/reminder/DismissReminderUseCase";
+import { FireDueRemindersUseCase } from "../usecases/reminder/FireDueRemindersUseCase";
+import { GetRemindersUseCase } from "../usecases/reminder/GetRemindersUseCase";
+import { SnoozeReminderUseCase } from "../usecases/reminder/SnoozeReminderUseCase";
+import { UpdateReminderUseCase } from "../usecases/reminder/UpdateReminderUseCase";
+import { AddTagToTaskUseCase } from "../usecases/tag/AddTagToTaskUseCase";
+import { CreateTagUseCase } from "../usecases/tag/CreateTagUseCase";
+import { DeleteTagUseCase } from "../usecases/tag/DeleteTagUseCase";
+import { GetTagByIdUseCase } from "../usecases/tag/GetTagByIdUseCase";
+import { GetTagsUseCase } from "../usecases/tag/GetTagsUseCase";
+import { RemoveTagFromTaskUseCase } from "../usecases/tag/RemoveTagFromTaskUseCase";
+import { UpdateTagUseCase } from "../usecases/tag/UpdateTagUseCase";
+import { BulkTaskOperationsUseCase } from "../usecases/task/BulkTaskOperationsUseCase";
 import { CreateTaskUseCase } from "../usecases/task/CreateTaskUseCase";
 import { DeleteTaskUseCase } from "../usecases/task/DeleteTaskUseCase";
+import { DuplicateTaskUseCase } from "../usecases/task/DuplicateTaskUseCase";
+import { GetDueTasksUseCase } from "../usecases/task/GetDueTasksUseCase";
+import { GetOverdueTasksUseCase } from "../usecases/task/GetOverdueTasksUseCase";
 import { GetRootTasksUseCase } from "../usecases/task/GetRootTasksUseCase";
+import { GetStatusPropagationUseCase } from "../usecases/task/GetStatusPropagationUseCase";
+import { GetTaskAncestorsUseCase } from "../usecases/task/GetTaskAncestorsUseCase";
 import { GetTaskByIdUseCase } from "../usecases/task/GetTaskByIdUseCase";
+import { GetWorkflowUseCase } from "../usecases/task/GetWorkflowUseCase";
 import { MoveTaskUseCase } from "../usecases/task/MoveTaskUseCase";
+import { PositionTaskUseCase } from "../usecases/task/PositionTaskUseCase";
+import { PropagateStatusUseCase } from "../usecases/task/PropagateStatusUseCase";
+import { RebalanceRanksUseCase } from "../usecases/task/RebalanceRanksUseCase";
 import { ReorderTasksUseCase } from "../usecases/task/ReorderTasksUseCase";
+import { SearchTasksUseCase } from "../usecases/task/SearchTasksUseCase";
+import { UpdateStatusPropagationUseCase } from "../usecases/task/UpdateStatusPropagationUseCase";
 import { UpdateTaskUseCase } from "../usecases/task/UpdateTaskUseCase";
+import { UpdateWorkflowUseCase } from "../usecases/task/UpdateWorkflowUseCase";
+import { CreateTaskTemplateUseCase } from "../usecases/template/CreateTaskTemplateUseCase";
+import { DeleteTaskTemplateUseCase } from "../usecases/template/DeleteTaskTemplateUseCase";
+import { GetTaskTemplateByIdUseCase } from "../usecases/template/GetTaskTemplateByIdUseCase";
+import { GetTaskTemplatesUseCase } from "../usecases/template/GetTaskTemplatesUseCase";
+import { InstantiateTaskTemplateUseCase } from "../usecases/template/InstantiateTaskTemplateUseCase";
+import { ExportTasksUseCase } from "../usecases/transfer/ExportTasksUseCase";
+import { ImportTasksUseCase } from "../usecases/transfer/ImportTasksUseCase";
+import { GetTrashUseCase } from "../usecases/trash/GetTrashUseCase";
+import { PurgeTrashUseCase } from "../usecases/trash/PurgeTrashUseCase";
+import { RestoreTaskUseCase } from "../usecases/trash/RestoreTaskUseCase";
+import { CreateWebhookUseCase } from "../usecases/webhook/CreateWebhookUseCase";
+import { DeleteWebhookUseCase } from "../usecases/webhook/DeleteWebhookUseCase";
+import { DeliverWebhooksUseCase } from "../usecases/webhook/DeliverWebhooksUseCase";
+import { EnqueueWebhookDeliveriesUseCase } from "../usecases/webhook/EnqueueWebhookDeliveriesUseCase";
+import { GetWebhookByIdUseCase } from "../usecases/webhook/GetWebhookByIdUseCase";
+import { GetWebhookDeliveriesUseCase } from "../usecases/webhook/GetWebhookDeliveriesUseCase";
+import { GetWebhooksUseCase } from "../usecases/webhook/GetWebhooksUseCase";
+import { UpdateWebhookUseCase } from "../usecases/webhook/UpdateWebhookUseCase";
 
 /**
  * Initialize the dependency injection container
@@ -19,18 +109,124 @@ export function initializeContainer(): void {
 
   // Register repositories
   container.register("TaskRepository", { useClass: DrizzleTaskRepository });
+  container.register("TagRepository", { useClass: DrizzleTagRepository });
+  container.register("RecurringPatternRepository", { useClass: DrizzleRecurringPatternRepository });
+  container.register("TaskEventRepository", { useClass: DrizzleTaskEventRepository });
+  container.register("ReminderRepository", { useClass: DrizzleReminderRepository });
+  container.register("StatusPropagationPolicyRepository", { useClass: DrizzleStatusPropagationPolicyRepository });
+  container.register("WorkflowRepository", { useClass: DrizzleWorkflowRepository });
+  container.register("TaskTemplateRepository", { useClass: DrizzleTaskTemplateRepository });
+  container.register("TaskDependencyRepository", { useClass: DrizzleTaskDependencyRepository });
+  container.register("WebhookRepository", { useClass: DrizzleWebhookRepository });
+  container.register("WebhookDeliveryRepository", { useClass: DrizzleWebhookDeliveryRepository });
+
+  // Register notifiers; every registered notifier receives each reminder
+  container.register("Notifier", { useClass: LogNotifier });
+
+  // Register the sender posting webhook deliveries
+  container.register("WebhookSender", { useClass: FetchWebhookSender });
+
+  // Register the transaction manager, which queues transactions and therefore must only exist once
+  container.registerSingleton("TransactionManager", DrizzleTransactionManager);
+
+  // Register the event bus, which keeps the subscriptions and therefore must only exist once
+  container.registerSingleton("TaskEventBus", InProcessTaskEventBus);
 
   // Register use cases
   container.register("GetRootTasksUseCase", { useClass: GetRootTasksUseCase });
   container.register("GetTaskByIdUseCase", { useClass: GetTaskByIdUseCase });
+  container.register("GetTaskAncestorsUseCase", { useClass: GetTaskAncestorsUseCase });
   container.register("CreateTaskUseCase", { useClass: CreateTaskUseCase });
   container.register("UpdateTaskUseCase", { useClass: UpdateTaskUseCase });
   container.register("DeleteTaskUseCase", { useClass: DeleteTaskUseCase });
   container.register("MoveTaskUseCase", { useClass: MoveTaskUseCase });
   container.register("ReorderTasksUseCase", { useClass: ReorderTasksUseCase });
+  container.register("PositionTaskUseCase", { useClass: PositionTaskUseCase });
+  container.register("RebalanceRanksUseCase", { useClass: RebalanceRanksUseCase });
+  container.register("GetOverdueTasksUseCase", { useClass: GetOverdueTasksUseCase });
+  container.register("GetDueTasksUseCase", { useClass: GetDueTasksUseCase });
+  container.register("SearchTasksUseCase", { useClass: SearchTasksUseCase });
+  container.register("BulkTaskOperationsUseCase", { useClass: BulkTaskOperationsUseCase });
+  container.register("DuplicateTaskUseCase", { useClass: DuplicateTaskUseCase });
+  container.register("PropagateStatusUseCase", { useClass: PropagateStatusUseCase });
+  container.register("GetStatusPropagationUseCase", { useClass: GetStatusPropagationUseCase });
+  container.register("UpdateStatusPropagationUseCase", { useClass: UpdateStatusPropagationUseCase });
+  container.register("GetWorkflowUseCase", { useClass: GetWorkflowUseCase });
+  container.register("UpdateWorkflowUseCase", { useClass: UpdateWorkflowUseCase });
+  container.register("GetTagsUseCase", { useClass: GetTagsUseCase });
+  container.register("GetTagByIdUseCase", { useClass: GetTagByIdUseCase });
+  container.register("CreateTagUseCase", { useClass: CreateTagUseCase });
+  container.register("UpdateTagUseCase", { useClass: UpdateTagUseCase });
+  container.register("DeleteTagUseCase", { useClass: DeleteTagUseCase });
+  container.register("AddTagToTaskUseCase", { useClass: AddTagToTaskUseCase });
+  container.register("RemoveTagFromTaskUseCase", { useClass: RemoveTagFromTaskUseCase });
+  container.register("GetRecurringPatternsUseCase", { useClass: GetRecurringPatternsUseCase });
+  container.register("GetRecurringPatternByIdUseCase", { useClass: GetRecurringPatternByIdUseCase });
+  container.register("CreateRecurringPatternUseCase", { useClass: CreateRecurringPatternUseCase });
+  container.register("UpdateRecurringPatternUseCase", { useClass: UpdateRecurringPatternUseCase });
+  container.register("DeleteRecurringPatternUseCase", { useClass: DeleteRecurringPatternUseCase });
+  container.register("CreateNextRecurringInstanceUseCase", { useClass: CreateNextRecurringInstanceUseCase });
+  container.register("ExportTasksUseCase", { useClass: ExportTasksUseCase });
+  container.register("ImportTasksUseCase", { useClass: ImportTasksUseCase });
+  container.register("GetTrashUseCase", { useClass: GetTrashUseCase });
+  container.register("RestoreTaskUseCase", { useClass: RestoreTaskUseCase });
+  container.register("PurgeTrashUseCase", { useClass: PurgeTrashUseCase });
+  container.register("GetTaskHistoryUseCase", { useClass: GetTaskHistoryUseCase });
+  container.register("GetActivityUseCase", { useClass: GetActivityUseCase });
+  container.register("StreamTaskEventsUseCase", { useClass: StreamTaskEventsUseCase });
+  container.register("RevertOperationUseCase", { useClass: RevertOperationUseCase });
+  container.register("UndoUseCase", { useClass: UndoUseCase });
+  container.register("RedoUseCase", { useClass: RedoUseCase });
+  container.register("GetRemindersUseCase", { useClass: GetRemindersUseCase });
+  container.register("CreateReminderUseCase", { useClass: CreateReminderUseCase });
+  container.register("UpdateReminderUseCase", { useClass: UpdateReminderUseCase });
+  container.register("DeleteReminderUseCase", { useClass: DeleteReminderUseCase });
+  container.register("SnoozeReminderUseCase", { useClass: SnoozeReminderUseCase });
+  container.register("DismissReminderUseCase", { useClass: DismissReminderUseCase });
+  container.register("FireDueRemindersUseCase", { useClass: FireDueRemindersUseCase });
+  container.register("GetTaskTemplatesUseCase", { useClass: GetTaskTemplatesUseCase });
+  container.register("GetTaskTemplateByIdUseCase", { useClass: GetTaskTemplateByIdUseCase });
+  container.register("CreateTaskTemplateUseCase", { useClass: CreateTaskTemplateUseCase });
+  container.register("DeleteTaskTemplateUseCase", { useClass: DeleteTaskTemplateUseCase });
+  container.register("InstantiateTaskTemplateUseCase", { useClass: InstantiateTaskTemplateUseCase });
+  container.register("AddTaskDependencyUseCase", { useClass: AddTaskDependencyUseCase });
+  container.register("RemoveTaskDependencyUseCase", { useClass: RemoveTaskDependencyUseCase });
+  container.register("GetTaskBlockersUseCase", { useClass: GetTaskBlockersUseCase });
+  container.register("GetWebhooksUseCase", { useClass: GetWebhooksUseCase });
+  container.register("GetWebhookByIdUseCase", { useClass: GetWebhookByIdUseCase });
+  container.register("CreateWebhookUseCase", { useClass: CreateWebhookUseCase });
+  container.register("UpdateWebhookUseCase", { useClass: UpdateWebhookUseCase });
+  container.register("DeleteWebhookUseCase", { useClass: DeleteWebhookUseCase });
+  container.register("GetWebhookDeliveriesUseCase", { useClass: GetWebhookDeliveriesUseCase });
+  container.register("EnqueueWebhookDeliveriesUseCase", { useClass: EnqueueWebhookDeliveriesUseCase });
+  container.register("DeliverWebhooksUseCase", { useClass: DeliverWebhooksUseCase });
 
   // Register controllers
   container.register("TaskController", { useClass: TaskController });
+  container.register("TagController", { useClass: TagController });
+  container.register("RecurringPatternController", { useClass: RecurringPatternController });
+  container.register("ImportExportController", { useClass: ImportExportController });
+  container.register("TrashController", { useClass: TrashController });
+  container.register("ActivityController", { useClass: ActivityController });
+  container.register("EventController", { useClass: EventController });
+  container.register("UndoController", { useClass: UndoController });
+  container.register("ReminderController", { useClass: ReminderController });
+  container.register("TemplateController", { useClass: TemplateController });
+  container.register("DependencyController", { useClass: DependencyController });
+  container.register("WebhookController", { useClass: WebhookController });
+
+  // Register schedulers, which keep their timers and therefore must only exist once
+  container.registerSingleton("TrashPurgeScheduler", TrashPurgeScheduler);
+  container.registerSingleton("ReminderScheduler", ReminderScheduler);
+  container.registerSingleton("RankRebalanceScheduler", RankRebalanceScheduler);
+  container.registerSingleton("WebhookDeliveryScheduler", WebhookDeliveryScheduler);
+}
+
+/**
+ * Register an additional notifier that receives every reminder
+ */
+export function registerNotifier(notifier: Notifier): void {
+  container.register("Notifier", { useValue: notifier });
 }
 
 /**
@@ -46,3 +242,108 @@ export function resolve<T>(token: string | symbol): T {
 export function getTaskController(): TaskController {
   return resolve<TaskController>("TaskController");
 }
+
+/**
+ * Get the tag controller
+ */
+export function getTagController(): TagController {
+  return resolve<TagController>("TagController");
+}
+
+/**
+ * Get the recurring pattern controller
+ */
+export function getRecurringPatternController(): RecurringPatternController {
+  return resolve<RecurringPatternController>("RecurringPatternController");
+}
+
+/**
+ * Get the import/export controller
+ */
+export function getImportExportController(): ImportExportController {
+  return resolve<ImportExportController>("ImportExportController");
+}
+
+/**
+ * Get the trash controller
+ */
+export function getTrashController(): TrashController {
+  return resolve<TrashController>("TrashController");
+}
+
+/**
+ * Get the scheduler purging old tasks from the trash
+ */
+export function getTrashPurgeScheduler(): TrashPurgeScheduler {
+  return resolve<TrashPurgeScheduler>("TrashPurgeScheduler");
+}
+
+/**
+ * Get the activity controller
+ */
+export function getActivityController(): ActivityController {
+  return resolve<ActivityController>("ActivityController");
+}
+
+/**
+ * Get the controller streaming task events
+ */
+export function getEventController(): EventController {
+  return resolve<EventController>("EventController");
+}
+
+/**
+ * Get the undo controller
+ */
+export function getUndoController(): UndoController {
+  return resolve<UndoController>("UndoController");
+}
+
+/**
+ * Get the reminder controller
+ */
+export function getReminderController(): ReminderController {
+  return resolve<ReminderController>("ReminderController");
+}
+
+/**
+ * Get the task template controller
+ */
+export function getTemplateController(): TemplateController {
+  return resolve<TemplateController>("TemplateController");
+}
+
+/**
+ * Get the task dependency controller
+ */
+export function getDependencyController(): DependencyController {
+  return resolve<DependencyController>("DependencyController");
+}
+
+/**
+ * Get the webhook controller
+ */
+export function getWebhookController(): WebhookController {
+  return resolve<WebhookController>("WebhookController");
+}
+
+/**
+ * Get the scheduler firing due reminders
+ */
+export function getReminderScheduler(): ReminderScheduler {
+  return resolve<ReminderScheduler>("ReminderScheduler");
+}
+
+/**
+ * Get the scheduler rebalancing task ranks
+ */
+export function getRankRebalanceScheduler(): RankRebalanceScheduler {
+  return resolve<RankRebalanceScheduler>("RankRebalanceScheduler");
+}
+
+/**
+ * Get the scheduler delivering webhooks
+ */
+export function getWebhookDeliveryScheduler(): WebhookDeliveryScheduler {
+  return resolve<WebhookDeliveryScheduler>("WebhookDeliveryScheduler");
+}
@@ -0,0 +1,61 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { Task } from "../../../domain/models/Task";
+import { CircularReferenceError, TaskNotFoundError } from "../../../domain/models/errors";
+import type { TaskDependencyRepository } from "../../../domain/repositories/TaskDependencyRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+
+type TaskDependencyParams = {
+  readonly taskId: string;
+  readonly blockerId: string;
+};
+
+@injectable()
+@singleton()
+export class AddTaskDependencyUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("TaskDependencyRepository") private readonly taskDependencyRepository: TaskDependencyRepository,
+    @inject("TransactionManager") private readonly transactionManager: TransactionManager,
+  ) {}
+
+  async execute(params: TaskDependencyParams): Promise<Task> {
+    return this.transactionManager.runInTransaction(() => this.addDependency(params));
+  }
+
+  private async addDependency(params: TaskDependencyParams): Promise<Task> {
+    const { taskId, blockerId } = params;
+
+    const task = await this.taskRepository.findById(taskId, 0);
+    if (!task) {
+      throw new TaskNotFoundError(taskId);
+    }
+
+    const blocker = await this.taskRepository.findById(blockerId, 0);
+    if (!blocker) {
+      throw new TaskNotFoundError(blockerId);
+    }
+
+    // Check for circular dependency
+    if (blockerId === taskId) {
+      throw new CircularReferenceError(`Task ${taskId} cannot block itself`);
+    }
+    const isCircular = await this.checkForCircularDependency(taskId, blockerId);
+    if (isCircular) {
+      throw new CircularReferenceError(
+        `Cannot make task ${blockerId} block task ${taskId} as it would create a circular dependency`,
+      );
+    }
+
+    await this.taskDependencyRepository.add(taskId, blockerId);
+
+    const updated = await this.taskRepository.findById(taskId);
+    return updated || task;
+  }
+
+  private async checkForCircularDependency(taskId: string, blockerId: string): Promise<boolean> {
+    // The dependency is circular when the blocker already waits on the task
+    const blockerIds = await this.taskDependencyRepository.findAllBlockerIds(blockerId);
+    return blockerIds.includes(taskId);
+  }
+}
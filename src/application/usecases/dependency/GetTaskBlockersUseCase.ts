@@ -0,0 +1,30 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { Task } from "../../../domain/models/Task";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+
+@injectable()
+@singleton()
+export class GetTaskBlockersUseCase {
+  constructor(@inject("TaskRepository") private readonly taskRepository: TaskRepository) {}
+
+  /**
+   * Find the tasks directly blocking a task, without their subtasks.
+   * Returns null when the task does not exist.
+   */
+  async execute(taskId: string): Promise<readonly Task[] | null> {
+    const task = await this.taskRepository.findById(taskId, 0);
+    if (!task) {
+      return null;
+    }
+
+    const blockers: Task[] = [];
+    for (const blockerId of task.blockedBy) {
+      const blocker = await this.taskRepository.findById(blockerId, 0);
+      if (blocker) {
+        blockers.push(blocker);
+      }
+    }
+
+    return blockers;
+  }
+}
@@ -0,0 +1,38 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { Task } from "../../../domain/models/Task";
+import { TaskNotFoundError } from "../../../domain/models/errors";
+import type { TaskDependencyRepository } from "../../../domain/repositories/TaskDependencyRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+
+type TaskDependencyParams = {
+  readonly taskId: string;
+  readonly blockerId: string;
+};
+
+@injectable()
+@singleton()
+export class RemoveTaskDependencyUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("TaskDependencyRepository") private readonly taskDependencyRepository: TaskDependencyRepository,
+  ) {}
+
+  /**
+   * Returns null when the task was not blocked by the given task
+   */
+  async execute(params: TaskDependencyParams): Promise<Task | null> {
+    const { taskId, blockerId } = params;
+
+    const task = await this.taskRepository.findById(taskId, 0);
+    if (!task) {
+      throw new TaskNotFoundError(taskId);
+    }
+
+    if (!(await this.taskDependencyRepository.remove(taskId, blockerId))) {
+      return null;
+    }
+
+    const updated = await this.taskRepository.findById(taskId);
+    return updated || task;
+  }
+}
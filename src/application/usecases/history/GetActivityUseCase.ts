@@ -0,0 +1,28 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { TaskEvent, type TaskEventPage } from "../../../domain/models/TaskEvent";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
+
+type GetActivityParams = {
+  readonly beforeId?: number;
+  readonly limit: number;
+};
+
+@injectable()
+@singleton()
+export class GetActivityUseCase {
+  constructor(@inject("TaskEventRepository") private readonly taskEventRepository: TaskEventRepository) {}
+
+  /**
+   * Get the changes made to all tasks, newest first
+   */
+  async execute(params: GetActivityParams): Promise<TaskEventPage> {
+    const { beforeId, limit } = params;
+
+    const events = await this.taskEventRepository.find({
+      ...(beforeId !== undefined && { beforeId }),
+      limit: limit + 1,
+    });
+
+    return TaskEvent.toPage(events, limit);
+  }
+}
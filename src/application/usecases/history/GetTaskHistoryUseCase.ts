@@ -0,0 +1,43 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { TaskEvent, type TaskEventPage } from "../../../domain/models/TaskEvent";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+
+type GetTaskHistoryParams = {
+  readonly taskId: string;
+  readonly beforeId?: number;
+  readonly limit: number;
+};
+
+@injectable()
+@singleton()
+export class GetTaskHistoryUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("TaskEventRepository") private readonly taskEventRepository: TaskEventRepository,
+  ) {}
+
+  /**
+   * Get the change history of a task, newest first.
+   * Returns null when neither the task nor any history of it exists.
+   */
+  async execute(params: GetTaskHistoryParams): Promise<TaskEventPage | null> {
+    const { taskId, beforeId, limit } = params;
+
+    const events = await this.taskEventRepository.find({
+      taskId,
+      ...(beforeId !== undefined && { beforeId }),
+      limit: limit + 1,
+    });
+
+    if (events.length === 0) {
+      const task =
+        (await this.taskRepository.findById(taskId, 0)) ?? (await this.taskRepository.findTrashedById(taskId));
+      if (!task) {
+        return null;
+      }
+    }
+
+    return TaskEvent.toPage(events, limit);
+  }
+}
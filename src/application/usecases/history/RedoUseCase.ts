@@ -0,0 +1,35 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { NewTaskEvent } from "../../../domain/models/TaskEvent";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+import type { RevertOperationUseCase } from "./RevertOperationUseCase";
+
+@injectable()
+@singleton()
+export class RedoUseCase {
+  constructor(
+    @inject("TaskEventRepository") private readonly taskEventRepository: TaskEventRepository,
+    @inject("RevertOperationUseCase") private readonly revertOperationUseCase: RevertOperationUseCase,
+    @inject("TransactionManager") private readonly transactionManager: TransactionManager,
+  ) {}
+
+  /**
+   * Redo up to the given number of operations, newest first, returning the events that record the redo.
+   * Either every step succeeds or nothing is changed.
+   */
+  async execute(steps: number): Promise<readonly NewTaskEvent[]> {
+    return this.transactionManager.runInTransaction(async () => {
+      const events: NewTaskEvent[] = [];
+
+      for (let step = 0; step < steps; step++) {
+        const operation = await this.taskEventRepository.findLastRedoableOperation();
+        if (operation.length === 0) {
+          break;
+        }
+        events.push(...(await this.revertOperationUseCase.execute(operation, "redo")));
+      }
+
+      return events;
+    });
+  }
+}
@@ -0,0 +1,178 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { Task } from "../../../domain/models/Task";
+import { type NewTaskEvent, type TaskChanges, TaskEvent } from "../../../domain/models/TaskEvent";
+import { RevertConflictError } from "../../../domain/models/errors";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+
+type RevertAction = "undo" | "redo";
+
+/**
+ * A validated reversal of a single event, ready to be written
+ */
+type Reversal =
+  | { readonly kind: "update"; readonly event: TaskEvent; readonly task: Task; readonly reverted: Task }
+  | { readonly kind: "restore"; readonly event: TaskEvent; readonly task: Task }
+  | { readonly kind: "trash"; readonly event: TaskEvent; readonly task: Task; readonly reverted: Task };
+
+@injectable()
+@singleton()
+export class RevertOperationUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("TaskEventRepository") private readonly taskEventRepository: TaskEventRepository,
+    @inject("TransactionManager") private readonly transactionManager: TransactionManager,
+  ) {}
+
+  /**
+   * Put every task touched by an operation back into the state it had before the operation, as one new operation.
+   * Throws a RevertConflictError without changing anything when a task has been changed again since.
+   */
+  async execute(events: readonly TaskEvent[], action: RevertAction): Promise<readonly NewTaskEvent[]> {
+    return this.transactionManager.runInTransaction(() => this.revertOperation(events, action));
+  }
+
+  private async revertOperation(events: readonly TaskEvent[], action: RevertAction): Promise<readonly NewTaskEvent[]> {
+    // An operation that created a task cannot be reverted, not even in part
+    const irreversible = events.find((event) => !TaskEvent.isRevertible(event));
+    if (irreversible) {
+      throw new RevertConflictError(action, irreversible.taskId, "the creation of a task cannot be reverted");
+    }
+
+    const operationTaskIds = new Set(events.map((event) => event.taskId));
+
+    // Validate every event before writing anything, newest first
+    const reversals: Reversal[] = [];
+    for (const event of [...events].reverse()) {
+      reversals.push(await this.prepareReversal(event, action, operationTaskIds));
+    }
+
+    const operationId = TaskEvent.createOperationId();
+    const reversalEvents: NewTaskEvent[] = [];
+    for (const reversal of reversals) {
+      const changes = await this.applyReversal(reversal);
+      reversalEvents.push(TaskEvent.createReversal(operationId, action, reversal.event, changes));
+    }
+
+    await this.taskEventRepository.append(reversalEvents);
+    return reversalEvents;
+  }
+
+  private async prepareReversal(
+    event: TaskEvent,
+    action: RevertAction,
+    operationTaskIds: ReadonlySet<string>,
+  ): Promise<Reversal> {
+    const conflict = (reason: string) => new RevertConflictError(action, event.taskId, reason);
+
+    if (event.type === "deleted") {
+      const task = await this.taskRepository.findTrashedById(event.taskId);
+      if (!task) {
+        throw conflict(
+          (await this.taskRepository.findById(event.taskId, 0))
+            ? "it has been restored since"
+            : "it has been permanently deleted",
+        );
+      }
+      if (TaskEvent.findChangedFields(task, event.changes).length > 0) {
+        throw conflict("it has been deleted again since");
+      }
+      await this.checkPosition(task, task, true, operationTaskIds, conflict);
+
+      return { kind: "restore", event, task };
+    }
+
+    const task = await this.taskRepository.findById(event.taskId, 0);
+    if (!task) {
+      throw conflict("it has been deleted since");
+    }
+
+    const changedFields = TaskEvent.findChangedFields(task, event.changes);
+    if (changedFields.length > 0) {
+      throw conflict(`it has been changed since (${changedFields.join(", ")})`);
+    }
+
+    const reverted = TaskEvent.revert(task, event.changes);
+
+    if (event.type === "restored") {
+      if (reverted.parentId !== null && reverted.parentId !== task.parentId) {
+        const formerParent =
+          (await this.taskRepository.findById(reverted.parentId, 0)) ??
+          (await this.taskRepository.findTrashedById(reverted.parentId));
+        if (!formerParent) {
+          throw conflict("its former parent has been permanently deleted");
+        }
+      }
+
+      return { kind: "trash", event, task, reverted };
+    }
+
+    const { parentId, order, rankKey } = event.changes;
+    if (parentId !== undefined || order !== undefined || rankKey !== undefined) {
+      await this.checkPosition(task, reverted, order !== undefined, operationTaskIds, conflict);
+    }
+
+    return { kind: "update", event, task, reverted };
+  }
+
+  /**
+   * Make sure the task can take its former place in the hierarchy again, including its order slot if asked to
+   */
+  private async checkPosition(
+    task: Task,
+    target: Task,
+    checkOrder: boolean,
+    operationTaskIds: ReadonlySet<string>,
+    conflict: (reason: string) => RevertConflictError,
+  ): Promise<void> {
+    if (target.parentId !== null) {
+      const parent = await this.taskRepository.findById(target.parentId, 0);
+      if (!parent) {
+        throw conflict("its former parent has been deleted");
+      }
+
+      const ancestors = await this.taskRepository.findPath(target.parentId);
+      if (target.parentId === task.id || ancestors.some((ancestor) => ancestor.id === task.id)) {
+        throw conflict("its former parent is now one of its subtasks");
+      }
+    }
+
+    // A rank fits between its neighbours whatever they are, only order slots can be taken
+    if (!checkOrder) {
+      return;
+    }
+
+    // Tasks of the same operation give up their positions at the same time
+    const siblings = await this.taskRepository.findSiblings(target.parentId);
+    if (siblings.some((sibling) => sibling.order === target.order && !operationTaskIds.has(sibling.id))) {
+      throw conflict("its former position has been taken by another task");
+    }
+  }
+
+  private async applyReversal(reversal: Reversal): Promise<TaskChanges> {
+    const { task } = reversal;
+
+    switch (reversal.kind) {
+      case "restore": {
+        await this.taskRepository.restore(task.id, task.parentId, task.order);
+        const restored = await this.taskRepository.findById(task.id, 0);
+        return restored ? TaskEvent.diff(task, restored) : {};
+      }
+      case "trash": {
+        const { reverted } = reversal;
+        if (reverted.parentId !== task.parentId || reverted.order !== task.order || reverted.rankKey !== task.rankKey) {
+          await this.taskRepository.save({ ...reverted, deletedAt: null }, false);
+        }
+        // Trashing with the original timestamp keeps the subtree restorable and purgeable as before
+        await this.taskRepository.trash(task.id, reverted.deletedAt ?? new Date());
+        const trashed = await this.taskRepository.findTrashedById(task.id);
+        return trashed ? TaskEvent.diff(task, trashed) : {};
+      }
+      default: {
+        const saved = await this.taskRepository.save(reversal.reverted, false);
+        return TaskEvent.diff(task, saved);
+      }
+    }
+  }
+}
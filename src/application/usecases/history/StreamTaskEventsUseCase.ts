@@ -0,0 +1,102 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { TaskEvent } from "../../../domain/models/TaskEvent";
+import { TaskNotFoundError } from "../../../domain/models/errors";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TaskEventBus, TaskEventListener } from "../../../domain/services/TaskEventBus";
+
+type StreamTaskEventsParams = {
+  /**
+   * Only deliver the events of this task and the tasks below it
+   */
+  readonly rootId?: string;
+  /**
+   * Deliver the stored events written after this one before the new ones
+   */
+  readonly lastEventId?: number;
+};
+
+const replayPageSize = 100;
+
+@injectable()
+@singleton()
+export class StreamTaskEventsUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("TaskEventRepository") private readonly taskEventRepository: TaskEventRepository,
+    @inject("TaskEventBus") private readonly taskEventBus: TaskEventBus,
+  ) {}
+
+  /**
+   * Deliver task events to the listener as they happen, each one once and in order.
+   * Returns the function that ends the stream.
+   */
+  async execute(params: StreamTaskEventsParams, listener: TaskEventListener): Promise<() => void> {
+    const { rootId, lastEventId } = params;
+
+    if (rootId !== undefined && !(await this.taskRepository.findById(rootId, 0))) {
+      throw new TaskNotFoundError(rootId);
+    }
+
+    // Events go out one at a time, since deciding whether one concerns the subtree takes a lookup
+    let lastSeenId = lastEventId ?? 0;
+    let delivery = Promise.resolve();
+    const deliver = (event: TaskEvent) => {
+      delivery = delivery
+        .then(async () => {
+          // Events published while catching up are also among the stored ones
+          if (event.id <= lastSeenId) {
+            return;
+          }
+          lastSeenId = event.id;
+
+          if (rootId === undefined || (await this.concernsSubtree(event, rootId))) {
+            listener(event);
+          }
+        })
+        // A failed lookup must not hold up the events after it
+        .catch(() => undefined);
+    };
+
+    // New events wait until the stored ones have been caught up on
+    let held: TaskEvent[] | null = [];
+    const unsubscribe = this.taskEventBus.subscribe((event) => (held ? held.push(event) : deliver(event)));
+
+    try {
+      for (let afterId = lastEventId; afterId !== undefined; ) {
+        const events = await this.taskEventRepository.findAfter(afterId, replayPageSize);
+        events.forEach(deliver);
+        afterId = events.length === replayPageSize ? events.at(-1)?.id : undefined;
+      }
+    } catch (error) {
+      unsubscribe();
+      throw error;
+    }
+
+    const pending = held;
+    held = null;
+    pending.forEach(deliver);
+
+    return unsubscribe;
+  }
+
+  /**
+   * Whether the task of the event is in the subtree, or was until the event moved it out
+   */
+  private async concernsSubtree(event: TaskEvent, rootId: string): Promise<boolean> {
+    const formerParentId = event.changes.parentId?.before;
+    const taskIds = typeof formerParentId === "string" ? [event.taskId, formerParentId] : [event.taskId];
+
+    for (const taskId of taskIds) {
+      if (taskId === rootId) {
+        return true;
+      }
+      // Deleted tasks are in the trash by now, with their subtasks and possibly their ancestors
+      const ancestorIds = await this.taskRepository.findAncestorIds(taskId);
+      if (ancestorIds.includes(rootId)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
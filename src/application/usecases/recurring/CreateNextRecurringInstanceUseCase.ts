@@ -0,0 +1,84 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { RecurringPattern } from "../../../domain/models/RecurringPattern";
+import type { Task } from "../../../domain/models/Task";
+import type { RecurringPatternRepository } from "../../../domain/repositories/RecurringPatternRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { CreateTaskUseCase } from "../task/CreateTaskUseCase";
+
+@injectable()
+@singleton()
+export class CreateNextRecurringInstanceUseCase {
+  constructor(
+    @inject("RecurringPatternRepository") private readonly recurringPatternRepository: RecurringPatternRepository,
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("CreateTaskUseCase") private readonly createTaskUseCase: CreateTaskUseCase,
+  ) {}
+
+  /**
+   * Create the instance following a completed recurring task, copying its subtask tree.
+   * Returns null when the task is not recurring or its pattern has ended.
+   */
+  async execute(completedTask: Task): Promise<Task | null> {
+    if (!completedTask.recurringPatternId) {
+      return null;
+    }
+
+    const todoPattern = await this.recurringPatternRepository.findById(completedTask.recurringPatternId);
+    if (!todoPattern) {
+      return null;
+    }
+
+    const instances = await this.taskRepository.findByRecurringPatternId(todoPattern.id);
+    if (!RecurringPattern.allowsAnotherOccurrence(todoPattern.pattern, instances.length)) {
+      return null;
+    }
+
+    const currentDate = completedTask.instanceDate ?? completedTask.dueDate ?? completedTask.createdAt;
+    const nextDate = RecurringPattern.nextOccurrence(todoPattern.pattern, currentDate);
+    if (!nextDate) {
+      return null;
+    }
+
+    // Completing the same instance again must not spawn a duplicate
+    if (instances.some((instance) => instance.instanceDate?.getTime() === nextDate.getTime())) {
+      return null;
+    }
+
+    // Due and start dates keep their distance to the instance date
+    const offset = nextDate.getTime() - currentDate.getTime();
+    const instance = await this.createTaskUseCase.execute({
+      title: todoPattern.title,
+      description: todoPattern.description,
+      priority: todoPattern.priority,
+      parentId: completedTask.parentId,
+      dueDate: shiftDate(completedTask.dueDate, offset),
+      startDate: shiftDate(completedTask.startDate, offset),
+      recurringPatternId: todoPattern.id,
+      instanceDate: nextDate,
+    });
+
+    await this.copySubtasks(completedTask.subtasks, instance.id, offset);
+
+    const created = await this.taskRepository.findById(instance.id);
+    return created || instance;
+  }
+
+  private async copySubtasks(subtasks: readonly Task[], parentId: string, offset: number): Promise<void> {
+    for (const subtask of subtasks) {
+      const copy = await this.createTaskUseCase.execute({
+        title: subtask.title,
+        description: subtask.description,
+        priority: subtask.priority,
+        parentId,
+        dueDate: shiftDate(subtask.dueDate, offset),
+        startDate: shiftDate(subtask.startDate, offset),
+      });
+
+      await this.copySubtasks(subtask.subtasks, copy.id, offset);
+    }
+  }
+}
+
+function shiftDate(date: Date | null, offset: number): Date | null {
+  return date ? new Date(date.getTime() + offset) : null;
+}
@@ -0,0 +1,62 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { RecurringTodoPattern } from "../../../domain/models/RecurringPattern";
+import type { RecurringPattern } from "../../../domain/models/RecurringPattern";
+import type { TaskPriority } from "../../../domain/models/Task";
+import { ParentTaskNotFoundError } from "../../../domain/models/errors";
+import type { RecurringPatternRepository } from "../../../domain/repositories/RecurringPatternRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+import type { CreateTaskUseCase } from "../task/CreateTaskUseCase";
+
+type CreateRecurringPatternParams = {
+  readonly title: string;
+  readonly description?: string | null;
+  readonly priority?: TaskPriority;
+  readonly pattern: RecurringPattern;
+  readonly parentId?: string | null;
+  readonly startDate?: Date;
+};
+
+@injectable()
+@singleton()
+export class CreateRecurringPatternUseCase {
+  constructor(
+    @inject("RecurringPatternRepository") private readonly recurringPatternRepository: RecurringPatternRepository,
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("CreateTaskUseCase") private readonly createTaskUseCase: CreateTaskUseCase,
+    @inject("TransactionManager") private readonly transactionManager: TransactionManager,
+  ) {}
+
+  /**
+   * Store the pattern together with its first instance; neither is kept if the other cannot be written
+   */
+  async execute(params: CreateRecurringPatternParams): Promise<RecurringTodoPattern> {
+    return this.transactionManager.runInTransaction(() => this.createPattern(params));
+  }
+
+  private async createPattern(params: CreateRecurringPatternParams): Promise<RecurringTodoPattern> {
+    const { title, description = null, priority = "medium", pattern, parentId = null, startDate = new Date() } = params;
+
+    // Validate parent exists before anything is stored
+    if (parentId && !(await this.taskRepository.findById(parentId, 0))) {
+      throw new ParentTaskNotFoundError(parentId);
+    }
+
+    const todoPattern = await this.recurringPatternRepository.save(
+      RecurringTodoPattern.create(title, pattern, description, priority),
+    );
+
+    // The first instance is due on the start date, later ones are created as instances get completed
+    await this.createTaskUseCase.execute({
+      title: todoPattern.title,
+      description: todoPattern.description,
+      priority: todoPattern.priority,
+      parentId,
+      dueDate: startDate,
+      recurringPatternId: todoPattern.id,
+      instanceDate: startDate,
+    });
+
+    return todoPattern;
+  }
+}
@@ -0,0 +1,21 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { RecurringPatternRepository } from "../../../domain/repositories/RecurringPatternRepository";
+
+@injectable()
+@singleton()
+export class DeleteRecurringPatternUseCase {
+  constructor(
+    @inject("RecurringPatternRepository") private readonly recurringPatternRepository: RecurringPatternRepository,
+  ) {}
+
+  async execute(id: string): Promise<boolean> {
+    const todoPattern = await this.recurringPatternRepository.findById(id);
+
+    if (!todoPattern) {
+      return false;
+    }
+
+    await this.recurringPatternRepository.delete(id);
+    return true;
+  }
+}
@@ -0,0 +1,15 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { RecurringTodoPattern } from "../../../domain/models/RecurringPattern";
+import type { RecurringPatternRepository } from "../../../domain/repositories/RecurringPatternRepository";
+
+@injectable()
+@singleton()
+export class GetRecurringPatternByIdUseCase {
+  constructor(
+    @inject("RecurringPatternRepository") private readonly recurringPatternRepository: RecurringPatternRepository,
+  ) {}
+
+  async execute(id: string): Promise<RecurringTodoPattern | null> {
+    return this.recurringPatternRepository.findById(id);
+  }
+}
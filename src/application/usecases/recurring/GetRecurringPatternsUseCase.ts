@@ -0,0 +1,15 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { RecurringTodoPattern } from "../../../domain/models/RecurringPattern";
+import type { RecurringPatternRepository } from "../../../domain/repositories/RecurringPatternRepository";
+
+@injectable()
+@singleton()
+export class GetRecurringPatternsUseCase {
+  constructor(
+    @inject("RecurringPatternRepository") private readonly recurringPatternRepository: RecurringPatternRepository,
+  ) {}
+
+  async execute(): Promise<readonly RecurringTodoPattern[]> {
+    return this.recurringPatternRepository.findAll();
+  }
+}
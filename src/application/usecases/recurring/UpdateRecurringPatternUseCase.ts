@@ -0,0 +1,94 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { RecurringTodoPattern } from "../../../domain/models/RecurringPattern";
+import type { RecurringPattern } from "../../../domain/models/RecurringPattern";
+import { Task, type TaskPriority } from "../../../domain/models/Task";
+import { type NewTaskEvent, TaskEvent } from "../../../domain/models/TaskEvent";
+import { Workflow } from "../../../domain/models/Workflow";
+import type { RecurringPatternRepository } from "../../../domain/repositories/RecurringPatternRepository";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+import type { WorkflowRepository } from "../../../domain/repositories/WorkflowRepository";
+
+type UpdateRecurringPatternParams = {
+  readonly id: string;
+  readonly title?: string;
+  readonly description?: string | null;
+  readonly priority?: TaskPriority;
+  readonly pattern?: RecurringPattern;
+  /**
+   * Also update instances that are still pending, i.e. incomplete and scheduled from now on.
+   * Completed and past instances are never changed.
+   */
+  readonly applyToFutureInstances?: boolean;
+};
+
+@injectable()
+@singleton()
+export class UpdateRecurringPatternUseCase {
+  constructor(
+    @inject("RecurringPatternRepository") private readonly recurringPatternRepository: RecurringPatternRepository,
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("TaskEventRepository") private readonly taskEventRepository: TaskEventRepository,
+    @inject("TransactionManager") private readonly transactionManager: TransactionManager,
+    @inject("WorkflowRepository") private readonly workflowRepository: WorkflowRepository,
+  ) {}
+
+  /**
+   * Update the pattern and, if asked to, its pending instances in a single transaction
+   */
+  async execute(params: UpdateRecurringPatternParams, now: Date = new Date()): Promise<RecurringTodoPattern | null> {
+    return this.transactionManager.runInTransaction(() => this.updatePattern(params, now));
+  }
+
+  private async updatePattern(params: UpdateRecurringPatternParams, now: Date): Promise<RecurringTodoPattern | null> {
+    const { id, applyToFutureInstances = false, ...changes } = params;
+
+    const todoPattern = await this.recurringPatternRepository.findById(id);
+    if (!todoPattern) {
+      return null;
+    }
+
+    const updatedPattern = await this.recurringPatternRepository.save(
+      RecurringTodoPattern.update(todoPattern, changes),
+    );
+
+    if (applyToFutureInstances) {
+      const instances = await this.taskRepository.findByRecurringPatternId(id);
+      const workflow = await this.workflowRepository.find();
+      const futureInstances = instances.filter(
+        (instance) =>
+          !Workflow.isClosed(instance.status, workflow) &&
+          instance.instanceDate !== null &&
+          instance.instanceDate.getTime() >= now.getTime(),
+      );
+
+      // Every instance changed along with the pattern is recorded as part of one operation
+      const operationId = TaskEvent.createOperationId();
+      const events: NewTaskEvent[] = [];
+      for (const instance of futureInstances) {
+        let updatedInstance = instance;
+
+        if (changes.title !== undefined) {
+          updatedInstance = Task.updateTitle(updatedInstance, changes.title);
+        }
+
+        if (changes.description !== undefined) {
+          updatedInstance = Task.updateDescription(updatedInstance, changes.description);
+        }
+
+        if (changes.priority !== undefined) {
+          updatedInstance = Task.updatePriority(updatedInstance, changes.priority);
+        }
+
+        if (updatedInstance !== instance) {
+          const saved = await this.taskRepository.save(updatedInstance, false);
+          events.push(TaskEvent.create(operationId, saved.id, "updated", TaskEvent.diff(instance, saved)));
+        }
+      }
+      await this.taskEventRepository.append(events);
+    }
+
+    return updatedPattern;
+  }
+}
@@ -0,0 +1,32 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Reminder, type ScheduledReminder } from "../../../domain/models/Reminder";
+import { TaskNotFoundError } from "../../../domain/models/errors";
+import type { ReminderRepository } from "../../../domain/repositories/ReminderRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+
+type CreateReminderParams = {
+  readonly taskId: string;
+  readonly remindAt?: Date;
+  readonly minutesBeforeDue?: number;
+};
+
+@injectable()
+@singleton()
+export class CreateReminderUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("ReminderRepository") private readonly reminderRepository: ReminderRepository,
+  ) {}
+
+  async execute(params: CreateReminderParams): Promise<ScheduledReminder> {
+    const { taskId, remindAt = null, minutesBeforeDue = null } = params;
+
+    const task = await this.taskRepository.findById(taskId, 0);
+    if (!task) {
+      throw new TaskNotFoundError(taskId);
+    }
+
+    const reminder = await this.reminderRepository.save(Reminder.create(taskId, remindAt, minutesBeforeDue));
+    return Reminder.withSchedule(reminder, task.dueDate);
+  }
+}
@@ -0,0 +1,25 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { ReminderNotFoundError } from "../../../domain/models/errors";
+import type { ReminderRepository } from "../../../domain/repositories/ReminderRepository";
+
+type DeleteReminderParams = {
+  readonly taskId: string;
+  readonly id: string;
+};
+
+@injectable()
+@singleton()
+export class DeleteReminderUseCase {
+  constructor(@inject("ReminderRepository") private readonly reminderRepository: ReminderRepository) {}
+
+  async execute(params: DeleteReminderParams): Promise<void> {
+    const { taskId, id } = params;
+
+    const reminder = await this.reminderRepository.findById(id);
+    if (!reminder || reminder.taskId !== taskId) {
+      throw new ReminderNotFoundError(id);
+    }
+
+    await this.reminderRepository.delete(id);
+  }
+}
@@ -0,0 +1,39 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Reminder, type ScheduledReminder } from "../../../domain/models/Reminder";
+import { ReminderNotFoundError, TaskNotFoundError } from "../../../domain/models/errors";
+import type { ReminderRepository } from "../../../domain/repositories/ReminderRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+
+type DismissReminderParams = {
+  readonly taskId: string;
+  readonly id: string;
+};
+
+@injectable()
+@singleton()
+export class DismissReminderUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("ReminderRepository") private readonly reminderRepository: ReminderRepository,
+  ) {}
+
+  /**
+   * Turn a reminder off, whether or not it has fired yet
+   */
+  async execute(params: DismissReminderParams): Promise<ScheduledReminder> {
+    const { taskId, id } = params;
+
+    const task = await this.taskRepository.findById(taskId, 0);
+    if (!task) {
+      throw new TaskNotFoundError(taskId);
+    }
+
+    const reminder = await this.reminderRepository.findById(id);
+    if (!reminder || reminder.taskId !== taskId) {
+      throw new ReminderNotFoundError(id);
+    }
+
+    const saved = await this.reminderRepository.save(Reminder.dismiss(reminder));
+    return Reminder.withSchedule(saved, task.dueDate);
+  }
+}
@@ -0,0 +1,60 @@
+import { inject, injectAll, injectable, singleton } from "tsyringe";
+import { Reminder } from "../../../domain/models/Reminder";
+import { Workflow } from "../../../domain/models/Workflow";
+import type { ReminderRepository } from "../../../domain/repositories/ReminderRepository";
+import type { WorkflowRepository } from "../../../domain/repositories/WorkflowRepository";
+import type { Notifier } from "../../../domain/services/Notifier";
+
+/**
+ * Outcome of firing one reminder
+ */
+export type ReminderDelivery = {
+  readonly reminder: Reminder;
+  /**
+   * Notifiers that failed to deliver the reminder, with the reason
+   */
+  readonly failures: readonly { readonly notifier: string; readonly error: unknown }[];
+};
+
+@injectable()
+@singleton()
+export class FireDueRemindersUseCase {
+  constructor(
+    @inject("ReminderRepository") private readonly reminderRepository: ReminderRepository,
+    @injectAll("Notifier") private readonly notifiers: Notifier[],
+    @inject("WorkflowRepository") private readonly workflowRepository: WorkflowRepository,
+  ) {}
+
+  /**
+   * Send every pending reminder whose time has come, including ones missed while the server was down.
+   * A reminder is marked as fired even if some notifiers fail, so that it is not sent twice.
+   */
+  async execute(now: Date = new Date()): Promise<readonly ReminderDelivery[]> {
+    // Reminders of closed tasks are no longer needed
+    const workflow = await this.workflowRepository.find();
+    const pending = await this.reminderRepository.findPending(Workflow.statusesIn("open", workflow));
+    const due = pending.filter(({ reminder, task }) => {
+      const fireAt = Reminder.fireAt(reminder, task.dueDate);
+      return fireAt !== null && fireAt.getTime() <= now.getTime();
+    });
+
+    const deliveries: ReminderDelivery[] = [];
+    for (const { reminder, task } of due) {
+      const fired = await this.reminderRepository.save(Reminder.markAsFired(reminder, now));
+      const results = await Promise.allSettled(
+        this.notifiers.map((notifier) => notifier.notify({ reminder: fired, task, firedAt: now })),
+      );
+
+      deliveries.push({
+        reminder: fired,
+        failures: results.flatMap((result, index) =>
+          result.status === "rejected"
+            ? [{ notifier: this.notifiers[index]?.name ?? "unknown", error: result.reason }]
+            : [],
+        ),
+      });
+    }
+
+    return deliveries;
+  }
+}
@@ -0,0 +1,24 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Reminder, type ScheduledReminder } from "../../../domain/models/Reminder";
+import { TaskNotFoundError } from "../../../domain/models/errors";
+import type { ReminderRepository } from "../../../domain/repositories/ReminderRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+
+@injectable()
+@singleton()
+export class GetRemindersUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("ReminderRepository") private readonly reminderRepository: ReminderRepository,
+  ) {}
+
+  async execute(taskId: string): Promise<readonly ScheduledReminder[]> {
+    const task = await this.taskRepository.findById(taskId, 0);
+    if (!task) {
+      throw new TaskNotFoundError(taskId);
+    }
+
+    const reminders = await this.reminderRepository.findByTaskId(taskId);
+    return reminders.map((reminder) => Reminder.withSchedule(reminder, task.dueDate));
+  }
+}
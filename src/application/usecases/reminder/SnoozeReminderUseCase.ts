@@ -0,0 +1,43 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Reminder, type ScheduledReminder } from "../../../domain/models/Reminder";
+import { ReminderNotFoundError, TaskNotFoundError } from "../../../domain/models/errors";
+import type { ReminderRepository } from "../../../domain/repositories/ReminderRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+
+type SnoozeReminderParams = {
+  readonly taskId: string;
+  readonly id: string;
+  readonly minutes: number;
+};
+
+const MINUTE_IN_MS = 60 * 1000;
+
+@injectable()
+@singleton()
+export class SnoozeReminderUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("ReminderRepository") private readonly reminderRepository: ReminderRepository,
+  ) {}
+
+  /**
+   * Fire a reminder again the given number of minutes from now
+   */
+  async execute(params: SnoozeReminderParams, now: Date = new Date()): Promise<ScheduledReminder> {
+    const { taskId, id, minutes } = params;
+
+    const task = await this.taskRepository.findById(taskId, 0);
+    if (!task) {
+      throw new TaskNotFoundError(taskId);
+    }
+
+    const reminder = await this.reminderRepository.findById(id);
+    if (!reminder || reminder.taskId !== taskId) {
+      throw new ReminderNotFoundError(id);
+    }
+
+    const until = new Date(now.getTime() + minutes * MINUTE_IN_MS);
+    const saved = await this.reminderRepository.save(Reminder.snooze(reminder, until));
+    return Reminder.withSchedule(saved, task.dueDate);
+  }
+}
@@ -0,0 +1,41 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Reminder, type ScheduledReminder } from "../../../domain/models/Reminder";
+import { ReminderNotFoundError, TaskNotFoundError } from "../../../domain/models/errors";
+import type { ReminderRepository } from "../../../domain/repositories/ReminderRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+
+type UpdateReminderParams = {
+  readonly taskId: string;
+  readonly id: string;
+  readonly remindAt?: Date;
+  readonly minutesBeforeDue?: number;
+};
+
+@injectable()
+@singleton()
+export class UpdateReminderUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("ReminderRepository") private readonly reminderRepository: ReminderRepository,
+  ) {}
+
+  /**
+   * Change when a reminder fires, making it pending again
+   */
+  async execute(params: UpdateReminderParams): Promise<ScheduledReminder> {
+    const { taskId, id, remindAt = null, minutesBeforeDue = null } = params;
+
+    const task = await this.taskRepository.findById(taskId, 0);
+    if (!task) {
+      throw new TaskNotFoundError(taskId);
+    }
+
+    const reminder = await this.reminderRepository.findById(id);
+    if (!reminder || reminder.taskId !== taskId) {
+      throw new ReminderNotFoundError(id);
+    }
+
+    const saved = await this.reminderRepository.save(Reminder.reschedule(reminder, remindAt, minutesBeforeDue));
+    return Reminder.withSchedule(saved, task.dueDate);
+  }
+}
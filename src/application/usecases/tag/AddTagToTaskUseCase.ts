@@ -0,0 +1,38 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { Task } from "../../../domain/models/Task";
+import { TagNotFoundError, TaskNotFoundError } from "../../../domain/models/errors";
+import type { TagRepository } from "../../../domain/repositories/TagRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+
+type TaskTagParams = {
+  readonly taskId: string;
+  readonly tagId: string;
+};
+
+@injectable()
+@singleton()
+export class AddTagToTaskUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("TagRepository") private readonly tagRepository: TagRepository,
+  ) {}
+
+  async execute(params: TaskTagParams): Promise<Task> {
+    const { taskId, tagId } = params;
+
+    const task = await this.taskRepository.findById(taskId, 0);
+    if (!task) {
+      throw new TaskNotFoundError(taskId);
+    }
+
+    const tag = await this.tagRepository.findById(tagId);
+    if (!tag) {
+      throw new TagNotFoundError(tagId);
+    }
+
+    await this.tagRepository.attachToTask(taskId, tagId);
+
+    const updated = await this.taskRepository.findById(taskId);
+    return updated || task;
+  }
+}
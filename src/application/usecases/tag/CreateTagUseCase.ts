@@ -0,0 +1,30 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Tag } from "../../../domain/models/Tag";
+import type { Tag as TagType } from "../../../domain/models/Tag";
+import { DuplicateTagNameError } from "../../../domain/models/errors";
+import type { TagRepository } from "../../../domain/repositories/TagRepository";
+
+type CreateTagParams = {
+  readonly name: string;
+  readonly color?: string | null;
+};
+
+@injectable()
+@singleton()
+export class CreateTagUseCase {
+  constructor(@inject("TagRepository") private readonly tagRepository: TagRepository) {}
+
+  async execute(params: CreateTagParams): Promise<TagType> {
+    const { name, color = null } = params;
+
+    const tag = Tag.create(name, color);
+
+    // Tag names must be unique
+    const existing = await this.tagRepository.findByName(tag.name);
+    if (existing) {
+      throw new DuplicateTagNameError(tag.name);
+    }
+
+    return this.tagRepository.save(tag);
+  }
+}
@@ -0,0 +1,19 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { TagRepository } from "../../../domain/repositories/TagRepository";
+
+@injectable()
+@singleton()
+export class DeleteTagUseCase {
+  constructor(@inject("TagRepository") private readonly tagRepository: TagRepository) {}
+
+  async execute(id: string): Promise<boolean> {
+    const tag = await this.tagRepository.findById(id);
+
+    if (!tag) {
+      return false;
+    }
+
+    await this.tagRepository.delete(id);
+    return true;
+  }
+}
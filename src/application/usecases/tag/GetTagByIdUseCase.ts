@@ -0,0 +1,13 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { Tag } from "../../../domain/models/Tag";
+import type { TagRepository } from "../../../domain/repositories/TagRepository";
+
+@injectable()
+@singleton()
+export class GetTagByIdUseCase {
+  constructor(@inject("TagRepository") private readonly tagRepository: TagRepository) {}
+
+  async execute(id: string): Promise<Tag | null> {
+    return this.tagRepository.findById(id);
+  }
+}
@@ -0,0 +1,13 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { Tag } from "../../../domain/models/Tag";
+import type { TagRepository } from "../../../domain/repositories/TagRepository";
+
+@injectable()
+@singleton()
+export class GetTagsUseCase {
+  constructor(@inject("TagRepository") private readonly tagRepository: TagRepository) {}
+
+  async execute(): Promise<readonly Tag[]> {
+    return this.tagRepository.findAll();
+  }
+}
@@ -0,0 +1,44 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Tag } from "../../../domain/models/Tag";
+import type { Tag as TagType } from "../../../domain/models/Tag";
+import { DuplicateTagNameError } from "../../../domain/models/errors";
+import type { TagRepository } from "../../../domain/repositories/TagRepository";
+
+type UpdateTagParams = {
+  readonly id: string;
+  readonly name?: string;
+  readonly color?: string | null;
+};
+
+@injectable()
+@singleton()
+export class UpdateTagUseCase {
+  constructor(@inject("TagRepository") private readonly tagRepository: TagRepository) {}
+
+  async execute(params: UpdateTagParams): Promise<TagType | null> {
+    const { id, name, color } = params;
+
+    const tag = await this.tagRepository.findById(id);
+    if (!tag) {
+      return null;
+    }
+
+    let updatedTag = tag;
+
+    if (name !== undefined) {
+      updatedTag = Tag.updateName(updatedTag, name);
+
+      // Renaming must not collide with another tag
+      const existing = await this.tagRepository.findByName(updatedTag.name);
+      if (existing && existing.id !== id) {
+        throw new DuplicateTagNameError(updatedTag.name);
+      }
+    }
+
+    if (color !== undefined) {
+      updatedTag = Tag.updateColor(updatedTag, color);
+    }
+
+    return updatedTag === tag ? tag : this.tagRepository.save(updatedTag);
+  }
+}
@@ -0,0 +1,205 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { Task } from "../../../domain/models/Task";
+import {
+  CircularReferenceError,
+  InvalidDateRangeError,
+  InvalidStatusTransitionError,
+  OpenBlockersError,
+  ParentTaskNotFoundError,
+  SelfReferenceError,
+  TaskNotFoundError,
+  TaskVersionMismatchError,
+} from "../../../domain/models/errors";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+import type { WorkflowRepository } from "../../../domain/repositories/WorkflowRepository";
+import type { CreateTaskParams, CreateTaskUseCase } from "./CreateTaskUseCase";
+import type { DeleteTaskUseCase } from "./DeleteTaskUseCase";
+import type { MoveTaskUseCase } from "./MoveTaskUseCase";
+import type { UpdateTaskParams, UpdateTaskUseCase } from "./UpdateTaskUseCase";
+
+/**
+ * - allOrNothing: the first failing operation rolls back every operation of the request
+ * - bestEffort: failing operations are left out, the others are applied
+ */
+export type BulkMode = "allOrNothing" | "bestEffort";
+
+export type BulkOperation =
+  | ({ readonly type: "create" } & CreateTaskParams)
+  | ({ readonly type: "update" } & UpdateTaskParams)
+  | { readonly type: "delete"; readonly id: string; readonly expectedVersion?: number }
+  | {
+      readonly type: "move";
+      readonly id: string;
+      readonly newParentId: string | null;
+      readonly expectedVersion?: number;
+    }
+  | { readonly type: "complete"; readonly id: string; readonly expectedVersion?: number }
+  | { readonly type: "uncomplete"; readonly id: string };
+
+/**
+ * - succeeded: the operation was applied
+ * - failed: the operation could not be applied
+ * - rolledBack: the operation succeeded, but was undone because a later one failed
+ * - skipped: the operation was not attempted because an earlier one failed
+ */
+export type BulkOperationStatus = "succeeded" | "failed" | "rolledBack" | "skipped";
+
+/**
+ * Outcome of one operation, with the affected task after a successful create, update, move or completion
+ */
+export type BulkOperationResult = Readonly<{
+  index: number;
+  type: BulkOperation["type"];
+  status: BulkOperationStatus;
+  task?: Task;
+  error?: string;
+}>;
+
+export type BulkResult = Readonly<{
+  succeeded: boolean;
+  results: readonly BulkOperationResult[];
+}>;
+
+@injectable()
+@singleton()
+export class BulkTaskOperationsUseCase {
+  constructor(
+    @inject("CreateTaskUseCase") private readonly createTaskUseCase: CreateTaskUseCase,
+    @inject("UpdateTaskUseCase") private readonly updateTaskUseCase: UpdateTaskUseCase,
+    @inject("MoveTaskUseCase") private readonly moveTaskUseCase: MoveTaskUseCase,
+    @inject("DeleteTaskUseCase") private readonly deleteTaskUseCase: DeleteTaskUseCase,
+    @inject("TransactionManager") private readonly transactionManager: TransactionManager,
+    @inject("WorkflowRepository") private readonly workflowRepository: WorkflowRepository,
+  ) {}
+
+  /**
+   * Apply the operations in order in a single transaction.
+   * Errors other than a rejected operation abort the whole request in either mode.
+   */
+  async execute(operations: readonly BulkOperation[], mode: BulkMode = "allOrNothing"): Promise<BulkResult> {
+    return mode === "allOrNothing" ? this.runAllOrNothing(operations) : this.runBestEffort(operations);
+  }
+
+  private async runAllOrNothing(operations: readonly BulkOperation[]): Promise<BulkResult> {
+    const results: BulkOperationResult[] = [];
+
+    try {
+      await this.transactionManager.runInTransaction(async () => {
+        for (const [index, operation] of operations.entries()) {
+          results.push(this.toSuccess(index, operation, await this.runOperation(operation)));
+        }
+      });
+      return { succeeded: true, results };
+    } catch (error) {
+      if (!this.isRejection(error)) {
+        throw error;
+      }
+
+      const failedIndex = results.length;
+      return {
+        succeeded: false,
+        results: operations.map((operation, index): BulkOperationResult => {
+          if (index < failedIndex) {
+            return { index, type: operation.type, status: "rolledBack" };
+          }
+          return index === failedIndex
+            ? { index, type: operation.type, status: "failed", error: error.message }
+            : { index, type: operation.type, status: "skipped" };
+        }),
+      };
+    }
+  }
+
+  private async runBestEffort(operations: readonly BulkOperation[]): Promise<BulkResult> {
+    return this.transactionManager.runInTransaction(async () => {
+      const results: BulkOperationResult[] = [];
+
+      // Every use case runs in a nested transaction, so a failed operation leaves no partial changes
+      for (const [index, operation] of operations.entries()) {
+        try {
+          results.push(this.toSuccess(index, operation, await this.runOperation(operation)));
+        } catch (error) {
+          if (!this.isRejection(error)) {
+            throw error;
+          }
+          results.push({ index, type: operation.type, status: "failed", error: error.message });
+        }
+      }
+
+      return { succeeded: results.every((result) => result.status === "succeeded"), results };
+    });
+  }
+
+  private async runOperation(operation: BulkOperation): Promise<Task | null> {
+    switch (operation.type) {
+      case "create": {
+        const { type, ...params } = operation;
+        return this.createTaskUseCase.execute(params);
+      }
+      case "update": {
+        const { type, ...params } = operation;
+        return this.requireTask(operation.id, await this.updateTaskUseCase.execute(params));
+      }
+      case "complete": {
+        const { id, expectedVersion } = operation;
+        const { completedStatus: status } = await this.workflowRepository.find();
+        return this.requireTask(
+          id,
+          await this.updateTaskUseCase.execute({
+            id,
+            status,
+            ...(expectedVersion !== undefined && { expectedVersion }),
+          }),
+        );
+      }
+      case "uncomplete": {
+        const { initialStatus: status } = await this.workflowRepository.find();
+        return this.requireTask(operation.id, await this.updateTaskUseCase.execute({ id: operation.id, status }));
+      }
+      case "move": {
+        const { id, newParentId, expectedVersion } = operation;
+        return this.requireTask(
+          id,
+          await this.moveTaskUseCase.execute({
+            taskId: id,
+            newParentId,
+            ...(expectedVersion !== undefined && { expectedVersion }),
+          }),
+        );
+      }
+      case "delete": {
+        if (!(await this.deleteTaskUseCase.execute(operation.id, operation.expectedVersion))) {
+          throw new TaskNotFoundError(operation.id);
+        }
+        return null;
+      }
+    }
+  }
+
+  private requireTask(id: string, task: Task | null): Task {
+    if (!task) {
+      throw new TaskNotFoundError(id);
+    }
+    return task;
+  }
+
+  private toSuccess(index: number, operation: BulkOperation, task: Task | null): BulkOperationResult {
+    return { index, type: operation.type, status: "succeeded", ...(task && { task }) };
+  }
+
+  /**
+   * Whether the error means the operation itself was invalid, rather than something going wrong on the server
+   */
+  private isRejection(error: unknown): error is Error {
+    return (
+      error instanceof TaskNotFoundError ||
+      error instanceof ParentTaskNotFoundError ||
+      error instanceof SelfReferenceError ||
+      error instanceof CircularReferenceError ||
+      error instanceof InvalidDateRangeError ||
+      error instanceof InvalidStatusTransitionError ||
+      error instanceof OpenBlockersError ||
+      error instanceof TaskVersionMismatchError
+    );
+  }
+}
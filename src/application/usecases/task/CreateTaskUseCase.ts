@@ -1,35 +1,91 @@
 import { inject, injectable, singleton } from "tsyringe";
 import { Task } from "../../../domain/models/Task";
-import type { Task as TaskType } from "../../../domain/models/Task";
+import type { TaskPriority, Task as TaskType } from "../../../domain/models/Task";
+import { TaskEvent } from "../../../domain/models/TaskEvent";
 import { ParentTaskNotFoundError } from "../../../domain/models/errors";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
 import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+import type { WorkflowRepository } from "../../../domain/repositories/WorkflowRepository";
+import type { PropagateStatusUseCase } from "./PropagateStatusUseCase";
 
-type CreateTaskParams = {
+export type CreateTaskParams = {
   title: string;
   description?: string | null;
   parentId?: string | null;
+  priority?: TaskPriority;
+  dueDate?: Date | null;
+  startDate?: Date | null;
+  recurringPatternId?: string | null;
+  instanceDate?: Date | null;
 };
 
 @injectable()
 @singleton()
 export class CreateTaskUseCase {
-  constructor(@inject("TaskRepository") private taskRepository: TaskRepository) {}
+  constructor(
+    @inject("TaskRepository") private taskRepository: TaskRepository,
+    @inject("TaskEventRepository") private taskEventRepository: TaskEventRepository,
+    @inject("PropagateStatusUseCase") private propagateStatusUseCase: PropagateStatusUseCase,
+    @inject("TransactionManager") private transactionManager: TransactionManager,
+    @inject("WorkflowRepository") private workflowRepository: WorkflowRepository,
+  ) {}
 
   async execute(params: CreateTaskParams): Promise<TaskType> {
-    const { title, description = null, parentId = null } = params;
+    return this.transactionManager.runInTransaction(() => this.createTask(params));
+  }
+
+  private async createTask(params: CreateTaskParams): Promise<TaskType> {
+    const {
+      title,
+      description = null,
+      parentId = null,
+      priority = "medium",
+      dueDate = null,
+      startDate = null,
+      recurringPatternId = null,
+      instanceDate = null,
+    } = params;
 
     // Validate parent exists if parentId is provided
-    if (parentId) {
-      const parent = await this.taskRepository.findById(parentId);
-      if (!parent) {
-        throw new ParentTaskNotFoundError(parentId);
-      }
+    if (parentId && !(await this.taskRepository.findById(parentId, 0))) {
+      throw new ParentTaskNotFoundError(parentId);
     }
+    const siblings = await this.taskRepository.findSiblings(parentId);
+
+    // New tasks are appended after their siblings
+    const order = siblings.length > 0 ? Math.max(...siblings.map((sibling) => sibling.order)) + 1 : 1;
+
+    // Create task with provided parameters, starting out in the initial status of the workflow
+    const workflow = await this.workflowRepository.find();
+    const task = Task.create(
+      title,
+      parentId,
+      description,
+      undefined,
+      workflow.initialStatus,
+      order,
+      undefined,
+      undefined,
+      [],
+      {
+        priority,
+        rankKey: Task.rankAfter(siblings),
+        dueDate,
+        startDate,
+        recurringPatternId,
+        instanceDate,
+      },
+    );
 
-    // Create task with provided parameters
-    const task = Task.create(title, parentId, description);
+    // Save to repository and record the creation in the history
+    const savedTask = await this.taskRepository.save(task);
+    const operationId = TaskEvent.createOperationId();
+    await this.taskEventRepository.append([
+      TaskEvent.create(operationId, savedTask.id, "created", TaskEvent.diff(null, savedTask)),
+    ]);
+    await this.propagateStatusUseCase.execute(parentId, operationId);
 
-    // Save to repository
-    return this.taskRepository.save(task);
+    return savedTask;
   }
 }
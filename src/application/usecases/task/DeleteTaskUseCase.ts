@@ -1,19 +1,44 @@
 import { inject, injectable, singleton } from "tsyringe";
+import { Task } from "../../../domain/models/Task";
+import { TaskEvent } from "../../../domain/models/TaskEvent";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
 import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+import type { PropagateStatusUseCase } from "./PropagateStatusUseCase";
 
 @injectable()
 @singleton()
 export class DeleteTaskUseCase {
-  constructor(@inject("TaskRepository") private taskRepository: TaskRepository) {}
+  constructor(
+    @inject("TaskRepository") private taskRepository: TaskRepository,
+    @inject("TaskEventRepository") private taskEventRepository: TaskEventRepository,
+    @inject("PropagateStatusUseCase") private propagateStatusUseCase: PropagateStatusUseCase,
+    @inject("TransactionManager") private transactionManager: TransactionManager,
+  ) {}
 
-  async execute(id: string): Promise<boolean> {
-    const task = await this.taskRepository.findById(id, false);
+  /**
+   * Move a task and its subtasks to the trash, failing when the task is no longer at the expected version
+   */
+  async execute(id: string, expectedVersion?: number): Promise<boolean> {
+    return this.transactionManager.runInTransaction(() => this.deleteTask(id, expectedVersion));
+  }
+
+  private async deleteTask(id: string, expectedVersion: number | undefined): Promise<boolean> {
+    const task = await this.taskRepository.findById(id, 0);
 
     if (!task) {
       return false;
     }
+    Task.checkVersion(task, expectedVersion);
+
+    const deletedAt = new Date();
+    await this.taskRepository.trash(id, deletedAt);
+    const operationId = TaskEvent.createOperationId();
+    await this.taskEventRepository.append([
+      TaskEvent.create(operationId, id, "deleted", TaskEvent.diff(task, { ...task, deletedAt })),
+    ]);
+    await this.propagateStatusUseCase.execute(task.parentId, operationId);
 
-    await this.taskRepository.delete(id);
     return true;
   }
 }
@@ -0,0 +1,132 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Rank } from "../../../domain/models/Rank";
+import { type DuplicateOptions, Task } from "../../../domain/models/Task";
+import type { Task as TaskType } from "../../../domain/models/Task";
+import { TaskEvent } from "../../../domain/models/TaskEvent";
+import { ParentTaskNotFoundError, TaskNotFoundError } from "../../../domain/models/errors";
+import type { TagRepository } from "../../../domain/repositories/TagRepository";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+import type { WorkflowRepository } from "../../../domain/repositories/WorkflowRepository";
+import type { PropagateStatusUseCase } from "./PropagateStatusUseCase";
+
+export type DuplicateTaskParams = DuplicateOptions & {
+  id: string;
+  /**
+   * Parent of the copy; the copy stays next to the original when omitted
+   */
+  parentId?: string | null;
+};
+
+@injectable()
+@singleton()
+export class DuplicateTaskUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("TagRepository") private readonly tagRepository: TagRepository,
+    @inject("TaskEventRepository") private readonly taskEventRepository: TaskEventRepository,
+    @inject("PropagateStatusUseCase") private readonly propagateStatusUseCase: PropagateStatusUseCase,
+    @inject("TransactionManager") private readonly transactionManager: TransactionManager,
+    @inject("WorkflowRepository") private readonly workflowRepository: WorkflowRepository,
+  ) {}
+
+  async execute(params: DuplicateTaskParams): Promise<TaskType> {
+    return this.transactionManager.runInTransaction(() => this.duplicateTask(params));
+  }
+
+  private async duplicateTask(params: DuplicateTaskParams): Promise<TaskType> {
+    const { id, resetStatus, titleSuffix } = params;
+
+    const source = await this.taskRepository.findById(id);
+    if (!source) {
+      throw new TaskNotFoundError(id);
+    }
+
+    const parentId = params.parentId === undefined ? source.parentId : params.parentId;
+
+    let order: number;
+    let rankKey: string;
+    // Siblings after the original make room for the copy and are recorded as reordered
+    let shiftedSiblings: readonly TaskType[] = [];
+    if (parentId === source.parentId) {
+      // The copy takes the slot right after the original
+      order = source.order + 1;
+      const siblings = await this.findSiblings(parentId);
+      const next = [...siblings]
+        .sort(Task.compareSiblings)
+        .find((sibling) => Task.compareSiblings(sibling, source) > 0);
+      rankKey = Rank.between(source.rankKey, next ? next.rankKey : null);
+      shiftedSiblings = siblings.filter((sibling) => sibling.order >= order);
+      await this.taskRepository.shiftSiblings(parentId, order);
+    } else {
+      const siblings = await this.findSiblings(parentId);
+      order = siblings.length > 0 ? Math.max(...siblings.map((sibling) => sibling.order)) + 1 : 1;
+      rankKey = Task.rankAfter(siblings);
+    }
+
+    const workflow = await this.workflowRepository.find();
+    const copy = {
+      ...Task.duplicate(
+        source,
+        parentId,
+        order,
+        {
+          ...(resetStatus !== undefined && { resetStatus }),
+          ...(titleSuffix !== undefined && { titleSuffix }),
+        },
+        workflow,
+      ),
+      rankKey,
+    };
+    await this.taskRepository.save(copy);
+
+    // Tags are attached separately from the tasks themselves
+    for (const task of Task.getTaskHierarchy(copy)) {
+      for (const tag of task.tags) {
+        await this.tagRepository.attachToTask(task.id, tag.id);
+      }
+    }
+
+    const saved = (await this.taskRepository.findById(copy.id)) ?? copy;
+
+    const operationId = TaskEvent.createOperationId();
+    const renumbered = await this.findRenumbered(shiftedSiblings, parentId);
+    await this.taskEventRepository.append([
+      ...Task.getTaskHierarchy(saved).map((task) =>
+        TaskEvent.create(operationId, task.id, "created", TaskEvent.diff(null, task)),
+      ),
+      ...renumbered.map(({ before, after }) =>
+        TaskEvent.create(operationId, after.id, "reordered", TaskEvent.diff(before, after)),
+      ),
+    ]);
+    await this.propagateStatusUseCase.execute(parentId, operationId);
+
+    return saved;
+  }
+
+  private async findSiblings(parentId: string | null): Promise<readonly TaskType[]> {
+    if (parentId && !(await this.taskRepository.findById(parentId, 0))) {
+      throw new ParentTaskNotFoundError(parentId);
+    }
+    return this.taskRepository.findSiblings(parentId);
+  }
+
+  /**
+   * The given siblings under the parent whose order changed, as they were and as they are now
+   */
+  private async findRenumbered(
+    siblings: readonly TaskType[],
+    parentId: string | null,
+  ): Promise<{ before: TaskType; after: TaskType }[]> {
+    if (siblings.length === 0) {
+      return [];
+    }
+
+    const current = new Map((await this.taskRepository.findSiblings(parentId)).map((sibling) => [sibling.id, sibling]));
+    return siblings.flatMap((before) => {
+      const after = current.get(before.id);
+      return after && after.order !== before.order ? [{ before, after }] : [];
+    });
+  }
+}
@@ -0,0 +1,36 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { TaskWithPath } from "../../../domain/models/Task";
+import { Workflow } from "../../../domain/models/Workflow";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { WorkflowRepository } from "../../../domain/repositories/WorkflowRepository";
+
+export type GetDueTasksParams = {
+  readonly from?: Date;
+  readonly to?: Date;
+  /**
+   * Whether tasks in a closed status should be included
+   */
+  readonly includeCompleted?: boolean;
+};
+
+@injectable()
+@singleton()
+export class GetDueTasksUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("WorkflowRepository") private readonly workflowRepository: WorkflowRepository,
+  ) {}
+
+  async execute(params: GetDueTasksParams): Promise<readonly TaskWithPath[]> {
+    const { from, to, includeCompleted = false } = params;
+    const workflow = await this.workflowRepository.find();
+    const tasks = await this.taskRepository.findByDueDate({
+      ...(from && { from }),
+      ...(to && { to }),
+      ...(!includeCompleted && { statuses: Workflow.statusesIn("open", workflow) }),
+    });
+
+    const paths = await this.taskRepository.findPaths(tasks.map((task) => task.id));
+    return tasks.map((task) => ({ ...task, path: paths.get(task.id) ?? [] }));
+  }
+}
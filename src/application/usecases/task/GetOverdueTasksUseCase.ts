@@ -0,0 +1,28 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Task } from "../../../domain/models/Task";
+import type { TaskWithPath } from "../../../domain/models/Task";
+import { Workflow } from "../../../domain/models/Workflow";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { WorkflowRepository } from "../../../domain/repositories/WorkflowRepository";
+
+@injectable()
+@singleton()
+export class GetOverdueTasksUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("WorkflowRepository") private readonly workflowRepository: WorkflowRepository,
+  ) {}
+
+  async execute(now: Date = new Date()): Promise<readonly TaskWithPath[]> {
+    // Search the whole hierarchy, completed tasks are never overdue
+    const workflow = await this.workflowRepository.find();
+    const candidates = await this.taskRepository.findByDueDate({
+      to: now,
+      statuses: Workflow.statusesIn("open", workflow),
+    });
+    const overdueTasks = candidates.filter((task) => Task.isOverdue(task, now, workflow));
+
+    const paths = await this.taskRepository.findPaths(overdueTasks.map((task) => task.id));
+    return overdueTasks.map((task) => ({ ...task, path: paths.get(task.id) ?? [] }));
+  }
+}
@@ -1,16 +1,26 @@
 import { inject, injectable, singleton } from "tsyringe";
-import type { Task } from "../../../domain/models/Task";
-import type { PaginationParams, TaskRepository } from "../../../domain/repositories/TaskRepository";
+import { TaskNotFoundError } from "../../../domain/models/errors";
+import type {
+  PaginationParams,
+  TaskFilter,
+  TaskPage,
+  TaskRepository,
+} from "../../../domain/repositories/TaskRepository";
 
 @injectable()
 @singleton()
 export class GetRootTasksUseCase {
   constructor(@inject("TaskRepository") private readonly taskRepository: TaskRepository) {}
 
-  async execute(params?: PaginationParams): Promise<readonly Task[]> {
-    if (params) {
-      return this.taskRepository.findRootTasksWithPagination(params);
+  /**
+   * List one page of root tasks, or of the subtasks of `filter.parentId`,
+   * with their subtasks loaded `depth` levels deep, all of them by default
+   */
+  async execute(params: PaginationParams, filter: TaskFilter = {}, depth?: number): Promise<TaskPage> {
+    if (filter.parentId !== undefined && !(await this.taskRepository.findById(filter.parentId, 0))) {
+      throw new TaskNotFoundError(filter.parentId);
     }
-    return this.taskRepository.findRootTasks();
+
+    return this.taskRepository.findTasksWithPagination(params, filter, depth);
   }
 }
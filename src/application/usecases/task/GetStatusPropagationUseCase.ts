@@ -0,0 +1,31 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { type StatusPropagationSetting, Task } from "../../../domain/models/Task";
+import { TaskNotFoundError } from "../../../domain/models/errors";
+import type { StatusPropagationPolicyRepository } from "../../../domain/repositories/StatusPropagationPolicyRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+
+@injectable()
+@singleton()
+export class GetStatusPropagationUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("StatusPropagationPolicyRepository")
+    private readonly statusPropagationPolicyRepository: StatusPropagationPolicyRepository,
+  ) {}
+
+  /**
+   * Find the status propagation policy of the tree a task belongs to
+   */
+  async execute(taskId: string): Promise<StatusPropagationSetting> {
+    const task = await this.taskRepository.findById(taskId, 0);
+    if (!task) {
+      throw new TaskNotFoundError(taskId);
+    }
+
+    const rootId = (await this.taskRepository.findAncestors(taskId))[0]?.id ?? taskId;
+    const policy =
+      (await this.statusPropagationPolicyRepository.findByRootId(rootId)) ?? Task.defaultStatusPropagationPolicy;
+
+    return { rootId, policy };
+  }
+}
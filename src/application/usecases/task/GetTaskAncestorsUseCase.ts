@@ -0,0 +1,21 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { Task } from "../../../domain/models/Task";
+import { TaskNotFoundError } from "../../../domain/models/errors";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+
+@injectable()
+@singleton()
+export class GetTaskAncestorsUseCase {
+  constructor(@inject("TaskRepository") private readonly taskRepository: TaskRepository) {}
+
+  /**
+   * Find the ancestors of a task, ordered from the root down to its direct parent
+   */
+  async execute(id: string): Promise<readonly Task[]> {
+    if (!(await this.taskRepository.findById(id, 0))) {
+      throw new TaskNotFoundError(id);
+    }
+
+    return this.taskRepository.findAncestors(id);
+  }
+}
@@ -1,5 +1,5 @@
 import { inject, injectable, singleton } from "tsyringe";
-import type { Task } from "../../../domain/models/Task";
+import type { Task, TaskWithPath } from "../../../domain/models/Task";
 import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
 
 @injectable()
@@ -7,7 +7,16 @@ import type { TaskRepository } from "../../../domain/repositories/TaskRepository
 export class GetTaskByIdUseCase {
   constructor(@inject("TaskRepository") private taskRepository: TaskRepository) {}
 
-  async execute(id: string): Promise<Task | null> {
-    return this.taskRepository.findById(id, true);
+  /**
+   * Find a task with its subtasks loaded `depth` levels deep, all of them by default.
+   * With `includePath`, the task comes with the path of its ancestors.
+   */
+  async execute(id: string, depth?: number, includePath = false): Promise<Task | TaskWithPath | null> {
+    const task = await this.taskRepository.findById(id, depth);
+    if (!task || !includePath) {
+      return task;
+    }
+
+    return { ...task, path: await this.taskRepository.findPath(id) };
   }
 }
@@ -0,0 +1,13 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { Workflow } from "../../../domain/models/Workflow";
+import type { WorkflowRepository } from "../../../domain/repositories/WorkflowRepository";
+
+@injectable()
+@singleton()
+export class GetWorkflowUseCase {
+  constructor(@inject("WorkflowRepository") private readonly workflowRepository: WorkflowRepository) {}
+
+  async execute(): Promise<Workflow> {
+    return this.workflowRepository.find();
+  }
+}
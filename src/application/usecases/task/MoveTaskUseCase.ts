@@ -1,31 +1,69 @@
 import { inject, injectable, singleton } from "tsyringe";
-import type { Task } from "../../../domain/models/Task";
+import { Task } from "../../../domain/models/Task";
+import type { Task as TaskType } from "../../../domain/models/Task";
+import { TaskEvent } from "../../../domain/models/TaskEvent";
 import {
   CircularReferenceError,
+  InvalidOrderError,
   ParentTaskNotFoundError,
   SelfReferenceError,
   TaskNotFoundError,
 } from "../../../domain/models/errors";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
 import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+import type { PropagateStatusUseCase } from "./PropagateStatusUseCase";
+import type { RebalanceRanksUseCase } from "./RebalanceRanksUseCase";
 
 type MoveTaskParams = {
   taskId: string;
   newParentId: string | null;
+  /**
+   * Position among the new siblings; the task goes last when no position is given
+   */
+  index?: number;
+  /**
+   * New sibling the task is placed right before
+   */
+  before?: string;
+  /**
+   * New sibling the task is placed right after
+   */
+  after?: string;
+  /**
+   * Version of the task the move is based on; the move fails when the task has changed since
+   */
+  expectedVersion?: number;
 };
 
 @injectable()
 @singleton()
 export class MoveTaskUseCase {
-  constructor(@inject("TaskRepository") private taskRepository: TaskRepository) {}
+  constructor(
+    @inject("TaskRepository") private taskRepository: TaskRepository,
+    @inject("TaskEventRepository") private taskEventRepository: TaskEventRepository,
+    @inject("PropagateStatusUseCase") private propagateStatusUseCase: PropagateStatusUseCase,
+    @inject("RebalanceRanksUseCase") private rebalanceRanksUseCase: RebalanceRanksUseCase,
+    @inject("TransactionManager") private transactionManager: TransactionManager,
+  ) {}
 
-  async execute(params: MoveTaskParams): Promise<Task | null> {
+  /**
+   * Move a task under another parent, or to another position under the same one.
+   * The siblings it leaves and the siblings it joins are renumbered in the same operation.
+   */
+  async execute(params: MoveTaskParams): Promise<TaskType | null> {
+    return this.transactionManager.runInTransaction(() => this.moveTask(params));
+  }
+
+  private async moveTask(params: MoveTaskParams): Promise<TaskType | null> {
     const { taskId, newParentId } = params;
 
     // Validate that task exists
-    const task = await this.taskRepository.findById(taskId);
+    const task = await this.taskRepository.findById(taskId, 0);
     if (!task) {
       throw new TaskNotFoundError(taskId);
     }
+    Task.checkVersion(task, params.expectedVersion);
 
     // Check for self-reference
     if (newParentId === taskId) {
@@ -34,7 +72,7 @@ export class MoveTaskUseCase {
 
     // Validate parent exists if newParentId is provided
     if (newParentId) {
-      const parent = await this.taskRepository.findById(newParentId);
+      const parent = await this.taskRepository.findById(newParentId, 0);
       if (!parent) {
         throw new ParentTaskNotFoundError(newParentId);
       }
@@ -48,26 +86,104 @@ export class MoveTaskUseCase {
       }
     }
 
-    // Move task using repository
-    return await this.taskRepository.moveTask(taskId, newParentId);
+    let siblings = await this.findSortedSiblings(taskId, newParentId);
+    const index = await this.findIndex(siblings, params);
+
+    // Siblings sharing a rank leave no room between them until they are ranked apart
+    const previous = siblings[index - 1]?.rankKey ?? "";
+    const next = siblings[index]?.rankKey;
+    if (next !== undefined && previous >= next) {
+      await this.rebalanceRanksUseCase.execute([newParentId]);
+      siblings = await this.findSortedSiblings(taskId, newParentId);
+    }
+
+    // Siblings on both ends are renumbered, so record their orders along with the task's new position
+    const formerSiblings = newParentId === task.parentId ? [] : await this.findSortedSiblings(taskId, task.parentId);
+
+    const movedTask = await this.taskRepository.moveTask(taskId, newParentId, index);
+    if (movedTask) {
+      const operationId = TaskEvent.createOperationId();
+      const renumbered = [
+        ...(await this.findRenumbered(formerSiblings, task.parentId)),
+        ...(await this.findRenumbered(siblings, newParentId)),
+      ];
+      await this.taskEventRepository.append([
+        TaskEvent.create(
+          operationId,
+          taskId,
+          newParentId === task.parentId ? "reordered" : "moved",
+          TaskEvent.diff(task, movedTask),
+        ),
+        ...renumbered.map(({ before, after }) =>
+          TaskEvent.create(operationId, after.id, "reordered", TaskEvent.diff(before, after)),
+        ),
+      ]);
+
+      // Both the former and the new parent have a different set of subtasks now
+      await this.propagateStatusUseCase.execute(task.parentId, operationId);
+      await this.propagateStatusUseCase.execute(newParentId, operationId);
+      return this.taskRepository.findById(taskId);
+    }
+
+    return movedTask;
   }
 
-  private async checkForCircularReference(parentId: string, taskId: string): Promise<boolean> {
-    // Check if parentId is a descendant of taskId
-    const parent = await this.taskRepository.findById(parentId, false);
+  /**
+   * Index among the new siblings the task is moved to
+   */
+  private async findIndex(siblings: readonly TaskType[], params: MoveTaskParams): Promise<number> {
+    const { taskId, index, before, after } = params;
+    if ([index, before, after].filter((position) => position !== undefined).length > 1) {
+      throw new InvalidOrderError("Only one of index, before and after can be given");
+    }
+    if (index !== undefined) {
+      return Math.min(index, siblings.length);
+    }
 
-    if (!parent) {
-      return false;
+    const sibling = before ?? after;
+    if (sibling === undefined) {
+      return siblings.length;
+    }
+    if (sibling === taskId) {
+      throw new InvalidOrderError(`Task ${sibling} cannot be placed next to itself`);
     }
 
-    if (parent.parentId === taskId) {
-      return true;
+    const siblingIndex = siblings.findIndex((candidate) => candidate.id === sibling);
+    if (siblingIndex === -1) {
+      if (!(await this.taskRepository.findById(sibling, 0))) {
+        throw new TaskNotFoundError(sibling);
+      }
+      throw new InvalidOrderError(`Task ${sibling} is not a subtask of ${params.newParentId ?? "the root"}`);
     }
+    return after !== undefined ? siblingIndex + 1 : siblingIndex;
+  }
 
-    if (parent.parentId) {
-      return this.checkForCircularReference(parent.parentId, taskId);
+  private async findSortedSiblings(taskId: string, parentId: string | null): Promise<TaskType[]> {
+    const siblings = await this.taskRepository.findSiblings(parentId);
+    return siblings.filter((sibling) => sibling.id !== taskId);
+  }
+
+  /**
+   * The given siblings under the parent whose order changed, as they were and as they are now
+   */
+  private async findRenumbered(
+    siblings: readonly TaskType[],
+    parentId: string | null,
+  ): Promise<{ before: TaskType; after: TaskType }[]> {
+    if (siblings.length === 0) {
+      return [];
     }
 
-    return false;
+    const current = new Map((await this.taskRepository.findSiblings(parentId)).map((sibling) => [sibling.id, sibling]));
+    return siblings.flatMap((before) => {
+      const after = current.get(before.id);
+      return after && after.order !== before.order ? [{ before, after }] : [];
+    });
+  }
+
+  private async checkForCircularReference(parentId: string, taskId: string): Promise<boolean> {
+    // The move is circular when the task is the new parent's ancestor
+    const ancestors = await this.taskRepository.findAncestors(parentId);
+    return ancestors.some((ancestor) => ancestor.id === taskId);
   }
 }
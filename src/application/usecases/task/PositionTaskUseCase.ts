@@ -0,0 +1,215 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Rank } from "../../../domain/models/Rank";
+import { Task } from "../../../domain/models/Task";
+import type { Task as TaskType } from "../../../domain/models/Task";
+import { TaskEvent } from "../../../domain/models/TaskEvent";
+import {
+  CircularReferenceError,
+  InvalidOrderError,
+  ParentTaskNotFoundError,
+  SelfReferenceError,
+  TaskNotFoundError,
+} from "../../../domain/models/errors";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+import type { PropagateStatusUseCase } from "./PropagateStatusUseCase";
+import type { RebalanceRanksUseCase } from "./RebalanceRanksUseCase";
+
+export type PositionTaskParams = {
+  taskId: string;
+  /**
+   * Sibling the task is placed right before
+   */
+  before?: string;
+  /**
+   * Sibling the task is placed right after
+   */
+  after?: string;
+  /**
+   * Parent to place the task under; defaults to the parent of the given siblings, or the current parent
+   */
+  parentId?: string | null;
+  /**
+   * Version the task has to be at; the task is left as it is otherwise
+   */
+  expectedVersion?: number;
+};
+
+@injectable()
+@singleton()
+export class PositionTaskUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("TaskEventRepository") private readonly taskEventRepository: TaskEventRepository,
+    @inject("PropagateStatusUseCase") private readonly propagateStatusUseCase: PropagateStatusUseCase,
+    @inject("RebalanceRanksUseCase") private readonly rebalanceRanksUseCase: RebalanceRanksUseCase,
+    @inject("TransactionManager") private readonly transactionManager: TransactionManager,
+  ) {}
+
+  /**
+   * Place a task before or after a sibling, or last under a parent when no sibling is given.
+   * The task gets a rank between its new neighbours; the siblings on both ends are renumbered to match.
+   */
+  async execute(params: PositionTaskParams): Promise<TaskType> {
+    return this.transactionManager.runInTransaction(() => this.positionTask(params));
+  }
+
+  private async positionTask(params: PositionTaskParams): Promise<TaskType> {
+    const { taskId, before, after } = params;
+
+    const task = await this.taskRepository.findById(taskId, 0);
+    if (!task) {
+      throw new TaskNotFoundError(taskId);
+    }
+    Task.checkVersion(task, params.expectedVersion);
+
+    const beforeTask = before === undefined ? null : await this.findNeighbour(task, before);
+    const afterTask = after === undefined ? null : await this.findNeighbour(task, after);
+    const parentId = params.parentId !== undefined ? params.parentId : (beforeTask ?? afterTask ?? task).parentId;
+
+    for (const neighbour of [beforeTask, afterTask]) {
+      if (neighbour && neighbour.parentId !== parentId) {
+        throw new InvalidOrderError(`Task ${neighbour.id} is not a subtask of ${parentId ?? "the root"}`);
+      }
+    }
+
+    if (parentId !== task.parentId) {
+      await this.checkParent(taskId, parentId);
+    }
+
+    // Siblings on both ends as they were, to record every one whose position changes along with the task
+    const previousSiblings = new Map(
+      [
+        ...(await this.findSiblings(taskId, task.parentId)),
+        ...(parentId !== task.parentId ? await this.findSiblings(taskId, parentId) : []),
+      ].map((sibling) => [sibling.id, sibling]),
+    );
+
+    let current = task;
+    let rank = await this.findRank(taskId, parentId, beforeTask, afterTask);
+    if (rank === null) {
+      // Siblings sharing a rank leave no room between them until they are ranked apart
+      await this.rebalanceRanksUseCase.execute([parentId]);
+      current = (await this.taskRepository.findById(taskId, 0)) ?? task;
+      rank = (await this.findRank(taskId, parentId, beforeTask, afterTask)) as string;
+    }
+
+    // Orders follow the ranks on both ends, so that code still working by order stays in step
+    const positioned = Task.updatePosition(current, parentId, rank);
+    const renumbered = this.renumber([...(await this.findSiblings(taskId, parentId)), positioned]);
+    const saved = await this.taskRepository.save(
+      renumbered.find((sibling) => sibling.id === taskId) ?? positioned,
+      false,
+    );
+    const renumberedSiblings = [
+      ...renumbered.filter((sibling) => sibling.id !== taskId),
+      ...(parentId !== task.parentId ? this.renumber(await this.findSiblings(taskId, task.parentId)) : []),
+    ];
+    if (renumberedSiblings.length > 0) {
+      await this.taskRepository.updateOrder(renumberedSiblings);
+    }
+
+    const changedSiblings = [
+      ...(await this.findSiblings(taskId, parentId)),
+      ...(parentId !== task.parentId ? await this.findSiblings(taskId, task.parentId) : []),
+    ].flatMap((sibling) => {
+      const previous = previousSiblings.get(sibling.id);
+      const changes = previous ? TaskEvent.diff(previous, sibling) : {};
+      return TaskEvent.hasChanges(changes) ? [{ sibling, changes }] : [];
+    });
+
+    const operationId = TaskEvent.createOperationId();
+    await this.taskEventRepository.append([
+      TaskEvent.create(
+        operationId,
+        taskId,
+        parentId === task.parentId ? "reordered" : "moved",
+        TaskEvent.diff(task, saved),
+      ),
+      ...changedSiblings.map(({ sibling, changes }) => TaskEvent.create(operationId, sibling.id, "reordered", changes)),
+    ]);
+
+    if (parentId !== task.parentId) {
+      // Both the former and the new parent have a different set of subtasks now
+      await this.propagateStatusUseCase.execute(task.parentId, operationId);
+      await this.propagateStatusUseCase.execute(parentId, operationId);
+    }
+
+    return (await this.taskRepository.findById(taskId)) ?? saved;
+  }
+
+  private async findNeighbour(task: TaskType, id: string): Promise<TaskType> {
+    if (id === task.id) {
+      throw new InvalidOrderError(`Task ${id} cannot be placed next to itself`);
+    }
+
+    const neighbour = await this.taskRepository.findById(id, 0);
+    if (!neighbour) {
+      throw new TaskNotFoundError(id);
+    }
+    return neighbour;
+  }
+
+  private async checkParent(taskId: string, parentId: string | null): Promise<void> {
+    if (parentId === null) {
+      return;
+    }
+
+    if (parentId === taskId) {
+      throw new SelfReferenceError(taskId);
+    }
+
+    const parent = await this.taskRepository.findById(parentId, 0);
+    if (!parent) {
+      throw new ParentTaskNotFoundError(parentId);
+    }
+
+    const ancestors = await this.taskRepository.findAncestors(parentId);
+    if (ancestors.some((ancestor) => ancestor.id === taskId)) {
+      throw new CircularReferenceError(
+        `Cannot move task ${taskId} to parent ${parentId} as it would create a circular reference`,
+      );
+    }
+  }
+
+  /**
+   * Rank between the new neighbours of the task, or null when their ranks leave no room
+   */
+  private async findRank(
+    taskId: string,
+    parentId: string | null,
+    beforeTask: TaskType | null,
+    afterTask: TaskType | null,
+  ): Promise<string | null> {
+    const siblings = [...(await this.findSiblings(taskId, parentId))].sort(Task.compareSiblings);
+    const indexOf = (neighbour: TaskType) => siblings.findIndex((sibling) => sibling.id === neighbour.id);
+
+    // Without a sibling to go after, the task goes right before the given one, or last
+    const previousIndex = afterTask ? indexOf(afterTask) : beforeTask ? indexOf(beforeTask) - 1 : siblings.length - 1;
+    if (beforeTask && afterTask && indexOf(beforeTask) !== previousIndex + 1) {
+      throw new InvalidOrderError(`Tasks ${afterTask.id} and ${beforeTask.id} are not next to each other`);
+    }
+
+    const previous = siblings[previousIndex]?.rankKey ?? null;
+    const next = siblings[previousIndex + 1]?.rankKey ?? null;
+    if (next !== null && (previous ?? "") >= next) {
+      return null;
+    }
+    return Rank.between(previous, next);
+  }
+
+  /**
+   * The siblings in rank order whose order does not match their place, with the order that does
+   */
+  private renumber(siblings: readonly TaskType[]): TaskType[] {
+    return [...siblings]
+      .sort(Task.compareSiblings)
+      .flatMap((sibling, index) => (sibling.order === index + 1 ? [] : [{ ...sibling, order: index + 1 }]));
+  }
+
+  private async findSiblings(taskId: string, parentId: string | null): Promise<readonly TaskType[]> {
+    const siblings = await this.taskRepository.findSiblings(parentId);
+    return siblings.filter((sibling) => sibling.id !== taskId);
+  }
+}
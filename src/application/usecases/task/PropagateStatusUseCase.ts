@@ -0,0 +1,55 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Task } from "../../../domain/models/Task";
+import { type NewTaskEvent, TaskEvent } from "../../../domain/models/TaskEvent";
+import type { StatusPropagationPolicyRepository } from "../../../domain/repositories/StatusPropagationPolicyRepository";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { WorkflowRepository } from "../../../domain/repositories/WorkflowRepository";
+
+@injectable()
+@singleton()
+export class PropagateStatusUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("StatusPropagationPolicyRepository")
+    private readonly statusPropagationPolicyRepository: StatusPropagationPolicyRepository,
+    @inject("TaskEventRepository") private readonly taskEventRepository: TaskEventRepository,
+    @inject("WorkflowRepository") private readonly workflowRepository: WorkflowRepository,
+  ) {}
+
+  /**
+   * Apply the status propagation policy of its tree to a task whose subtasks changed, and to its ancestors.
+   * Status changes are recorded as part of the given operation. Does nothing for a null task ID.
+   */
+  async execute(taskId: string | null, operationId: string): Promise<void> {
+    if (!taskId) {
+      return;
+    }
+
+    const ancestors = await this.taskRepository.findAncestors(taskId);
+    const rootId = ancestors[0]?.id ?? taskId;
+    const policy =
+      (await this.statusPropagationPolicyRepository.findByRootId(rootId)) ?? Task.defaultStatusPropagationPolicy;
+    if (policy === "none") {
+      return;
+    }
+
+    const root = await this.taskRepository.findById(rootId);
+    if (!root) {
+      return;
+    }
+
+    const workflow = await this.workflowRepository.find();
+    const previousVersions = new Map(Task.getTaskHierarchy(root).map((task) => [task.id, task]));
+    const events: NewTaskEvent[] = [];
+    for (const task of Task.getTaskHierarchy(Task.propagateStatus(root, taskId, policy, workflow))) {
+      const previous = previousVersions.get(task.id);
+      if (previous && previous.status !== task.status) {
+        const saved = await this.taskRepository.save(task, false);
+        events.push(TaskEvent.create(operationId, task.id, "updated", TaskEvent.diff(previous, saved)));
+      }
+    }
+
+    await this.taskEventRepository.append(events);
+  }
+}
@@ -0,0 +1,46 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Rank } from "../../../domain/models/Rank";
+import { Task } from "../../../domain/models/Task";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+
+@injectable()
+@singleton()
+export class RebalanceRanksUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("TransactionManager") private readonly transactionManager: TransactionManager,
+  ) {}
+
+  /**
+   * Give the subtasks of the given parents (null for the root tasks) evenly spaced ranks and matching orders,
+   * keeping them in their current order. By default every parent with a subtask ranked longer than
+   * Rank.maxLength is rebalanced. Returns the number of rebalanced sibling groups.
+   * Rebalancing does not change what the tasks look like to users, so it is not recorded in the history.
+   */
+  async execute(parentIds?: readonly (string | null)[]): Promise<number> {
+    return this.transactionManager.runInTransaction(async () => {
+      const targets = parentIds ?? (await this.taskRepository.findParentIdsWithRanksLongerThan(Rank.maxLength));
+
+      for (const parentId of targets) {
+        await this.rebalance(parentId);
+      }
+
+      return targets.length;
+    });
+  }
+
+  private async rebalance(parentId: string | null): Promise<void> {
+    const siblings = await this.taskRepository.findSiblings(parentId);
+
+    const rebalanced = [...siblings]
+      .sort(Task.compareSiblings)
+      .map((task, index) => ({ task, updated: Task.updateOrder(task, index + 1) }))
+      .filter(({ task, updated }) => task.order !== updated.order || task.rankKey !== updated.rankKey)
+      .map(({ updated }) => updated);
+
+    if (rebalanced.length > 0) {
+      await this.taskRepository.updateOrder(rebalanced);
+    }
+  }
+}
@@ -1,53 +1,102 @@
 import { inject, injectable, singleton } from "tsyringe";
+import { Rank } from "../../../domain/models/Rank";
 import { Task } from "../../../domain/models/Task";
 import type { Task as TaskType } from "../../../domain/models/Task";
+import { TaskEvent } from "../../../domain/models/TaskEvent";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
 import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
 
 type ReorderTasksParams = {
   readonly parentId: string | null;
   readonly orderMap: Readonly<Partial<Record<string, number>>>;
+  /**
+   * Versions the reordered tasks must still be at, by task ID
+   */
+  readonly expectedVersions?: Readonly<Partial<Record<string, number>>>;
 };
 
 @injectable()
 @singleton()
 export class ReorderTasksUseCase {
-  constructor(@inject("TaskRepository") private readonly taskRepository: TaskRepository) {}
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("TaskEventRepository") private readonly taskEventRepository: TaskEventRepository,
+    @inject("TransactionManager") private readonly transactionManager: TransactionManager,
+  ) {}
 
   async execute(params: ReorderTasksParams): Promise<readonly TaskType[]> {
-    const { parentId, orderMap } = params;
+    return this.transactionManager.runInTransaction(() => this.reorderTasks(params));
+  }
+
+  private async reorderTasks(params: ReorderTasksParams): Promise<readonly TaskType[]> {
+    const { parentId, orderMap, expectedVersions = {} } = params;
 
     // Get tasks for the parent (or root tasks if parentId is null)
-    const tasks = parentId
-      ? await this.taskRepository.findByParentId(parentId)
-      : await this.taskRepository.findRootTasks();
+    const tasks = await this.taskRepository.findSiblings(parentId);
 
     // Defensive validation in an immutable way
     this.validateOrderMap(tasks, orderMap);
+    for (const task of tasks) {
+      Task.checkVersion(task, expectedVersions[task.id]);
+    }
 
-    // Update order for each task based on orderMap - immutable processing
-    // Filtering and processing in a single pass, ensuring type safety
-    const tasksWithOrderValues = tasks
-      .map((task) => {
-        const newOrder = orderMap[task.id];
-        return { task, newOrder };
-      })
-      .filter((item): item is { task: TaskType; newOrder: number } => item.newOrder !== undefined);
+    // Siblings in their new order, each with the rank that keeps them in it
+    const reordered = tasks
+      .map((task) => ({ task, newOrder: orderMap[task.id] ?? task.order }))
+      .sort((a, b) => a.newOrder - b.newOrder);
+    const ranks = this.rankSiblings(reordered);
 
-    const tasksToUpdate = tasksWithOrderValues.map((item) => Task.updateOrder(item.task, item.newOrder));
+    const tasksWithChanges = reordered
+      .map(({ task, newOrder }, index) => ({
+        task,
+        updated: { ...Task.updateOrder(task, newOrder), rankKey: ranks[index] as string },
+      }))
+      .filter(({ task, updated }) => task.order !== updated.order || task.rankKey !== updated.rankKey);
 
-    if (tasksToUpdate.length === 0) {
+    if (tasksWithChanges.length === 0) {
       return tasks;
     }
 
-    // Sort tasks by order in an immutable way
-    const sortedTasks = [...tasksToUpdate].sort((a, b) => a.order - b.order);
-
-    // Persist changes
-    const updated = await this.taskRepository.updateOrder(sortedTasks);
+    // Persist changes and record every sibling that actually moved as part of one operation
+    const updated = await this.taskRepository.updateOrder(tasksWithChanges.map((item) => item.updated));
+    const operationId = TaskEvent.createOperationId();
+    await this.taskEventRepository.append(
+      tasksWithChanges.map(({ task, updated }) =>
+        TaskEvent.create(operationId, task.id, "reordered", TaskEvent.diff(task, updated)),
+      ),
+    );
 
     // Merge unchanged siblings and return deterministically sorted list
-    const untouched = tasks.filter((t) => !(t.id in orderMap));
-    return [...updated, ...untouched].sort((a, b) => a.order - b.order);
+    const updatedIds = new Set(updated.map((t) => t.id));
+    const untouched = tasks.filter((t) => !updatedIds.has(t.id));
+    return [...updated, ...untouched].sort(Task.compareSiblings);
+  }
+
+  /**
+   * Ranks for the siblings in their new order. Only moved siblings get a new rank, placed between
+   * the ranks of the siblings that stay; all ranks are evenly spaced again if those are out of order.
+   */
+  private rankSiblings(reordered: readonly { task: TaskType; newOrder: number }[]): string[] {
+    const stays = ({ task, newOrder }: { task: TaskType; newOrder: number }) => task.order === newOrder;
+    const keptRanks = reordered.filter(stays).map(({ task }) => task.rankKey);
+    const inOrder = keptRanks.every(
+      (rank, index) => rank !== "" && (index === 0 || (keptRanks[index - 1] as string) < rank),
+    );
+    if (!inOrder) {
+      return reordered.map(({ newOrder }) => Rank.fromOrder(newOrder));
+    }
+
+    const ranks: string[] = [];
+    reordered.forEach((item, index) => {
+      if (stays(item)) {
+        ranks.push(item.task.rankKey);
+        return;
+      }
+      const next = reordered.slice(index + 1).find(stays);
+      ranks.push(Rank.between(ranks.at(-1) ?? null, next ? next.task.rankKey : null));
+    });
+    return ranks;
   }
 
   // Split validation logic into a separate method using a pure functional approach
@@ -0,0 +1,16 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { TaskSearchResult } from "../../../domain/models/Task";
+import type { TaskRepository, TaskSearchQuery } from "../../../domain/repositories/TaskRepository";
+
+@injectable()
+@singleton()
+export class SearchTasksUseCase {
+  constructor(@inject("TaskRepository") private readonly taskRepository: TaskRepository) {}
+
+  async execute(query: TaskSearchQuery): Promise<readonly TaskSearchResult[]> {
+    const matches = await this.taskRepository.search(query);
+
+    const paths = await this.taskRepository.findPaths(matches.map(({ task }) => task.id));
+    return matches.map(({ task, rank, highlights }) => ({ ...task, path: paths.get(task.id) ?? [], rank, highlights }));
+  }
+}
@@ -0,0 +1,31 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { StatusPropagationPolicy, StatusPropagationSetting } from "../../../domain/models/Task";
+import { TaskNotFoundError } from "../../../domain/models/errors";
+import type { StatusPropagationPolicyRepository } from "../../../domain/repositories/StatusPropagationPolicyRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+
+@injectable()
+@singleton()
+export class UpdateStatusPropagationUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("StatusPropagationPolicyRepository")
+    private readonly statusPropagationPolicyRepository: StatusPropagationPolicyRepository,
+  ) {}
+
+  /**
+   * Configure the status propagation policy of the tree a task belongs to, on its root task.
+   * The policy applies to changes made from now on; existing statuses are left as they are.
+   */
+  async execute(taskId: string, policy: StatusPropagationPolicy): Promise<StatusPropagationSetting> {
+    const task = await this.taskRepository.findById(taskId, 0);
+    if (!task) {
+      throw new TaskNotFoundError(taskId);
+    }
+
+    const rootId = (await this.taskRepository.findAncestors(taskId))[0]?.id ?? taskId;
+    await this.statusPropagationPolicyRepository.save(rootId, policy);
+
+    return { rootId, policy };
+  }
+}
@@ -1,32 +1,71 @@
 import { inject, injectable, singleton } from "tsyringe";
-import { Task, type TaskStatus } from "../../../domain/models/Task";
+import { Task, type TaskPriority } from "../../../domain/models/Task";
 import type { Task as TaskType } from "../../../domain/models/Task";
+import { TaskEvent } from "../../../domain/models/TaskEvent";
+import { type TaskStatus, Workflow } from "../../../domain/models/Workflow";
+import { OpenBlockersError } from "../../../domain/models/errors";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
 import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+import type { WorkflowRepository } from "../../../domain/repositories/WorkflowRepository";
+import type { CreateNextRecurringInstanceUseCase } from "../recurring/CreateNextRecurringInstanceUseCase";
+import type { PropagateStatusUseCase } from "./PropagateStatusUseCase";
 
-type UpdateTaskParams = {
+export type UpdateTaskParams = {
   readonly id: string;
   readonly title?: string;
   readonly description?: string | null;
   readonly status?: TaskStatus;
+  readonly priority?: TaskPriority;
+  readonly dueDate?: Date | null;
+  readonly startDate?: Date | null;
+  /**
+   * Complete the task even though some of the tasks blocking it are still open
+   */
+  readonly force?: boolean;
+  /**
+   * Version of the task the update is based on; the update fails when the task has changed since
+   */
+  readonly expectedVersion?: number;
 };
 
 @injectable()
 @singleton()
 export class UpdateTaskUseCase {
-  constructor(@inject("TaskRepository") private readonly taskRepository: TaskRepository) {}
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("CreateNextRecurringInstanceUseCase")
+    private readonly createNextRecurringInstanceUseCase: CreateNextRecurringInstanceUseCase,
+    @inject("TaskEventRepository") private readonly taskEventRepository: TaskEventRepository,
+    @inject("PropagateStatusUseCase") private readonly propagateStatusUseCase: PropagateStatusUseCase,
+    @inject("TransactionManager") private readonly transactionManager: TransactionManager,
+    @inject("WorkflowRepository") private readonly workflowRepository: WorkflowRepository,
+  ) {}
 
   async execute(params: UpdateTaskParams): Promise<TaskType | null> {
-    const { id, title, description, status } = params;
+    return this.transactionManager.runInTransaction(() => this.updateTask(params));
+  }
+
+  private async updateTask(params: UpdateTaskParams): Promise<TaskType | null> {
+    const { id, title, description, status, priority, dueDate, startDate, force = false, expectedVersion } = params;
 
     // Find the task
-    const task = await this.taskRepository.findById(id, true);
+    const task = await this.taskRepository.findById(id);
     if (!task) {
       return null;
     }
+    Task.checkVersion(task, expectedVersion);
 
     // イミュータブルな方法でタスクを更新
     // 更新する値がない場合は元のタスクを返す
-    if (title === undefined && description === undefined && status === undefined) {
+    if (
+      title === undefined &&
+      description === undefined &&
+      status === undefined &&
+      priority === undefined &&
+      dueDate === undefined &&
+      startDate === undefined
+    ) {
       return task;
     }
 
@@ -41,11 +80,65 @@ export class UpdateTaskUseCase {
       updatedTask = Task.updateDescription(updatedTask, description);
     }
 
+    if (priority !== undefined) {
+      updatedTask = Task.updatePriority(updatedTask, priority);
+    }
+
+    if (startDate !== undefined || dueDate !== undefined) {
+      updatedTask = Task.updateSchedule(updatedTask, {
+        ...(startDate !== undefined && { startDate }),
+        ...(dueDate !== undefined && { dueDate }),
+      });
+    }
+
+    const workflow = await this.workflowRepository.find();
+    if (status !== undefined) {
+      if (status === workflow.completedStatus && task.status !== status && !force) {
+        await this.ensureNoOpenBlockers(task, workflow);
+      }
+      updatedTask = Task.changeStatus(updatedTask, status, workflow);
+    }
+
+    // Save the updated task and record what changed, including subtasks completed along with it
+    const savedTask = await this.taskRepository.save(updatedTask);
+    const operationId = TaskEvent.createOperationId();
+    const previousVersions = new Map(Task.getTaskHierarchy(task).map((t) => [t.id, t]));
+    await this.taskEventRepository.append(
+      Task.getTaskHierarchy(savedTask).flatMap((saved) => {
+        const previous = previousVersions.get(saved.id);
+        const changes = previous ? TaskEvent.diff(previous, saved) : {};
+        return TaskEvent.hasChanges(changes) ? [TaskEvent.create(operationId, saved.id, "updated", changes)] : [];
+      }),
+    );
+
+    // A new status may complete or reopen the tasks above
     if (status !== undefined) {
-      updatedTask = status === "completed" ? Task.markAsCompleted(updatedTask) : Task.markAsIncomplete(updatedTask);
+      await this.propagateStatusUseCase.execute(savedTask.parentId, operationId);
+    }
+
+    // Closing an instance of a recurring task, whether done or cancelled, schedules the next one
+    if (
+      status !== undefined &&
+      Workflow.isClosed(status, workflow) &&
+      !Workflow.isClosed(task.status, workflow) &&
+      task.recurringPatternId
+    ) {
+      await this.createNextRecurringInstanceUseCase.execute(savedTask);
     }
 
-    // Save the updated task
-    return this.taskRepository.save(updatedTask);
+    return savedTask;
+  }
+  private async ensureNoOpenBlockers(task: TaskType, workflow: Workflow): Promise<void> {
+    const openBlockerIds: string[] = [];
+    for (const blockerId of task.blockedBy) {
+      const blocker = await this.taskRepository.findById(blockerId, 0);
+      if (blocker && !Workflow.isClosed(blocker.status, workflow)) {
+        openBlockerIds.push(blockerId);
+      }
+    }
+
+    if (openBlockerIds.length > 0) {
+      throw new OpenBlockersError(task.id, openBlockerIds);
+    }
   }
 }
@@ -0,0 +1,24 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { type TaskStatus, Workflow, type WorkflowState } from "../../../domain/models/Workflow";
+import type { WorkflowRepository } from "../../../domain/repositories/WorkflowRepository";
+
+export type UpdateWorkflowParams = {
+  readonly states: Readonly<Record<TaskStatus, WorkflowState>>;
+  readonly initialStatus: TaskStatus;
+  readonly completedStatus: TaskStatus;
+};
+
+@injectable()
+@singleton()
+export class UpdateWorkflowUseCase {
+  constructor(@inject("WorkflowRepository") private readonly workflowRepository: WorkflowRepository) {}
+
+  /**
+   * Replace the workflow, throwing an InvalidWorkflowError when it is inconsistent.
+   * The workflow applies to changes made from now on; existing statuses are left as they are.
+   */
+  async execute(params: UpdateWorkflowParams): Promise<Workflow> {
+    const { states, initialStatus, completedStatus } = params;
+    return this.workflowRepository.save(Workflow.create(states, initialStatus, completedStatus));
+  }
+}
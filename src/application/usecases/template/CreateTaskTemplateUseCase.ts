@@ -0,0 +1,39 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { TaskTemplate, TemplateTask } from "../../../domain/models/TaskTemplate";
+import { TaskNotFoundError } from "../../../domain/models/errors";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TaskTemplateRepository } from "../../../domain/repositories/TaskTemplateRepository";
+
+/**
+ * A template is made either from an existing task and its subtasks, or from a task tree given directly
+ */
+export type CreateTaskTemplateParams = {
+  readonly name: string;
+  readonly description?: string | null;
+} & ({ readonly taskId: string } | { readonly task: TemplateTask });
+
+@injectable()
+@singleton()
+export class CreateTaskTemplateUseCase {
+  constructor(
+    @inject("TaskTemplateRepository") private readonly taskTemplateRepository: TaskTemplateRepository,
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+  ) {}
+
+  async execute(params: CreateTaskTemplateParams): Promise<TaskTemplate> {
+    const { name, description = null } = params;
+
+    let task: TemplateTask;
+    if ("taskId" in params) {
+      const source = await this.taskRepository.findById(params.taskId);
+      if (!source) {
+        throw new TaskNotFoundError(params.taskId);
+      }
+      task = TemplateTask.fromTask(source);
+    } else {
+      task = params.task;
+    }
+
+    return this.taskTemplateRepository.save(TaskTemplate.create(name, task, description));
+  }
+}
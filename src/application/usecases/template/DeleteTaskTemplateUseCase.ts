@@ -0,0 +1,19 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { TaskTemplateRepository } from "../../../domain/repositories/TaskTemplateRepository";
+
+@injectable()
+@singleton()
+export class DeleteTaskTemplateUseCase {
+  constructor(@inject("TaskTemplateRepository") private readonly taskTemplateRepository: TaskTemplateRepository) {}
+
+  async execute(id: string): Promise<boolean> {
+    const template = await this.taskTemplateRepository.findById(id);
+
+    if (!template) {
+      return false;
+    }
+
+    await this.taskTemplateRepository.delete(id);
+    return true;
+  }
+}
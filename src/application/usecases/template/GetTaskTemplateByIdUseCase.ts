@@ -0,0 +1,13 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { TaskTemplate } from "../../../domain/models/TaskTemplate";
+import type { TaskTemplateRepository } from "../../../domain/repositories/TaskTemplateRepository";
+
+@injectable()
+@singleton()
+export class GetTaskTemplateByIdUseCase {
+  constructor(@inject("TaskTemplateRepository") private readonly taskTemplateRepository: TaskTemplateRepository) {}
+
+  async execute(id: string): Promise<TaskTemplate | null> {
+    return this.taskTemplateRepository.findById(id);
+  }
+}
@@ -0,0 +1,13 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { TaskTemplate } from "../../../domain/models/TaskTemplate";
+import type { TaskTemplateRepository } from "../../../domain/repositories/TaskTemplateRepository";
+
+@injectable()
+@singleton()
+export class GetTaskTemplatesUseCase {
+  constructor(@inject("TaskTemplateRepository") private readonly taskTemplateRepository: TaskTemplateRepository) {}
+
+  async execute(): Promise<readonly TaskTemplate[]> {
+    return this.taskTemplateRepository.findAll();
+  }
+}
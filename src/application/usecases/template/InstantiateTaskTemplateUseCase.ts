@@ -0,0 +1,67 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Task } from "../../../domain/models/Task";
+import type { Task as TaskType } from "../../../domain/models/Task";
+import { TaskEvent } from "../../../domain/models/TaskEvent";
+import { TaskTemplate, type TemplateVariables } from "../../../domain/models/TaskTemplate";
+import { ParentTaskNotFoundError, TaskTemplateNotFoundError } from "../../../domain/models/errors";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TaskTemplateRepository } from "../../../domain/repositories/TaskTemplateRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+import type { WorkflowRepository } from "../../../domain/repositories/WorkflowRepository";
+import type { PropagateStatusUseCase } from "../task/PropagateStatusUseCase";
+
+export type InstantiateTaskTemplateParams = {
+  readonly templateId: string;
+  readonly parentId?: string | null;
+  readonly variables?: TemplateVariables;
+};
+
+@injectable()
+@singleton()
+export class InstantiateTaskTemplateUseCase {
+  constructor(
+    @inject("TaskTemplateRepository") private readonly taskTemplateRepository: TaskTemplateRepository,
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("TaskEventRepository") private readonly taskEventRepository: TaskEventRepository,
+    @inject("PropagateStatusUseCase") private readonly propagateStatusUseCase: PropagateStatusUseCase,
+    @inject("TransactionManager") private readonly transactionManager: TransactionManager,
+    @inject("WorkflowRepository") private readonly workflowRepository: WorkflowRepository,
+  ) {}
+
+  /**
+   * Create a new task tree from a template, after the last task under the given parent
+   */
+  async execute(params: InstantiateTaskTemplateParams): Promise<TaskType> {
+    return this.transactionManager.runInTransaction(() => this.instantiate(params));
+  }
+
+  private async instantiate(params: InstantiateTaskTemplateParams): Promise<TaskType> {
+    const { templateId, parentId = null, variables = {} } = params;
+
+    const template = await this.taskTemplateRepository.findById(templateId);
+    if (!template) {
+      throw new TaskTemplateNotFoundError(templateId);
+    }
+
+    if (parentId && !(await this.taskRepository.findById(parentId, 0))) {
+      throw new ParentTaskNotFoundError(parentId);
+    }
+    const siblings = await this.taskRepository.findSiblings(parentId);
+
+    const order = siblings.length > 0 ? Math.max(...siblings.map((sibling) => sibling.order)) + 1 : 1;
+    const workflow = await this.workflowRepository.find();
+    const task = TaskTemplate.instantiate(template, parentId, order, variables, workflow);
+    const saved = await this.taskRepository.save({ ...task, rankKey: Task.rankAfter(siblings) });
+
+    const operationId = TaskEvent.createOperationId();
+    await this.taskEventRepository.append(
+      Task.getTaskHierarchy(saved).map((task) =>
+        TaskEvent.create(operationId, task.id, "created", TaskEvent.diff(null, task)),
+      ),
+    );
+    await this.propagateStatusUseCase.execute(parentId, operationId);
+
+    return saved;
+  }
+}
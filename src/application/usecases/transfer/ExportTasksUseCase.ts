@@ -0,0 +1,16 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { Task } from "../../../domain/models/Task";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+
+@injectable()
+@singleton()
+export class ExportTasksUseCase {
+  constructor(@inject("TaskRepository") private readonly taskRepository: TaskRepository) {}
+
+  /**
+   * Collect every root task with its full subtask hierarchy
+   */
+  async execute(): Promise<readonly Task[]> {
+    return this.taskRepository.findRootTasks();
+  }
+}
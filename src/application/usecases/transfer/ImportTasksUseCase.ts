@@ -0,0 +1,128 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Rank } from "../../../domain/models/Rank";
+import { Task } from "../../../domain/models/Task";
+import { TaskEvent } from "../../../domain/models/TaskEvent";
+import { DuplicateTaskIdError, InvalidImportFileError } from "../../../domain/models/errors";
+import type { ImportIdStrategy, ImportTaskInput } from "../../../domain/models/schema/TransferSchema";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+
+export type ImportResult = Readonly<{
+  importedCount: number;
+  tasks: readonly Task[];
+}>;
+
+@injectable()
+@singleton()
+export class ImportTasksUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("TaskEventRepository") private readonly taskEventRepository: TaskEventRepository,
+    @inject("TransactionManager") private readonly transactionManager: TransactionManager,
+  ) {}
+
+  /**
+   * Import task trees after the existing root tasks.
+   * Sibling order from the file is kept, and either every task is imported or none is.
+   */
+  async execute(tasks: readonly ImportTaskInput[], idStrategy: ImportIdStrategy): Promise<ImportResult> {
+    return this.transactionManager.runInTransaction(() => this.importTasks(tasks, idStrategy));
+  }
+
+  private async importTasks(tasks: readonly ImportTaskInput[], idStrategy: ImportIdStrategy): Promise<ImportResult> {
+    if (idStrategy === "preserve") {
+      await this.ensureIdsAreAvailable(tasks);
+    }
+
+    const existingRootTasks = await this.taskRepository.findSiblings(null);
+    const orderOffset = Math.max(0, ...existingRootTasks.map((task) => task.order));
+
+    // Ranks continue after the last existing root task as well
+    let rank: string | null = null;
+    const rootTasks = this.sortByOrder(tasks).map((input, index) => {
+      rank = rank === null ? Task.rankAfter(existingRootTasks) : Rank.between(rank, null);
+      return { ...this.buildTask(input, null, orderOffset + index + 1, idStrategy), rankKey: rank };
+    });
+
+    await this.taskRepository.insertTrees(rootTasks);
+
+    // The whole import is one operation in the history
+    const imported = rootTasks.flatMap((task) => Task.getTaskHierarchy(task));
+    const operationId = TaskEvent.createOperationId();
+    await this.taskEventRepository.append(
+      imported.map((task) => TaskEvent.create(operationId, task.id, "created", TaskEvent.diff(null, task))),
+    );
+
+    return {
+      importedCount: imported.length,
+      tasks: rootTasks,
+    };
+  }
+
+  private buildTask(
+    input: ImportTaskInput,
+    parentId: string | null,
+    order: number,
+    idStrategy: ImportIdStrategy,
+  ): Task {
+    const id = idStrategy === "preserve" ? input.id : undefined;
+    const task = Task.create(
+      input.title,
+      parentId,
+      input.description ?? null,
+      id,
+      input.status,
+      order,
+      input.createdAt,
+      input.updatedAt,
+      [],
+      {
+        ...(input.priority && { priority: input.priority }),
+        dueDate: input.dueDate ?? null,
+        startDate: input.startDate ?? null,
+      },
+    );
+
+    const subtasks = this.sortByOrder(input.subtasks).map((subtask, index) =>
+      this.buildTask(subtask, task.id, index + 1, idStrategy),
+    );
+
+    return { ...task, subtasks };
+  }
+
+  /**
+   * Sort siblings by their order in the file; siblings without an order keep their position
+   */
+  private sortByOrder(inputs: readonly ImportTaskInput[]): ImportTaskInput[] {
+    return inputs
+      .map((input, index) => ({ input, index, order: input.order ?? index + 1 }))
+      .sort((a, b) => a.order - b.order || a.index - b.index)
+      .map(({ input }) => input);
+  }
+
+  private async ensureIdsAreAvailable(tasks: readonly ImportTaskInput[]): Promise<void> {
+    const ids = new Set<string>();
+    const pending = [...tasks];
+
+    while (pending.length > 0) {
+      const input = pending.pop() as ImportTaskInput;
+      pending.push(...input.subtasks);
+
+      if (!input.id) {
+        continue;
+      }
+
+      if (ids.has(input.id)) {
+        throw new InvalidImportFileError(`Task ${input.id} appears more than once`);
+      }
+      ids.add(input.id);
+    }
+
+    // IDs of tasks in the trash are taken as well
+    const [existingId] = await this.taskRepository.findExistingIds([...ids]);
+    if (existingId) {
+      throw new DuplicateTaskIdError(existingId);
+    }
+  }
+}
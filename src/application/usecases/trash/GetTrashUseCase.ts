@@ -0,0 +1,13 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { Task } from "../../../domain/models/Task";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+
+@injectable()
+@singleton()
+export class GetTrashUseCase {
+  constructor(@inject("TaskRepository") private readonly taskRepository: TaskRepository) {}
+
+  async execute(): Promise<readonly Task[]> {
+    return this.taskRepository.findTrash();
+  }
+}
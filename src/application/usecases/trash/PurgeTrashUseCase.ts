@@ -0,0 +1,18 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+
+const DAY_IN_MILLISECONDS = 24 * 60 * 60 * 1000;
+
+@injectable()
+@singleton()
+export class PurgeTrashUseCase {
+  constructor(@inject("TaskRepository") private readonly taskRepository: TaskRepository) {}
+
+  /**
+   * Permanently delete tasks that have been in the trash for more than the given number of days.
+   * Returns the number of deleted tasks.
+   */
+  async execute(olderThanDays: number, now: Date = new Date()): Promise<number> {
+    return this.taskRepository.purgeTrash(new Date(now.getTime() - olderThanDays * DAY_IN_MILLISECONDS));
+  }
+}
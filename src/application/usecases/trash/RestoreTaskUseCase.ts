@@ -0,0 +1,61 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Task } from "../../../domain/models/Task";
+import { TaskEvent } from "../../../domain/models/TaskEvent";
+import type { TaskEventRepository } from "../../../domain/repositories/TaskEventRepository";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { TransactionManager } from "../../../domain/repositories/TransactionManager";
+import type { PropagateStatusUseCase } from "../task/PropagateStatusUseCase";
+
+@injectable()
+@singleton()
+export class RestoreTaskUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("TaskEventRepository") private readonly taskEventRepository: TaskEventRepository,
+    @inject("PropagateStatusUseCase") private readonly propagateStatusUseCase: PropagateStatusUseCase,
+    @inject("TransactionManager") private readonly transactionManager: TransactionManager,
+  ) {}
+
+  /**
+   * Bring a task and its subtasks back from the trash into their original parent and order slot.
+   * If the parent no longer exists or is itself in the trash, the task is restored as the last root task.
+   * Returns null when the task is not in the trash.
+   */
+  async execute(id: string): Promise<Task | null> {
+    return this.transactionManager.runInTransaction(() => this.restoreTask(id));
+  }
+
+  private async restoreTask(id: string): Promise<Task | null> {
+    const task = await this.taskRepository.findTrashedById(id);
+    if (!task) {
+      return null;
+    }
+
+    const parent = task.parentId ? await this.taskRepository.findById(task.parentId, 0) : null;
+
+    if (parent) {
+      await this.taskRepository.restore(task.id, parent.id, task.order);
+    } else if (task.parentId === null) {
+      await this.taskRepository.restore(task.id, null, task.order);
+    } else {
+      const rootTasks = await this.taskRepository.findSiblings(null);
+      await this.taskRepository.restore(
+        task.id,
+        null,
+        Math.max(0, ...rootTasks.map((t) => t.order)) + 1,
+        Task.rankAfter(rootTasks),
+      );
+    }
+
+    const restoredTask = await this.taskRepository.findById(task.id);
+    if (restoredTask) {
+      const operationId = TaskEvent.createOperationId();
+      await this.taskEventRepository.append([
+        TaskEvent.create(operationId, task.id, "restored", TaskEvent.diff(task, restoredTask)),
+      ]);
+      await this.propagateStatusUseCase.execute(restoredTask.parentId, operationId);
+    }
+
+    return restoredTask;
+  }
+}
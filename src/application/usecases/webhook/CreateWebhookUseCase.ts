@@ -0,0 +1,21 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Webhook, type WebhookEventType } from "../../../domain/models/Webhook";
+import type { WebhookRepository } from "../../../domain/repositories/WebhookRepository";
+
+type CreateWebhookParams = {
+  readonly url: string;
+  readonly secret: string;
+  readonly eventTypes: readonly WebhookEventType[];
+};
+
+@injectable()
+@singleton()
+export class CreateWebhookUseCase {
+  constructor(@inject("WebhookRepository") private readonly webhookRepository: WebhookRepository) {}
+
+  async execute(params: CreateWebhookParams): Promise<Webhook> {
+    const { url, secret, eventTypes } = params;
+
+    return this.webhookRepository.save(Webhook.create(url, secret, eventTypes));
+  }
+}
@@ -0,0 +1,19 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { WebhookRepository } from "../../../domain/repositories/WebhookRepository";
+
+@injectable()
+@singleton()
+export class DeleteWebhookUseCase {
+  constructor(@inject("WebhookRepository") private readonly webhookRepository: WebhookRepository) {}
+
+  async execute(id: string): Promise<boolean> {
+    const webhook = await this.webhookRepository.findById(id);
+
+    if (!webhook) {
+      return false;
+    }
+
+    await this.webhookRepository.delete(id);
+    return true;
+  }
+}
@@ -0,0 +1,64 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { Webhook } from "../../../domain/models/Webhook";
+import { WebhookDelivery } from "../../../domain/models/WebhookDelivery";
+import type { WebhookDeliveryRepository } from "../../../domain/repositories/WebhookDeliveryRepository";
+import type { WebhookSender } from "../../../domain/services/WebhookSender";
+
+const BATCH_SIZE = 50;
+
+@injectable()
+@singleton()
+export class DeliverWebhooksUseCase {
+  constructor(
+    @inject("WebhookDeliveryRepository") private readonly webhookDeliveryRepository: WebhookDeliveryRepository,
+    @inject("WebhookSender") private readonly webhookSender: WebhookSender,
+  ) {}
+
+  /**
+   * Make an attempt at every delivery that is due, oldest first, and return the deliveries with their outcome.
+   * Failed attempts are retried later with exponential backoff.
+   */
+  async execute(now: Date = new Date()): Promise<readonly WebhookDelivery[]> {
+    const attempted: WebhookDelivery[] = [];
+
+    // Send one by one so that the deliveries of an event arrive in the order of the events
+    let due = await this.webhookDeliveryRepository.findDue(now, BATCH_SIZE);
+    while (due.length > 0) {
+      for (const { delivery, webhook } of due) {
+        attempted.push(await this.deliver(delivery, webhook, now));
+      }
+      due = due.length < BATCH_SIZE ? [] : await this.webhookDeliveryRepository.findDue(now, BATCH_SIZE);
+    }
+
+    return attempted;
+  }
+
+  private async deliver(delivery: WebhookDelivery, webhook: Webhook, now: Date): Promise<WebhookDelivery> {
+    const timestamp = Math.floor(now.getTime() / 1000);
+    const headers = {
+      "Content-Type": "application/json",
+      "X-Webhook-Id": delivery.id,
+      "X-Webhook-Event": `task.${delivery.eventType}`,
+      "X-Webhook-Timestamp": String(timestamp),
+      "X-Webhook-Signature": `sha256=${WebhookDelivery.sign(webhook.secret, timestamp, delivery.payload)}`,
+    };
+
+    let attempted: WebhookDelivery;
+    try {
+      const status = await this.webhookSender.send({ url: webhook.url, headers, body: delivery.payload });
+      attempted =
+        status >= 200 && status < 300
+          ? WebhookDelivery.markAsSucceeded(delivery, status, now)
+          : WebhookDelivery.markAsFailed(delivery, `Webhook responded with ${status}`, status, now);
+    } catch (error) {
+      attempted = WebhookDelivery.markAsFailed(
+        delivery,
+        error instanceof Error ? error.message : String(error),
+        null,
+        now,
+      );
+    }
+
+    return this.webhookDeliveryRepository.save(attempted);
+  }
+}
@@ -0,0 +1,45 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { TaskEvent } from "../../../domain/models/TaskEvent";
+import { Webhook } from "../../../domain/models/Webhook";
+import { WebhookDelivery } from "../../../domain/models/WebhookDelivery";
+import type { TaskRepository } from "../../../domain/repositories/TaskRepository";
+import type { WebhookDeliveryRepository } from "../../../domain/repositories/WebhookDeliveryRepository";
+import type { WebhookRepository } from "../../../domain/repositories/WebhookRepository";
+import type { WorkflowRepository } from "../../../domain/repositories/WorkflowRepository";
+
+@injectable()
+@singleton()
+export class EnqueueWebhookDeliveriesUseCase {
+  constructor(
+    @inject("TaskRepository") private readonly taskRepository: TaskRepository,
+    @inject("WebhookRepository") private readonly webhookRepository: WebhookRepository,
+    @inject("WebhookDeliveryRepository") private readonly webhookDeliveryRepository: WebhookDeliveryRepository,
+    @inject("WorkflowRepository") private readonly workflowRepository: WorkflowRepository,
+  ) {}
+
+  /**
+   * Queue a delivery of a task event for every webhook subscribed to it.
+   * The payload carries the task as it is now, so events should be queued as soon as they are stored.
+   */
+  async execute(event: TaskEvent): Promise<readonly WebhookDelivery[]> {
+    const eventType = Webhook.eventTypeOf(event, await this.workflowRepository.find());
+    if (eventType === null) {
+      return [];
+    }
+
+    const webhooks = await this.webhookRepository.findByEventType(eventType);
+    if (webhooks.length === 0) {
+      return [];
+    }
+
+    // Deleted tasks are in the trash, unless they have been purged since
+    const task =
+      eventType === "deleted"
+        ? await this.taskRepository.findTrashedById(event.taskId)
+        : await this.taskRepository.findById(event.taskId, 0);
+
+    const deliveries = webhooks.map((webhook) => WebhookDelivery.create(webhook.id, eventType, event, task));
+    await this.webhookDeliveryRepository.add(deliveries);
+    return deliveries;
+  }
+}
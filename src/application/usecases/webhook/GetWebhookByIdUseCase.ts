@@ -0,0 +1,13 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { Webhook } from "../../../domain/models/Webhook";
+import type { WebhookRepository } from "../../../domain/repositories/WebhookRepository";
+
+@injectable()
+@singleton()
+export class GetWebhookByIdUseCase {
+  constructor(@inject("WebhookRepository") private readonly webhookRepository: WebhookRepository) {}
+
+  async execute(id: string): Promise<Webhook | null> {
+    return this.webhookRepository.findById(id);
+  }
+}
@@ -0,0 +1,34 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { WebhookDelivery, WebhookDeliveryStatus } from "../../../domain/models/WebhookDelivery";
+import { WebhookNotFoundError } from "../../../domain/models/errors";
+import type { WebhookDeliveryRepository } from "../../../domain/repositories/WebhookDeliveryRepository";
+import type { WebhookRepository } from "../../../domain/repositories/WebhookRepository";
+
+type GetWebhookDeliveriesParams = {
+  readonly webhookId: string;
+  readonly limit: number;
+  readonly status?: WebhookDeliveryStatus;
+};
+
+@injectable()
+@singleton()
+export class GetWebhookDeliveriesUseCase {
+  constructor(
+    @inject("WebhookRepository") private readonly webhookRepository: WebhookRepository,
+    @inject("WebhookDeliveryRepository") private readonly webhookDeliveryRepository: WebhookDeliveryRepository,
+  ) {}
+
+  /**
+   * The delivery log of a webhook, newest first
+   */
+  async execute(params: GetWebhookDeliveriesParams): Promise<readonly WebhookDelivery[]> {
+    const { webhookId, limit, status } = params;
+
+    const webhook = await this.webhookRepository.findById(webhookId);
+    if (!webhook) {
+      throw new WebhookNotFoundError(webhookId);
+    }
+
+    return this.webhookDeliveryRepository.findByWebhookId(webhookId, limit, status);
+  }
+}
@@ -0,0 +1,13 @@
+import { inject, injectable, singleton } from "tsyringe";
+import type { Webhook } from "../../../domain/models/Webhook";
+import type { WebhookRepository } from "../../../domain/repositories/WebhookRepository";
+
+@injectable()
+@singleton()
+export class GetWebhooksUseCase {
+  constructor(@inject("WebhookRepository") private readonly webhookRepository: WebhookRepository) {}
+
+  async execute(): Promise<readonly Webhook[]> {
+    return this.webhookRepository.findAll();
+  }
+}
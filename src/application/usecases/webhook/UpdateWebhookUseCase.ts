@@ -0,0 +1,44 @@
+import { inject, injectable, singleton } from "tsyringe";
+import { Webhook, type WebhookEventType } from "../../../domain/models/Webhook";
+import type { WebhookRepository } from "../../../domain/repositories/WebhookRepository";
+
+type UpdateWebhookParams = {
+  readonly id: string;
+  readonly url?: string;
+  readonly secret?: string;
+  readonly eventTypes?: readonly WebhookEventType[];
+};
+
+@injectable()
+@singleton()
+export class UpdateWebhookUseCase {
+  constructor(@inject("WebhookRepository") private readonly webhookRepository: WebhookRepository) {}
+
+  /**
+   * Change a webhook. Deliveries that are still pending are sent to the new URL with the new secret.
+   */
+  async execute(params: UpdateWebhookParams): Promise<Webhook | null> {
+    const { id, url, secret, eventTypes } = params;
+
+    const webhook = await this.webhookRepository.findById(id);
+    if (!webhook) {
+      return null;
+    }
+
+    let updatedWebhook = webhook;
+
+    if (url !== undefined) {
+      updatedWebhook = Webhook.updateUrl(updatedWebhook, url);
+    }
+
+    if (secret !== undefined) {
+      updatedWebhook = Webhook.updateSecret(updatedWebhook, secret);
+    }
+
+    if (eventTypes !== undefined) {
+      updatedWebhook = Webhook.updateEventTypes(updatedWebhook, eventTypes);
+    }
+
+    return updatedWebhook === webhook ? webhook : this.webhookRepository.save(updatedWebhook);
+  }
+}
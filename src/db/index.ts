@@ -8,6 +8,9 @@ const logger = new Logger({ name: "db" });
 // Create a Bun SQLite database connection
 const sqlite = new Database("data.db");
 
+// Enable foreign key constraints so that ON DELETE CASCADE is honoured
+sqlite.exec("PRAGMA foreign_keys = ON;");
+
 // Create a Drizzle ORM instance using Bun SQLite
 export const db = drizzle(sqlite, {
   schema,
@@ -2,10 +2,23 @@ import { Database } from "bun:sqlite";
 import { sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/bun-sqlite";
 import { Logger } from "tslog";
+import { Rank } from "../domain/models/Rank";
 import * as schema from "./schema";
 
 const logger = new Logger({ name: "migrate" });
 
+/**
+ * Add a column to an existing table unless it is already present
+ */
+function addColumnIfMissing(sqlite: Database, table: string, column: string, definition: string): void {
+  const columns = sqlite.query(`PRAGMA table_info(${table})`).all() as { name: string }[];
+
+  if (!columns.some((existing) => existing.name === column)) {
+    logger.info(`Adding column ${table}.${column}`);
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
 async function main() {
   logger.info("Starting database setup...");
 
@@ -19,6 +32,24 @@ async function main() {
 
   logger.info("Applying SQL migration...");
 
+  // Create the recurring patterns table referenced by tasks
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS recurring_patterns (
+      id TEXT PRIMARY KEY NOT NULL,
+      title TEXT NOT NULL,
+      description TEXT,
+      priority TEXT DEFAULT 'medium' NOT NULL,
+      type TEXT NOT NULL,
+      interval INTEGER DEFAULT 1 NOT NULL,
+      days_of_week TEXT,
+      day_of_month INTEGER,
+      end_date INTEGER,
+      occurrences INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+
   // Execute SQL directly to create the tasks table
   db.run(sql`
     CREATE TABLE IF NOT EXISTS tasks (
@@ -26,15 +57,255 @@ async function main() {
       parent_id TEXT,
       title TEXT NOT NULL,
       description TEXT,
-      status TEXT DEFAULT 'incomplete' NOT NULL,
+      status TEXT DEFAULT 'todo' NOT NULL,
+      priority TEXT DEFAULT 'medium' NOT NULL,
+      due_date INTEGER,
+      start_date INTEGER,
+      recurring_pattern_id TEXT REFERENCES recurring_patterns(id) ON DELETE SET NULL,
+      instance_date INTEGER,
       "order" INTEGER DEFAULT 1 NOT NULL,
+      rank_key TEXT DEFAULT '' NOT NULL,
+      version INTEGER DEFAULT 1 NOT NULL,
       created_at INTEGER NOT NULL,
       updated_at INTEGER,
+      deleted_at INTEGER,
       FOREIGN KEY (parent_id) REFERENCES tasks(id) ON DELETE CASCADE
     );
+  `);
+
+  // Create the tag tables
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS tags (
+      id TEXT PRIMARY KEY NOT NULL,
+      name TEXT NOT NULL UNIQUE,
+      color TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS task_tags (
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+      PRIMARY KEY (task_id, tag_id)
+    );
+  `);
+
+  // Create the reminders table
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS reminders (
+      id TEXT PRIMARY KEY NOT NULL,
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      remind_at INTEGER,
+      minutes_before_due INTEGER,
+      status TEXT DEFAULT 'pending' NOT NULL,
+      snoozed_until INTEGER,
+      fired_at INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+
+  // Create the task change history
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS task_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      operation_id TEXT NOT NULL,
+      task_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      changes TEXT NOT NULL,
+      occurred_at INTEGER NOT NULL,
+      origin TEXT DEFAULT 'change' NOT NULL,
+      reverted_operation_id TEXT
+    );
+  `);
+
+  // Create the status propagation policies table
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS status_propagation_policies (
+      root_task_id TEXT PRIMARY KEY NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      policy TEXT NOT NULL
+    );
+  `);
+
+  // Create the workflow table, which holds the workflow once it is changed from the standard one
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS workflows (
+      id INTEGER PRIMARY KEY NOT NULL,
+      states TEXT NOT NULL,
+      initial_status TEXT NOT NULL,
+      completed_status TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+
+  // Create the task dependencies table
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS task_dependencies (
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      blocker_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (task_id, blocker_id)
+    );
+  `);
+
+  // Create the task templates table
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS task_templates (
+      id TEXT PRIMARY KEY NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT,
+      task TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+
+  // Create the webhooks table and their delivery log
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id TEXT PRIMARY KEY NOT NULL,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      event_types TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY NOT NULL,
+      webhook_id TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+      event_id INTEGER NOT NULL,
+      event_type TEXT NOT NULL,
+      task_id TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT DEFAULT 'pending' NOT NULL,
+      attempts INTEGER DEFAULT 0 NOT NULL,
+      next_attempt_at INTEGER,
+      last_attempt_at INTEGER,
+      response_status INTEGER,
+      error TEXT,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id_event_id
+      ON webhook_deliveries(webhook_id, event_id);
+  `);
+
+  // Bring tables created by earlier versions up to date
+  addColumnIfMissing(sqlite, "tasks", "priority", "TEXT DEFAULT 'medium' NOT NULL");
+  addColumnIfMissing(sqlite, "tasks", "due_date", "INTEGER");
+  addColumnIfMissing(sqlite, "tasks", "start_date", "INTEGER");
+  addColumnIfMissing(
+    sqlite,
+    "tasks",
+    "recurring_pattern_id",
+    "TEXT REFERENCES recurring_patterns(id) ON DELETE SET NULL",
+  );
+  addColumnIfMissing(sqlite, "tasks", "instance_date", "INTEGER");
+  addColumnIfMissing(sqlite, "tasks", "deleted_at", "INTEGER");
+  addColumnIfMissing(sqlite, "tasks", "rank_key", "TEXT DEFAULT '' NOT NULL");
+  addColumnIfMissing(sqlite, "tasks", "version", "INTEGER DEFAULT 1 NOT NULL");
+  addColumnIfMissing(sqlite, "task_events", "origin", "TEXT DEFAULT 'change' NOT NULL");
+  addColumnIfMissing(sqlite, "task_events", "reverted_operation_id", "TEXT");
+
+  // Map the completed/incomplete statuses of earlier versions onto the workflow states,
+  // in the history as well so that older operations can still be undone.
+  // Tables created by earlier versions keep their old column default, but tasks are always saved with a status.
+  sqlite.exec(`
+    UPDATE tasks SET status = CASE status WHEN 'completed' THEN 'done' ELSE 'todo' END
+    WHERE status IN ('completed', 'incomplete');
+
+    UPDATE task_events SET changes = json_set(
+      changes,
+      '$.status.before',
+      CASE json_extract(changes, '$.status.before')
+        WHEN 'completed' THEN 'done'
+        WHEN 'incomplete' THEN 'todo'
+        ELSE json_extract(changes, '$.status.before')
+      END,
+      '$.status.after',
+      CASE json_extract(changes, '$.status.after')
+        WHEN 'completed' THEN 'done'
+        WHEN 'incomplete' THEN 'todo'
+        ELSE json_extract(changes, '$.status.after')
+      END
+    )
+    WHERE json_extract(changes, '$.status.before') IN ('completed', 'incomplete')
+      OR json_extract(changes, '$.status.after') IN ('completed', 'incomplete');
+  `);
+
+  // Give tasks of earlier versions the evenly spaced rank of their order
+  const unranked = sqlite.query(`SELECT id, "order" FROM tasks WHERE rank_key = ''`).all() as {
+    id: string;
+    order: number;
+  }[];
+  if (unranked.length > 0) {
+    logger.info(`Ranking ${unranked.length} tasks`);
+    const setRank = sqlite.prepare("UPDATE tasks SET rank_key = ? WHERE id = ?");
+    sqlite.transaction(() => {
+      for (const task of unranked) {
+        setRank.run(Rank.fromOrder(task.order), task.id);
+      }
+    })();
+  }
+
+  // Earlier versions kept a copy of the text in the search index, keyed by an unindexed task ID column
+  const searchIndex = sqlite.query("SELECT sql FROM sqlite_master WHERE name = 'tasks_fts'").get() as {
+    sql: string;
+  } | null;
+  const searchIndexIsCurrent = searchIndex?.sql.includes("content='tasks'") ?? false;
+  if (searchIndex && !searchIndexIsCurrent) {
+    logger.info("Recreating the search index");
+    sqlite.exec(`
+      DROP TRIGGER IF EXISTS tasks_fts_after_insert;
+      DROP TRIGGER IF EXISTS tasks_fts_after_update;
+      DROP TRIGGER IF EXISTS tasks_fts_after_delete;
+      DROP TABLE tasks_fts;
+    `);
+  }
+
+  // Create the full-text search index over task titles and descriptions.
+  // It reads the text from the tasks table and is kept in sync with it by triggers, matching rows by rowid.
+  sqlite.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS tasks_fts USING fts5(title, description, content='tasks');
+
+    CREATE TRIGGER IF NOT EXISTS tasks_fts_after_insert AFTER INSERT ON tasks BEGIN
+      INSERT INTO tasks_fts (rowid, title, description) VALUES (new.rowid, new.title, new.description);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS tasks_fts_after_update AFTER UPDATE OF title, description ON tasks BEGIN
+      INSERT INTO tasks_fts (tasks_fts, rowid, title, description) VALUES ('delete', old.rowid, old.title, old.description);
+      INSERT INTO tasks_fts (rowid, title, description) VALUES (new.rowid, new.title, new.description);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS tasks_fts_after_delete AFTER DELETE ON tasks BEGIN
+      INSERT INTO tasks_fts (tasks_fts, rowid, title, description) VALUES ('delete', old.rowid, old.title, old.description);
+    END;
+  `);
+
+  // Index the tasks that existed before the search index did.
+  // VACUUM may renumber the rowids of the tasks table; run this rebuild after it as well.
+  if (!searchIndexIsCurrent) {
+    sqlite.exec("INSERT INTO tasks_fts (tasks_fts) VALUES ('rebuild')");
+  }
 
-    -- Create index on parent_id for better query performance
+  // Create indexes for better query performance
+  sqlite.exec(`
     CREATE INDEX IF NOT EXISTS idx_tasks_parent_id ON tasks(parent_id);
+    CREATE INDEX IF NOT EXISTS idx_tasks_parent_id_rank_key ON tasks(parent_id, rank_key);
+    CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks(priority);
+    CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON tasks(due_date);
+    CREATE INDEX IF NOT EXISTS idx_task_tags_tag_id ON task_tags(tag_id);
+    CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocker_id ON task_dependencies(blocker_id);
+    CREATE INDEX IF NOT EXISTS idx_tasks_recurring_pattern_id ON tasks(recurring_pattern_id);
+    CREATE INDEX IF NOT EXISTS idx_tasks_deleted_at ON tasks(deleted_at);
+    CREATE INDEX IF NOT EXISTS idx_reminders_task_id ON reminders(task_id);
+    CREATE INDEX IF NOT EXISTS idx_reminders_status ON reminders(status);
+    CREATE INDEX IF NOT EXISTS idx_task_events_task_id ON task_events(task_id, id);
+    CREATE INDEX IF NOT EXISTS idx_task_events_operation_id ON task_events(operation_id);
+    CREATE INDEX IF NOT EXISTS idx_task_events_reverted_operation_id ON task_events(reverted_operation_id);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status_next_attempt_at
+      ON webhook_deliveries(status, next_attempt_at);
   `);
 
   logger.info("Database setup completed successfully!");
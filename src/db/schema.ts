@@ -1,4 +1,26 @@
-import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { integer, primaryKey, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
+
+// Templates of recurring tasks, see RecurringTodoPattern
+export const recurringPatterns = sqliteTable("recurring_patterns", {
+  id: text("id").primaryKey(),
+  title: text("title").notNull(),
+  description: text("description"),
+  priority: text("priority", { enum: ["high", "medium", "low"] })
+    .notNull()
+    .default("medium"),
+  type: text("type", { enum: ["daily", "weekly", "monthly", "custom"] }).notNull(),
+  interval: integer("interval").notNull().default(1),
+  daysOfWeek: text("days_of_week", { mode: "json" }).$type<number[]>(),
+  dayOfMonth: integer("day_of_month"),
+  endDate: integer("end_date", { mode: "timestamp" }),
+  occurrences: integer("occurrences"),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
 
 // Self-referencing table definition
 export const tasks = sqliteTable("tasks", {
@@ -6,18 +28,202 @@ export const tasks = sqliteTable("tasks", {
   parentId: text("parent_id"),
   title: text("title").notNull(),
   description: text("description"),
-  status: text("status", { enum: ["completed", "incomplete"] })
+  status: text("status", { enum: ["todo", "in_progress", "blocked", "done", "cancelled"] })
+    .notNull()
+    .default("todo"),
+  priority: text("priority", { enum: ["high", "medium", "low"] })
     .notNull()
-    .default("incomplete"),
+    .default("medium"),
+  dueDate: integer("due_date", { mode: "timestamp" }),
+  startDate: integer("start_date", { mode: "timestamp" }),
+  recurringPatternId: text("recurring_pattern_id").references(() => recurringPatterns.id, { onDelete: "set null" }),
+  instanceDate: integer("instance_date", { mode: "timestamp" }),
   order: integer("order").notNull().default(1),
+  // Lexicographic sort key among siblings; empty for tasks written before ranks existed
+  rankKey: text("rank_key").notNull().default(""),
+  // Bumped on every change of the row, for optimistic concurrency control
+  version: integer("version").notNull().default(1),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .$defaultFn(() => new Date()),
   updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  // Set on every task of a trashed subtree; millisecond precision tells separate deletions apart
+  deletedAt: integer("deleted_at", { mode: "timestamp_ms" }),
 });
 
 // Self-referencing foreign key constraint is defined in migrate.ts
 // with `FOREIGN KEY (parent_id) REFERENCES tasks(id) ON DELETE CASCADE`
 
+export const tags = sqliteTable("tags", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  color: text("color"),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+// Junction table between tasks and tags
+export const taskTags = sqliteTable(
+  "task_tags",
+  {
+    taskId: text("task_id")
+      .notNull()
+      .references(() => tasks.id, { onDelete: "cascade" }),
+    tagId: text("tag_id")
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+  },
+  (table) => [primaryKey({ columns: [table.taskId, table.tagId] })],
+);
+
+export const reminders = sqliteTable("reminders", {
+  id: text("id").primaryKey(),
+  taskId: text("task_id")
+    .notNull()
+    .references(() => tasks.id, { onDelete: "cascade" }),
+  // Either remind_at or minutes_before_due is set
+  remindAt: integer("remind_at", { mode: "timestamp" }),
+  minutesBeforeDue: integer("minutes_before_due"),
+  status: text("status", { enum: ["pending", "fired", "dismissed"] })
+    .notNull()
+    .default("pending"),
+  snoozedUntil: integer("snoozed_until", { mode: "timestamp" }),
+  firedAt: integer("fired_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+// Change history of tasks, ordered by the autoincrementing id
+export const taskEvents = sqliteTable("task_events", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  operationId: text("operation_id").notNull(),
+  // Not a foreign key: the history outlives purged tasks
+  taskId: text("task_id").notNull(),
+  type: text("type", { enum: ["created", "updated", "moved", "reordered", "deleted", "restored"] }).notNull(),
+  changes: text("changes", { mode: "json" }).notNull(),
+  occurredAt: integer("occurred_at", { mode: "timestamp_ms" }).notNull(),
+  origin: text("origin", { enum: ["change", "undo", "redo"] })
+    .notNull()
+    .default("change"),
+  revertedOperationId: text("reverted_operation_id"),
+});
+
+// Status propagation policy of each task tree that has one configured, keyed by its root task
+export const statusPropagationPolicies = sqliteTable("status_propagation_policies", {
+  rootTaskId: text("root_task_id")
+    .primaryKey()
+    .references(() => tasks.id, { onDelete: "cascade" }),
+  policy: text("policy", { enum: ["none", "complete", "reopen", "completeAndReopen"] }).notNull(),
+});
+
+// The configured task workflow with its states stored as JSON. There is at most one row, with ID 1,
+// and none until the standard workflow is changed.
+export const workflows = sqliteTable("workflows", {
+  id: integer("id").primaryKey(),
+  states: text("states", { mode: "json" }).notNull(),
+  initialStatus: text("initial_status", { enum: ["todo", "in_progress", "blocked", "done", "cancelled"] }).notNull(),
+  completedStatus: text("completed_status", {
+    enum: ["todo", "in_progress", "blocked", "done", "cancelled"],
+  }).notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+// Tasks that have to be done before another task can be done
+export const taskDependencies = sqliteTable(
+  "task_dependencies",
+  {
+    taskId: text("task_id")
+      .notNull()
+      .references(() => tasks.id, { onDelete: "cascade" }),
+    blockerId: text("blocker_id")
+      .notNull()
+      .references(() => tasks.id, { onDelete: "cascade" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [primaryKey({ columns: [table.taskId, table.blockerId] })],
+);
+
+// Reusable task trees, stored as nested JSON since they are always read and written whole
+export const taskTemplates = sqliteTable("task_templates", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  task: text("task", { mode: "json" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+// Outgoing webhooks and the event types they subscribe to, stored as a JSON array
+export const webhooks = sqliteTable("webhooks", {
+  id: text("id").primaryKey(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  eventTypes: text("event_types", { mode: "json" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+// Task events queued for webhooks, kept as the delivery log
+export const webhookDeliveries = sqliteTable(
+  "webhook_deliveries",
+  {
+    id: text("id").primaryKey(),
+    webhookId: text("webhook_id")
+      .notNull()
+      .references(() => webhooks.id, { onDelete: "cascade" }),
+    // Not a foreign key, like the task ID of the events
+    eventId: integer("event_id").notNull(),
+    eventType: text("event_type", { enum: ["created", "completed", "moved", "deleted"] }).notNull(),
+    taskId: text("task_id").notNull(),
+    payload: text("payload").notNull(),
+    status: text("status", { enum: ["pending", "succeeded", "failed"] })
+      .notNull()
+      .default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: integer("next_attempt_at", { mode: "timestamp_ms" }),
+    lastAttemptAt: integer("last_attempt_at", { mode: "timestamp_ms" }),
+    responseStatus: integer("response_status"),
+    error: text("error"),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => [uniqueIndex("idx_webhook_deliveries_webhook_id_event_id").on(table.webhookId, table.eventId)],
+);
+
 export type Task = typeof tasks.$inferSelect;
 export type NewTask = typeof tasks.$inferInsert;
+export type RecurringPattern = typeof recurringPatterns.$inferSelect;
+export type NewRecurringPattern = typeof recurringPatterns.$inferInsert;
+export type Tag = typeof tags.$inferSelect;
+export type NewTag = typeof tags.$inferInsert;
+export type TaskTag = typeof taskTags.$inferSelect;
+export type Reminder = typeof reminders.$inferSelect;
+export type NewReminder = typeof reminders.$inferInsert;
+export type TaskEvent = typeof taskEvents.$inferSelect;
+export type NewTaskEvent = typeof taskEvents.$inferInsert;
+export type StatusPropagationPolicy = typeof statusPropagationPolicies.$inferSelect;
+export type Workflow = typeof workflows.$inferSelect;
+export type TaskDependency = typeof taskDependencies.$inferSelect;
+export type TaskTemplate = typeof taskTemplates.$inferSelect;
+export type NewTaskTemplate = typeof taskTemplates.$inferInsert;
+export type Webhook = typeof webhooks.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
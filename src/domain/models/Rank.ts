@@ -0,0 +1,68 @@
+const digits = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+// Number of digits in front of the middle digit of evenly spaced ranks
+const spacedWidth = 6;
+
+/**
+ * Lexicographic sort keys that order sibling tasks, in the spirit of LexoRank.
+ * Another rank always fits between two ranks, so placing a task never renumbers its siblings.
+ */
+export namespace Rank {
+  /**
+   * Ranks longer than this are due for a rebalance of their siblings
+   */
+  export const maxLength = 16;
+
+  /**
+   * Evenly spaced rank for the given position in a list, such as the task order.
+   * Ranks end on a middle digit so that there is room on both sides of them.
+   */
+  export function fromOrder(order: number): string {
+    return `${Math.max(0, Math.floor(order)).toString(36).padStart(spacedWidth, "0")}i`;
+  }
+
+  /**
+   * A rank sorting after `before` and before `after`; null stands for the start or the end of the list
+   */
+  export function between(before: string | null, after: string | null): string {
+    if (after !== null && (before ?? "") >= after) {
+      throw new Error(`Rank "${before}" does not sort before rank "${after}"`);
+    }
+
+    return midpoint(before ?? "", after);
+  }
+
+  export function needsRebalance(rank: string): boolean {
+    return rank.length > maxLength;
+  }
+
+  export function compare(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  // Shortest string between the two, where a missing upper bound is the end of the list
+  function midpoint(lower: string, upper: string | null): string {
+    if (upper !== null) {
+      // Keep the common prefix, reading missing digits of the lower bound as zeros
+      let length = 0;
+      while ((lower[length] ?? digits[0]) === upper[length]) {
+        length++;
+      }
+      if (length > 0) {
+        return upper.slice(0, length) + midpoint(lower.slice(length), upper.slice(length));
+      }
+    }
+
+    const low = lower ? digits.indexOf(lower.charAt(0)) : 0;
+    const high = upper !== null ? digits.indexOf(upper.charAt(0)) : digits.length;
+    if (high - low > 1) {
+      return digits.charAt(Math.round((low + high) / 2));
+    }
+
+    // The first digits are adjacent: the upper digit alone fits if the upper bound goes on, otherwise go one level deeper
+    if (upper !== null && upper.length > 1) {
+      return upper.charAt(0);
+    }
+    return digits.charAt(low) + midpoint(lower.slice(1), null);
+  }
+}
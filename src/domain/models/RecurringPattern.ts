@@ -0,0 +1,201 @@
+import { v4 as uuidv4 } from "uuid";
+import type { TaskPriority } from "./Task";
+
+export type RecurrenceType = "daily" | "weekly" | "monthly" | "custom";
+
+/**
+ * Recurrence rule of a recurring task
+ *
+ * - daily: every `interval` days
+ * - weekly: every `interval` weeks, on `daysOfWeek` (0: Sunday to 6: Saturday) or the same weekday
+ * - monthly: every `interval` months, on `dayOfMonth` or the same day of month
+ * - custom: every `interval` days, skipping forward to the next day listed in `daysOfWeek` if given
+ */
+export type RecurringPattern = Readonly<{
+  type: RecurrenceType;
+  interval: number;
+  daysOfWeek: readonly number[] | null;
+  dayOfMonth: number | null;
+  endDate: Date | null;
+  occurrences: number | null;
+}>;
+
+/**
+ * Template from which the instances of a recurring task are created
+ */
+export type RecurringTodoPattern = Readonly<{
+  id: string;
+  title: string;
+  description: string | null;
+  priority: TaskPriority;
+  pattern: RecurringPattern;
+  createdAt: Date;
+  updatedAt: Date;
+}>;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export namespace RecurringPattern {
+  export function create(
+    type: RecurrenceType,
+    interval = 1,
+    daysOfWeek: readonly number[] | null = null,
+    dayOfMonth: number | null = null,
+    endDate: Date | null = null,
+    occurrences: number | null = null,
+  ): RecurringPattern {
+    if (!["daily", "weekly", "monthly", "custom"].includes(type)) {
+      throw new Error(`Recurrence type must be "daily", "weekly", "monthly" or "custom", got "${type}"`);
+    }
+
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw new Error("Recurrence interval must be a positive integer");
+    }
+
+    if (daysOfWeek?.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new Error("Days of week must be integers between 0 (Sunday) and 6 (Saturday)");
+    }
+
+    if (dayOfMonth !== null && (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31)) {
+      throw new Error("Day of month must be an integer between 1 and 31");
+    }
+
+    if (occurrences !== null && (!Number.isInteger(occurrences) || occurrences < 1)) {
+      throw new Error("Occurrences must be a positive integer");
+    }
+
+    return {
+      type,
+      interval,
+      daysOfWeek: daysOfWeek && daysOfWeek.length > 0 ? [...new Set(daysOfWeek)].sort((a, b) => a - b) : null,
+      dayOfMonth,
+      endDate,
+      occurrences,
+    };
+  }
+
+  /**
+   * Calculate the occurrence following `after`, or null when the pattern has ended
+   */
+  export function nextOccurrence(pattern: RecurringPattern, after: Date): Date | null {
+    const next = calculateNext(pattern, after);
+
+    if (pattern.endDate && next.getTime() > pattern.endDate.getTime()) {
+      return null;
+    }
+
+    return next;
+  }
+
+  /**
+   * Whether another instance may be created after `instanceCount` instances
+   */
+  export function allowsAnotherOccurrence(pattern: RecurringPattern, instanceCount: number): boolean {
+    return pattern.occurrences === null || instanceCount < pattern.occurrences;
+  }
+
+  function calculateNext(pattern: RecurringPattern, after: Date): Date {
+    switch (pattern.type) {
+      case "daily":
+        return addDays(after, pattern.interval);
+      case "weekly":
+        return nextWeekly(pattern, after);
+      case "monthly":
+        return nextMonthly(pattern, after);
+      case "custom":
+        return nextCustom(pattern, after);
+    }
+  }
+
+  function nextWeekly(pattern: RecurringPattern, after: Date): Date {
+    if (!pattern.daysOfWeek) {
+      return addDays(after, 7 * pattern.interval);
+    }
+
+    // A later day within the same week comes first
+    const currentDay = after.getUTCDay();
+    const laterDay = pattern.daysOfWeek.find((day) => day > currentDay);
+    if (laterDay !== undefined) {
+      return addDays(after, laterDay - currentDay);
+    }
+
+    // Otherwise jump `interval` weeks ahead to the first listed day
+    const startOfWeek = addDays(after, -currentDay);
+    return addDays(startOfWeek, 7 * pattern.interval + (pattern.daysOfWeek[0] ?? 0));
+  }
+
+  function nextMonthly(pattern: RecurringPattern, after: Date): Date {
+    const targetDay = pattern.dayOfMonth ?? after.getUTCDate();
+    const next = new Date(after.getTime());
+
+    // Clamp to the last day of months that are too short, e.g. the 31st in April
+    next.setUTCDate(1);
+    next.setUTCMonth(next.getUTCMonth() + pattern.interval);
+    const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+    next.setUTCDate(Math.min(targetDay, daysInMonth));
+
+    return next;
+  }
+
+  function nextCustom(pattern: RecurringPattern, after: Date): Date {
+    let next = addDays(after, pattern.interval);
+
+    if (pattern.daysOfWeek) {
+      while (!pattern.daysOfWeek.includes(next.getUTCDay())) {
+        next = addDays(next, 1);
+      }
+    }
+
+    return next;
+  }
+
+  function addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * DAY_IN_MS);
+  }
+}
+
+export namespace RecurringTodoPattern {
+  export function create(
+    title: string,
+    pattern: RecurringPattern,
+    description: string | null = null,
+    priority: TaskPriority = "medium",
+    id?: string,
+    createdAt?: Date,
+    updatedAt?: Date,
+  ): RecurringTodoPattern {
+    if (!title.trim()) {
+      throw new Error("Recurring pattern title cannot be empty");
+    }
+
+    return {
+      id: id || uuidv4(),
+      title,
+      description,
+      priority,
+      pattern,
+      createdAt: createdAt || new Date(),
+      updatedAt: updatedAt || new Date(),
+    };
+  }
+
+  export function update(
+    todoPattern: RecurringTodoPattern,
+    changes: Readonly<{
+      title?: string;
+      description?: string | null;
+      priority?: TaskPriority;
+      pattern?: RecurringPattern;
+    }>,
+  ): RecurringTodoPattern {
+    if (changes.title !== undefined && !changes.title.trim()) {
+      throw new Error("Recurring pattern title cannot be empty");
+    }
+
+    return {
+      ...todoPattern,
+      ...changes,
+      updatedAt: new Date(),
+    };
+  }
+}
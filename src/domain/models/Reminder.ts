@@ -0,0 +1,162 @@
+import { v4 as uuidv4 } from "uuid";
+import type { Task } from "./Task";
+
+/**
+ * - pending: waiting for its time to come
+ * - fired: the notification has been sent
+ * - dismissed: turned off without being sent, or after being sent
+ */
+export type ReminderStatus = "pending" | "fired" | "dismissed";
+
+/**
+ * A reminder of a task, due either at an absolute time or a number of minutes before the task's due date
+ */
+export type Reminder = Readonly<{
+  id: string;
+  taskId: string;
+  /**
+   * Absolute time of the reminder; null for reminders relative to the due date
+   */
+  remindAt: Date | null;
+  /**
+   * Minutes before the task's due date; null for reminders at an absolute time
+   */
+  minutesBeforeDue: number | null;
+  status: ReminderStatus;
+  /**
+   * Time the reminder was snoozed to, which takes precedence over its regular time
+   */
+  snoozedUntil: Date | null;
+  firedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}>;
+
+/**
+ * A reminder together with the time it is going to fire, or null when it will not fire
+ */
+export type ScheduledReminder = Reminder &
+  Readonly<{
+    fireAt: Date | null;
+  }>;
+
+/**
+ * The details of a task that are needed to schedule and deliver its reminders
+ */
+export type RemindedTask = Pick<Task, "id" | "title" | "description" | "dueDate">;
+
+const MINUTE_IN_MS = 60 * 1000;
+
+export namespace Reminder {
+  export function create(
+    taskId: string,
+    remindAt: Date | null,
+    minutesBeforeDue: number | null,
+    id?: string,
+    status: ReminderStatus = "pending",
+    snoozedUntil: Date | null = null,
+    firedAt: Date | null = null,
+    createdAt?: Date,
+    updatedAt?: Date,
+  ): Reminder {
+    validateTiming(remindAt, minutesBeforeDue);
+
+    return {
+      id: id || uuidv4(),
+      taskId,
+      remindAt,
+      minutesBeforeDue,
+      status,
+      snoozedUntil,
+      firedAt,
+      createdAt: createdAt || new Date(),
+      updatedAt: updatedAt || new Date(),
+    };
+  }
+
+  /**
+   * Change when the reminder fires. The reminder becomes pending again, even if it had already fired.
+   */
+  export function reschedule(reminder: Reminder, remindAt: Date | null, minutesBeforeDue: number | null): Reminder {
+    validateTiming(remindAt, minutesBeforeDue);
+
+    return {
+      ...reminder,
+      remindAt,
+      minutesBeforeDue,
+      status: "pending",
+      snoozedUntil: null,
+      firedAt: null,
+      updatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Postpone the reminder until the given time, whether it was pending, fired or dismissed
+   */
+  export function snooze(reminder: Reminder, until: Date): Reminder {
+    return {
+      ...reminder,
+      status: "pending",
+      snoozedUntil: until,
+      updatedAt: new Date(),
+    };
+  }
+
+  export function dismiss(reminder: Reminder): Reminder {
+    return {
+      ...reminder,
+      status: "dismissed",
+      snoozedUntil: null,
+      updatedAt: new Date(),
+    };
+  }
+
+  export function markAsFired(reminder: Reminder, firedAt: Date = new Date()): Reminder {
+    return {
+      ...reminder,
+      status: "fired",
+      snoozedUntil: null,
+      firedAt,
+      updatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Calculate when a reminder fires, given the due date of its task.
+   * Returns null when it is not pending, or when it is relative to a due date the task does not have.
+   */
+  export function fireAt(reminder: Reminder, dueDate: Date | null): Date | null {
+    if (reminder.status !== "pending") {
+      return null;
+    }
+
+    if (reminder.snoozedUntil) {
+      return reminder.snoozedUntil;
+    }
+
+    if (reminder.remindAt) {
+      return reminder.remindAt;
+    }
+
+    if (reminder.minutesBeforeDue === null || dueDate === null) {
+      return null;
+    }
+
+    return new Date(dueDate.getTime() - reminder.minutesBeforeDue * MINUTE_IN_MS);
+  }
+
+  export function withSchedule(reminder: Reminder, dueDate: Date | null): ScheduledReminder {
+    return { ...reminder, fireAt: fireAt(reminder, dueDate) };
+  }
+
+  function validateTiming(remindAt: Date | null, minutesBeforeDue: number | null): void {
+    if ((remindAt === null) === (minutesBeforeDue === null)) {
+      throw new Error("A reminder needs either an absolute time or a number of minutes before the due date");
+    }
+
+    if (minutesBeforeDue !== null && (!Number.isInteger(minutesBeforeDue) || minutesBeforeDue < 0)) {
+      throw new Error("Minutes before the due date must be a non-negative integer");
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { v4 as uuidv4 } from "uuid";
+
+export type Tag = Readonly<{
+  id: string;
+  name: string;
+  color: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}>;
+
+export namespace Tag {
+  export function create(
+    name: string,
+    color: string | null = null,
+    id?: string,
+    createdAt?: Date,
+    updatedAt?: Date,
+  ): Tag {
+    if (!name.trim()) {
+      throw new Error("Tag name cannot be empty");
+    }
+
+    return {
+      id: id || uuidv4(),
+      name: name.trim(),
+      color,
+      createdAt: createdAt || new Date(),
+      updatedAt: updatedAt || new Date(),
+    };
+  }
+
+  export function updateName(tag: Tag, name: string): Tag {
+    if (!name.trim()) {
+      throw new Error("Tag name cannot be empty");
+    }
+
+    return {
+      ...tag,
+      name: name.trim(),
+      updatedAt: new Date(),
+    };
+  }
+
+  export function updateColor(tag: Tag, color: string | null): Tag {
+    return {
+      ...tag,
+      color,
+      updatedAt: new Date(),
+    };
+  }
+}
@@ -1,6 +1,32 @@
 import { v4 as uuidv4 } from "uuid";
+import { Rank } from "./Rank";
+import type { Tag } from "./Tag";
+import { type TaskStatus, Workflow } from "./Workflow";
+import { InvalidDateRangeError, InvalidStatusTransitionError, TaskVersionMismatchError } from "./errors";
 
-export type TaskStatus = "completed" | "incomplete";
+export type TaskPriority = "high" | "medium" | "low";
+
+/**
+ * Optional attributes that can be supplied when creating a task
+ */
+export type TaskAttributes = Readonly<{
+  priority?: TaskPriority;
+  /**
+   * Defaults to the evenly spaced rank of the order
+   */
+  rankKey?: string;
+  /**
+   * Defaults to the version of a task that was never changed
+   */
+  version?: number;
+  dueDate?: Date | null;
+  startDate?: Date | null;
+  tags?: readonly Tag[];
+  blockedBy?: readonly string[];
+  recurringPatternId?: string | null;
+  instanceDate?: Date | null;
+  deletedAt?: Date | null;
+}>;
 
 export type Task = Readonly<{
   id: string;
@@ -8,24 +34,136 @@ export type Task = Readonly<{
   title: string;
   description: string | null;
   status: TaskStatus;
+  priority: TaskPriority;
+  dueDate: Date | null;
+  startDate: Date | null;
+  /**
+   * Position among the siblings under the same parent, kept for clients that do not use ranks yet
+   */
   order: number;
+  /**
+   * Lexicographic sort key among the siblings under the same parent, see Rank
+   */
+  rankKey: string;
+  /**
+   * Number of changes the task has gone through since it was created, starting at 1
+   */
+  version: number;
   createdAt: Date;
   updatedAt: Date;
   subtasks: readonly Task[];
+  /**
+   * Only set on tasks loaded at a depth limit, whose subtasks were left out:
+   * the number of direct subtasks, and whether there are any left to load
+   */
+  subtaskCount?: number;
+  hasMore?: boolean;
+  tags: readonly Tag[];
+  /**
+   * IDs of the tasks that have to be done before this task can be done
+   */
+  blockedBy: readonly string[];
+  recurringPatternId: string | null;
+  instanceDate: Date | null;
+  deletedAt: Date | null;
+}>;
+
+/**
+ * How status changes of subtasks spread to the tasks above them, configured per task tree on its root task
+ *
+ * - none: tasks keep their status whatever happens to their subtasks
+ * - complete: an open task is completed once all its subtasks are closed
+ * - reopen: a closed task is reopened once one of its subtasks is open
+ * - completeAndReopen: both of the above
+ */
+export type StatusPropagationPolicy = "none" | "complete" | "reopen" | "completeAndReopen";
+
+/**
+ * The status propagation policy of a task tree
+ */
+export type StatusPropagationSetting = Readonly<{
+  rootId: string;
+  policy: StatusPropagationPolicy;
+}>;
+
+/**
+ * Options for copying a task together with its subtasks
+ */
+export type DuplicateOptions = Readonly<{
+  /**
+   * Give the copied tasks the initial status instead of keeping their status
+   */
+  resetStatus?: boolean;
+  /**
+   * Text appended to the title of the copied task, but not of its subtasks
+   */
+  titleSuffix?: string;
+}>;
+
+/**
+ * A single entry of the ancestor chain leading to a task
+ */
+export type TaskPathSegment = Readonly<{
+  id: string;
+  title: string;
 }>;
 
+/**
+ * A task together with its ancestors, ordered from the root down to the direct parent
+ */
+export type TaskWithPath = Task &
+  Readonly<{
+    path: readonly TaskPathSegment[];
+  }>;
+
+/**
+ * Matched fragments of a task, with matching terms wrapped in <mark> tags
+ */
+export type TaskSearchHighlights = Readonly<{
+  title: string;
+  description: string | null;
+}>;
+
+/**
+ * A full-text search hit; a lower rank is a better match
+ */
+export type TaskSearchResult = TaskWithPath &
+  Readonly<{
+    rank: number;
+    highlights: TaskSearchHighlights;
+  }>;
+
 export namespace Task {
+  /**
+   * Policy of task trees whose root task has none configured
+   */
+  export const defaultStatusPropagationPolicy: StatusPropagationPolicy = "none";
+
   export function create(
     title: string,
     parentId: string | null = null,
     description: string | null = null,
     id?: string,
-    status: TaskStatus = "incomplete",
+    status: TaskStatus = Workflow.standard.initialStatus,
     order = 1,
     createdAt?: Date,
     updatedAt?: Date,
     subtasks: readonly Task[] = [],
+    attributes: TaskAttributes = {},
   ): Task {
+    const {
+      priority = "medium",
+      rankKey = Rank.fromOrder(order),
+      version = 1,
+      dueDate = null,
+      startDate = null,
+      tags = [],
+      blockedBy = [],
+      recurringPatternId = null,
+      instanceDate = null,
+      deletedAt = null,
+    } = attributes;
+
     if (!title.trim()) {
       throw new Error("Task title cannot be empty");
     }
@@ -34,27 +172,63 @@ export namespace Task {
       throw new Error("Task order must be a positive number");
     }
 
-    if (!["completed", "incomplete"].includes(status)) {
-      throw new Error(`Task status must be "completed" or "incomplete", got "${status}"`);
+    if (!Workflow.isStatus(status)) {
+      throw new Error(`Task status must be one of ${Workflow.statuses.join(", ")}, got "${status}"`);
     }
 
+    if (!["high", "medium", "low"].includes(priority)) {
+      throw new Error(`Task priority must be "high", "medium" or "low", got "${priority}"`);
+    }
+
+    validateDateRange(startDate, dueDate);
+
     return {
       id: id || uuidv4(),
       parentId,
       title,
       description,
       status,
+      priority,
+      dueDate,
+      startDate,
       order,
+      rankKey,
+      version,
       createdAt: createdAt || new Date(),
       updatedAt: updatedAt || new Date(),
       subtasks: [...subtasks], // Create a copy to ensure immutability
+      tags: [...tags],
+      blockedBy: [...blockedBy],
+      recurringPatternId,
+      instanceDate,
+      deletedAt,
     };
   }
 
+  /**
+   * Make sure the task is still at the version a change was based on; no expected version skips the check
+   */
+  export function checkVersion(task: Task, expectedVersion: number | undefined): void {
+    if (expectedVersion !== undefined && task.version !== expectedVersion) {
+      throw new TaskVersionMismatchError(task, expectedVersion);
+    }
+  }
+
   export function addSubtask(task: Task, title: string, description?: string | null): Task {
     const order = task.subtasks.length > 0 ? Math.max(...task.subtasks.map((subtask) => subtask.order)) + 1 : 1;
 
-    const subtask = create(title, task.id, description || null, undefined, "incomplete", order);
+    const subtask = create(
+      title,
+      task.id,
+      description || null,
+      undefined,
+      Workflow.standard.initialStatus,
+      order,
+      undefined,
+      undefined,
+      [],
+      { rankKey: rankAfter(task.subtasks) },
+    );
     const newSubtasks = [...task.subtasks, subtask];
 
     // Create a new Task with updated subtasks
@@ -82,6 +256,31 @@ export namespace Task {
     };
   }
 
+  export function updatePriority(task: Task, priority: TaskPriority): Task {
+    return {
+      ...task,
+      priority,
+      updatedAt: new Date(),
+    };
+  }
+
+  export function updateSchedule(
+    task: Task,
+    schedule: Readonly<{ startDate?: Date | null; dueDate?: Date | null }>,
+  ): Task {
+    const startDate = schedule.startDate === undefined ? task.startDate : schedule.startDate;
+    const dueDate = schedule.dueDate === undefined ? task.dueDate : schedule.dueDate;
+
+    validateDateRange(startDate, dueDate);
+
+    return {
+      ...task,
+      startDate,
+      dueDate,
+      updatedAt: new Date(),
+    };
+  }
+
   export function updateStatus(task: Task): Task {
     const newStatus = calculateStatus(task.subtasks, task.status);
 
@@ -92,34 +291,144 @@ export namespace Task {
     };
   }
 
+  /**
+   * Put the task at the given order, with the evenly spaced rank of that order
+   */
   export function updateOrder(task: Task, order: number): Task {
     return {
       ...task,
       order,
+      rankKey: Rank.fromOrder(order),
       updatedAt: new Date(),
     };
   }
 
-  export function markAsCompleted(task: Task): Task {
-    // Mark all subtasks as completed as well
-    const completedSubtasks = task.subtasks.map((subtask) => markAsCompleted(subtask));
-
+  /**
+   * Place the task under the given parent at the given rank
+   */
+  export function updatePosition(task: Task, parentId: string | null, rankKey: string): Task {
     return {
       ...task,
-      status: "completed",
+      parentId,
+      rankKey,
       updatedAt: new Date(),
-      subtasks: completedSubtasks,
     };
   }
 
-  export function markAsIncomplete(task: Task): Task {
+  /**
+   * Sort order of sibling tasks: by rank, then by order and ID for tasks sharing a rank
+   */
+  export function compareSiblings(a: Task, b: Task): number {
+    return Rank.compare(a.rankKey, b.rankKey) || a.order - b.order || Rank.compare(a.id, b.id);
+  }
+
+  /**
+   * Rank placing a task after all of the given siblings
+   */
+  export function rankAfter(siblings: readonly Task[]): string {
+    const last = [...siblings].sort(compareSiblings).at(-1);
+    return Rank.between(last ? last.rankKey : null, null);
+  }
+
+  /**
+   * Change the status of a task as the workflow allows, throwing an InvalidStatusTransitionError otherwise.
+   * Closing a task closes its open subtasks with the same status.
+   */
+  export function changeStatus(task: Task, status: TaskStatus, workflow: Workflow = Workflow.standard): Task {
+    if (!Workflow.canTransition(task.status, status, workflow)) {
+      throw new InvalidStatusTransitionError(task.status, status);
+    }
+
+    return Workflow.isClosed(status, workflow)
+      ? close(task, status, workflow)
+      : { ...task, status, updatedAt: new Date() };
+  }
+
+  export function markAsCompleted(task: Task, workflow: Workflow = Workflow.standard): Task {
+    return close(task, workflow.completedStatus, workflow);
+  }
+
+  export function markAsIncomplete(task: Task, workflow: Workflow = Workflow.standard): Task {
     return {
       ...task,
-      status: "incomplete",
+      status: workflow.initialStatus,
       updatedAt: new Date(),
     };
   }
 
+  /**
+   * Bring the status of the given task and of each of its ancestors within the tree in line with their subtasks,
+   * as far as the policy allows, starting from the bottom. Tasks without subtasks keep their status.
+   */
+  export function propagateStatus(
+    root: Task,
+    fromId: string,
+    policy: StatusPropagationPolicy,
+    workflow: Workflow = Workflow.standard,
+  ): Task {
+    // Returns null for tasks that are not on the path from the root to the starting task
+    const propagate = (task: Task): Task | null => {
+      let onPath = task.id === fromId;
+      const subtasks = task.subtasks.map((subtask) => {
+        const propagated = propagate(subtask);
+        onPath ||= propagated !== null;
+        return propagated ?? subtask;
+      });
+
+      if (!onPath) {
+        return null;
+      }
+
+      const status = propagatedStatus(subtasks, task.status, policy, workflow);
+      return {
+        ...task,
+        subtasks,
+        status,
+        ...(status !== task.status && { updatedAt: new Date() }),
+      };
+    };
+
+    return propagate(root) ?? root;
+  }
+
+  /**
+   * Copy a task and all its subtasks with new IDs, placing the copy under the given parent at the given order.
+   * Copies start out at version 1; they do not belong to the recurring series of the original and are not blocked
+   * by its blockers.
+   */
+  export function duplicate(
+    task: Task,
+    parentId: string | null,
+    order: number,
+    options: DuplicateOptions = {},
+    workflow: Workflow = Workflow.standard,
+  ): Task {
+    const { resetStatus = false, titleSuffix = "" } = options;
+    const now = new Date();
+
+    const copy = (source: Task, copyParentId: string | null, copyOrder: number, title: string): Task => {
+      const id = uuidv4();
+      return {
+        ...source,
+        id,
+        parentId: copyParentId,
+        title,
+        status: resetStatus ? workflow.initialStatus : source.status,
+        order: copyOrder,
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+        subtasks: source.subtasks.map((subtask) => copy(subtask, id, subtask.order, subtask.title)),
+        blockedBy: [],
+        recurringPatternId: null,
+        instanceDate: null,
+        deletedAt: null,
+      };
+    };
+
+    return copy(task, parentId, order, `${task.title}${titleSuffix}`);
+  }
+
   export function reorderSubtasks(task: Task, orderMap: Record<string, number>): Task {
     const updatedSubtasks: Task[] = task.subtasks.map((subtask) => {
       const orderValue = orderMap[subtask.id];
@@ -129,7 +438,7 @@ export namespace Task {
       return subtask;
     });
 
-    const sortedSubtasks = [...updatedSubtasks].sort((a, b) => a.order - b.order);
+    const sortedSubtasks = [...updatedSubtasks].sort(compareSiblings);
 
     return {
       ...task,
@@ -138,10 +447,52 @@ export namespace Task {
     };
   }
 
+  export function isOverdue(task: Task, now: Date = new Date(), workflow: Workflow = Workflow.standard): boolean {
+    return !Workflow.isClosed(task.status, workflow) && task.dueDate !== null && task.dueDate.getTime() < now.getTime();
+  }
+
+  // Helper function for checking that a task does not start after it is due
+  function validateDateRange(startDate: Date | null, dueDate: Date | null): void {
+    if (startDate && dueDate && startDate.getTime() > dueDate.getTime()) {
+      throw new InvalidDateRangeError(startDate, dueDate);
+    }
+  }
+
+  // Helper function for closing a task and its open subtasks
+  function close(task: Task, status: TaskStatus, workflow: Workflow): Task {
+    return {
+      ...task,
+      status,
+      updatedAt: new Date(),
+      subtasks: task.subtasks.map((subtask) =>
+        Workflow.isClosed(subtask.status, workflow) ? subtask : close(subtask, status, workflow),
+      ),
+    };
+  }
+
   // Helper function for calculating status based on subtasks
   function calculateStatus(subtasks: readonly Task[], currentStatus: TaskStatus): TaskStatus {
-    if (subtasks.length > 0) {
-      return subtasks.every((subtask) => subtask.status === "completed") ? "completed" : "incomplete";
+    return propagatedStatus(subtasks, currentStatus, "completeAndReopen", Workflow.standard);
+  }
+
+  // Helper function for calculating the status a policy gives a task, based on its subtasks
+  function propagatedStatus(
+    subtasks: readonly Task[],
+    currentStatus: TaskStatus,
+    policy: StatusPropagationPolicy,
+    workflow: Workflow,
+  ): TaskStatus {
+    if (subtasks.length === 0) {
+      return currentStatus;
+    }
+
+    const allClosed = subtasks.every((subtask) => Workflow.isClosed(subtask.status, workflow));
+    const closed = Workflow.isClosed(currentStatus, workflow);
+    if (allClosed && !closed && (policy === "complete" || policy === "completeAndReopen")) {
+      return workflow.completedStatus;
+    }
+    if (!allClosed && closed && (policy === "reopen" || policy === "completeAndReopen")) {
+      return workflow.initialStatus;
     }
     return currentStatus;
   }
@@ -0,0 +1,234 @@
+import { v4 as uuidv4 } from "uuid";
+import type { Task, TaskPriority } from "./Task";
+import type { TaskStatus } from "./Workflow";
+import { RevertConflictError } from "./errors";
+
+export type TaskEventType = "created" | "updated" | "moved" | "reordered" | "deleted" | "restored";
+
+/**
+ * Types of the events an undo or redo can revert; creating a task cannot be reverted
+ */
+export type RevertibleTaskEventType = Exclude<TaskEventType, "created">;
+
+/**
+ * What wrote an event: a regular change, an undo of an earlier operation, or a redo of an undo
+ */
+export type TaskEventOrigin = "change" | "undo" | "redo";
+
+/**
+ * Task fields whose changes are recorded in the history
+ */
+export type TrackedTaskField =
+  | "parentId"
+  | "title"
+  | "description"
+  | "status"
+  | "priority"
+  | "dueDate"
+  | "startDate"
+  | "order"
+  | "rankKey"
+  | "deletedAt";
+
+/**
+ * A field value as stored in the history; dates are ISO-8601 strings
+ */
+export type TaskFieldValue = string | number | null;
+
+export type TaskFieldChange = Readonly<{
+  before: TaskFieldValue;
+  after: TaskFieldValue;
+}>;
+
+export type TaskChanges = Readonly<Partial<Record<TrackedTaskField, TaskFieldChange>>>;
+
+export type TaskEvent = Readonly<{
+  id: number;
+  /**
+   * Shared by all events written by the same operation, e.g. every sibling of a reorder
+   */
+  operationId: string;
+  taskId: string;
+  type: TaskEventType;
+  changes: TaskChanges;
+  occurredAt: Date;
+  origin: TaskEventOrigin;
+  /**
+   * The operation reverted by this event when it was written by an undo or redo
+   */
+  revertedOperationId: string | null;
+}>;
+
+/**
+ * One page of events, newest first, with the ID to continue before when more events exist
+ */
+export type TaskEventPage = Readonly<{
+  items: readonly TaskEvent[];
+  nextBeforeId: number | null;
+}>;
+
+/**
+ * An event that has not been stored yet and therefore has no sequence ID
+ */
+export type NewTaskEvent = Omit<TaskEvent, "id">;
+
+const trackedFields: readonly TrackedTaskField[] = [
+  "parentId",
+  "title",
+  "description",
+  "status",
+  "priority",
+  "dueDate",
+  "startDate",
+  "order",
+  "rankKey",
+  "deletedAt",
+];
+
+export namespace TaskEvent {
+  /**
+   * Generate the ID that groups the events of one operation
+   */
+  export function createOperationId(): string {
+    return uuidv4();
+  }
+
+  export function create(
+    operationId: string,
+    taskId: string,
+    type: TaskEventType,
+    changes: TaskChanges,
+    occurredAt: Date = new Date(),
+  ): NewTaskEvent {
+    return {
+      operationId,
+      taskId,
+      type,
+      changes: { ...changes },
+      occurredAt,
+      origin: "change",
+      revertedOperationId: null,
+    };
+  }
+
+  /**
+   * Create the event recording that an undo or redo reverted an event of an earlier operation
+   */
+  export function createReversal(
+    operationId: string,
+    origin: Exclude<TaskEventOrigin, "change">,
+    reverted: TaskEvent,
+    changes: TaskChanges,
+    occurredAt: Date = new Date(),
+  ): NewTaskEvent {
+    if (!isRevertible(reverted)) {
+      throw new RevertConflictError(origin, reverted.taskId, "the creation of a task cannot be reverted");
+    }
+
+    return {
+      operationId,
+      taskId: reverted.taskId,
+      type: reversedType(reverted.type),
+      changes: { ...changes },
+      occurredAt,
+      origin,
+      revertedOperationId: reverted.operationId,
+    };
+  }
+
+  export function isRevertible(event: TaskEvent): event is TaskEvent & { type: RevertibleTaskEventType } {
+    return event.type !== "created";
+  }
+
+  /**
+   * The type of the event that undoes an event of the given type
+   */
+  export function reversedType(type: RevertibleTaskEventType): RevertibleTaskEventType {
+    switch (type) {
+      case "deleted":
+        return "restored";
+      case "restored":
+        return "deleted";
+      default:
+        return type;
+    }
+  }
+
+  /**
+   * Fields whose current value on the task differs from the value the event left behind,
+   * i.e. fields that were changed again after the event
+   */
+  export function findChangedFields(task: Task, changes: TaskChanges): readonly TrackedTaskField[] {
+    return trackedFields.filter((field) => {
+      const change = changes[field];
+      return change !== undefined && toFieldValue(task[field]) !== change.after;
+    });
+  }
+
+  /**
+   * Apply the values the task had before the changes were made.
+   * Subtasks are left as they are.
+   */
+  export function revert(task: Task, changes: TaskChanges, updatedAt: Date = new Date()): Task {
+    const { parentId, title, description, status, priority, dueDate, startDate, order, rankKey, deletedAt } = changes;
+
+    return {
+      ...task,
+      ...(parentId && { parentId: toNullableString(parentId.before) }),
+      ...(title && { title: String(title.before) }),
+      ...(description && { description: toNullableString(description.before) }),
+      ...(status && { status: status.before as TaskStatus }),
+      ...(priority && { priority: priority.before as TaskPriority }),
+      ...(dueDate && { dueDate: toNullableDate(dueDate.before) }),
+      ...(startDate && { startDate: toNullableDate(startDate.before) }),
+      ...(order && { order: Number(order.before) }),
+      ...(rankKey && { rankKey: String(rankKey.before) }),
+      ...(deletedAt && { deletedAt: toNullableDate(deletedAt.before) }),
+      updatedAt,
+    };
+  }
+
+  /**
+   * Field-level differences between two versions of a task.
+   * Pass null as `before` for a newly created task.
+   */
+  export function diff(before: Task | null, after: Task): TaskChanges {
+    const changes: Partial<Record<TrackedTaskField, TaskFieldChange>> = {};
+
+    for (const field of trackedFields) {
+      const beforeValue = before ? toFieldValue(before[field]) : null;
+      const afterValue = toFieldValue(after[field]);
+
+      if (beforeValue !== afterValue) {
+        changes[field] = { before: beforeValue, after: afterValue };
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Build a page from events fetched with one more than the page size
+   */
+  export function toPage(events: readonly TaskEvent[], limit: number): TaskEventPage {
+    const items = events.slice(0, limit);
+    const last = items.at(-1);
+    return { items, nextBeforeId: events.length > limit && last ? last.id : null };
+  }
+
+  export function hasChanges(changes: TaskChanges): boolean {
+    return Object.keys(changes).length > 0;
+  }
+
+  function toFieldValue(value: string | number | Date | null): TaskFieldValue {
+    return value instanceof Date ? value.toISOString() : value;
+  }
+
+  function toNullableString(value: TaskFieldValue): string | null {
+    return value === null ? null : String(value);
+  }
+
+  function toNullableDate(value: TaskFieldValue): Date | null {
+    return value === null ? null : new Date(value);
+  }
+}
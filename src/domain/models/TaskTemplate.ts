@@ -0,0 +1,141 @@
+import { v4 as uuidv4 } from "uuid";
+import { Task, type TaskPriority } from "./Task";
+import { Workflow } from "./Workflow";
+import { MissingTemplateVariablesError } from "./errors";
+
+/**
+ * A task of a template together with its subtasks, in order.
+ * Titles and descriptions may contain `{{variable}}` placeholders.
+ */
+export type TemplateTask = Readonly<{
+  title: string;
+  description: string | null;
+  priority: TaskPriority;
+  subtasks: readonly TemplateTask[];
+}>;
+
+/**
+ * A reusable task tree, e.g. a release checklist, from which new tasks are instantiated
+ */
+export type TaskTemplate = Readonly<{
+  id: string;
+  name: string;
+  description: string | null;
+  task: TemplateTask;
+  createdAt: Date;
+  updatedAt: Date;
+}>;
+
+/**
+ * Values of template variables by name
+ */
+export type TemplateVariables = Readonly<Record<string, string>>;
+
+const variablePattern = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+export namespace TemplateTask {
+  export function create(
+    title: string,
+    description: string | null = null,
+    priority: TaskPriority = "medium",
+    subtasks: readonly TemplateTask[] = [],
+  ): TemplateTask {
+    if (!title.trim()) {
+      throw new Error("Template task title cannot be empty");
+    }
+
+    return { title, description, priority, subtasks: [...subtasks] };
+  }
+
+  /**
+   * Capture the titles, descriptions and priorities of a task and its subtasks, in their current order
+   */
+  export function fromTask(task: Task): TemplateTask {
+    const subtasks = [...task.subtasks].sort(Task.compareSiblings).map((subtask) => fromTask(subtask));
+    return create(task.title, task.description, task.priority, subtasks);
+  }
+}
+
+export namespace TaskTemplate {
+  export function create(
+    name: string,
+    task: TemplateTask,
+    description: string | null = null,
+    id?: string,
+    createdAt?: Date,
+    updatedAt?: Date,
+  ): TaskTemplate {
+    if (!name.trim()) {
+      throw new Error("Template name cannot be empty");
+    }
+
+    return {
+      id: id || uuidv4(),
+      name,
+      description,
+      task,
+      createdAt: createdAt || new Date(),
+      updatedAt: updatedAt || new Date(),
+    };
+  }
+
+  /**
+   * List the names of the variables used anywhere in the template, in order of first use
+   */
+  export function variables(template: TaskTemplate): string[] {
+    const names = new Set<string>();
+
+    const collect = (task: TemplateTask) => {
+      for (const text of [task.title, task.description ?? ""]) {
+        for (const match of text.matchAll(variablePattern)) {
+          names.add(match[1] as string);
+        }
+      }
+      for (const subtask of task.subtasks) {
+        collect(subtask);
+      }
+    };
+    collect(template.task);
+
+    return [...names];
+  }
+
+  /**
+   * Build a new task tree from the template, replacing every variable with its value.
+   * Throws a MissingTemplateVariablesError when a variable has no value.
+   */
+  export function instantiate(
+    template: TaskTemplate,
+    parentId: string | null,
+    order: number,
+    values: TemplateVariables = {},
+    workflow: Workflow = Workflow.standard,
+  ): Task {
+    const missing = variables(template).filter((name) => !Object.hasOwn(values, name));
+    if (missing.length > 0) {
+      throw new MissingTemplateVariablesError(missing);
+    }
+
+    const substitute = (text: string) => text.replace(variablePattern, (_, name: string) => values[name] as string);
+
+    const build = (task: TemplateTask, taskParentId: string | null, taskOrder: number): Task => {
+      const id = uuidv4();
+      const subtasks = task.subtasks.map((subtask, index) => build(subtask, id, index + 1));
+
+      return Task.create(
+        substitute(task.title),
+        taskParentId,
+        task.description === null ? null : substitute(task.description),
+        id,
+        workflow.initialStatus,
+        taskOrder,
+        undefined,
+        undefined,
+        subtasks,
+        { priority: task.priority },
+      );
+    };
+
+    return build(template.task, parentId, order);
+  }
+}
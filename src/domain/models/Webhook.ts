@@ -0,0 +1,91 @@
+import { v4 as uuidv4 } from "uuid";
+import type { TaskEvent } from "./TaskEvent";
+import { Workflow } from "./Workflow";
+
+export type WebhookEventType = "created" | "completed" | "moved" | "deleted";
+
+/**
+ * A URL that receives a signed POST request for every task event of the types it subscribes to
+ */
+export type Webhook = Readonly<{
+  id: string;
+  url: string;
+  /**
+   * Key of the HMAC-SHA256 signature of each delivery
+   */
+  secret: string;
+  eventTypes: readonly WebhookEventType[];
+  createdAt: Date;
+  updatedAt: Date;
+}>;
+
+export namespace Webhook {
+  export function create(
+    url: string,
+    secret: string,
+    eventTypes: readonly WebhookEventType[],
+    id?: string,
+    createdAt?: Date,
+    updatedAt?: Date,
+  ): Webhook {
+    validateEventTypes(eventTypes);
+
+    return {
+      id: id || uuidv4(),
+      url,
+      secret,
+      eventTypes: [...new Set(eventTypes)],
+      createdAt: createdAt || new Date(),
+      updatedAt: updatedAt || new Date(),
+    };
+  }
+
+  export function updateUrl(webhook: Webhook, url: string): Webhook {
+    return {
+      ...webhook,
+      url,
+      updatedAt: new Date(),
+    };
+  }
+
+  export function updateSecret(webhook: Webhook, secret: string): Webhook {
+    return {
+      ...webhook,
+      secret,
+      updatedAt: new Date(),
+    };
+  }
+
+  export function updateEventTypes(webhook: Webhook, eventTypes: readonly WebhookEventType[]): Webhook {
+    validateEventTypes(eventTypes);
+
+    return {
+      ...webhook,
+      eventTypes: [...new Set(eventTypes)],
+      updatedAt: new Date(),
+    };
+  }
+
+  /**
+   * The webhook event a task event stands for, or null when webhooks are not told about it.
+   * A task is completed when its status changes to the completed status of the workflow.
+   */
+  export function eventTypeOf(event: TaskEvent, workflow: Workflow = Workflow.standard): WebhookEventType | null {
+    switch (event.type) {
+      case "created":
+      case "moved":
+      case "deleted":
+        return event.type;
+      case "updated":
+        return event.changes.status?.after === workflow.completedStatus ? "completed" : null;
+      default:
+        return null;
+    }
+  }
+
+  function validateEventTypes(eventTypes: readonly WebhookEventType[]): void {
+    if (eventTypes.length === 0) {
+      throw new Error("A webhook needs at least one event type");
+    }
+  }
+}
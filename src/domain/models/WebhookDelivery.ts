@@ -0,0 +1,149 @@
+import { createHmac } from "node:crypto";
+import { v4 as uuidv4 } from "uuid";
+import type { Task } from "./Task";
+import type { TaskChanges, TaskEvent } from "./TaskEvent";
+import type { WebhookEventType } from "./Webhook";
+
+/**
+ * - pending: waiting for its first attempt or a retry
+ * - succeeded: the receiver answered with a 2xx status
+ * - failed: every attempt failed and no more are made
+ */
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+/**
+ * One task event sent to one webhook, with the outcome of its attempts so far
+ */
+export type WebhookDelivery = Readonly<{
+  id: string;
+  webhookId: string;
+  /**
+   * The task event that is delivered
+   */
+  eventId: number;
+  eventType: WebhookEventType;
+  taskId: string;
+  /**
+   * Request body, kept as sent so that every attempt carries the same signed bytes
+   */
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /**
+   * Time of the next attempt; null once the delivery succeeded or failed for good
+   */
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  /**
+   * HTTP status of the last response; null when no response was received
+   */
+  responseStatus: number | null;
+  /**
+   * Why the last attempt failed
+   */
+  error: string | null;
+  createdAt: Date;
+}>;
+
+/**
+ * The JSON body posted to webhooks
+ */
+export type WebhookPayload = Readonly<{
+  id: string;
+  event: `task.${WebhookEventType}`;
+  eventId: number;
+  occurredAt: Date;
+  /**
+   * The task as it was when the delivery was queued; null when it no longer exists
+   */
+  task: Task | null;
+  changes: TaskChanges;
+}>;
+
+const RETRY_DELAY_MS = 30 * 1000;
+
+export namespace WebhookDelivery {
+  /**
+   * Attempts made before a delivery is given up. Retries wait 30 seconds, doubling after every failure.
+   */
+  export const maxAttempts = 6;
+
+  export function create(
+    webhookId: string,
+    eventType: WebhookEventType,
+    event: TaskEvent,
+    task: Task | null,
+  ): WebhookDelivery {
+    const id = uuidv4();
+    const payload: WebhookPayload = {
+      id,
+      event: `task.${eventType}`,
+      eventId: event.id,
+      occurredAt: event.occurredAt,
+      task,
+      changes: event.changes,
+    };
+
+    return {
+      id,
+      webhookId,
+      eventId: event.id,
+      eventType,
+      taskId: event.taskId,
+      payload: JSON.stringify(payload),
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastAttemptAt: null,
+      responseStatus: null,
+      error: null,
+      createdAt: new Date(),
+    };
+  }
+
+  export function markAsSucceeded(
+    delivery: WebhookDelivery,
+    responseStatus: number,
+    attemptedAt: Date,
+  ): WebhookDelivery {
+    return {
+      ...delivery,
+      status: "succeeded",
+      attempts: delivery.attempts + 1,
+      nextAttemptAt: null,
+      lastAttemptAt: attemptedAt,
+      responseStatus,
+      error: null,
+    };
+  }
+
+  /**
+   * Record a failed attempt and schedule the next one with exponential backoff, or give up after maxAttempts
+   */
+  export function markAsFailed(
+    delivery: WebhookDelivery,
+    error: string,
+    responseStatus: number | null,
+    attemptedAt: Date,
+  ): WebhookDelivery {
+    const attempts = delivery.attempts + 1;
+    const givenUp = attempts >= maxAttempts;
+
+    return {
+      ...delivery,
+      status: givenUp ? "failed" : "pending",
+      attempts,
+      nextAttemptAt: givenUp ? null : new Date(attemptedAt.getTime() + RETRY_DELAY_MS * 2 ** (attempts - 1)),
+      lastAttemptAt: attemptedAt,
+      responseStatus,
+      error,
+    };
+  }
+
+  /**
+   * Hex encoded HMAC-SHA256 of `<timestamp>.<payload>`, keyed with the webhook secret
+   */
+  export function sign(secret: string, timestamp: number, payload: string): string {
+    return createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+  }
+}
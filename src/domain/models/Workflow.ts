@@ -0,0 +1,103 @@
+import { InvalidWorkflowError } from "./errors";
+
+export type TaskStatus = "todo" | "in_progress" | "blocked" | "done" | "cancelled";
+
+/**
+ * - open: the task still needs work
+ * - closed: the task needs no more work, whether it was done or cancelled
+ */
+export type TaskStatusCategory = "open" | "closed";
+
+export type WorkflowState = Readonly<{
+  category: TaskStatusCategory;
+  /**
+   * Statuses a task in this state may be changed to
+   */
+  transitions: readonly TaskStatus[];
+}>;
+
+/**
+ * The states a task goes through and the transitions allowed between them.
+ * The statuses themselves are fixed; their categories and transitions can be configured.
+ */
+export type Workflow = Readonly<{
+  states: Readonly<Record<TaskStatus, WorkflowState>>;
+  /**
+   * Status of new and reopened tasks
+   */
+  initialStatus: TaskStatus;
+  /**
+   * Status of tasks completed along with their parent or their subtasks
+   */
+  completedStatus: TaskStatus;
+}>;
+
+export namespace Workflow {
+  export const statuses = ["todo", "in_progress", "blocked", "done", "cancelled"] as const;
+
+  export const standard: Workflow = {
+    states: {
+      todo: { category: "open", transitions: ["in_progress", "blocked", "done", "cancelled"] },
+      in_progress: { category: "open", transitions: ["todo", "blocked", "done", "cancelled"] },
+      blocked: { category: "open", transitions: ["todo", "in_progress", "cancelled"] },
+      done: { category: "closed", transitions: ["todo", "in_progress"] },
+      cancelled: { category: "closed", transitions: ["todo"] },
+    },
+    initialStatus: "todo",
+    completedStatus: "done",
+  };
+
+  /**
+   * Build a workflow in which tasks start out open and are completed into a closed status.
+   * Transitions are kept once each, leaving out the status itself.
+   */
+  export function create(
+    states: Readonly<Record<TaskStatus, WorkflowState>>,
+    initialStatus: TaskStatus,
+    completedStatus: TaskStatus,
+  ): Workflow {
+    const normalizedStates = {} as Record<TaskStatus, WorkflowState>;
+    for (const status of statuses) {
+      const { category, transitions } = states[status];
+      normalizedStates[status] = {
+        category,
+        transitions: [...new Set(transitions)].filter((transition) => transition !== status),
+      };
+    }
+    const workflow: Workflow = { states: normalizedStates, initialStatus, completedStatus };
+
+    if (isClosed(initialStatus, workflow)) {
+      throw new InvalidWorkflowError(`The initial status ${initialStatus} must be open`);
+    }
+    if (!isClosed(completedStatus, workflow)) {
+      throw new InvalidWorkflowError(`The completed status ${completedStatus} must be closed`);
+    }
+    return workflow;
+  }
+
+  export function isStatus(value: string): value is TaskStatus {
+    return (statuses as readonly string[]).includes(value);
+  }
+
+  export function categoryOf(status: TaskStatus, workflow: Workflow = standard): TaskStatusCategory {
+    return workflow.states[status].category;
+  }
+
+  export function isClosed(status: TaskStatus, workflow: Workflow = standard): boolean {
+    return categoryOf(status, workflow) === "closed";
+  }
+
+  /**
+   * Statuses of the given category, in workflow order
+   */
+  export function statusesIn(category: TaskStatusCategory, workflow: Workflow = standard): TaskStatus[] {
+    return statuses.filter((status) => categoryOf(status, workflow) === category);
+  }
+
+  /**
+   * Whether a task may be changed from one status to another; keeping the same status is always allowed
+   */
+  export function canTransition(from: TaskStatus, to: TaskStatus, workflow: Workflow = standard): boolean {
+    return from === to || workflow.states[from].transitions.includes(to);
+  }
+}
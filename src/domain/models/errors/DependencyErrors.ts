@@ -0,0 +1,6 @@
+export class OpenBlockersError extends Error {
+  constructor(taskId: string, blockerIds: readonly string[]) {
+    super(`Task ${taskId} is blocked by open tasks: ${blockerIds.join(", ")}`);
+    this.name = "OpenBlockersError";
+  }
+}
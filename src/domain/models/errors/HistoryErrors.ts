@@ -0,0 +1,6 @@
+export class RevertConflictError extends Error {
+  constructor(action: "undo" | "redo", taskId: string, reason: string) {
+    super(`Cannot ${action} the change to task ${taskId}: ${reason}`);
+    this.name = "RevertConflictError";
+  }
+}
@@ -0,0 +1,13 @@
+export class InvalidImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidImportFileError";
+  }
+}
+
+export class DuplicateTaskIdError extends Error {
+  constructor(taskId: string) {
+    super(`Task ${taskId} already exists`);
+    this.name = "DuplicateTaskIdError";
+  }
+}
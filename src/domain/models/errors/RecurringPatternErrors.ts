@@ -0,0 +1,6 @@
+export class RecurringPatternNotFoundError extends Error {
+  constructor(patternId: string) {
+    super(`Recurring pattern ${patternId} not found`);
+    this.name = "RecurringPatternNotFoundError";
+  }
+}
@@ -0,0 +1,6 @@
+export class ReminderNotFoundError extends Error {
+  constructor(reminderId: string) {
+    super(`Reminder ${reminderId} not found`);
+    this.name = "ReminderNotFoundError";
+  }
+}
@@ -0,0 +1,13 @@
+export class TagNotFoundError extends Error {
+  constructor(tagId: string) {
+    super(`Tag ${tagId} not found`);
+    this.name = "TagNotFoundError";
+  }
+}
+
+export class DuplicateTagNameError extends Error {
+  constructor(name: string) {
+    super(`Tag with name "${name}" already exists`);
+    this.name = "DuplicateTagNameError";
+  }
+}
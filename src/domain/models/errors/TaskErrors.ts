@@ -1,3 +1,5 @@
+import type { Task } from "../Task";
+
 export class TaskNotFoundError extends Error {
   constructor(taskId: string) {
     super(`Task ${taskId} not found`);
@@ -32,3 +34,27 @@ export class InvalidOrderError extends Error {
     this.name = "InvalidOrderError";
   }
 }
+
+export class InvalidDateRangeError extends Error {
+  constructor(startDate: Date, dueDate: Date) {
+    super(`Start date ${startDate.toISOString()} must not be after due date ${dueDate.toISOString()}`);
+    this.name = "InvalidDateRangeError";
+  }
+}
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(from: string, to: string) {
+    super(`Cannot change task status from ${from} to ${to}`);
+    this.name = "InvalidStatusTransitionError";
+  }
+}
+
+export class TaskVersionMismatchError extends Error {
+  constructor(
+    readonly current: Task,
+    readonly expectedVersion: number,
+  ) {
+    super(`Task ${current.id} is at version ${current.version}, not ${expectedVersion}`);
+    this.name = "TaskVersionMismatchError";
+  }
+}
@@ -0,0 +1,13 @@
+export class TaskTemplateNotFoundError extends Error {
+  constructor(templateId: string) {
+    super(`Task template ${templateId} not found`);
+    this.name = "TaskTemplateNotFoundError";
+  }
+}
+
+export class MissingTemplateVariablesError extends Error {
+  constructor(variables: readonly string[]) {
+    super(`Missing values for template variables: ${variables.join(", ")}`);
+    this.name = "MissingTemplateVariablesError";
+  }
+}
@@ -0,0 +1,6 @@
+export class WebhookNotFoundError extends Error {
+  constructor(webhookId: string) {
+    super(`Webhook ${webhookId} not found`);
+    this.name = "WebhookNotFoundError";
+  }
+}
@@ -0,0 +1,6 @@
+export class InvalidWorkflowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidWorkflowError";
+  }
+}
@@ -1 +1,10 @@
 export * from "./TaskErrors";
+export * from "./TagErrors";
+export * from "./RecurringPatternErrors";
+export * from "./ImportErrors";
+export * from "./ReminderErrors";
+export * from "./HistoryErrors";
+export * from "./TemplateErrors";
+export * from "./DependencyErrors";
+export * from "./WebhookErrors";
+export * from "./WorkflowErrors";
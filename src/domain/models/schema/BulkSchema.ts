@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { createTaskSchema, idSchema, updateTaskSchema } from "./TaskSchema";
+
+// Version the task of an operation has to be at, in place of the If-Match header of single requests
+const expectedVersionSchema = z.number().int().nonnegative().optional();
+
+// A single operation of a bulk request, told apart by its type
+export const bulkOperationSchema = z.discriminatedUnion("type", [
+  createTaskSchema.extend({ type: z.literal("create") }),
+  updateTaskSchema.extend({ type: z.literal("update"), expectedVersion: expectedVersionSchema }),
+  z.object({ type: z.literal("delete"), id: idSchema, expectedVersion: expectedVersionSchema }),
+  z.object({
+    type: z.literal("move"),
+    id: idSchema,
+    newParentId: idSchema.nullable(),
+    expectedVersion: expectedVersionSchema,
+  }),
+  z.object({ type: z.literal("complete"), id: idSchema, expectedVersion: expectedVersionSchema }),
+  z.object({ type: z.literal("uncomplete"), id: idSchema }),
+]);
+
+// Schema for applying several operations at once
+export const bulkRequestSchema = z.object({
+  mode: z.enum(["allOrNothing", "bestEffort"]).default("allOrNothing"),
+  operations: z.array(bulkOperationSchema).min(1, "At least one operation is required").max(100),
+});
+
+export type BulkOperationInput = z.infer<typeof bulkOperationSchema>;
+export type BulkRequestInput = z.infer<typeof bulkRequestSchema>;
@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+/**
+ * Encode a pagination position as an opaque cursor string
+ */
+export function encodeCursor(position: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+/**
+ * Schema for a cursor query parameter that decodes it back into the position it was encoded from
+ */
+export function cursorSchema<T extends z.ZodTypeAny>(positionSchema: T) {
+  return z.string().transform((cursor, ctx): z.infer<T> => {
+    try {
+      const position = positionSchema.safeParse(JSON.parse(Buffer.from(cursor, "base64url").toString()));
+      if (position.success) {
+        return position.data;
+      }
+    } catch {
+      // Fall through to the validation issue below
+    }
+
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+    return z.NEVER;
+  });
+}
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { dateSchema, taskPrioritySchema } from "./TaskSchema";
+
+export const recurrenceTypeSchema = z.enum(["daily", "weekly", "monthly", "custom"]);
+
+// Schema for the recurrence rule
+export const recurrenceRuleSchema = z.object({
+  type: recurrenceTypeSchema,
+  interval: z.number().int().positive().default(1),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).nullable().optional(),
+  dayOfMonth: z.number().int().min(1).max(31).nullable().optional(),
+  endDate: dateSchema.nullable().optional(),
+  occurrences: z.number().int().positive().nullable().optional(),
+});
+
+// Schema for recurring pattern creation
+export const createRecurringPatternSchema = z.object({
+  title: z.string().min(1, "Title is required").max(100, "Title must be 100 characters or less"),
+  description: z.string().nullable().optional(),
+  priority: taskPrioritySchema.optional(),
+  pattern: recurrenceRuleSchema,
+  parentId: z.string().uuid().nullable().optional(),
+  startDate: dateSchema.optional(),
+});
+
+// Schema for recurring pattern update
+export const updateRecurringPatternSchema = z.object({
+  title: z.string().min(1, "Title is required").max(100, "Title must be 100 characters or less").optional(),
+  description: z.string().nullable().optional(),
+  priority: taskPrioritySchema.optional(),
+  pattern: recurrenceRuleSchema.optional(),
+  applyToFutureInstances: z.boolean().default(false),
+});
+
+export type RecurrenceRuleInput = z.infer<typeof recurrenceRuleSchema>;
+export type CreateRecurringPatternInput = z.infer<typeof createRecurringPatternSchema>;
+export type UpdateRecurringPatternInput = z.infer<typeof updateRecurringPatternSchema>;
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { dateSchema } from "./TaskSchema";
+
+// Schema for creating or rescheduling a reminder: either an absolute time or minutes before the due date
+export const reminderTimingSchema = z
+  .object({
+    remindAt: dateSchema.optional(),
+    minutesBeforeDue: z
+      .number()
+      .int()
+      .min(0)
+      .max(60 * 24 * 365)
+      .optional(),
+  })
+  .refine((value) => (value.remindAt === undefined) !== (value.minutesBeforeDue === undefined), {
+    message: "Either remindAt or minutesBeforeDue is required, but not both",
+    path: ["remindAt"],
+  });
+
+// Schema for snoozing a reminder
+export const snoozeReminderSchema = z.object({
+  minutes: z
+    .number()
+    .int()
+    .positive()
+    .max(60 * 24 * 7)
+    .default(10),
+});
+
+export type ReminderTimingInput = z.infer<typeof reminderTimingSchema>;
+export type SnoozeReminderInput = z.infer<typeof snoozeReminderSchema>;
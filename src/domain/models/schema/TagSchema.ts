@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+// Colors are stored as hex codes, e.g. "#ff8800"
+export const tagColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex code such as #ff8800");
+
+// Schema for tag creation
+export const createTagSchema = z.object({
+  name: z.string().min(1, "Name is required").max(50, "Name must be 50 characters or less"),
+  color: tagColorSchema.nullable().optional(),
+});
+
+// Schema for tag update
+export const updateTagSchema = z.object({
+  name: z.string().min(1, "Name is required").max(50, "Name must be 50 characters or less").optional(),
+  color: tagColorSchema.nullable().optional(),
+});
+
+export type CreateTagInput = z.infer<typeof createTagSchema>;
+export type UpdateTagInput = z.infer<typeof updateTagSchema>;
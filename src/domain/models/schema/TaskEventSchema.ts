@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { cursorSchema } from "./CursorSchema";
+
+// Position in the history: events older than this event ID come next
+export const taskEventCursorSchema = cursorSchema(z.object({ beforeId: z.number().int().positive() }));
+
+// Schema for paging through task history, newest first
+export const taskEventPageQuerySchema = z.object({
+  cursor: taskEventCursorSchema.optional(),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export type TaskEventPageQueryInput = z.infer<typeof taskEventPageQuerySchema>;
+
+// Schema for undoing or redoing the last operations
+export const revertQuerySchema = z.object({
+  steps: z.coerce.number().int().positive().max(100).default(1),
+});
+
+export type RevertQueryInput = z.infer<typeof revertQuerySchema>;
+
+// Schema for following task changes as they happen
+export const taskEventStreamQuerySchema = z.object({
+  rootId: z.string().uuid().optional(),
+  // Resume after this event, for clients that cannot send the Last-Event-ID header
+  lastEventId: z.coerce.number().int().nonnegative().optional(),
+});
+
+export type TaskEventStreamQueryInput = z.infer<typeof taskEventStreamQuerySchema>;
@@ -1,7 +1,18 @@
 import { z } from "zod";
+import { cursorSchema } from "./CursorSchema";
 
 // Basic type definitions
-export const taskStatusSchema = z.enum(["completed", "incomplete"]);
+// Statuses of earlier versions are still accepted, so that existing clients and export files keep working
+const legacyTaskStatuses: Readonly<Record<string, string>> = { completed: "done", incomplete: "todo" };
+export const taskStatusSchema = z.preprocess(
+  (v) => (typeof v === "string" ? (legacyTaskStatuses[v] ?? v) : v),
+  z.enum(["todo", "in_progress", "blocked", "done", "cancelled"]),
+);
+export const taskPrioritySchema = z.enum(["high", "medium", "low"]);
+export const taskSortSchema = z.enum(["order", "priority"]);
+
+// Accepts ISO-8601 strings such as "2024-06-01" or "2024-06-01T09:00:00Z"
+export const dateSchema = z.coerce.date();
 
 // ID validation
 export const idSchema = z.string().uuid();
@@ -11,6 +22,9 @@ export const createTaskSchema = z.object({
   title: z.string().min(1, "Title is required").max(100, "Title must be 100 characters or less"),
   description: z.string().nullable().optional(),
   parentId: z.string().uuid().nullable().optional(),
+  priority: taskPrioritySchema.optional(),
+  dueDate: dateSchema.nullable().optional(),
+  startDate: dateSchema.nullable().optional(),
 });
 
 // Schema for task update
@@ -19,12 +33,42 @@ export const updateTaskSchema = z.object({
   title: z.string().min(1, "Title is required").max(100, "Title must be 100 characters or less").optional(),
   description: z.string().nullable().optional(),
   status: taskStatusSchema.optional(),
+  priority: taskPrioritySchema.optional(),
+  dueDate: dateSchema.nullable().optional(),
+  startDate: dateSchema.nullable().optional(),
+  // Completes the task even though some of its blockers are still open
+  force: z.boolean().optional(),
 });
 
 // Schema for task movement
 export const moveTaskSchema = z.object({
   taskId: z.string().uuid(),
   newParentId: z.string().uuid().nullable(),
+  // Target position among the new siblings; at most one of these is given
+  index: z.number().int().nonnegative().optional(),
+  before: z.string().uuid().optional(),
+  after: z.string().uuid().optional(),
+});
+
+// Schema for placing a task next to a sibling
+export const positionTaskSchema = z.object({
+  before: idSchema.optional(),
+  after: idSchema.optional(),
+  parentId: idSchema.nullable().optional(),
+});
+
+// Schema for task duplication
+export const duplicateTaskSchema = z.object({
+  parentId: z.string().uuid().nullable().optional(),
+  resetStatus: z.boolean().default(false),
+  titleSuffix: z.string().max(50).default(""),
+});
+
+export const statusPropagationPolicySchema = z.enum(["none", "complete", "reopen", "completeAndReopen"]);
+
+// Schema for configuring the status propagation of a task tree
+export const updateStatusPropagationSchema = z.object({
+  policy: statusPropagationPolicySchema,
 });
 
 // Schema for task reordering
@@ -33,14 +77,78 @@ export const reorderTasksSchema = z.object({
   orderMap: z.record(z.string().uuid(), z.number().int().positive()),
 });
 
+// Position in a task listing: tasks sorted after this task come next
+export const taskCursorSchema = cursorSchema(
+  z.object({ rankKey: z.string(), order: z.number().int(), id: idSchema, priority: taskPrioritySchema }),
+);
+
 // Schema for pagination
 export const paginationSchema = z.object({
-  page: z.preprocess((v) => (typeof v === "string" ? Number(v) : v), z.number().int().positive()).default(1),
+  cursor: taskCursorSchema.optional(),
   limit: z.preprocess((v) => (typeof v === "string" ? Number(v) : v), z.number().int().positive().max(100)).default(20),
 });
 
+// Schema for filtering and sorting task lists
+export const taskFilterSchema = z.object({
+  // Accepts a comma separated list, e.g. `?priority=high,medium`
+  priority: z
+    .preprocess((v) => (typeof v === "string" ? v.split(",").map((p) => p.trim()) : v), z.array(taskPrioritySchema))
+    .optional(),
+  // Accepts a comma separated list of tag IDs, e.g. `?tags=<id>,<id>`
+  tags: z
+    .preprocess((v) => (typeof v === "string" ? v.split(",").map((id) => id.trim()) : v), z.array(idSchema))
+    .optional(),
+  tagMode: z.enum(["any", "all"]).default("any"),
+  // Accepts a comma separated list, e.g. `?status=todo,in_progress`
+  status: z
+    .preprocess((v) => (typeof v === "string" ? v.split(",").map((s) => s.trim()) : v), z.array(taskStatusSchema))
+    .optional(),
+  createdFrom: dateSchema.optional(),
+  createdTo: dateSchema.optional(),
+  updatedFrom: dateSchema.optional(),
+  updatedTo: dateSchema.optional(),
+  // Lists the subtasks of this task instead of the root tasks
+  parentId: idSchema.optional(),
+  sort: taskSortSchema.default("order"),
+});
+
+// Schema for limiting how many levels of subtasks are loaded
+export const taskDepthSchema = z.object({
+  depth: z.coerce.number().int().nonnegative().optional(),
+});
+
+// Schema for fetching a single task
+export const taskDetailQuerySchema = taskDepthSchema.extend({
+  includePath: z.preprocess((v) => (typeof v === "string" ? v === "true" : v), z.boolean()).default(false),
+});
+
+// Schema for due date queries
+export const dueTasksQuerySchema = z.object({
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+  includeCompleted: z.preprocess((v) => (typeof v === "string" ? v === "true" : v), z.boolean()).default(false),
+});
+
+export const searchTasksQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export const purgeTrashQuerySchema = z.object({
+  olderThanDays: z.coerce.number().int().nonnegative(),
+});
+
 export type CreateTaskInput = z.infer<typeof createTaskSchema>;
 export type UpdateTaskInput = z.infer<typeof updateTaskSchema>;
 export type MoveTaskInput = z.infer<typeof moveTaskSchema>;
+export type PositionTaskInput = z.infer<typeof positionTaskSchema>;
+export type DuplicateTaskInput = z.infer<typeof duplicateTaskSchema>;
+export type UpdateStatusPropagationInput = z.infer<typeof updateStatusPropagationSchema>;
 export type ReorderTasksInput = z.infer<typeof reorderTasksSchema>;
 export type PaginationInput = z.infer<typeof paginationSchema>;
+export type TaskFilterInput = z.infer<typeof taskFilterSchema>;
+export type TaskDepthInput = z.infer<typeof taskDepthSchema>;
+export type TaskDetailQueryInput = z.infer<typeof taskDetailQuerySchema>;
+export type DueTasksQueryInput = z.infer<typeof dueTasksQuerySchema>;
+export type SearchTasksQueryInput = z.infer<typeof searchTasksQuerySchema>;
+export type PurgeTrashQueryInput = z.infer<typeof purgeTrashQuerySchema>;
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { taskPrioritySchema } from "./TaskSchema";
+
+export type TemplateTaskInput = {
+  title: string;
+  description?: string | null | undefined;
+  priority?: z.infer<typeof taskPrioritySchema> | undefined;
+  subtasks: TemplateTaskInput[];
+};
+
+// A task of a template together with its nested subtasks
+export const templateTaskSchema: z.ZodType<TemplateTaskInput, z.ZodTypeDef, unknown> = z.object({
+  title: z.string().min(1, "Title is required").max(100, "Title must be 100 characters or less"),
+  description: z.string().nullable().optional(),
+  priority: taskPrioritySchema.optional(),
+  subtasks: z.array(z.lazy(() => templateTaskSchema)).default([]),
+});
+
+// Schema for template creation, from either an existing task or a task tree
+export const createTaskTemplateSchema = z
+  .object({
+    name: z.string().min(1, "Name is required").max(100, "Name must be 100 characters or less"),
+    description: z.string().nullable().optional(),
+    taskId: z.string().uuid().optional(),
+    task: templateTaskSchema.optional(),
+  })
+  .refine((data) => (data.taskId === undefined) !== (data.task === undefined), {
+    message: "Either taskId or task is required, but not both",
+    path: ["task"],
+  });
+
+// Schema for creating tasks from a template
+export const instantiateTaskTemplateSchema = z.object({
+  parentId: z.string().uuid().nullable().optional(),
+  variables: z.record(z.string(), z.string()).default({}),
+});
+
+export type CreateTaskTemplateInput = z.infer<typeof createTaskTemplateSchema>;
+export type InstantiateTaskTemplateInput = z.infer<typeof instantiateTaskTemplateSchema>;
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { dateSchema, taskPrioritySchema, taskStatusSchema } from "./TaskSchema";
+
+export const transferFormatSchema = z.enum(["json", "csv", "markdown"]);
+
+// Whether imported tasks keep the IDs from the file or are given new ones
+export const importIdStrategySchema = z.enum(["preserve", "remap"]);
+
+export const exportQuerySchema = z.object({
+  format: transferFormatSchema.default("json"),
+});
+
+export const importQuerySchema = z.object({
+  format: transferFormatSchema.default("json"),
+  ids: importIdStrategySchema.default("remap"),
+});
+
+export type ImportTaskInput = {
+  id?: string | undefined;
+  title: string;
+  description?: string | null | undefined;
+  status?: z.infer<typeof taskStatusSchema> | undefined;
+  priority?: z.infer<typeof taskPrioritySchema> | undefined;
+  dueDate?: Date | null | undefined;
+  startDate?: Date | null | undefined;
+  order?: number | undefined;
+  createdAt?: Date | undefined;
+  updatedAt?: Date | undefined;
+  subtasks: ImportTaskInput[];
+};
+
+// A task of an import file together with its nested subtasks
+export const importTaskSchema: z.ZodType<ImportTaskInput, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().uuid().optional(),
+  title: z.string().min(1, "Title is required").max(100, "Title must be 100 characters or less"),
+  description: z.string().nullable().optional(),
+  status: taskStatusSchema.optional(),
+  priority: taskPrioritySchema.optional(),
+  dueDate: dateSchema.nullable().optional(),
+  startDate: dateSchema.nullable().optional(),
+  order: z.coerce.number().int().positive().optional(),
+  createdAt: dateSchema.optional(),
+  updatedAt: dateSchema.optional(),
+  subtasks: z.array(z.lazy(() => importTaskSchema)).default([]),
+});
+
+export const importDocumentSchema = z.object({
+  tasks: z.array(importTaskSchema),
+});
+
+export type TransferFormat = z.infer<typeof transferFormatSchema>;
+export type ImportIdStrategy = z.infer<typeof importIdStrategySchema>;
+export type ExportQueryInput = z.infer<typeof exportQuerySchema>;
+export type ImportQueryInput = z.infer<typeof importQuerySchema>;
+export type ImportDocumentInput = z.infer<typeof importDocumentSchema>;
@@ -0,0 +1,40 @@
+import { z } from "zod";
+
+// Webhooks are only posted to over HTTP(S)
+export const webhookUrlSchema = z
+  .string()
+  .url()
+  .refine((url) => /^https?:\/\//.test(url), "URL must use http or https");
+
+export const webhookSecretSchema = z
+  .string()
+  .min(16, "Secret must be at least 16 characters")
+  .max(256, "Secret must be 256 characters or less");
+
+export const webhookEventTypesSchema = z
+  .array(z.enum(["created", "completed", "moved", "deleted"]))
+  .min(1, "At least one event type is required");
+
+// Schema for webhook registration
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  secret: webhookSecretSchema,
+  eventTypes: webhookEventTypesSchema,
+});
+
+// Schema for webhook update
+export const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  secret: webhookSecretSchema.optional(),
+  eventTypes: webhookEventTypesSchema.optional(),
+});
+
+// Schema for reading the delivery log of a webhook, newest first
+export const webhookDeliveryQuerySchema = z.object({
+  status: z.enum(["pending", "succeeded", "failed"]).optional(),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
+export type WebhookDeliveryQueryInput = z.infer<typeof webhookDeliveryQuerySchema>;
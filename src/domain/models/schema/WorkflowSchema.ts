@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { taskStatusSchema } from "./TaskSchema";
+
+const workflowStateSchema = z.object({
+  category: z.enum(["open", "closed"]),
+  transitions: z.array(taskStatusSchema),
+});
+
+// Schema for replacing the workflow; every status needs a state
+export const updateWorkflowSchema = z.object({
+  states: z.object({
+    todo: workflowStateSchema,
+    in_progress: workflowStateSchema,
+    blocked: workflowStateSchema,
+    done: workflowStateSchema,
+    cancelled: workflowStateSchema,
+  }),
+  initialStatus: taskStatusSchema,
+  completedStatus: taskStatusSchema,
+});
+
+export type UpdateWorkflowInput = z.infer<typeof updateWorkflowSchema>;
@@ -0,0 +1,23 @@
+import type { RecurringTodoPattern } from "../models/RecurringPattern";
+
+export type RecurringPatternRepository = {
+  /**
+   * Find all recurring patterns ordered by creation date
+   */
+  findAll(): Promise<readonly RecurringTodoPattern[]>;
+
+  /**
+   * Find a recurring pattern by its ID
+   */
+  findById(id: string): Promise<RecurringTodoPattern | null>;
+
+  /**
+   * Create or update a recurring pattern
+   */
+  save(pattern: RecurringTodoPattern): Promise<RecurringTodoPattern>;
+
+  /**
+   * Delete a recurring pattern. Its instances are kept as regular tasks.
+   */
+  delete(id: string): Promise<void>;
+};
@@ -0,0 +1,34 @@
+import type { RemindedTask, Reminder } from "../models/Reminder";
+import type { TaskStatus } from "../models/Workflow";
+
+export type PendingReminder = {
+  readonly reminder: Reminder;
+  readonly task: RemindedTask;
+};
+
+export type ReminderRepository = {
+  /**
+   * Find the reminders of a task, ordered by creation date
+   */
+  findByTaskId(taskId: string): Promise<readonly Reminder[]>;
+
+  /**
+   * Find a reminder by its ID
+   */
+  findById(id: string): Promise<Reminder | null>;
+
+  /**
+   * Find the pending reminders of tasks with one of the given open statuses that are not in the trash
+   */
+  findPending(openStatuses: readonly TaskStatus[]): Promise<readonly PendingReminder[]>;
+
+  /**
+   * Create or update a reminder
+   */
+  save(reminder: Reminder): Promise<Reminder>;
+
+  /**
+   * Delete a reminder
+   */
+  delete(id: string): Promise<void>;
+};
@@ -0,0 +1,13 @@
+import type { StatusPropagationPolicy } from "../models/Task";
+
+export type StatusPropagationPolicyRepository = {
+  /**
+   * Find the policy configured on a root task, or null when it has none
+   */
+  findByRootId(rootId: string): Promise<StatusPropagationPolicy | null>;
+
+  /**
+   * Configure the policy of the task tree under a root task
+   */
+  save(rootId: string, policy: StatusPropagationPolicy): Promise<void>;
+};
@@ -0,0 +1,43 @@
+import type { Tag } from "../models/Tag";
+
+export type TagRepository = {
+  /**
+   * Find all tags ordered by name
+   */
+  findAll(): Promise<readonly Tag[]>;
+
+  /**
+   * Find a tag by its ID
+   */
+  findById(id: string): Promise<Tag | null>;
+
+  /**
+   * Find a tag by its name
+   */
+  findByName(name: string): Promise<Tag | null>;
+
+  /**
+   * Find the tags attached to a task, ordered by name
+   */
+  findByTaskId(taskId: string): Promise<readonly Tag[]>;
+
+  /**
+   * Create or update a tag
+   */
+  save(tag: Tag): Promise<Tag>;
+
+  /**
+   * Delete a tag and detach it from all tasks
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Attach a tag to a task. Attaching an already attached tag has no effect.
+   */
+  attachToTask(taskId: string, tagId: string): Promise<void>;
+
+  /**
+   * Detach a tag from a task
+   */
+  detachFromTask(taskId: string, tagId: string): Promise<void>;
+};
@@ -0,0 +1,16 @@
+export type TaskDependencyRepository = {
+  /**
+   * Find the IDs of the tasks a task waits on, directly or through their own blockers
+   */
+  findAllBlockerIds(taskId: string): Promise<readonly string[]>;
+
+  /**
+   * Make a task wait on another one. Adding an existing dependency has no effect.
+   */
+  add(taskId: string, blockerId: string): Promise<void>;
+
+  /**
+   * Stop a task waiting on another one. Returns false when there was no such dependency.
+   */
+  remove(taskId: string, blockerId: string): Promise<boolean>;
+};
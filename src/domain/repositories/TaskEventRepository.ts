@@ -0,0 +1,47 @@
+import type { NewTaskEvent, TaskEvent } from "../models/TaskEvent";
+
+export type TaskEventQuery = {
+  /**
+   * Only include the events of this task
+   */
+  readonly taskId?: string;
+  /**
+   * Only include events older than the event with this ID
+   */
+  readonly beforeId?: number;
+  /**
+   * Maximum number of events to return
+   */
+  readonly limit: number;
+};
+
+export type TaskEventRepository = {
+  /**
+   * Store new events in the given order
+   */
+  append(events: readonly NewTaskEvent[]): Promise<void>;
+
+  /**
+   * Find events, newest first
+   */
+  find(query: TaskEventQuery): Promise<readonly TaskEvent[]>;
+
+  /**
+   * Find up to `limit` events written after the event with the given ID, oldest first
+   */
+  findAfter(afterId: number, limit: number): Promise<readonly TaskEvent[]>;
+
+  /**
+   * Find the events of the newest operation that can be undone, in the order they were written.
+   * Regular changes and redos can be undone unless they already were; operations that created a task cannot.
+   * Returns an empty list when there is nothing to undo.
+   */
+  findLastUndoableOperation(): Promise<readonly TaskEvent[]>;
+
+  /**
+   * Find the events of the newest undo that can be redone, in the order they were written.
+   * An undo can be redone unless it already was or a regular change has been made since.
+   * Returns an empty list when there is nothing to redo.
+   */
+  findLastRedoableOperation(): Promise<readonly TaskEvent[]>;
+};
@@ -1,20 +1,125 @@
-import type { Task } from "../models/Task";
+import type { Task, TaskPathSegment, TaskPriority, TaskSearchHighlights } from "../models/Task";
+import type { TaskStatus } from "../models/Workflow";
+
+/**
+ * Position of the last task on a page. The next page starts right after it in the sort order.
+ */
+export type TaskCursor = {
+  readonly rankKey: string;
+  readonly order: number;
+  readonly id: string;
+  /**
+   * Needed to continue a listing sorted by priority
+   */
+  readonly priority: TaskPriority;
+};
 
 export type PaginationParams = {
-  readonly page: number;
+  /**
+   * Start after this position; the first page is returned when omitted
+   */
+  readonly after?: TaskCursor;
   readonly limit: number;
 };
 
+export type TaskPage = {
+  readonly items: readonly Task[];
+  /**
+   * Position to continue from, or null on the last page
+   */
+  readonly nextCursor: TaskCursor | null;
+  /**
+   * Number of tasks matching the filter across all pages
+   */
+  readonly totalCount: number;
+};
+
+export type TaskSortField = "order" | "priority";
+
+export type TagMatchMode = "any" | "all";
+
+export type TaskFilter = {
+  /**
+   * Only include tasks with one of these priorities
+   */
+  readonly priorities?: readonly TaskPriority[];
+  /**
+   * Only include tasks carrying these tags
+   */
+  readonly tagIds?: readonly string[];
+  /**
+   * Whether a task must carry any (default) or all of the given tags
+   */
+  readonly tagMatch?: TagMatchMode;
+  /**
+   * Only include tasks with one of these statuses
+   */
+  readonly statuses?: readonly TaskStatus[];
+  /**
+   * Creation time range to include (inclusive)
+   */
+  readonly createdFrom?: Date;
+  readonly createdTo?: Date;
+  /**
+   * Last update time range to include (inclusive)
+   */
+  readonly updatedFrom?: Date;
+  readonly updatedTo?: Date;
+  /**
+   * List the subtasks of this task instead of the root tasks
+   */
+  readonly parentId?: string;
+  /**
+   * Sort key for the listed tasks; ties are broken by order, then by ID
+   */
+  readonly sort?: TaskSortField;
+};
+
+export type DueDateQuery = {
+  /**
+   * Earliest due date to include (inclusive)
+   */
+  readonly from?: Date;
+  /**
+   * Latest due date to include (inclusive)
+   */
+  readonly to?: Date;
+  /**
+   * Only include tasks with one of these statuses; tasks of any status are included when omitted
+   */
+  readonly statuses?: readonly TaskStatus[];
+};
+
+export type TaskSearchQuery = {
+  /**
+   * Free text to match against task titles and descriptions
+   */
+  readonly text: string;
+  /**
+   * Maximum number of matches to return
+   */
+  readonly limit: number;
+};
+
+export type TaskSearchMatch = {
+  readonly task: Task;
+  readonly rank: number;
+  readonly highlights: TaskSearchHighlights;
+};
+
 export type TaskRepository = {
   /**
    * Find all root tasks (tasks with no parent)
    */
-  findRootTasks(): Promise<readonly Task[]>;
+  findRootTasks(filter?: TaskFilter): Promise<readonly Task[]>;
 
   /**
-   * Find root tasks with pagination
+   * Find one page of root tasks, or of the subtasks of `filter.parentId`.
+   * Pages continue from a sort position rather than an offset, so tasks inserted or
+   * reordered between requests do not shift the pages that follow.
+   * Subtasks are loaded `depth` levels deep, all of them by default.
    */
-  findRootTasksWithPagination(params: PaginationParams): Promise<readonly Task[]>;
+  findTasksWithPagination(params: PaginationParams, filter?: TaskFilter, depth?: number): Promise<TaskPage>;
 
   /**
    * Find all subtasks for a given parent task ID
@@ -22,9 +127,16 @@ export type TaskRepository = {
   findByParentId(parentId: string): Promise<readonly Task[]>;
 
   /**
-   * Find a task by its ID with all its subtasks loaded hierarchically
+   * Find the tasks directly under the given parent, or the root tasks for null, in sibling order.
+   * Subtasks are not loaded.
+   */
+  findSiblings(parentId: string | null): Promise<readonly Task[]>;
+
+  /**
+   * Find a task by its ID with its subtasks loaded `depth` levels deep, all of them by default.
+   * With a depth of 0 no subtasks are loaded.
    */
-  findById(id: string, loadHierarchy?: boolean): Promise<Task | null>;
+  findById(id: string, depth?: number): Promise<Task | null>;
 
   /**
    * Save a task and all its subtasks in the hierarchy
@@ -32,22 +144,123 @@ export type TaskRepository = {
   save(task: Task, saveHierarchy?: boolean): Promise<Task>;
 
   /**
-   * Delete a task and all its subtasks
+   * Insert new tasks together with their whole subtask hierarchies in a single transaction.
+   * Nothing is written if any of the inserts fails.
+   */
+  insertTrees(tasks: readonly Task[]): Promise<void>;
+
+  /**
+   * Move a task and all its subtasks to the trash, hiding them from every other query
+   */
+  trash(id: string, deletedAt: Date): Promise<void>;
+
+  /**
+   * Find the tasks that were moved to the trash, most recently trashed first.
+   * Subtasks trashed together with their parent are not listed separately, and subtasks are not loaded.
+   */
+  findTrash(): Promise<readonly Task[]>;
+
+  /**
+   * Find a task in the trash by its ID. Subtasks are not loaded.
+   */
+  findTrashedById(id: string): Promise<Task | null>;
+
+  /**
+   * Bring a trashed task back under the given parent at the given order, together with
+   * the subtasks that were trashed along with it. Siblings are shifted down if the slot is taken.
+   * The task keeps its rank key unless another one is given.
+   */
+  restore(id: string, parentId: string | null, order: number, rankKey?: string): Promise<void>;
+
+  /**
+   * Permanently delete tasks that were moved to the trash before the given date.
+   * Returns the number of deleted tasks.
+   */
+  purgeTrash(deletedBefore: Date): Promise<number>;
+
+  /**
+   * Permanently delete a task and all its subtasks
    */
   delete(id: string): Promise<void>;
 
   /**
-   * Update task orders for a set of sibling tasks
+   * Update task orders and ranks for a set of sibling tasks
    */
   updateOrder(tasks: readonly Task[]): Promise<readonly Task[]>;
 
+  /**
+   * Move every active sibling under the given parent at or after the given order one slot down, making room there
+   */
+  shiftSiblings(parentId: string | null, fromOrder: number): Promise<void>;
+
+  /**
+   * Find the parents whose active subtasks include one with a rank key longer than the given length;
+   * null stands for the root tasks
+   */
+  findParentIdsWithRanksLongerThan(length: number): Promise<readonly (string | null)[]>;
+
   /**
    * Find the entire task tree starting from the given root task ID
    */
   findTaskTree(rootId: string): Promise<Task | null>;
 
   /**
-   * Move a task to become a child of another task
+   * Move a task to become a child of another task, at the given index among its new siblings (last by default).
+   * The former siblings after the task close the gap and the new siblings from the index on are shifted down.
+   */
+  moveTask(taskId: string, newParentId: string | null, index?: number): Promise<Task | null>;
+
+  /**
+   * Find tasks at any depth of the hierarchy whose due date falls within the given range,
+   * ordered by due date. Subtasks are not loaded.
+   */
+  findByDueDate(query: DueDateQuery): Promise<readonly Task[]>;
+
+  /**
+   * Find all instances of a recurring pattern, ordered by instance date
+   */
+  findByRecurringPatternId(patternId: string): Promise<readonly Task[]>;
+
+  /**
+   * Find the ancestors of a task, ordered from the root down to its direct parent. Subtasks are not loaded.
+   * Returns an empty list for root tasks, and for tasks that do not exist or are in the trash.
+   */
+  findAncestors(id: string): Promise<readonly Task[]>;
+
+  /**
+   * Find the IDs of the ancestors of a task, in no particular order. Unlike findAncestors,
+   * this also follows tasks in the trash, so that it works for tasks that have just been deleted.
+   */
+  findAncestorIds(id: string): Promise<readonly string[]>;
+
+  /**
+   * Find every task below the given task, each listed right before its own subtasks. Subtasks are not loaded.
+   */
+  findDescendants(id: string): Promise<readonly Task[]>;
+
+  /**
+   * Count the tasks below the given task, however deep they are
+   */
+  countDescendants(id: string): Promise<number>;
+
+  /**
+   * Find the ancestors of a task, ordered from the root down to its direct parent
+   */
+  findPath(id: string): Promise<readonly TaskPathSegment[]>;
+
+  /**
+   * Find the paths of several tasks at once, keyed by task ID. Tasks that do not exist or are in the trash are left out.
+   */
+  findPaths(ids: readonly string[]): Promise<ReadonlyMap<string, readonly TaskPathSegment[]>>;
+
+  /**
+   * Find which of the given IDs are taken by tasks, including tasks in the trash
+   */
+  findExistingIds(ids: readonly string[]): Promise<readonly string[]>;
+
+  /**
+   * Full-text search over task titles and descriptions at any depth, best matches first.
+   * Subtasks are not loaded.
    */
-  moveTask(taskId: string, newParentId: string | null): Promise<Task | null>;
+  search(query: TaskSearchQuery): Promise<readonly TaskSearchMatch[]>;
 };
@@ -0,0 +1,23 @@
+import type { TaskTemplate } from "../models/TaskTemplate";
+
+export type TaskTemplateRepository = {
+  /**
+   * Find all task templates ordered by name
+   */
+  findAll(): Promise<readonly TaskTemplate[]>;
+
+  /**
+   * Find a task template by its ID
+   */
+  findById(id: string): Promise<TaskTemplate | null>;
+
+  /**
+   * Create or update a task template
+   */
+  save(template: TaskTemplate): Promise<TaskTemplate>;
+
+  /**
+   * Delete a task template. Tasks instantiated from it are kept.
+   */
+  delete(id: string): Promise<void>;
+};
@@ -0,0 +1,13 @@
+export type TransactionManager = {
+  /**
+   * Run the given work in a single database transaction.
+   * Every change made by the work is rolled back if it throws. Calls may be nested.
+   */
+  runInTransaction<T>(work: () => Promise<T>): Promise<T>;
+
+  /**
+   * Run the callback once the surrounding top-level transaction has committed, or right away outside a transaction.
+   * The callback is dropped when the work that registered it is rolled back.
+   */
+  afterCommit(callback: () => void): void;
+};
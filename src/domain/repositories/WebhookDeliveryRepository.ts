@@ -0,0 +1,33 @@
+import type { Webhook } from "../models/Webhook";
+import type { WebhookDelivery, WebhookDeliveryStatus } from "../models/WebhookDelivery";
+
+export type DueWebhookDelivery = {
+  readonly delivery: WebhookDelivery;
+  readonly webhook: Webhook;
+};
+
+export type WebhookDeliveryRepository = {
+  /**
+   * Find the deliveries of a webhook, newest first, optionally only those with the given status
+   */
+  findByWebhookId(
+    webhookId: string,
+    limit: number,
+    status?: WebhookDeliveryStatus,
+  ): Promise<readonly WebhookDelivery[]>;
+
+  /**
+   * Find pending deliveries whose next attempt is due at the given time, oldest first
+   */
+  findDue(now: Date, limit: number): Promise<readonly DueWebhookDelivery[]>;
+
+  /**
+   * Store new deliveries. A delivery of an event that the webhook already has a delivery of is skipped.
+   */
+  add(deliveries: readonly WebhookDelivery[]): Promise<void>;
+
+  /**
+   * Store the outcome of an attempt
+   */
+  save(delivery: WebhookDelivery): Promise<WebhookDelivery>;
+};
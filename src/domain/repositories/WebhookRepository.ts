@@ -0,0 +1,28 @@
+import type { Webhook, WebhookEventType } from "../models/Webhook";
+
+export type WebhookRepository = {
+  /**
+   * Find all webhooks ordered by creation date
+   */
+  findAll(): Promise<readonly Webhook[]>;
+
+  /**
+   * Find a webhook by its ID
+   */
+  findById(id: string): Promise<Webhook | null>;
+
+  /**
+   * Find the webhooks subscribed to an event type
+   */
+  findByEventType(eventType: WebhookEventType): Promise<readonly Webhook[]>;
+
+  /**
+   * Create or update a webhook
+   */
+  save(webhook: Webhook): Promise<Webhook>;
+
+  /**
+   * Delete a webhook along with its delivery log
+   */
+  delete(id: string): Promise<void>;
+};
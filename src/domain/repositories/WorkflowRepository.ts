@@ -0,0 +1,13 @@
+import type { Workflow } from "../models/Workflow";
+
+export type WorkflowRepository = {
+  /**
+   * Find the configured workflow, or the standard one when it has never been changed
+   */
+  find(): Promise<Workflow>;
+
+  /**
+   * Replace the configured workflow
+   */
+  save(workflow: Workflow): Promise<Workflow>;
+};
@@ -0,0 +1,22 @@
+import type { RemindedTask, Reminder } from "../models/Reminder";
+
+export type ReminderNotification = {
+  readonly reminder: Reminder;
+  readonly task: RemindedTask;
+  readonly firedAt: Date;
+};
+
+/**
+ * Delivers reminders to the user
+ */
+export type Notifier = {
+  /**
+   * Name of the notifier, used when reporting failed deliveries
+   */
+  readonly name: string;
+
+  /**
+   * Deliver a reminder. Rejects when the reminder could not be delivered.
+   */
+  notify(notification: ReminderNotification): Promise<void>;
+};
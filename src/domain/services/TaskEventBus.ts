@@ -0,0 +1,19 @@
+import type { TaskEvent } from "../models/TaskEvent";
+
+export type TaskEventListener = (event: TaskEvent) => void;
+
+/**
+ * Hands stored task events to the parts of the application that follow changes as they happen, such as event streams
+ */
+export type TaskEventBus = {
+  /**
+   * Deliver events to every subscriber in the order given.
+   * Events published inside a transaction are delivered once it commits, and never when it rolls back.
+   */
+  publish(events: readonly TaskEvent[]): void;
+
+  /**
+   * Start delivering events to the listener. Returns the function that ends the subscription.
+   */
+  subscribe(listener: TaskEventListener): () => void;
+};
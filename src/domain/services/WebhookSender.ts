@@ -0,0 +1,16 @@
+export type WebhookRequest = {
+  readonly url: string;
+  readonly headers: Readonly<Record<string, string>>;
+  readonly body: string;
+};
+
+/**
+ * Posts webhook deliveries to their receivers
+ */
+export type WebhookSender = {
+  /**
+   * Post the request and resolve with the HTTP status of the response.
+   * Rejects when no response was received, e.g. on connection errors and timeouts.
+   */
+  send(request: WebhookRequest): Promise<number>;
+};
@@ -1,26 +1,130 @@
 import "reflect-metadata";
 import { Hono } from "hono";
-import { getTaskController, initializeContainer } from "./application/services/DependencyContainer";
+import {
+  getActivityController,
+  getDependencyController,
+  getEventController,
+  getImportExportController,
+  getRankRebalanceScheduler,
+  getRecurringPatternController,
+  getReminderController,
+  getReminderScheduler,
+  getTagController,
+  getTaskController,
+  getTemplateController,
+  getTrashController,
+  getTrashPurgeScheduler,
+  getUndoController,
+  getWebhookController,
+  getWebhookDeliveryScheduler,
+  initializeContainer,
+  registerNotifier,
+} from "./application/services/DependencyContainer";
+import { WebhookNotifier } from "./infrastructure/notifiers/WebhookNotifier";
 
 // Initialize dependency injection container
 initializeContainer();
 
 const app = new Hono();
 const taskController = getTaskController();
+const tagController = getTagController();
+const recurringPatternController = getRecurringPatternController();
+const importExportController = getImportExportController();
+const trashController = getTrashController();
+const activityController = getActivityController();
+const eventController = getEventController();
+const undoController = getUndoController();
+const reminderController = getReminderController();
+const templateController = getTemplateController();
+const dependencyController = getDependencyController();
+const webhookController = getWebhookController();
 
 app.get("/", (c) => {
   return c.text("Hello Hono!");
 });
 
 // Task API
+app.get("/api/workflow", taskController.getWorkflow);
+app.put("/api/workflow", taskController.updateWorkflow);
 app.get("/api/tasks", taskController.getRootTasks);
+app.get("/api/tasks/overdue", taskController.getOverdueTasks);
+app.get("/api/tasks/due", taskController.getDueTasks);
+app.get("/api/tasks/search", taskController.searchTasks);
 app.get("/api/tasks/:id", taskController.getTaskById);
+app.get("/api/tasks/:id/ancestors", taskController.getAncestors);
+app.get("/api/tasks/:id/status-propagation", taskController.getStatusPropagation);
+app.put("/api/tasks/:id/status-propagation", taskController.updateStatusPropagation);
 app.post("/api/tasks", taskController.create);
+app.post("/api/tasks/bulk", taskController.bulk);
 app.patch("/api/tasks/:id", taskController.update);
 app.delete("/api/tasks/:id", taskController.delete);
 app.patch("/api/tasks/:id/move", taskController.move);
+app.post("/api/tasks/:id/position", taskController.position);
+app.post("/api/tasks/:id/duplicate", taskController.duplicate);
 app.put("/api/tasks/reorder", taskController.reorder);
 app.put("/api/tasks/:parentId/reorder", taskController.reorder);
+app.post("/api/tasks/:id/tags/:tagId", tagController.addToTask);
+app.delete("/api/tasks/:id/tags/:tagId", tagController.removeFromTask);
+app.get("/api/tasks/:id/blockers", dependencyController.getBlockers);
+app.post("/api/tasks/:id/dependencies/:blockerId", dependencyController.addDependency);
+app.delete("/api/tasks/:id/dependencies/:blockerId", dependencyController.removeDependency);
+app.post("/api/tasks/:id/restore", trashController.restore);
+app.get("/api/tasks/:id/history", activityController.getTaskHistory);
+
+// Reminder API
+app.get("/api/tasks/:id/reminders", reminderController.getReminders);
+app.post("/api/tasks/:id/reminders", reminderController.create);
+app.patch("/api/tasks/:id/reminders/:reminderId", reminderController.update);
+app.delete("/api/tasks/:id/reminders/:reminderId", reminderController.delete);
+app.post("/api/tasks/:id/reminders/:reminderId/snooze", reminderController.snooze);
+app.post("/api/tasks/:id/reminders/:reminderId/dismiss", reminderController.dismiss);
+
+// Activity API
+app.get("/api/activity", activityController.getActivity);
+
+// Event stream API
+app.get("/api/events", eventController.stream);
+
+// Undo API
+app.post("/api/undo", undoController.undo);
+app.post("/api/redo", undoController.redo);
+
+// Trash API
+app.get("/api/trash", trashController.getTrash);
+app.delete("/api/trash", trashController.purge);
+
+// Tag API
+app.get("/api/tags", tagController.getTags);
+app.get("/api/tags/:id", tagController.getTagById);
+app.post("/api/tags", tagController.create);
+app.patch("/api/tags/:id", tagController.update);
+app.delete("/api/tags/:id", tagController.delete);
+
+// Recurring pattern API
+app.get("/api/recurring-patterns", recurringPatternController.getRecurringPatterns);
+app.get("/api/recurring-patterns/:id", recurringPatternController.getRecurringPatternById);
+app.post("/api/recurring-patterns", recurringPatternController.create);
+app.patch("/api/recurring-patterns/:id", recurringPatternController.update);
+app.delete("/api/recurring-patterns/:id", recurringPatternController.delete);
+
+// Task template API
+app.get("/api/templates", templateController.getTemplates);
+app.get("/api/templates/:id", templateController.getTemplateById);
+app.post("/api/templates", templateController.create);
+app.delete("/api/templates/:id", templateController.delete);
+app.post("/api/templates/:id/instantiate", templateController.instantiate);
+
+// Webhook API
+app.get("/api/webhooks", webhookController.getWebhooks);
+app.get("/api/webhooks/:id", webhookController.getWebhookById);
+app.post("/api/webhooks", webhookController.create);
+app.patch("/api/webhooks/:id", webhookController.update);
+app.delete("/api/webhooks/:id", webhookController.delete);
+app.get("/api/webhooks/:id/deliveries", webhookController.getDeliveries);
+
+// Import/export API
+app.get("/api/export", importExportController.exportTasks);
+app.post("/api/import", importExportController.importTasks);
 
 export default app;
 
@@ -28,9 +132,24 @@ export default app;
 if (import.meta.main) {
   // @ts-ignore
   const port = process.env.PORT ? Number.parseInt(process.env.PORT, 10) : 3001;
+  // @ts-ignore
+  const trashRetentionDays = process.env.TRASH_RETENTION_DAYS ? Number(process.env.TRASH_RETENTION_DAYS) : 30;
+  getTrashPurgeScheduler().start(trashRetentionDays);
+
+  // @ts-ignore
+  const reminderWebhookUrl: string | undefined = process.env.REMINDER_WEBHOOK_URL;
+  if (reminderWebhookUrl) {
+    registerNotifier(new WebhookNotifier(reminderWebhookUrl));
+  }
+  getReminderScheduler().start();
+  getRankRebalanceScheduler().start();
+  getWebhookDeliveryScheduler().start();
+
   console.log(`Server listening on http://localhost:${port}`);
   Bun.serve({
     port,
     fetch: app.fetch,
+    // Event streams stay open; the heartbeats they send every 15 seconds keep them from idling out
+    idleTimeout: 60,
   });
 }
@@ -0,0 +1,82 @@
+import type { Context } from "hono";
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { GetActivityUseCase } from "../../application/usecases/history/GetActivityUseCase";
+import type { GetTaskHistoryUseCase } from "../../application/usecases/history/GetTaskHistoryUseCase";
+import type { TaskEventPage } from "../../domain/models/TaskEvent";
+import { encodeCursor } from "../../domain/models/schema/CursorSchema";
+import { type TaskEventPageQueryInput, taskEventPageQuerySchema } from "../../domain/models/schema/TaskEventSchema";
+import { idSchema } from "../../domain/models/schema/TaskSchema";
+import { validateQuery } from "../utils/ValidationUtils";
+
+const logger = new Logger({ name: "ActivityController" });
+
+@injectable()
+@singleton()
+export class ActivityController {
+  constructor(
+    @inject("GetTaskHistoryUseCase") private getTaskHistoryUseCase: GetTaskHistoryUseCase,
+    @inject("GetActivityUseCase") private getActivityUseCase: GetActivityUseCase,
+  ) {}
+
+  getTaskHistory = async (c: Context) => {
+    try {
+      const taskId = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(taskId).success) {
+        return c.json({ error: "Invalid task ID" }, 400);
+      }
+
+      // Validate query parameters
+      const validationResult = validateQuery<TaskEventPageQueryInput>(c, taskEventPageQuerySchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { cursor, limit } = validationResult.data;
+      const page = await this.getTaskHistoryUseCase.execute({
+        taskId,
+        ...(cursor && { beforeId: cursor.beforeId }),
+        limit,
+      });
+
+      if (!page) {
+        return c.json({ error: "Task not found" }, 404);
+      }
+
+      return c.json(this.toResponse(page));
+    } catch (error) {
+      logger.error("Failed to get task history:", error);
+      return c.json({ error: "Failed to get task history" }, 500);
+    }
+  };
+
+  getActivity = async (c: Context) => {
+    try {
+      // Validate query parameters
+      const validationResult = validateQuery<TaskEventPageQueryInput>(c, taskEventPageQuerySchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { cursor, limit } = validationResult.data;
+      const page = await this.getActivityUseCase.execute({
+        ...(cursor && { beforeId: cursor.beforeId }),
+        limit,
+      });
+
+      return c.json(this.toResponse(page));
+    } catch (error) {
+      logger.error("Failed to get activity:", error);
+      return c.json({ error: "Failed to get activity" }, 500);
+    }
+  };
+
+  private toResponse(page: TaskEventPage) {
+    return {
+      items: page.items,
+      nextCursor: page.nextBeforeId === null ? null : encodeCursor({ beforeId: page.nextBeforeId }),
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import type { Context } from "hono";
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { AddTaskDependencyUseCase } from "../../application/usecases/dependency/AddTaskDependencyUseCase";
+import type { GetTaskBlockersUseCase } from "../../application/usecases/dependency/GetTaskBlockersUseCase";
+import type { RemoveTaskDependencyUseCase } from "../../application/usecases/dependency/RemoveTaskDependencyUseCase";
+import { CircularReferenceError, TaskNotFoundError } from "../../domain/models/errors";
+import { idSchema } from "../../domain/models/schema/TaskSchema";
+
+const logger = new Logger({ name: "DependencyController" });
+
+@injectable()
+@singleton()
+export class DependencyController {
+  constructor(
+    @inject("AddTaskDependencyUseCase") private addTaskDependencyUseCase: AddTaskDependencyUseCase,
+    @inject("RemoveTaskDependencyUseCase") private removeTaskDependencyUseCase: RemoveTaskDependencyUseCase,
+    @inject("GetTaskBlockersUseCase") private getTaskBlockersUseCase: GetTaskBlockersUseCase,
+  ) {}
+
+  getBlockers = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid task ID" }, 400);
+      }
+
+      const blockers = await this.getTaskBlockersUseCase.execute(id);
+
+      if (!blockers) {
+        return c.json({ error: "Task not found" }, 404);
+      }
+
+      return c.json(blockers);
+    } catch (error) {
+      logger.error("Failed to get task blockers:", error);
+      return c.json({ error: "Failed to get task blockers" }, 500);
+    }
+  };
+
+  addDependency = async (c: Context) => {
+    try {
+      const taskId = c.req.param("id");
+      const blockerId = c.req.param("blockerId");
+
+      // Validate IDs
+      if (!idSchema.safeParse(taskId).success || !idSchema.safeParse(blockerId).success) {
+        return c.json({ error: "Invalid task or blocker ID" }, 400);
+      }
+
+      try {
+        const task = await this.addTaskDependencyUseCase.execute({ taskId, blockerId });
+        return c.json(task);
+      } catch (error) {
+        if (error instanceof TaskNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error instanceof CircularReferenceError) {
+          return c.json({ error: error.message }, 400);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to add task dependency:", error);
+      return c.json({ error: "Failed to add task dependency" }, 500);
+    }
+  };
+
+  removeDependency = async (c: Context) => {
+    try {
+      const taskId = c.req.param("id");
+      const blockerId = c.req.param("blockerId");
+
+      // Validate IDs
+      if (!idSchema.safeParse(taskId).success || !idSchema.safeParse(blockerId).success) {
+        return c.json({ error: "Invalid task or blocker ID" }, 400);
+      }
+
+      try {
+        const task = await this.removeTaskDependencyUseCase.execute({ taskId, blockerId });
+
+        if (!task) {
+          return c.json({ error: "Task dependency not found" }, 404);
+        }
+
+        return c.json(task);
+      } catch (error) {
+        if (error instanceof TaskNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to remove task dependency:", error);
+      return c.json({ error: "Failed to remove task dependency" }, 500);
+    }
+  };
+}
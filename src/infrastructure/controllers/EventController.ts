@@ -0,0 +1,99 @@
+import type { Context } from "hono";
+import { streamSSE } from "hono/streaming";
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { StreamTaskEventsUseCase } from "../../application/usecases/history/StreamTaskEventsUseCase";
+import type { TaskEvent, TaskEventType } from "../../domain/models/TaskEvent";
+import { TaskNotFoundError } from "../../domain/models/errors";
+import { type TaskEventStreamQueryInput, taskEventStreamQuerySchema } from "../../domain/models/schema/TaskEventSchema";
+import { validateQuery } from "../utils/ValidationUtils";
+
+const logger = new Logger({ name: "EventController" });
+
+// Comments sent in between events keep idle connections from being closed
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+// A restored task comes back into view just like a created one
+const eventNames: Record<TaskEventType, string> = {
+  created: "task.created",
+  updated: "task.updated",
+  moved: "task.moved",
+  reordered: "task.reordered",
+  deleted: "task.deleted",
+  restored: "task.created",
+};
+
+@injectable()
+@singleton()
+export class EventController {
+  constructor(@inject("StreamTaskEventsUseCase") private streamTaskEventsUseCase: StreamTaskEventsUseCase) {}
+
+  stream = async (c: Context) => {
+    try {
+      // Validate query parameters
+      const validationResult = validateQuery<TaskEventStreamQueryInput>(c, taskEventStreamQuerySchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      // EventSource sends the ID of the last event it received when it reconnects
+      const lastEventIdHeader = c.req.header("Last-Event-ID");
+      const lastEventIdResult = taskEventStreamQuerySchema.shape.lastEventId.safeParse(lastEventIdHeader);
+      if (!lastEventIdResult.success) {
+        return c.json({ error: "Invalid Last-Event-ID header" }, 400);
+      }
+
+      const { rootId } = validationResult.data;
+      const lastEventId = lastEventIdResult.data ?? validationResult.data.lastEventId;
+
+      // Events may arrive before the response stream is open
+      const pending: TaskEvent[] = [];
+      let send: ((event: TaskEvent) => void) | null = null;
+
+      let stop: () => void;
+      try {
+        stop = await this.streamTaskEventsUseCase.execute(
+          {
+            ...(rootId !== undefined && { rootId }),
+            ...(lastEventId !== undefined && { lastEventId }),
+          },
+          (event) => (send ? send(event) : pending.push(event)),
+        );
+      } catch (error) {
+        if (error instanceof TaskNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+
+      return streamSSE(c, async (stream) => {
+        let writing = Promise.resolve();
+        send = (event) => {
+          writing = writing
+            .then(() =>
+              stream.writeSSE({ id: String(event.id), event: eventNames[event.type], data: JSON.stringify(event) }),
+            )
+            .catch((error) => {
+              logger.warn("Failed to send task event:", error);
+            });
+        };
+        pending.splice(0).forEach(send);
+
+        const heartbeat = setInterval(() => {
+          void stream.write(": heartbeat\n\n").catch(() => undefined);
+        }, HEARTBEAT_INTERVAL_MS);
+
+        // Keep the stream open until the client goes away
+        try {
+          await new Promise<void>((resolve) => stream.onAbort(resolve));
+        } finally {
+          clearInterval(heartbeat);
+          stop();
+        }
+      });
+    } catch (error) {
+      logger.error("Failed to stream task events:", error);
+      return c.json({ error: "Failed to stream task events" }, 500);
+    }
+  };
+}
@@ -0,0 +1,126 @@
+import type { Context } from "hono";
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { ExportTasksUseCase } from "../../application/usecases/transfer/ExportTasksUseCase";
+import type { ImportTasksUseCase } from "../../application/usecases/transfer/ImportTasksUseCase";
+import type { Task } from "../../domain/models/Task";
+import { DuplicateTaskIdError, InvalidDateRangeError, InvalidImportFileError } from "../../domain/models/errors";
+import {
+  type ExportQueryInput,
+  type ImportQueryInput,
+  type TransferFormat,
+  exportQuerySchema,
+  importDocumentSchema,
+  importQuerySchema,
+} from "../../domain/models/schema/TransferSchema";
+import {
+  formatTasksAsCsv,
+  formatTasksAsJson,
+  formatTasksAsMarkdown,
+  parseTasksCsv,
+  parseTasksMarkdown,
+} from "../utils/TaskTransferFormats";
+import { handleValidationError, validateQuery } from "../utils/ValidationUtils";
+
+const logger = new Logger({ name: "ImportExportController" });
+
+const contentTypes: Record<TransferFormat, string> = {
+  json: "application/json; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  markdown: "text/markdown; charset=utf-8",
+};
+
+const fileExtensions: Record<TransferFormat, string> = {
+  json: "json",
+  csv: "csv",
+  markdown: "md",
+};
+
+@injectable()
+@singleton()
+export class ImportExportController {
+  constructor(
+    @inject("ExportTasksUseCase") private exportTasksUseCase: ExportTasksUseCase,
+    @inject("ImportTasksUseCase") private importTasksUseCase: ImportTasksUseCase,
+  ) {}
+
+  exportTasks = async (c: Context) => {
+    try {
+      // Validate query parameters
+      const validationResult = validateQuery<ExportQueryInput>(c, exportQuerySchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { format } = validationResult.data;
+      const tasks = await this.exportTasksUseCase.execute();
+
+      return c.body(this.formatTasks(tasks, format), 200, {
+        "Content-Type": contentTypes[format],
+        "Content-Disposition": `attachment; filename="tasks.${fileExtensions[format]}"`,
+      });
+    } catch (error) {
+      logger.error("Failed to export tasks:", error);
+      return c.json({ error: "Failed to export tasks" }, 500);
+    }
+  };
+
+  importTasks = async (c: Context) => {
+    try {
+      // Validate query parameters
+      const validationResult = validateQuery<ImportQueryInput>(c, importQuerySchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { format, ids } = validationResult.data;
+
+      try {
+        const document = importDocumentSchema.safeParse(this.parseFile(await c.req.text(), format));
+        if (!document.success) {
+          return handleValidationError(c, document.error);
+        }
+
+        const result = await this.importTasksUseCase.execute(document.data.tasks, ids);
+        return c.json(result, 201);
+      } catch (error) {
+        if (error instanceof InvalidImportFileError || error instanceof InvalidDateRangeError) {
+          return c.json({ error: error.message }, 400);
+        }
+        if (error instanceof DuplicateTaskIdError) {
+          return c.json({ error: error.message }, 409);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to import tasks:", error);
+      return c.json({ error: "Failed to import tasks" }, 500);
+    }
+  };
+
+  private formatTasks(tasks: readonly Task[], format: TransferFormat): string {
+    switch (format) {
+      case "csv":
+        return formatTasksAsCsv(tasks);
+      case "markdown":
+        return formatTasksAsMarkdown(tasks);
+      default:
+        return formatTasksAsJson(tasks);
+    }
+  }
+
+  private parseFile(text: string, format: TransferFormat): unknown {
+    switch (format) {
+      case "csv":
+        return parseTasksCsv(text);
+      case "markdown":
+        return parseTasksMarkdown(text);
+      default:
+        try {
+          return JSON.parse(text);
+        } catch {
+          throw new InvalidImportFileError("File is not valid JSON");
+        }
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import type { Context } from "hono";
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { CreateRecurringPatternUseCase } from "../../application/usecases/recurring/CreateRecurringPatternUseCase";
+import type { DeleteRecurringPatternUseCase } from "../../application/usecases/recurring/DeleteRecurringPatternUseCase";
+import type { GetRecurringPatternByIdUseCase } from "../../application/usecases/recurring/GetRecurringPatternByIdUseCase";
+import type { GetRecurringPatternsUseCase } from "../../application/usecases/recurring/GetRecurringPatternsUseCase";
+import type { UpdateRecurringPatternUseCase } from "../../application/usecases/recurring/UpdateRecurringPatternUseCase";
+import { RecurringPattern } from "../../domain/models/RecurringPattern";
+import { ParentTaskNotFoundError } from "../../domain/models/errors";
+import {
+  type CreateRecurringPatternInput,
+  type RecurrenceRuleInput,
+  type UpdateRecurringPatternInput,
+  createRecurringPatternSchema,
+  updateRecurringPatternSchema,
+} from "../../domain/models/schema/RecurringPatternSchema";
+import { idSchema } from "../../domain/models/schema/TaskSchema";
+import { validateRequest } from "../utils/ValidationUtils";
+
+const logger = new Logger({ name: "RecurringPatternController" });
+
+@injectable()
+@singleton()
+export class RecurringPatternController {
+  constructor(
+    @inject("GetRecurringPatternsUseCase")
+    private getRecurringPatternsUseCase: GetRecurringPatternsUseCase,
+    @inject("GetRecurringPatternByIdUseCase")
+    private getRecurringPatternByIdUseCase: GetRecurringPatternByIdUseCase,
+    @inject("CreateRecurringPatternUseCase")
+    private createRecurringPatternUseCase: CreateRecurringPatternUseCase,
+    @inject("UpdateRecurringPatternUseCase")
+    private updateRecurringPatternUseCase: UpdateRecurringPatternUseCase,
+    @inject("DeleteRecurringPatternUseCase")
+    private deleteRecurringPatternUseCase: DeleteRecurringPatternUseCase,
+  ) {}
+
+  getRecurringPatterns = async (c: Context) => {
+    try {
+      const patterns = await this.getRecurringPatternsUseCase.execute();
+      return c.json(patterns);
+    } catch (error) {
+      logger.error("Failed to get recurring patterns:", error);
+      return c.json({ error: "Failed to get recurring pattern list" }, 500);
+    }
+  };
+
+  getRecurringPatternById = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid recurring pattern ID" }, 400);
+      }
+
+      const pattern = await this.getRecurringPatternByIdUseCase.execute(id);
+
+      if (!pattern) {
+        return c.json({ error: "Recurring pattern not found" }, 404);
+      }
+
+      return c.json(pattern);
+    } catch (error) {
+      logger.error("Failed to get recurring pattern:", error);
+      return c.json({ error: "Failed to get recurring pattern" }, 500);
+    }
+  };
+
+  create = async (c: Context) => {
+    try {
+      // Validate request body
+      const validationResult = await validateRequest<CreateRecurringPatternInput>(c, createRecurringPatternSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { title, description, priority, pattern, parentId, startDate } = validationResult.data;
+
+      const rule = this.toRecurringPattern(pattern);
+      if (rule instanceof Error) {
+        return c.json({ error: rule.message }, 400);
+      }
+
+      try {
+        const todoPattern = await this.createRecurringPatternUseCase.execute({
+          title,
+          description: description === undefined ? null : description,
+          priority: priority === undefined ? "medium" : priority,
+          pattern: rule,
+          parentId: parentId === undefined ? null : parentId,
+          ...(startDate && { startDate }),
+        });
+
+        return c.json(todoPattern, 201);
+      } catch (error) {
+        if (error instanceof ParentTaskNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to create recurring pattern:", error);
+      return c.json({ error: "Failed to create recurring pattern" }, 500);
+    }
+  };
+
+  update = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid recurring pattern ID" }, 400);
+      }
+
+      // Validate request body
+      const validationResult = await validateRequest<UpdateRecurringPatternInput>(c, updateRecurringPatternSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { title, description, priority, pattern, applyToFutureInstances } = validationResult.data;
+
+      const rule = pattern === undefined ? undefined : this.toRecurringPattern(pattern);
+      if (rule instanceof Error) {
+        return c.json({ error: rule.message }, 400);
+      }
+
+      const todoPattern = await this.updateRecurringPatternUseCase.execute({
+        id,
+        ...(title !== undefined && { title }),
+        ...(description !== undefined && { description }),
+        ...(priority !== undefined && { priority }),
+        ...(rule !== undefined && { pattern: rule }),
+        applyToFutureInstances,
+      });
+
+      if (!todoPattern) {
+        return c.json({ error: "Recurring pattern not found" }, 404);
+      }
+
+      return c.json(todoPattern);
+    } catch (error) {
+      logger.error("Failed to update recurring pattern:", error);
+      return c.json({ error: "Failed to update recurring pattern" }, 500);
+    }
+  };
+
+  delete = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid recurring pattern ID" }, 400);
+      }
+
+      const success = await this.deleteRecurringPatternUseCase.execute(id);
+
+      if (!success) {
+        return c.json({ error: "Recurring pattern not found" }, 404);
+      }
+
+      return c.json({ success: true });
+    } catch (error) {
+      logger.error("Failed to delete recurring pattern:", error);
+      return c.json({ error: "Failed to delete recurring pattern" }, 500);
+    }
+  };
+
+  // Build the domain recurrence rule, returning the validation error instead of throwing it
+  private toRecurringPattern(input: RecurrenceRuleInput): RecurringPattern | Error {
+    try {
+      return RecurringPattern.create(
+        input.type,
+        input.interval,
+        input.daysOfWeek ?? null,
+        input.dayOfMonth ?? null,
+        input.endDate ?? null,
+        input.occurrences ?? null,
+      );
+    } catch (error) {
+      return error instanceof Error ? error : new Error(String(error));
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import type { Context } from "hono";
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { CreateReminderUseCase } from "../../application/usecases/reminder/CreateReminderUseCase";
+import type { DeleteReminderUseCase } from "../../application/usecases/reminder/DeleteReminderUseCase";
+import type { DismissReminderUseCase } from "../../application/usecases/reminder/DismissReminderUseCase";
+import type { GetRemindersUseCase } from "../../application/usecases/reminder/GetRemindersUseCase";
+import type { SnoozeReminderUseCase } from "../../application/usecases/reminder/SnoozeReminderUseCase";
+import type { UpdateReminderUseCase } from "../../application/usecases/reminder/UpdateReminderUseCase";
+import { ReminderNotFoundError, TaskNotFoundError } from "../../domain/models/errors";
+import {
+  type ReminderTimingInput,
+  type SnoozeReminderInput,
+  reminderTimingSchema,
+  snoozeReminderSchema,
+} from "../../domain/models/schema/ReminderSchema";
+import { idSchema } from "../../domain/models/schema/TaskSchema";
+import { validateRequest } from "../utils/ValidationUtils";
+
+const logger = new Logger({ name: "ReminderController" });
+
+@injectable()
+@singleton()
+export class ReminderController {
+  constructor(
+    @inject("GetRemindersUseCase") private getRemindersUseCase: GetRemindersUseCase,
+    @inject("CreateReminderUseCase") private createReminderUseCase: CreateReminderUseCase,
+    @inject("UpdateReminderUseCase") private updateReminderUseCase: UpdateReminderUseCase,
+    @inject("DeleteReminderUseCase") private deleteReminderUseCase: DeleteReminderUseCase,
+    @inject("SnoozeReminderUseCase") private snoozeReminderUseCase: SnoozeReminderUseCase,
+    @inject("DismissReminderUseCase") private dismissReminderUseCase: DismissReminderUseCase,
+  ) {}
+
+  getReminders = async (c: Context) => {
+    try {
+      const taskId = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(taskId).success) {
+        return c.json({ error: "Invalid task ID" }, 400);
+      }
+
+      try {
+        const reminders = await this.getRemindersUseCase.execute(taskId);
+        return c.json(reminders);
+      } catch (error) {
+        if (error instanceof TaskNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to get reminders:", error);
+      return c.json({ error: "Failed to get reminders" }, 500);
+    }
+  };
+
+  create = async (c: Context) => {
+    try {
+      const taskId = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(taskId).success) {
+        return c.json({ error: "Invalid task ID" }, 400);
+      }
+
+      // Validate request body
+      const validationResult = await validateRequest<ReminderTimingInput>(c, reminderTimingSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { remindAt, minutesBeforeDue } = validationResult.data;
+
+      try {
+        const reminder = await this.createReminderUseCase.execute({
+          taskId,
+          ...(remindAt !== undefined && { remindAt }),
+          ...(minutesBeforeDue !== undefined && { minutesBeforeDue }),
+        });
+        return c.json(reminder, 201);
+      } catch (error) {
+        if (error instanceof TaskNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to create reminder:", error);
+      return c.json({ error: "Failed to create reminder" }, 500);
+    }
+  };
+
+  update = async (c: Context) => {
+    try {
+      const taskId = c.req.param("id");
+      const id = c.req.param("reminderId");
+
+      // Validate IDs
+      if (!idSchema.safeParse(taskId).success || !idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid task or reminder ID" }, 400);
+      }
+
+      // Validate request body
+      const validationResult = await validateRequest<ReminderTimingInput>(c, reminderTimingSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { remindAt, minutesBeforeDue } = validationResult.data;
+
+      try {
+        const reminder = await this.updateReminderUseCase.execute({
+          taskId,
+          id,
+          ...(remindAt !== undefined && { remindAt }),
+          ...(minutesBeforeDue !== undefined && { minutesBeforeDue }),
+        });
+        return c.json(reminder);
+      } catch (error) {
+        if (error instanceof TaskNotFoundError || error instanceof ReminderNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to update reminder:", error);
+      return c.json({ error: "Failed to update reminder" }, 500);
+    }
+  };
+
+  delete = async (c: Context) => {
+    try {
+      const taskId = c.req.param("id");
+      const id = c.req.param("reminderId");
+
+      // Validate IDs
+      if (!idSchema.safeParse(taskId).success || !idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid task or reminder ID" }, 400);
+      }
+
+      try {
+        await this.deleteReminderUseCase.execute({ taskId, id });
+        return c.json({ success: true });
+      } catch (error) {
+        if (error instanceof ReminderNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to delete reminder:", error);
+      return c.json({ error: "Failed to delete reminder" }, 500);
+    }
+  };
+
+  snooze = async (c: Context) => {
+    try {
+      const taskId = c.req.param("id");
+      const id = c.req.param("reminderId");
+
+      // Validate IDs
+      if (!idSchema.safeParse(taskId).success || !idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid task or reminder ID" }, 400);
+      }
+
+      // Validate request body
+      const validationResult = await validateRequest<SnoozeReminderInput>(c, snoozeReminderSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      try {
+        const reminder = await this.snoozeReminderUseCase.execute({
+          taskId,
+          id,
+          minutes: validationResult.data.minutes,
+        });
+        return c.json(reminder);
+      } catch (error) {
+        if (error instanceof TaskNotFoundError || error instanceof ReminderNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to snooze reminder:", error);
+      return c.json({ error: "Failed to snooze reminder" }, 500);
+    }
+  };
+
+  dismiss = async (c: Context) => {
+    try {
+      const taskId = c.req.param("id");
+      const id = c.req.param("reminderId");
+
+      // Validate IDs
+      if (!idSchema.safeParse(taskId).success || !idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid task or reminder ID" }, 400);
+      }
+
+      try {
+        const reminder = await this.dismissReminderUseCase.execute({ taskId, id });
+        return c.json(reminder);
+      } catch (error) {
+        if (error instanceof TaskNotFoundError || error instanceof ReminderNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to dismiss reminder:", error);
+      return c.json({ error: "Failed to dismiss reminder" }, 500);
+    }
+  };
+}
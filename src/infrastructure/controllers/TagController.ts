@@ -0,0 +1,210 @@
+import type { Context } from "hono";
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { AddTagToTaskUseCase } from "../../application/usecases/tag/AddTagToTaskUseCase";
+import type { CreateTagUseCase } from "../../application/usecases/tag/CreateTagUseCase";
+import type { DeleteTagUseCase } from "../../application/usecases/tag/DeleteTagUseCase";
+import type { GetTagByIdUseCase } from "../../application/usecases/tag/GetTagByIdUseCase";
+import type { GetTagsUseCase } from "../../application/usecases/tag/GetTagsUseCase";
+import type { RemoveTagFromTaskUseCase } from "../../application/usecases/tag/RemoveTagFromTaskUseCase";
+import type { UpdateTagUseCase } from "../../application/usecases/tag/UpdateTagUseCase";
+import { DuplicateTagNameError, TagNotFoundError, TaskNotFoundError } from "../../domain/models/errors";
+import {
+  type CreateTagInput,
+  type UpdateTagInput,
+  createTagSchema,
+  updateTagSchema,
+} from "../../domain/models/schema/TagSchema";
+import { idSchema } from "../../domain/models/schema/TaskSchema";
+import { validateRequest } from "../utils/ValidationUtils";
+
+const logger = new Logger({ name: "TagController" });
+
+@injectable()
+@singleton()
+export class TagController {
+  constructor(
+    @inject("GetTagsUseCase") private getTagsUseCase: GetTagsUseCase,
+    @inject("GetTagByIdUseCase") private getTagByIdUseCase: GetTagByIdUseCase,
+    @inject("CreateTagUseCase") private createTagUseCase: CreateTagUseCase,
+    @inject("UpdateTagUseCase") private updateTagUseCase: UpdateTagUseCase,
+    @inject("DeleteTagUseCase") private deleteTagUseCase: DeleteTagUseCase,
+    @inject("AddTagToTaskUseCase") private addTagToTaskUseCase: AddTagToTaskUseCase,
+    @inject("RemoveTagFromTaskUseCase")
+    private removeTagFromTaskUseCase: RemoveTagFromTaskUseCase,
+  ) {}
+
+  getTags = async (c: Context) => {
+    try {
+      const tags = await this.getTagsUseCase.execute();
+      return c.json(tags);
+    } catch (error) {
+      logger.error("Failed to get tags:", error);
+      return c.json({ error: "Failed to get tag list" }, 500);
+    }
+  };
+
+  getTagById = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid tag ID" }, 400);
+      }
+
+      const tag = await this.getTagByIdUseCase.execute(id);
+
+      if (!tag) {
+        return c.json({ error: "Tag not found" }, 404);
+      }
+
+      return c.json(tag);
+    } catch (error) {
+      logger.error("Failed to get tag:", error);
+      return c.json({ error: "Failed to get tag" }, 500);
+    }
+  };
+
+  create = async (c: Context) => {
+    try {
+      // Validate request body
+      const validationResult = await validateRequest<CreateTagInput>(c, createTagSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { name, color } = validationResult.data;
+
+      try {
+        const tag = await this.createTagUseCase.execute({
+          name,
+          color: color === undefined ? null : color,
+        });
+
+        return c.json(tag, 201);
+      } catch (error) {
+        if (error instanceof DuplicateTagNameError) {
+          return c.json({ error: error.message }, 409);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to create tag:", error);
+      return c.json({ error: "Failed to create tag" }, 500);
+    }
+  };
+
+  update = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid tag ID" }, 400);
+      }
+
+      // Validate request body
+      const validationResult = await validateRequest<UpdateTagInput>(c, updateTagSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { name, color } = validationResult.data;
+
+      try {
+        const tag = await this.updateTagUseCase.execute({
+          id,
+          ...(name !== undefined && { name }),
+          ...(color !== undefined && { color }),
+        });
+
+        if (!tag) {
+          return c.json({ error: "Tag not found" }, 404);
+        }
+
+        return c.json(tag);
+      } catch (error) {
+        if (error instanceof DuplicateTagNameError) {
+          return c.json({ error: error.message }, 409);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to update tag:", error);
+      return c.json({ error: "Failed to update tag" }, 500);
+    }
+  };
+
+  delete = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid tag ID" }, 400);
+      }
+
+      const success = await this.deleteTagUseCase.execute(id);
+
+      if (!success) {
+        return c.json({ error: "Tag not found" }, 404);
+      }
+
+      return c.json({ success: true });
+    } catch (error) {
+      logger.error("Failed to delete tag:", error);
+      return c.json({ error: "Failed to delete tag" }, 500);
+    }
+  };
+
+  addToTask = async (c: Context) => {
+    try {
+      const taskId = c.req.param("id");
+      const tagId = c.req.param("tagId");
+
+      // Validate IDs
+      if (!idSchema.safeParse(taskId).success || !idSchema.safeParse(tagId).success) {
+        return c.json({ error: "Invalid task or tag ID" }, 400);
+      }
+
+      try {
+        const task = await this.addTagToTaskUseCase.execute({ taskId, tagId });
+        return c.json(task);
+      } catch (error) {
+        if (error instanceof TaskNotFoundError || error instanceof TagNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to add tag to task:", error);
+      return c.json({ error: "Failed to add tag to task" }, 500);
+    }
+  };
+
+  removeFromTask = async (c: Context) => {
+    try {
+      const taskId = c.req.param("id");
+      const tagId = c.req.param("tagId");
+
+      // Validate IDs
+      if (!idSchema.safeParse(taskId).success || !idSchema.safeParse(tagId).success) {
+        return c.json({ error: "Invalid task or tag ID" }, 400);
+      }
+
+      try {
+        const task = await this.removeTagFromTaskUseCase.execute({ taskId, tagId });
+        return c.json(task);
+      } catch (error) {
+        if (error instanceof TaskNotFoundError || error instanceof TagNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to remove tag from task:", error);
+      return c.json({ error: "Failed to remove tag from task" }, 500);
+    }
+  };
+}
@@ -2,33 +2,84 @@ import type { Context } from "hono";
 import { Logger } from "tslog";
 import { inject, injectable, singleton } from "tsyringe";
 import { z } from "zod";
+import type {
+  BulkOperation,
+  BulkTaskOperationsUseCase,
+} from "../../application/usecases/task/BulkTaskOperationsUseCase";
 import type { CreateTaskUseCase } from "../../application/usecases/task/CreateTaskUseCase";
 import type { DeleteTaskUseCase } from "../../application/usecases/task/DeleteTaskUseCase";
+import type { DuplicateTaskUseCase } from "../../application/usecases/task/DuplicateTaskUseCase";
+import type { GetDueTasksUseCase } from "../../application/usecases/task/GetDueTasksUseCase";
+import type { GetOverdueTasksUseCase } from "../../application/usecases/task/GetOverdueTasksUseCase";
 import type { GetRootTasksUseCase } from "../../application/usecases/task/GetRootTasksUseCase";
+import type { GetStatusPropagationUseCase } from "../../application/usecases/task/GetStatusPropagationUseCase";
+import type { GetTaskAncestorsUseCase } from "../../application/usecases/task/GetTaskAncestorsUseCase";
 import type { GetTaskByIdUseCase } from "../../application/usecases/task/GetTaskByIdUseCase";
+import type { GetWorkflowUseCase } from "../../application/usecases/task/GetWorkflowUseCase";
 import type { MoveTaskUseCase } from "../../application/usecases/task/MoveTaskUseCase";
+import type { PositionTaskUseCase } from "../../application/usecases/task/PositionTaskUseCase";
 import type { ReorderTasksUseCase } from "../../application/usecases/task/ReorderTasksUseCase";
+import type { SearchTasksUseCase } from "../../application/usecases/task/SearchTasksUseCase";
+import type { UpdateStatusPropagationUseCase } from "../../application/usecases/task/UpdateStatusPropagationUseCase";
 import type { UpdateTaskUseCase } from "../../application/usecases/task/UpdateTaskUseCase";
-import type { TaskStatus } from "../../domain/models/Task";
+import type { UpdateWorkflowUseCase } from "../../application/usecases/task/UpdateWorkflowUseCase";
+import type { TaskPriority } from "../../domain/models/Task";
+import type { TaskStatus } from "../../domain/models/Workflow";
 import {
   CircularReferenceError,
+  InvalidDateRangeError,
+  InvalidOrderError,
+  InvalidStatusTransitionError,
+  InvalidWorkflowError,
+  OpenBlockersError,
   ParentTaskNotFoundError,
   SelfReferenceError,
   TaskNotFoundError,
+  TaskVersionMismatchError,
 } from "../../domain/models/errors";
+import {
+  type BulkOperationInput,
+  type BulkRequestInput,
+  bulkRequestSchema,
+} from "../../domain/models/schema/BulkSchema";
+import { encodeCursor } from "../../domain/models/schema/CursorSchema";
 import {
   type CreateTaskInput,
+  type DueTasksQueryInput,
+  type DuplicateTaskInput,
   type MoveTaskInput,
   type PaginationInput,
+  type PositionTaskInput,
   type ReorderTasksInput,
+  type SearchTasksQueryInput,
+  type TaskDepthInput,
+  type TaskDetailQueryInput,
+  type TaskFilterInput,
+  type UpdateStatusPropagationInput,
   type UpdateTaskInput,
   createTaskSchema,
+  dueTasksQuerySchema,
+  duplicateTaskSchema,
   idSchema,
   moveTaskSchema,
   paginationSchema,
+  positionTaskSchema,
   reorderTasksSchema,
+  searchTasksQuerySchema,
+  taskDepthSchema,
+  taskDetailQuerySchema,
+  taskFilterSchema,
+  updateStatusPropagationSchema,
   updateTaskSchema,
 } from "../../domain/models/schema/TaskSchema";
+import { type UpdateWorkflowInput, updateWorkflowSchema } from "../../domain/models/schema/WorkflowSchema";
+import {
+  type IfMatch,
+  expectedVersion,
+  formatETag,
+  readIfMatch,
+  requireIfMatch,
+} from "../utils/ConditionalRequestUtils";
 import { validateQuery, validateRequest } from "../utils/ValidationUtils";
 
 const logger = new Logger({ name: "TaskController" });
@@ -41,31 +92,172 @@ export class TaskController {
     private getRootTasksUseCase: GetRootTasksUseCase,
     @inject("GetTaskByIdUseCase")
     private getTaskByIdUseCase: GetTaskByIdUseCase,
+    @inject("GetTaskAncestorsUseCase")
+    private getTaskAncestorsUseCase: GetTaskAncestorsUseCase,
     @inject("CreateTaskUseCase") private createTaskUseCase: CreateTaskUseCase,
     @inject("UpdateTaskUseCase") private updateTaskUseCase: UpdateTaskUseCase,
     @inject("DeleteTaskUseCase") private deleteTaskUseCase: DeleteTaskUseCase,
     @inject("MoveTaskUseCase") private moveTaskUseCase: MoveTaskUseCase,
+    @inject("PositionTaskUseCase") private positionTaskUseCase: PositionTaskUseCase,
     @inject("ReorderTasksUseCase")
     private reorderTasksUseCase: ReorderTasksUseCase,
+    @inject("GetOverdueTasksUseCase")
+    private getOverdueTasksUseCase: GetOverdueTasksUseCase,
+    @inject("GetDueTasksUseCase") private getDueTasksUseCase: GetDueTasksUseCase,
+    @inject("SearchTasksUseCase") private searchTasksUseCase: SearchTasksUseCase,
+    @inject("BulkTaskOperationsUseCase")
+    private bulkTaskOperationsUseCase: BulkTaskOperationsUseCase,
+    @inject("DuplicateTaskUseCase")
+    private duplicateTaskUseCase: DuplicateTaskUseCase,
+    @inject("GetStatusPropagationUseCase")
+    private getStatusPropagationUseCase: GetStatusPropagationUseCase,
+    @inject("UpdateStatusPropagationUseCase")
+    private updateStatusPropagationUseCase: UpdateStatusPropagationUseCase,
+    @inject("GetWorkflowUseCase") private getWorkflowUseCase: GetWorkflowUseCase,
+    @inject("UpdateWorkflowUseCase") private updateWorkflowUseCase: UpdateWorkflowUseCase,
   ) {}
 
   getRootTasks = async (c: Context) => {
     try {
       // Validate query parameters
-      const validationResult = validateQuery<PaginationInput>(c, paginationSchema);
+      const validationResult = validateQuery<PaginationInput & TaskFilterInput & TaskDepthInput>(
+        c,
+        paginationSchema.merge(taskFilterSchema).merge(taskDepthSchema),
+      );
       if (!("success" in validationResult)) {
         return validationResult;
       }
 
-      const { page, limit } = validationResult.data;
-      const tasks = await this.getRootTasksUseCase.execute({ page, limit });
-      return c.json(tasks);
+      const {
+        cursor,
+        limit,
+        priority,
+        tags,
+        tagMode,
+        status,
+        createdFrom,
+        createdTo,
+        updatedFrom,
+        updatedTo,
+        parentId,
+        sort,
+        depth,
+      } = validationResult.data;
+
+      try {
+        const page = await this.getRootTasksUseCase.execute(
+          { ...(cursor && { after: cursor }), limit },
+          {
+            ...(priority !== undefined && { priorities: priority }),
+            ...(tags !== undefined && { tagIds: tags, tagMatch: tagMode }),
+            ...(status !== undefined && { statuses: status }),
+            ...(createdFrom && { createdFrom }),
+            ...(createdTo && { createdTo }),
+            ...(updatedFrom && { updatedFrom }),
+            ...(updatedTo && { updatedTo }),
+            ...(parentId !== undefined && { parentId }),
+            sort,
+          },
+          depth,
+        );
+        return c.json({
+          items: page.items,
+          nextCursor: page.nextCursor === null ? null : encodeCursor(page.nextCursor),
+          totalCount: page.totalCount,
+        });
+      } catch (error) {
+        if (error instanceof TaskNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
     } catch (error) {
       logger.error("Failed to get root tasks:", error);
       return c.json({ error: "Failed to get task list" }, 500);
     }
   };
 
+  getWorkflow = async (c: Context) => {
+    try {
+      const workflow = await this.getWorkflowUseCase.execute();
+      return c.json(workflow);
+    } catch (error) {
+      logger.error("Failed to get workflow:", error);
+      return c.json({ error: "Failed to get workflow" }, 500);
+    }
+  };
+
+  updateWorkflow = async (c: Context) => {
+    try {
+      // Validate request body
+      const validationResult = await validateRequest<UpdateWorkflowInput>(c, updateWorkflowSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      try {
+        const workflow = await this.updateWorkflowUseCase.execute(validationResult.data);
+        return c.json(workflow);
+      } catch (error) {
+        if (error instanceof InvalidWorkflowError) {
+          return c.json({ error: error.message }, 400);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to update workflow:", error);
+      return c.json({ error: "Failed to update workflow" }, 500);
+    }
+  };
+
+  getOverdueTasks = async (c: Context) => {
+    try {
+      const tasks = await this.getOverdueTasksUseCase.execute();
+      return c.json(tasks);
+    } catch (error) {
+      logger.error("Failed to get overdue tasks:", error);
+      return c.json({ error: "Failed to get overdue tasks" }, 500);
+    }
+  };
+
+  getDueTasks = async (c: Context) => {
+    try {
+      // Validate query parameters
+      const validationResult = validateQuery<DueTasksQueryInput>(c, dueTasksQuerySchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { from, to, includeCompleted } = validationResult.data;
+      const tasks = await this.getDueTasksUseCase.execute({
+        ...(from && { from }),
+        ...(to && { to }),
+        includeCompleted,
+      });
+      return c.json(tasks);
+    } catch (error) {
+      logger.error("Failed to get due tasks:", error);
+      return c.json({ error: "Failed to get due tasks" }, 500);
+    }
+  };
+
+  searchTasks = async (c: Context) => {
+    try {
+      // Validate query parameters
+      const validationResult = validateQuery<SearchTasksQueryInput>(c, searchTasksQuerySchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { q, limit } = validationResult.data;
+      const results = await this.searchTasksUseCase.execute({ text: q, limit });
+      return c.json(results);
+    } catch (error) {
+      logger.error("Failed to search tasks:", error);
+      return c.json({ error: "Failed to search tasks" }, 500);
+    }
+  };
+
   getTaskById = async (c: Context) => {
     try {
       const id = c.req.param("id");
@@ -77,12 +269,20 @@ export class TaskController {
         return c.json({ error: "Invalid task ID" }, 400);
       }
 
-      const task = await this.getTaskByIdUseCase.execute(id);
+      // Validate query parameters
+      const validationResult = validateQuery<TaskDetailQueryInput>(c, taskDetailQuerySchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { depth, includePath } = validationResult.data;
+      const task = await this.getTaskByIdUseCase.execute(id, depth, includePath);
 
       if (!task) {
         return c.json({ error: "Task not found" }, 404);
       }
 
+      c.header("ETag", formatETag(task));
       return c.json(task);
     } catch (error) {
       logger.error("Failed to get task:", error);
@@ -90,6 +290,84 @@ export class TaskController {
     }
   };
 
+  getAncestors = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid task ID" }, 400);
+      }
+
+      try {
+        const ancestors = await this.getTaskAncestorsUseCase.execute(id);
+        return c.json(ancestors);
+      } catch (error) {
+        if (error instanceof TaskNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to get task ancestors:", error);
+      return c.json({ error: "Failed to get task ancestors" }, 500);
+    }
+  };
+
+  getStatusPropagation = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid task ID" }, 400);
+      }
+
+      try {
+        const setting = await this.getStatusPropagationUseCase.execute(id);
+        return c.json(setting);
+      } catch (error) {
+        if (error instanceof TaskNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to get status propagation:", error);
+      return c.json({ error: "Failed to get status propagation" }, 500);
+    }
+  };
+
+  updateStatusPropagation = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid task ID" }, 400);
+      }
+
+      // Validate request body
+      const validationResult = await validateRequest<UpdateStatusPropagationInput>(c, updateStatusPropagationSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      try {
+        const setting = await this.updateStatusPropagationUseCase.execute(id, validationResult.data.policy);
+        return c.json(setting);
+      } catch (error) {
+        if (error instanceof TaskNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to update status propagation:", error);
+      return c.json({ error: "Failed to update status propagation" }, 500);
+    }
+  };
+
   create = async (c: Context) => {
     try {
       // Validate request body
@@ -98,13 +376,16 @@ export class TaskController {
         return validationResult;
       }
 
-      const { title, description, parentId } = validationResult.data;
+      const { title, description, parentId, priority, dueDate, startDate } = validationResult.data;
 
       try {
         const task = await this.createTaskUseCase.execute({
           title,
           description: description === undefined ? null : description,
           parentId: parentId === undefined ? null : parentId,
+          priority: priority === undefined ? "medium" : priority,
+          dueDate: dueDate === undefined ? null : dueDate,
+          startDate: startDate === undefined ? null : startDate,
         });
 
         return c.json(task, 201);
@@ -113,6 +394,9 @@ export class TaskController {
         if (error instanceof ParentTaskNotFoundError) {
           return c.json({ error: error.message }, 404);
         }
+        if (error instanceof InvalidDateRangeError) {
+          return c.json({ error: error.message }, 400);
+        }
         // Re-throw for general error handling
         throw error;
       }
@@ -138,7 +422,13 @@ export class TaskController {
         return validationResult;
       }
 
-      const { title, description, status } = validationResult.data;
+      const ifMatchResult = requireIfMatch(c);
+      if (!("success" in ifMatchResult)) {
+        return ifMatchResult;
+      }
+
+      const { title, description, status, priority, dueDate, startDate, force } = validationResult.data;
+      const version = expectedVersion(ifMatchResult.data, id);
 
       // Create update object removing undefined properties
       const updateData: {
@@ -146,7 +436,12 @@ export class TaskController {
         title?: string;
         description?: string | null;
         status?: TaskStatus;
-      } = { id };
+        priority?: TaskPriority;
+        dueDate?: Date | null;
+        startDate?: Date | null;
+        force?: boolean;
+        expectedVersion?: number;
+      } = { id, ...(version !== undefined && { expectedVersion: version }) };
 
       if (title !== undefined) {
         updateData.title = title;
@@ -160,13 +455,43 @@ export class TaskController {
         updateData.status = status;
       }
 
-      const task = await this.updateTaskUseCase.execute(updateData);
+      if (priority !== undefined) {
+        updateData.priority = priority;
+      }
 
-      if (!task) {
-        return c.json({ error: "Task not found" }, 404);
+      if (dueDate !== undefined) {
+        updateData.dueDate = dueDate;
       }
 
-      return c.json(task);
+      if (startDate !== undefined) {
+        updateData.startDate = startDate;
+      }
+
+      if (force !== undefined) {
+        updateData.force = force;
+      }
+
+      try {
+        const task = await this.updateTaskUseCase.execute(updateData);
+
+        if (!task) {
+          return c.json({ error: "Task not found" }, 404);
+        }
+
+        c.header("ETag", formatETag(task));
+        return c.json(task);
+      } catch (error) {
+        if (error instanceof TaskVersionMismatchError) {
+          return this.versionMismatch(c, error);
+        }
+        if (error instanceof InvalidDateRangeError) {
+          return c.json({ error: error.message }, 400);
+        }
+        if (error instanceof InvalidStatusTransitionError || error instanceof OpenBlockersError) {
+          return c.json({ error: error.message }, 409);
+        }
+        throw error;
+      }
     } catch (error) {
       logger.error("Failed to update task:", error);
       return c.json({ error: "Failed to update task" }, 500);
@@ -184,13 +509,25 @@ export class TaskController {
         return c.json({ error: "Invalid task ID" }, 400);
       }
 
-      const success = await this.deleteTaskUseCase.execute(id);
-
-      if (!success) {
-        return c.json({ error: "Task not found" }, 404);
+      const ifMatchResult = requireIfMatch(c);
+      if (!("success" in ifMatchResult)) {
+        return ifMatchResult;
       }
 
-      return c.json({ success: true });
+      try {
+        const success = await this.deleteTaskUseCase.execute(id, expectedVersion(ifMatchResult.data, id));
+
+        if (!success) {
+          return c.json({ error: "Task not found" }, 404);
+        }
+
+        return c.json({ success: true });
+      } catch (error) {
+        if (error instanceof TaskVersionMismatchError) {
+          return this.versionMismatch(c, error);
+        }
+        throw error;
+      }
     } catch (error) {
       logger.error("Failed to delete task:", error);
       return c.json({ error: "Failed to delete task" }, 500);
@@ -223,23 +560,43 @@ export class TaskController {
         return validationResult;
       }
 
-      const { taskId, newParentId } = validationResult.data;
+      const ifMatchResult = requireIfMatch(c);
+      if (!("success" in ifMatchResult)) {
+        return ifMatchResult;
+      }
+
+      const { taskId, newParentId, index, before, after } = validationResult.data;
+      const version = expectedVersion(ifMatchResult.data, taskId);
 
       try {
         const task = await this.moveTaskUseCase.execute({
           taskId,
           newParentId,
+          ...(index !== undefined && { index }),
+          ...(before !== undefined && { before }),
+          ...(after !== undefined && { after }),
+          ...(version !== undefined && { expectedVersion: version }),
         });
 
+        if (task) {
+          c.header("ETag", formatETag(task));
+        }
         return c.json(task);
       } catch (error) {
+        if (error instanceof TaskVersionMismatchError) {
+          return this.versionMismatch(c, error);
+        }
         if (error instanceof TaskNotFoundError) {
           return c.json({ error: error.message }, 404);
         }
         if (error instanceof ParentTaskNotFoundError) {
           return c.json({ error: error.message }, 404);
         }
-        if (error instanceof CircularReferenceError || error instanceof SelfReferenceError) {
+        if (
+          error instanceof CircularReferenceError ||
+          error instanceof SelfReferenceError ||
+          error instanceof InvalidOrderError
+        ) {
           return c.json({ error: error.message }, 400);
         }
         throw error;
@@ -250,6 +607,100 @@ export class TaskController {
     }
   };
 
+  position = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid task ID" }, 400);
+      }
+
+      // Validate request body
+      const validationResult = await validateRequest<PositionTaskInput>(c, positionTaskSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const ifMatchResult = requireIfMatch(c);
+      if (!("success" in ifMatchResult)) {
+        return ifMatchResult;
+      }
+
+      const { before, after, parentId } = validationResult.data;
+      const version = expectedVersion(ifMatchResult.data, id);
+
+      try {
+        const task = await this.positionTaskUseCase.execute({
+          taskId: id,
+          ...(before !== undefined && { before }),
+          ...(after !== undefined && { after }),
+          ...(parentId !== undefined && { parentId }),
+          ...(version !== undefined && { expectedVersion: version }),
+        });
+
+        c.header("ETag", formatETag(task));
+        return c.json(task);
+      } catch (error) {
+        if (error instanceof TaskVersionMismatchError) {
+          return this.versionMismatch(c, error);
+        }
+        if (error instanceof TaskNotFoundError || error instanceof ParentTaskNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (
+          error instanceof InvalidOrderError ||
+          error instanceof CircularReferenceError ||
+          error instanceof SelfReferenceError
+        ) {
+          return c.json({ error: error.message }, 400);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to position task:", error);
+      return c.json({ error: "Failed to position task" }, 500);
+    }
+  };
+
+  duplicate = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid task ID" }, 400);
+      }
+
+      // Validate request body
+      const validationResult = await validateRequest<DuplicateTaskInput>(c, duplicateTaskSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { parentId, resetStatus, titleSuffix } = validationResult.data;
+
+      try {
+        const task = await this.duplicateTaskUseCase.execute({
+          id,
+          ...(parentId !== undefined && { parentId }),
+          resetStatus,
+          titleSuffix,
+        });
+
+        return c.json(task, 201);
+      } catch (error) {
+        if (error instanceof TaskNotFoundError || error instanceof ParentTaskNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to duplicate task:", error);
+      return c.json({ error: "Failed to duplicate task" }, 500);
+    }
+  };
+
   reorder = async (c: Context) => {
     try {
       const parentId = c.req.param("parentId") || null;
@@ -266,17 +717,102 @@ export class TaskController {
         return validationResult;
       }
 
+      const ifMatchResult = requireIfMatch(c);
+      if (!("success" in ifMatchResult)) {
+        return ifMatchResult;
+      }
+
       const { orderMap } = validationResult.data;
+      const ifMatch = ifMatchResult.data;
 
-      const tasks = await this.reorderTasksUseCase.execute({
-        parentId,
-        orderMap,
-      });
+      try {
+        const tasks = await this.reorderTasksUseCase.execute({
+          parentId,
+          orderMap,
+          // Every reordered task has to be listed in the If-Match header at its current version
+          ...(ifMatch !== "any" && {
+            expectedVersions: Object.fromEntries(Object.keys(orderMap).map((id) => [id, expectedVersion(ifMatch, id)])),
+          }),
+        });
 
-      return c.json(tasks);
+        return c.json(tasks);
+      } catch (error) {
+        if (error instanceof TaskVersionMismatchError) {
+          return this.versionMismatch(c, error);
+        }
+        throw error;
+      }
     } catch (error) {
       logger.error("Failed to reorder tasks:", error);
       return c.json({ error: "Failed to reorder tasks" }, 500);
     }
   };
+
+  bulk = async (c: Context) => {
+    try {
+      // Validate request body
+      const validationResult = await validateRequest<BulkRequestInput>(c, bulkRequestSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      // If-Match is optional here; when given, it holds the versions of operations without an expectedVersion
+      const ifMatch = readIfMatch(c);
+      const { mode, operations } = validationResult.data;
+      const result = await this.bulkTaskOperationsUseCase.execute(
+        operations.map((operation) => this.toBulkOperation(operation, ifMatch)),
+        mode,
+      );
+      return c.json(result);
+    } catch (error) {
+      logger.error("Failed to run bulk operations:", error);
+      return c.json({ error: "Failed to run bulk operations" }, 500);
+    }
+  };
+
+  private versionMismatch(c: Context, error: TaskVersionMismatchError) {
+    // Send the current task along, so that the client can merge its change into it
+    c.header("ETag", formatETag(error.current));
+    return c.json({ error: error.message, currentVersion: error.current.version, current: error.current }, 412);
+  }
+
+  private toBulkOperation(operation: BulkOperationInput, ifMatch: IfMatch): BulkOperation {
+    switch (operation.type) {
+      case "create": {
+        const { title, description, parentId, priority, dueDate, startDate } = operation;
+        return {
+          type: "create",
+          title,
+          ...(description !== undefined && { description }),
+          ...(parentId !== undefined && { parentId }),
+          ...(priority !== undefined && { priority }),
+          ...(dueDate !== undefined && { dueDate }),
+          ...(startDate !== undefined && { startDate }),
+        };
+      }
+      case "update": {
+        const { id, title, description, status, priority, dueDate, startDate, force } = operation;
+        const version = operation.expectedVersion ?? expectedVersion(ifMatch, id);
+        return {
+          type: "update",
+          id,
+          ...(version !== undefined && { expectedVersion: version }),
+          ...(title !== undefined && { title }),
+          ...(description !== undefined && { description }),
+          ...(status !== undefined && { status }),
+          ...(priority !== undefined && { priority }),
+          ...(dueDate !== undefined && { dueDate }),
+          ...(startDate !== undefined && { startDate }),
+          ...(force !== undefined && { force }),
+        };
+      }
+      case "uncomplete":
+        return operation;
+      default: {
+        const { expectedVersion: given, ...rest } = operation;
+        const version = given ?? expectedVersion(ifMatch, operation.id);
+        return { ...rest, ...(version !== undefined && { expectedVersion: version }) };
+      }
+    }
+  }
 }
@@ -0,0 +1,172 @@
+import type { Context } from "hono";
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { CreateTaskTemplateUseCase } from "../../application/usecases/template/CreateTaskTemplateUseCase";
+import type { DeleteTaskTemplateUseCase } from "../../application/usecases/template/DeleteTaskTemplateUseCase";
+import type { GetTaskTemplateByIdUseCase } from "../../application/usecases/template/GetTaskTemplateByIdUseCase";
+import type { GetTaskTemplatesUseCase } from "../../application/usecases/template/GetTaskTemplatesUseCase";
+import type { InstantiateTaskTemplateUseCase } from "../../application/usecases/template/InstantiateTaskTemplateUseCase";
+import { TemplateTask } from "../../domain/models/TaskTemplate";
+import {
+  MissingTemplateVariablesError,
+  ParentTaskNotFoundError,
+  TaskNotFoundError,
+  TaskTemplateNotFoundError,
+} from "../../domain/models/errors";
+import { idSchema } from "../../domain/models/schema/TaskSchema";
+import {
+  type CreateTaskTemplateInput,
+  type InstantiateTaskTemplateInput,
+  type TemplateTaskInput,
+  createTaskTemplateSchema,
+  instantiateTaskTemplateSchema,
+} from "../../domain/models/schema/TemplateSchema";
+import { validateRequest } from "../utils/ValidationUtils";
+
+const logger = new Logger({ name: "TemplateController" });
+
+@injectable()
+@singleton()
+export class TemplateController {
+  constructor(
+    @inject("GetTaskTemplatesUseCase") private getTaskTemplatesUseCase: GetTaskTemplatesUseCase,
+    @inject("GetTaskTemplateByIdUseCase") private getTaskTemplateByIdUseCase: GetTaskTemplateByIdUseCase,
+    @inject("CreateTaskTemplateUseCase") private createTaskTemplateUseCase: CreateTaskTemplateUseCase,
+    @inject("DeleteTaskTemplateUseCase") private deleteTaskTemplateUseCase: DeleteTaskTemplateUseCase,
+    @inject("InstantiateTaskTemplateUseCase")
+    private instantiateTaskTemplateUseCase: InstantiateTaskTemplateUseCase,
+  ) {}
+
+  getTemplates = async (c: Context) => {
+    try {
+      const templates = await this.getTaskTemplatesUseCase.execute();
+      return c.json(templates);
+    } catch (error) {
+      logger.error("Failed to get task templates:", error);
+      return c.json({ error: "Failed to get task template list" }, 500);
+    }
+  };
+
+  getTemplateById = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid template ID" }, 400);
+      }
+
+      const template = await this.getTaskTemplateByIdUseCase.execute(id);
+
+      if (!template) {
+        return c.json({ error: "Task template not found" }, 404);
+      }
+
+      return c.json(template);
+    } catch (error) {
+      logger.error("Failed to get task template:", error);
+      return c.json({ error: "Failed to get task template" }, 500);
+    }
+  };
+
+  create = async (c: Context) => {
+    try {
+      // Validate request body
+      const validationResult = await validateRequest<CreateTaskTemplateInput>(c, createTaskTemplateSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { name, description, taskId, task } = validationResult.data;
+
+      try {
+        const template = await this.createTaskTemplateUseCase.execute({
+          name,
+          description: description === undefined ? null : description,
+          ...(taskId !== undefined ? { taskId } : { task: this.toTemplateTask(task as TemplateTaskInput) }),
+        });
+
+        return c.json(template, 201);
+      } catch (error) {
+        if (error instanceof TaskNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to create task template:", error);
+      return c.json({ error: "Failed to create task template" }, 500);
+    }
+  };
+
+  delete = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid template ID" }, 400);
+      }
+
+      const success = await this.deleteTaskTemplateUseCase.execute(id);
+
+      if (!success) {
+        return c.json({ error: "Task template not found" }, 404);
+      }
+
+      return c.json({ success: true });
+    } catch (error) {
+      logger.error("Failed to delete task template:", error);
+      return c.json({ error: "Failed to delete task template" }, 500);
+    }
+  };
+
+  instantiate = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid template ID" }, 400);
+      }
+
+      // Validate request body
+      const validationResult = await validateRequest<InstantiateTaskTemplateInput>(c, instantiateTaskTemplateSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { parentId, variables } = validationResult.data;
+
+      try {
+        const task = await this.instantiateTaskTemplateUseCase.execute({
+          templateId: id,
+          parentId: parentId === undefined ? null : parentId,
+          variables,
+        });
+
+        return c.json(task, 201);
+      } catch (error) {
+        if (error instanceof TaskTemplateNotFoundError || error instanceof ParentTaskNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error instanceof MissingTemplateVariablesError) {
+          return c.json({ error: error.message }, 400);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to instantiate task template:", error);
+      return c.json({ error: "Failed to instantiate task template" }, 500);
+    }
+  };
+
+  private toTemplateTask(input: TemplateTaskInput): TemplateTask {
+    return TemplateTask.create(
+      input.title,
+      input.description ?? null,
+      input.priority ?? "medium",
+      input.subtasks.map((subtask) => this.toTemplateTask(subtask)),
+    );
+  }
+}
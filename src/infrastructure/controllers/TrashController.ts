@@ -0,0 +1,68 @@
+import type { Context } from "hono";
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { GetTrashUseCase } from "../../application/usecases/trash/GetTrashUseCase";
+import type { PurgeTrashUseCase } from "../../application/usecases/trash/PurgeTrashUseCase";
+import type { RestoreTaskUseCase } from "../../application/usecases/trash/RestoreTaskUseCase";
+import { type PurgeTrashQueryInput, idSchema, purgeTrashQuerySchema } from "../../domain/models/schema/TaskSchema";
+import { validateQuery } from "../utils/ValidationUtils";
+
+const logger = new Logger({ name: "TrashController" });
+
+@injectable()
+@singleton()
+export class TrashController {
+  constructor(
+    @inject("GetTrashUseCase") private getTrashUseCase: GetTrashUseCase,
+    @inject("RestoreTaskUseCase") private restoreTaskUseCase: RestoreTaskUseCase,
+    @inject("PurgeTrashUseCase") private purgeTrashUseCase: PurgeTrashUseCase,
+  ) {}
+
+  getTrash = async (c: Context) => {
+    try {
+      const tasks = await this.getTrashUseCase.execute();
+      return c.json(tasks);
+    } catch (error) {
+      logger.error("Failed to get trash:", error);
+      return c.json({ error: "Failed to get trash" }, 500);
+    }
+  };
+
+  restore = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid task ID" }, 400);
+      }
+
+      const task = await this.restoreTaskUseCase.execute(id);
+
+      if (!task) {
+        return c.json({ error: "Task not found in trash" }, 404);
+      }
+
+      return c.json(task);
+    } catch (error) {
+      logger.error("Failed to restore task:", error);
+      return c.json({ error: "Failed to restore task" }, 500);
+    }
+  };
+
+  purge = async (c: Context) => {
+    try {
+      // Validate query parameters
+      const validationResult = validateQuery<PurgeTrashQueryInput>(c, purgeTrashQuerySchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const purgedCount = await this.purgeTrashUseCase.execute(validationResult.data.olderThanDays);
+      return c.json({ purgedCount });
+    } catch (error) {
+      logger.error("Failed to purge trash:", error);
+      return c.json({ error: "Failed to purge trash" }, 500);
+    }
+  };
+}
@@ -0,0 +1,65 @@
+import type { Context } from "hono";
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { RedoUseCase } from "../../application/usecases/history/RedoUseCase";
+import type { UndoUseCase } from "../../application/usecases/history/UndoUseCase";
+import { RevertConflictError } from "../../domain/models/errors";
+import { type RevertQueryInput, revertQuerySchema } from "../../domain/models/schema/TaskEventSchema";
+import { validateQuery } from "../utils/ValidationUtils";
+
+const logger = new Logger({ name: "UndoController" });
+
+@injectable()
+@singleton()
+export class UndoController {
+  constructor(
+    @inject("UndoUseCase") private undoUseCase: UndoUseCase,
+    @inject("RedoUseCase") private redoUseCase: RedoUseCase,
+  ) {}
+
+  undo = async (c: Context) => {
+    try {
+      // Validate query parameters
+      const validationResult = validateQuery<RevertQueryInput>(c, revertQuerySchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      try {
+        const events = await this.undoUseCase.execute(validationResult.data.steps);
+        return c.json({ events });
+      } catch (error) {
+        if (error instanceof RevertConflictError) {
+          return c.json({ error: error.message }, 409);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to undo:", error);
+      return c.json({ error: "Failed to undo" }, 500);
+    }
+  };
+
+  redo = async (c: Context) => {
+    try {
+      // Validate query parameters
+      const validationResult = validateQuery<RevertQueryInput>(c, revertQuerySchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      try {
+        const events = await this.redoUseCase.execute(validationResult.data.steps);
+        return c.json({ events });
+      } catch (error) {
+        if (error instanceof RevertConflictError) {
+          return c.json({ error: error.message }, 409);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to redo:", error);
+      return c.json({ error: "Failed to redo" }, 500);
+    }
+  };
+}
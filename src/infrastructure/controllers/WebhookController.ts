@@ -0,0 +1,183 @@
+import type { Context } from "hono";
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { CreateWebhookUseCase } from "../../application/usecases/webhook/CreateWebhookUseCase";
+import type { DeleteWebhookUseCase } from "../../application/usecases/webhook/DeleteWebhookUseCase";
+import type { GetWebhookByIdUseCase } from "../../application/usecases/webhook/GetWebhookByIdUseCase";
+import type { GetWebhookDeliveriesUseCase } from "../../application/usecases/webhook/GetWebhookDeliveriesUseCase";
+import type { GetWebhooksUseCase } from "../../application/usecases/webhook/GetWebhooksUseCase";
+import type { UpdateWebhookUseCase } from "../../application/usecases/webhook/UpdateWebhookUseCase";
+import type { Webhook } from "../../domain/models/Webhook";
+import { WebhookNotFoundError } from "../../domain/models/errors";
+import { idSchema } from "../../domain/models/schema/TaskSchema";
+import {
+  type CreateWebhookInput,
+  type UpdateWebhookInput,
+  type WebhookDeliveryQueryInput,
+  createWebhookSchema,
+  updateWebhookSchema,
+  webhookDeliveryQuerySchema,
+} from "../../domain/models/schema/WebhookSchema";
+import { validateQuery, validateRequest } from "../utils/ValidationUtils";
+
+const logger = new Logger({ name: "WebhookController" });
+
+@injectable()
+@singleton()
+export class WebhookController {
+  constructor(
+    @inject("GetWebhooksUseCase") private getWebhooksUseCase: GetWebhooksUseCase,
+    @inject("GetWebhookByIdUseCase") private getWebhookByIdUseCase: GetWebhookByIdUseCase,
+    @inject("CreateWebhookUseCase") private createWebhookUseCase: CreateWebhookUseCase,
+    @inject("UpdateWebhookUseCase") private updateWebhookUseCase: UpdateWebhookUseCase,
+    @inject("DeleteWebhookUseCase") private deleteWebhookUseCase: DeleteWebhookUseCase,
+    @inject("GetWebhookDeliveriesUseCase") private getWebhookDeliveriesUseCase: GetWebhookDeliveriesUseCase,
+  ) {}
+
+  getWebhooks = async (c: Context) => {
+    try {
+      const webhooks = await this.getWebhooksUseCase.execute();
+      return c.json(webhooks.map((webhook) => this.toResponse(webhook)));
+    } catch (error) {
+      logger.error("Failed to get webhooks:", error);
+      return c.json({ error: "Failed to get webhook list" }, 500);
+    }
+  };
+
+  getWebhookById = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid webhook ID" }, 400);
+      }
+
+      const webhook = await this.getWebhookByIdUseCase.execute(id);
+
+      if (!webhook) {
+        return c.json({ error: "Webhook not found" }, 404);
+      }
+
+      return c.json(this.toResponse(webhook));
+    } catch (error) {
+      logger.error("Failed to get webhook:", error);
+      return c.json({ error: "Failed to get webhook" }, 500);
+    }
+  };
+
+  create = async (c: Context) => {
+    try {
+      // Validate request body
+      const validationResult = await validateRequest<CreateWebhookInput>(c, createWebhookSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const webhook = await this.createWebhookUseCase.execute(validationResult.data);
+
+      return c.json(this.toResponse(webhook), 201);
+    } catch (error) {
+      logger.error("Failed to create webhook:", error);
+      return c.json({ error: "Failed to create webhook" }, 500);
+    }
+  };
+
+  update = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid webhook ID" }, 400);
+      }
+
+      // Validate request body
+      const validationResult = await validateRequest<UpdateWebhookInput>(c, updateWebhookSchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { url, secret, eventTypes } = validationResult.data;
+      const webhook = await this.updateWebhookUseCase.execute({
+        id,
+        ...(url !== undefined && { url }),
+        ...(secret !== undefined && { secret }),
+        ...(eventTypes !== undefined && { eventTypes }),
+      });
+
+      if (!webhook) {
+        return c.json({ error: "Webhook not found" }, 404);
+      }
+
+      return c.json(this.toResponse(webhook));
+    } catch (error) {
+      logger.error("Failed to update webhook:", error);
+      return c.json({ error: "Failed to update webhook" }, 500);
+    }
+  };
+
+  delete = async (c: Context) => {
+    try {
+      const id = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(id).success) {
+        return c.json({ error: "Invalid webhook ID" }, 400);
+      }
+
+      const success = await this.deleteWebhookUseCase.execute(id);
+
+      if (!success) {
+        return c.json({ error: "Webhook not found" }, 404);
+      }
+
+      return c.json({ success: true });
+    } catch (error) {
+      logger.error("Failed to delete webhook:", error);
+      return c.json({ error: "Failed to delete webhook" }, 500);
+    }
+  };
+
+  getDeliveries = async (c: Context) => {
+    try {
+      const webhookId = c.req.param("id");
+
+      // Validate ID
+      if (!idSchema.safeParse(webhookId).success) {
+        return c.json({ error: "Invalid webhook ID" }, 400);
+      }
+
+      // Validate query parameters
+      const validationResult = validateQuery<WebhookDeliveryQueryInput>(c, webhookDeliveryQuerySchema);
+      if (!("success" in validationResult)) {
+        return validationResult;
+      }
+
+      const { status, limit } = validationResult.data;
+
+      try {
+        const deliveries = await this.getWebhookDeliveriesUseCase.execute({
+          webhookId,
+          limit,
+          ...(status !== undefined && { status }),
+        });
+        return c.json(deliveries);
+      } catch (error) {
+        if (error instanceof WebhookNotFoundError) {
+          return c.json({ error: error.message }, 404);
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Failed to get webhook deliveries:", error);
+      return c.json({ error: "Failed to get webhook deliveries" }, 500);
+    }
+  };
+
+  // The secret is write-only, so that it does not leak through the API
+  private toResponse(webhook: Webhook) {
+    const { secret, ...response } = webhook;
+    return response;
+  }
+}
@@ -0,0 +1,46 @@
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { TaskEvent } from "../../domain/models/TaskEvent";
+import type { TransactionManager } from "../../domain/repositories/TransactionManager";
+import type { TaskEventBus, TaskEventListener } from "../../domain/services/TaskEventBus";
+
+const logger = new Logger({ name: "InProcessTaskEventBus" });
+
+/**
+ * Event bus for the subscribers within this process
+ */
+@injectable()
+@singleton()
+export class InProcessTaskEventBus implements TaskEventBus {
+  private readonly listeners = new Set<TaskEventListener>();
+
+  constructor(@inject("TransactionManager") private readonly transactionManager: TransactionManager) {}
+
+  publish(events: readonly TaskEvent[]): void {
+    if (events.length === 0) {
+      return;
+    }
+
+    this.transactionManager.afterCommit(() => {
+      for (const event of events) {
+        for (const listener of this.listeners) {
+          // A failing subscriber must not keep the others from their events
+          try {
+            listener(event);
+          } catch (error) {
+            logger.error("Task event listener failed:", error);
+          }
+        }
+      }
+    });
+  }
+
+  subscribe(listener: TaskEventListener): () => void {
+    // Wrap the listener so that subscribing the same function twice makes two subscriptions
+    const subscription: TaskEventListener = (event) => listener(event);
+    this.listeners.add(subscription);
+    return () => {
+      this.listeners.delete(subscription);
+    };
+  }
+}
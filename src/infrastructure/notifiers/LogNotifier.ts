@@ -0,0 +1,18 @@
+import { Logger } from "tslog";
+import { injectable } from "tsyringe";
+import type { Notifier, ReminderNotification } from "../../domain/services/Notifier";
+
+const logger = new Logger({ name: "LogNotifier" });
+
+/**
+ * Writes reminders to the application log
+ */
+@injectable()
+export class LogNotifier implements Notifier {
+  readonly name = "log";
+
+  async notify({ reminder, task }: ReminderNotification): Promise<void> {
+    const due = task.dueDate ? ` (due ${task.dueDate.toISOString()})` : "";
+    logger.info(`Reminder ${reminder.id}: ${task.title}${due}`);
+  }
+}
@@ -0,0 +1,28 @@
+import type { Notifier, ReminderNotification } from "../../domain/services/Notifier";
+
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Posts reminders as JSON to an outgoing webhook URL
+ */
+export class WebhookNotifier implements Notifier {
+  readonly name = "webhook";
+
+  constructor(
+    private readonly url: string,
+    private readonly timeoutMs = DEFAULT_TIMEOUT_MS,
+  ) {}
+
+  async notify({ reminder, task, firedAt }: ReminderNotification): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ event: "reminder.fired", firedAt, reminder, task }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook ${this.url} responded with ${response.status}`);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { asc, eq } from "drizzle-orm";
+import type { BunSQLiteDatabase } from "drizzle-orm/bun-sqlite";
+import { inject, injectable, singleton } from "tsyringe";
+import * as schema from "../../db/schema";
+import { RecurringPattern, RecurringTodoPattern } from "../../domain/models/RecurringPattern";
+import type { RecurringPatternRepository } from "../../domain/repositories/RecurringPatternRepository";
+
+type DbSchema = typeof schema;
+
+@injectable()
+@singleton()
+export class DrizzleRecurringPatternRepository implements RecurringPatternRepository {
+  constructor(@inject("DB") private readonly db: BunSQLiteDatabase<DbSchema>) {}
+
+  async findAll(): Promise<readonly RecurringTodoPattern[]> {
+    const records = await this.db
+      .select()
+      .from(schema.recurringPatterns)
+      .orderBy(asc(schema.recurringPatterns.createdAt))
+      .all();
+
+    return Object.freeze(records.map((record) => this.mapToModel(record)));
+  }
+
+  async findById(id: string): Promise<RecurringTodoPattern | null> {
+    const record = await this.db
+      .select()
+      .from(schema.recurringPatterns)
+      .where(eq(schema.recurringPatterns.id, id))
+      .get();
+
+    return record ? this.mapToModel(record) : null;
+  }
+
+  async save(todoPattern: RecurringTodoPattern): Promise<RecurringTodoPattern> {
+    const { pattern } = todoPattern;
+    const patternData = {
+      id: todoPattern.id,
+      title: todoPattern.title,
+      description: todoPattern.description,
+      priority: todoPattern.priority,
+      type: pattern.type,
+      interval: pattern.interval,
+      daysOfWeek: pattern.daysOfWeek ? [...pattern.daysOfWeek] : null,
+      dayOfMonth: pattern.dayOfMonth,
+      endDate: pattern.endDate,
+      occurrences: pattern.occurrences,
+      createdAt: todoPattern.createdAt,
+      updatedAt: todoPattern.updatedAt,
+    } as const;
+
+    const { id, createdAt, ...changes } = patternData;
+    await this.db
+      .insert(schema.recurringPatterns)
+      .values(patternData)
+      .onConflictDoUpdate({ target: schema.recurringPatterns.id, set: changes });
+
+    const saved = await this.findById(todoPattern.id);
+    return saved || todoPattern;
+  }
+
+  async delete(id: string): Promise<void> {
+    // Instances keep existing, their recurring_pattern_id is cleared by ON DELETE SET NULL
+    await this.db.delete(schema.recurringPatterns).where(eq(schema.recurringPatterns.id, id));
+  }
+
+  private mapToModel(record: schema.RecurringPattern): RecurringTodoPattern {
+    const pattern = RecurringPattern.create(
+      record.type,
+      record.interval,
+      record.daysOfWeek,
+      record.dayOfMonth,
+      record.endDate,
+      record.occurrences,
+    );
+
+    return RecurringTodoPattern.create(
+      record.title,
+      pattern,
+      record.description,
+      record.priority,
+      record.id,
+      record.createdAt,
+      record.updatedAt,
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+import type { BunSQLiteDatabase } from "drizzle-orm/bun-sqlite";
+import { inject, injectable, singleton } from "tsyringe";
+import * as schema from "../../db/schema";
+import { Reminder, type ReminderStatus } from "../../domain/models/Reminder";
+import type { TaskStatus } from "../../domain/models/Workflow";
+import type { PendingReminder, ReminderRepository } from "../../domain/repositories/ReminderRepository";
+
+type DbSchema = typeof schema;
+
+@injectable()
+@singleton()
+export class DrizzleReminderRepository implements ReminderRepository {
+  constructor(@inject("DB") private readonly db: BunSQLiteDatabase<DbSchema>) {}
+
+  async findByTaskId(taskId: string): Promise<readonly Reminder[]> {
+    const records = await this.db
+      .select()
+      .from(schema.reminders)
+      .where(eq(schema.reminders.taskId, taskId))
+      .orderBy(asc(schema.reminders.createdAt))
+      .all();
+
+    return Object.freeze(records.map((record) => this.mapToModel(record)));
+  }
+
+  async findById(id: string): Promise<Reminder | null> {
+    const record = await this.db.select().from(schema.reminders).where(eq(schema.reminders.id, id)).get();
+
+    return record ? this.mapToModel(record) : null;
+  }
+
+  async findPending(openStatuses: readonly TaskStatus[]): Promise<readonly PendingReminder[]> {
+    const records = await this.db
+      .select({
+        reminder: schema.reminders,
+        task: {
+          id: schema.tasks.id,
+          title: schema.tasks.title,
+          description: schema.tasks.description,
+          dueDate: schema.tasks.dueDate,
+        },
+      })
+      .from(schema.reminders)
+      .innerJoin(schema.tasks, eq(schema.tasks.id, schema.reminders.taskId))
+      .where(
+        and(
+          eq(schema.reminders.status, "pending"),
+          inArray(schema.tasks.status, [...openStatuses]),
+          isNull(schema.tasks.deletedAt),
+        ),
+      )
+      .orderBy(asc(schema.reminders.createdAt))
+      .all();
+
+    return Object.freeze(records.map(({ reminder, task }) => ({ reminder: this.mapToModel(reminder), task })));
+  }
+
+  async save(reminder: Reminder): Promise<Reminder> {
+    const reminderData = {
+      id: reminder.id,
+      taskId: reminder.taskId,
+      remindAt: reminder.remindAt,
+      minutesBeforeDue: reminder.minutesBeforeDue,
+      status: reminder.status,
+      snoozedUntil: reminder.snoozedUntil,
+      firedAt: reminder.firedAt,
+      createdAt: reminder.createdAt,
+      updatedAt: reminder.updatedAt,
+    } as const;
+
+    const { id, taskId, createdAt, ...changes } = reminderData;
+    await this.db
+      .insert(schema.reminders)
+      .values(reminderData)
+      .onConflictDoUpdate({ target: schema.reminders.id, set: changes });
+
+    const saved = await this.findById(reminder.id);
+    return saved || reminder;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.delete(schema.reminders).where(eq(schema.reminders.id, id));
+  }
+
+  private mapToModel(record: schema.Reminder): Reminder {
+    return Reminder.create(
+      record.taskId,
+      record.remindAt,
+      record.minutesBeforeDue,
+      record.id,
+      record.status as ReminderStatus,
+      record.snoozedUntil,
+      record.firedAt,
+      record.createdAt,
+      record.updatedAt,
+    );
+  }
+}
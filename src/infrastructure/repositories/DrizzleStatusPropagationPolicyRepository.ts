@@ -0,0 +1,32 @@
+import { eq } from "drizzle-orm";
+import type { BunSQLiteDatabase } from "drizzle-orm/bun-sqlite";
+import { inject, injectable, singleton } from "tsyringe";
+import * as schema from "../../db/schema";
+import type { StatusPropagationPolicy } from "../../domain/models/Task";
+import type { StatusPropagationPolicyRepository } from "../../domain/repositories/StatusPropagationPolicyRepository";
+
+type DbSchema = typeof schema;
+
+@injectable()
+@singleton()
+export class DrizzleStatusPropagationPolicyRepository implements StatusPropagationPolicyRepository {
+  constructor(@inject("DB") private readonly db: BunSQLiteDatabase<DbSchema>) {}
+
+  async findByRootId(rootId: string): Promise<StatusPropagationPolicy | null> {
+    const record = await this.db
+      .select()
+      .from(schema.statusPropagationPolicies)
+      .where(eq(schema.statusPropagationPolicies.rootTaskId, rootId))
+      .get();
+
+    return record ? record.policy : null;
+  }
+
+  async save(rootId: string, policy: StatusPropagationPolicy): Promise<void> {
+    // A policy stays with its task when the task is moved below another one, and applies again once it is a root
+    await this.db
+      .insert(schema.statusPropagationPolicies)
+      .values({ rootTaskId: rootId, policy })
+      .onConflictDoUpdate({ target: schema.statusPropagationPolicies.rootTaskId, set: { policy } });
+  }
+}
@@ -0,0 +1,82 @@
+import { and, asc, eq } from "drizzle-orm";
+import type { BunSQLiteDatabase } from "drizzle-orm/bun-sqlite";
+import { inject, injectable, singleton } from "tsyringe";
+import * as schema from "../../db/schema";
+import { Tag as TagNamespace } from "../../domain/models/Tag";
+import type { Tag } from "../../domain/models/Tag";
+import type { TagRepository } from "../../domain/repositories/TagRepository";
+
+type DbSchema = typeof schema;
+
+@injectable()
+@singleton()
+export class DrizzleTagRepository implements TagRepository {
+  constructor(@inject("DB") private readonly db: BunSQLiteDatabase<DbSchema>) {}
+
+  async findAll(): Promise<readonly Tag[]> {
+    const records = await this.db.select().from(schema.tags).orderBy(asc(schema.tags.name)).all();
+    return Object.freeze(records.map((record) => this.mapToModel(record)));
+  }
+
+  async findById(id: string): Promise<Tag | null> {
+    const record = await this.db.select().from(schema.tags).where(eq(schema.tags.id, id)).get();
+    return record ? this.mapToModel(record) : null;
+  }
+
+  async findByName(name: string): Promise<Tag | null> {
+    const record = await this.db.select().from(schema.tags).where(eq(schema.tags.name, name)).get();
+    return record ? this.mapToModel(record) : null;
+  }
+
+  async findByTaskId(taskId: string): Promise<readonly Tag[]> {
+    const records = await this.db
+      .select({ tag: schema.tags })
+      .from(schema.taskTags)
+      .innerJoin(schema.tags, eq(schema.taskTags.tagId, schema.tags.id))
+      .where(eq(schema.taskTags.taskId, taskId))
+      .orderBy(asc(schema.tags.name))
+      .all();
+
+    return Object.freeze(records.map(({ tag }) => this.mapToModel(tag)));
+  }
+
+  async save(tag: Tag): Promise<Tag> {
+    const tagData = {
+      id: tag.id,
+      name: tag.name,
+      color: tag.color,
+      createdAt: tag.createdAt,
+      updatedAt: tag.updatedAt,
+    } as const;
+
+    await this.db
+      .insert(schema.tags)
+      .values(tagData)
+      .onConflictDoUpdate({
+        target: schema.tags.id,
+        set: { name: tagData.name, color: tagData.color, updatedAt: tagData.updatedAt },
+      });
+
+    const saved = await this.findById(tag.id);
+    return saved || tag;
+  }
+
+  async delete(id: string): Promise<void> {
+    // Links in task_tags are removed by ON DELETE CASCADE
+    await this.db.delete(schema.tags).where(eq(schema.tags.id, id));
+  }
+
+  async attachToTask(taskId: string, tagId: string): Promise<void> {
+    await this.db.insert(schema.taskTags).values({ taskId, tagId }).onConflictDoNothing();
+  }
+
+  async detachFromTask(taskId: string, tagId: string): Promise<void> {
+    await this.db
+      .delete(schema.taskTags)
+      .where(and(eq(schema.taskTags.taskId, taskId), eq(schema.taskTags.tagId, tagId)));
+  }
+
+  private mapToModel(record: schema.Tag): Tag {
+    return TagNamespace.create(record.name, record.color, record.id, record.createdAt, record.updatedAt);
+  }
+}
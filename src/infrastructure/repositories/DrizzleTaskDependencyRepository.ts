@@ -0,0 +1,40 @@
+import { and, eq, sql } from "drizzle-orm";
+import type { BunSQLiteDatabase } from "drizzle-orm/bun-sqlite";
+import { inject, injectable, singleton } from "tsyringe";
+import * as schema from "../../db/schema";
+import type { TaskDependencyRepository } from "../../domain/repositories/TaskDependencyRepository";
+
+type DbSchema = typeof schema;
+
+@injectable()
+@singleton()
+export class DrizzleTaskDependencyRepository implements TaskDependencyRepository {
+  constructor(@inject("DB") private readonly db: BunSQLiteDatabase<DbSchema>) {}
+
+  async findAllBlockerIds(taskId: string): Promise<readonly string[]> {
+    // UNION rather than UNION ALL stops the recursion even if the dependencies were ever to loop
+    const rows = this.db.all<{ id: string }>(sql`
+      WITH RECURSIVE blockers(id) AS (
+        SELECT blocker_id FROM task_dependencies WHERE task_id = ${taskId}
+        UNION
+        SELECT task_dependencies.blocker_id FROM task_dependencies JOIN blockers ON task_dependencies.task_id = blockers.id
+      )
+      SELECT id FROM blockers
+    `);
+
+    return Object.freeze(rows.map((row) => row.id));
+  }
+
+  async add(taskId: string, blockerId: string): Promise<void> {
+    await this.db.insert(schema.taskDependencies).values({ taskId, blockerId }).onConflictDoNothing();
+  }
+
+  async remove(taskId: string, blockerId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(schema.taskDependencies)
+      .where(and(eq(schema.taskDependencies.taskId, taskId), eq(schema.taskDependencies.blockerId, blockerId)))
+      .returning({ taskId: schema.taskDependencies.taskId });
+
+    return deleted.length > 0;
+  }
+}
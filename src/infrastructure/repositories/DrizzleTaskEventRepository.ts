@@ -0,0 +1,143 @@
+import { type SQL, and, asc, desc, eq, gt, lt, sql } from "drizzle-orm";
+import type { BunSQLiteDatabase } from "drizzle-orm/bun-sqlite";
+import { inject, injectable, singleton } from "tsyringe";
+import * as schema from "../../db/schema";
+import type {
+  NewTaskEvent,
+  TaskChanges,
+  TaskEvent,
+  TaskEventOrigin,
+  TaskEventType,
+} from "../../domain/models/TaskEvent";
+import type { TaskEventQuery, TaskEventRepository } from "../../domain/repositories/TaskEventRepository";
+import type { TaskEventBus } from "../../domain/services/TaskEventBus";
+
+type DbSchema = typeof schema;
+
+@injectable()
+@singleton()
+export class DrizzleTaskEventRepository implements TaskEventRepository {
+  /**
+   * Stored events are published on the event bus when one is given
+   */
+  constructor(
+    @inject("DB") private readonly db: BunSQLiteDatabase<DbSchema>,
+    @inject("TaskEventBus") private readonly taskEventBus?: TaskEventBus,
+  ) {}
+
+  async append(events: readonly NewTaskEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const records = await this.db
+      .insert(schema.taskEvents)
+      .values(
+        events.map((event) => ({
+          operationId: event.operationId,
+          taskId: event.taskId,
+          type: event.type,
+          changes: event.changes,
+          occurredAt: event.occurredAt,
+          origin: event.origin,
+          revertedOperationId: event.revertedOperationId,
+        })),
+      )
+      .returning()
+      .all();
+
+    this.taskEventBus?.publish(records.map((record) => this.mapToModel(record)));
+  }
+
+  async findAfter(afterId: number, limit: number): Promise<readonly TaskEvent[]> {
+    const records = await this.db
+      .select()
+      .from(schema.taskEvents)
+      .where(gt(schema.taskEvents.id, afterId))
+      .orderBy(asc(schema.taskEvents.id))
+      .limit(limit)
+      .all();
+
+    return Object.freeze(records.map((record) => this.mapToModel(record)));
+  }
+
+  async find(query: TaskEventQuery): Promise<readonly TaskEvent[]> {
+    const conditions: SQL[] = [];
+
+    if (query.taskId) {
+      conditions.push(eq(schema.taskEvents.taskId, query.taskId));
+    }
+
+    if (query.beforeId !== undefined) {
+      conditions.push(lt(schema.taskEvents.id, query.beforeId));
+    }
+
+    const records = await this.db
+      .select()
+      .from(schema.taskEvents)
+      .where(and(...conditions))
+      .orderBy(desc(schema.taskEvents.id))
+      .limit(query.limit)
+      .all();
+
+    return Object.freeze(records.map((record) => this.mapToModel(record)));
+  }
+
+  async findLastUndoableOperation(): Promise<readonly TaskEvent[]> {
+    // Operations that created a task are skipped as a whole, along with the status changes they propagated
+    const [row] = this.db.all<{ operationId: string }>(sql`
+      SELECT operation_id AS operationId
+      FROM task_events e
+      WHERE e.origin <> 'undo'
+        AND NOT EXISTS (
+          SELECT 1 FROM task_events c WHERE c.operation_id = e.operation_id AND c.type = 'created'
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM task_events u WHERE u.reverted_operation_id = e.operation_id AND u.origin = 'undo'
+        )
+      ORDER BY e.id DESC
+      LIMIT 1
+    `);
+
+    return row ? this.findByOperationId(row.operationId) : [];
+  }
+
+  async findLastRedoableOperation(): Promise<readonly TaskEvent[]> {
+    // Undos made before the latest regular change can no longer be redone
+    const [row] = this.db.all<{ operationId: string }>(sql`
+      SELECT operation_id AS operationId
+      FROM task_events e
+      WHERE e.origin = 'undo'
+        AND e.id > (SELECT COALESCE(MAX(id), 0) FROM task_events WHERE origin = 'change')
+        AND NOT EXISTS (SELECT 1 FROM task_events r WHERE r.reverted_operation_id = e.operation_id)
+      ORDER BY e.id DESC
+      LIMIT 1
+    `);
+
+    return row ? this.findByOperationId(row.operationId) : [];
+  }
+
+  private async findByOperationId(operationId: string): Promise<readonly TaskEvent[]> {
+    const records = await this.db
+      .select()
+      .from(schema.taskEvents)
+      .where(eq(schema.taskEvents.operationId, operationId))
+      .orderBy(asc(schema.taskEvents.id))
+      .all();
+
+    return Object.freeze(records.map((record) => this.mapToModel(record)));
+  }
+
+  private mapToModel(record: schema.TaskEvent): TaskEvent {
+    return {
+      id: record.id,
+      operationId: record.operationId,
+      taskId: record.taskId,
+      type: record.type as TaskEventType,
+      changes: record.changes as TaskChanges,
+      occurredAt: record.occurredAt,
+      origin: record.origin as TaskEventOrigin,
+      revertedOperationId: record.revertedOperationId,
+    };
+  }
+}
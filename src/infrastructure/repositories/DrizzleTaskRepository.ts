@@ -1,95 +1,323 @@
-import { asc, eq, inArray, isNull } from "drizzle-orm";
+import {
+  SQL,
+  and,
+  asc,
+  count,
+  countDistinct,
+  desc,
+  eq,
+  getTableColumns,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  ne,
+  or,
+  sql,
+} from "drizzle-orm";
 import type { BunSQLiteDatabase } from "drizzle-orm/bun-sqlite";
+import { alias } from "drizzle-orm/sqlite-core";
 import { inject, injectable, singleton } from "tsyringe";
 import * as schema from "../../db/schema";
-import { Task as TaskNamespace, type TaskStatus } from "../../domain/models/Task";
-import type { Task } from "../../domain/models/Task";
-import type { PaginationParams, TaskRepository } from "../../domain/repositories/TaskRepository";
+import { Rank } from "../../domain/models/Rank";
+import type { Tag } from "../../domain/models/Tag";
+import { Tag as TagNamespace } from "../../domain/models/Tag";
+import { Task as TaskNamespace, type TaskPriority } from "../../domain/models/Task";
+import type { Task, TaskPathSegment } from "../../domain/models/Task";
+import type { TaskStatus } from "../../domain/models/Workflow";
+import type {
+  DueDateQuery,
+  PaginationParams,
+  TaskCursor,
+  TaskFilter,
+  TaskPage,
+  TaskRepository,
+  TaskSearchMatch,
+  TaskSearchQuery,
+} from "../../domain/repositories/TaskRepository";
 
 type DbSchema = typeof schema;
 
+type SearchRow = {
+  taskId: string;
+  rank: number;
+  title: string;
+  description: string | null;
+};
+
+// A task on the path to another task, as read by findPaths
+type PathRow = {
+  taskId: string;
+  id: string;
+  parentId: string | null;
+  title: string;
+};
+
+// Data of a task kept outside the tasks table
+type TaskRelations = {
+  tags?: readonly Tag[] | undefined;
+  blockedBy?: readonly string[] | undefined;
+};
+
+// Condition excluding tasks that are in the trash
+const notTrashed = isNull(schema.tasks.deletedAt);
+
+const parentTasks = alias(schema.tasks, "parent_tasks");
+
+// Sort key that ranks "high" priority tasks first and "low" priority tasks last
+const priorityRank = sql`CASE ${schema.tasks.priority} WHEN 'high' THEN 0 WHEN 'medium' THEN 1 ELSE 2 END`;
+
+const priorityRanks: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 };
+
+// Sort order of siblings, see Task.compareSiblings
+const siblingOrder = [asc(schema.tasks.rankKey), asc(schema.tasks.order), asc(schema.tasks.id)];
+
+// Rows written per statement when saving a hierarchy, well below SQLite's limit on bound parameters
+export const saveBatchSize = 500;
+
 @injectable()
 @singleton()
 export class DrizzleTaskRepository implements TaskRepository {
   constructor(@inject("DB") private readonly db: BunSQLiteDatabase<DbSchema>) {}
 
-  async findRootTasks(): Promise<readonly Task[]> {
+  async findRootTasks(filter: TaskFilter = {}): Promise<readonly Task[]> {
     const records = await this.db
       .select()
       .from(schema.tasks)
-      .where(isNull(schema.tasks.parentId))
-      .orderBy(asc(schema.tasks.order))
+      .where(this.buildListCondition(filter))
+      .orderBy(...this.buildSortOrder(filter))
       .all();
 
     return this.mapRecordsToTasks(records as schema.Task[]);
   }
 
-  async findRootTasksWithPagination(params: PaginationParams): Promise<readonly Task[]> {
-    const { page, limit } = params;
-    const offset = (page - 1) * limit;
+  async findTasksWithPagination(
+    params: PaginationParams,
+    filter: TaskFilter = {},
+    depth = Number.POSITIVE_INFINITY,
+  ): Promise<TaskPage> {
+    const { after, limit } = params;
+    const condition = this.buildListCondition(filter);
 
+    // One extra record tells whether another page follows
     const records = await this.db
       .select()
       .from(schema.tasks)
-      .where(isNull(schema.tasks.parentId))
-      .orderBy(asc(schema.tasks.order))
-      .limit(limit)
-      .offset(offset)
+      .where(after ? and(condition, this.buildCursorCondition(after, filter)) : condition)
+      .orderBy(...this.buildSortOrder(filter))
+      .limit(limit + 1)
       .all();
 
-    return this.mapRecordsToTasks(records as schema.Task[]);
+    const total = await this.db.select({ count: count() }).from(schema.tasks).where(condition).get();
+
+    const items = await this.mapRecordsToTasks((records as schema.Task[]).slice(0, limit), depth);
+    const last = items.at(-1);
+    return {
+      items,
+      nextCursor:
+        records.length > limit && last
+          ? { rankKey: last.rankKey, order: last.order, id: last.id, priority: last.priority }
+          : null,
+      totalCount: total?.count ?? 0,
+    };
   }
 
   async findByParentId(parentId: string): Promise<readonly Task[]> {
     const records = await this.db
       .select()
       .from(schema.tasks)
-      .where(eq(schema.tasks.parentId, parentId))
-      .orderBy(asc(schema.tasks.order))
+      .where(and(eq(schema.tasks.parentId, parentId), notTrashed))
+      .orderBy(...siblingOrder)
       .all();
 
     return this.mapRecordsToTasks(records as schema.Task[]);
   }
 
-  async findById(id: string, loadHierarchy = true): Promise<Task | null> {
-    const record = await this.db.select().from(schema.tasks).where(eq(schema.tasks.id, id)).get();
+  async findSiblings(parentId: string | null): Promise<readonly Task[]> {
+    const records = await this.db
+      .select()
+      .from(schema.tasks)
+      .where(and(parentId ? eq(schema.tasks.parentId, parentId) : isNull(schema.tasks.parentId), notTrashed))
+      .orderBy(...siblingOrder)
+      .all();
+
+    return this.mapRecordsToTasks(records as schema.Task[], 0);
+  }
+
+  async findById(id: string, depth = Number.POSITIVE_INFINITY): Promise<Task | null> {
+    const record = await this.db
+      .select()
+      .from(schema.tasks)
+      .where(and(eq(schema.tasks.id, id), notTrashed))
+      .get();
 
     if (!record) {
       return null;
     }
 
-    const subtasks = loadHierarchy ? await this.findByParentId(id) : [];
-    return this.mapToModel(record as schema.Task, subtasks);
+    const [task] = await this.mapRecordsToTasks([record as schema.Task], depth);
+    return task ?? null;
   }
 
   async save(task: Task, saveHierarchy = true): Promise<Task> {
-    const existingTask = await this.db.select().from(schema.tasks).where(eq(schema.tasks.id, task.id)).get();
+    // Parents come before their subtasks so that foreign keys are satisfied on insert
+    const records = (saveHierarchy ? TaskNamespace.getTaskHierarchy(task) : [task]).map((t) => this.toRecord(t));
+    const set = this.buildUpsertSet(task);
 
-    const taskData = {
-      id: task.id,
-      parentId: task.parentId,
-      title: task.title,
-      description: task.description,
-      status: task.status,
-      order: task.order,
-      createdAt: task.createdAt,
-      updatedAt: task.updatedAt,
-    } as const;
+    this.db.transaction((tx) => {
+      for (let i = 0; i < records.length; i += saveBatchSize) {
+        tx.insert(schema.tasks)
+          .values(records.slice(i, i + saveBatchSize))
+          .onConflictDoUpdate({ target: schema.tasks.id, set })
+          .run();
+      }
+    });
 
-    if (existingTask) {
-      await this.db.update(schema.tasks).set(taskData).where(eq(schema.tasks.id, task.id));
-    } else {
-      await this.db.insert(schema.tasks).values(taskData);
-    }
+    const updated = await this.findById(task.id, saveHierarchy ? Number.POSITIVE_INFINITY : 0);
+    return updated || task;
+  }
+
+  async insertTrees(tasks: readonly Task[]): Promise<void> {
+    // Parents come before their subtasks so that foreign keys are satisfied on insert
+    const records = tasks.flatMap((task) => TaskNamespace.getTaskHierarchy(task)).map((task) => this.toRecord(task));
 
-    if (saveHierarchy) {
-      for (const subtask of task.subtasks) {
-        await this.save(subtask, true);
+    this.db.transaction((tx) => {
+      for (const record of records) {
+        tx.insert(schema.tasks).values(record).run();
       }
+    });
+  }
+
+  async trash(id: string, deletedAt: Date): Promise<void> {
+    this.db.transaction((tx) => {
+      // Walk down the hierarchy one level at a time, leaving tasks that are already in the trash untouched
+      let levelIds = [id];
+      while (levelIds.length > 0) {
+        tx.update(schema.tasks)
+          .set({ deletedAt, version: sql`${schema.tasks.version} + 1` })
+          .where(and(inArray(schema.tasks.id, levelIds), notTrashed))
+          .run();
+
+        levelIds = tx
+          .select({ id: schema.tasks.id })
+          .from(schema.tasks)
+          .where(and(inArray(schema.tasks.parentId, levelIds), notTrashed))
+          .all()
+          .map((record) => record.id);
+      }
+    });
+  }
+
+  async findTrash(): Promise<readonly Task[]> {
+    // A trashed task is listed unless it was trashed together with its parent
+    const records = await this.db
+      .select({ task: schema.tasks })
+      .from(schema.tasks)
+      .leftJoin(parentTasks, eq(parentTasks.id, schema.tasks.parentId))
+      .where(
+        and(
+          isNotNull(schema.tasks.deletedAt),
+          or(isNull(parentTasks.id), isNull(parentTasks.deletedAt), ne(parentTasks.deletedAt, schema.tasks.deletedAt)),
+        ),
+      )
+      .orderBy(desc(schema.tasks.deletedAt), asc(schema.tasks.order))
+      .all();
+
+    const relationsByTaskId = await this.findRelationsByTaskIds(records.map(({ task }) => task.id));
+    return Object.freeze(
+      records.map(({ task }) => this.mapToModel(task as schema.Task, [], relationsByTaskId.get(task.id))),
+    );
+  }
+
+  async findTrashedById(id: string): Promise<Task | null> {
+    const record = await this.db
+      .select()
+      .from(schema.tasks)
+      .where(and(eq(schema.tasks.id, id), isNotNull(schema.tasks.deletedAt)))
+      .get();
+
+    if (!record) {
+      return null;
     }
 
-    const updated = await this.findById(task.id, saveHierarchy);
-    return updated || task;
+    const relationsByTaskId = await this.findRelationsByTaskIds([id]);
+    return this.mapToModel(record as schema.Task, [], relationsByTaskId.get(id));
+  }
+
+  async restore(id: string, parentId: string | null, order: number, rankKey?: string): Promise<void> {
+    const record = await this.db
+      .select({ deletedAt: schema.tasks.deletedAt })
+      .from(schema.tasks)
+      .where(eq(schema.tasks.id, id))
+      .get();
+
+    const deletedAt = record?.deletedAt;
+    if (!deletedAt) {
+      return;
+    }
+
+    const siblingCondition = and(
+      parentId ? eq(schema.tasks.parentId, parentId) : isNull(schema.tasks.parentId),
+      notTrashed,
+    );
+
+    this.db.transaction((tx) => {
+      // Make room when another task has taken the slot in the meantime
+      const occupied = tx
+        .select({ id: schema.tasks.id })
+        .from(schema.tasks)
+        .where(and(siblingCondition, eq(schema.tasks.order, order)))
+        .get();
+      if (occupied) {
+        tx.update(schema.tasks)
+          .set({ order: sql`${schema.tasks.order} + 1`, version: sql`${schema.tasks.version} + 1` })
+          .where(and(siblingCondition, gte(schema.tasks.order, order)))
+          .run();
+      }
+
+      tx.update(schema.tasks)
+        .set({
+          parentId,
+          order,
+          ...(rankKey !== undefined && { rankKey }),
+          deletedAt: null,
+          updatedAt: new Date(),
+          version: sql`${schema.tasks.version} + 1`,
+        })
+        .where(eq(schema.tasks.id, id))
+        .run();
+
+      // Only subtasks trashed together with the task come back; ones trashed on their own stay in the trash
+      let levelIds = [id];
+      while (levelIds.length > 0) {
+        levelIds = tx
+          .select({ id: schema.tasks.id })
+          .from(schema.tasks)
+          .where(and(inArray(schema.tasks.parentId, levelIds), eq(schema.tasks.deletedAt, deletedAt)))
+          .all()
+          .map((subtask) => subtask.id);
+
+        if (levelIds.length > 0) {
+          tx.update(schema.tasks)
+            .set({ deletedAt: null, version: sql`${schema.tasks.version} + 1` })
+            .where(inArray(schema.tasks.id, levelIds))
+            .run();
+        }
+      }
+    });
+  }
+
+  async purgeTrash(deletedBefore: Date): Promise<number> {
+    const purged = await this.db
+      .delete(schema.tasks)
+      .where(and(isNotNull(schema.tasks.deletedAt), lt(schema.tasks.deletedAt, deletedBefore)))
+      .returning({ id: schema.tasks.id })
+      .all();
+
+    return purged.length;
   }
 
   async delete(id: string): Promise<void> {
@@ -103,7 +331,12 @@ export class DrizzleTaskRepository implements TaskRepository {
       for (const task of tasks) {
         await tx
           .update(schema.tasks)
-          .set({ order: task.order, updatedAt: new Date() })
+          .set({
+            order: task.order,
+            rankKey: task.rankKey,
+            updatedAt: new Date(),
+            version: sql`${schema.tasks.version} + 1`,
+          })
           .where(eq(schema.tasks.id, task.id));
       }
     });
@@ -111,7 +344,7 @@ export class DrizzleTaskRepository implements TaskRepository {
     // Serialize findById calls to avoid potential race conditions
     const updatedTasks: Task[] = [];
     for (const task of tasks) {
-      const updatedTask = await this.findById(task.id, false);
+      const updatedTask = await this.findById(task.id, 0);
       if (updatedTask) {
         updatedTasks.push(updatedTask);
       }
@@ -120,12 +353,35 @@ export class DrizzleTaskRepository implements TaskRepository {
     return updatedTasks;
   }
 
+  async shiftSiblings(parentId: string | null, fromOrder: number): Promise<void> {
+    await this.db
+      .update(schema.tasks)
+      .set({ order: sql`${schema.tasks.order} + 1`, version: sql`${schema.tasks.version} + 1` })
+      .where(
+        and(
+          parentId ? eq(schema.tasks.parentId, parentId) : isNull(schema.tasks.parentId),
+          notTrashed,
+          gte(schema.tasks.order, fromOrder),
+        ),
+      );
+  }
+
+  async findParentIdsWithRanksLongerThan(length: number): Promise<readonly (string | null)[]> {
+    const records = await this.db
+      .selectDistinct({ parentId: schema.tasks.parentId })
+      .from(schema.tasks)
+      .where(and(gt(sql`length(${schema.tasks.rankKey})`, length), notTrashed))
+      .all();
+
+    return records.map((record) => record.parentId);
+  }
+
   async findTaskTree(rootId: string): Promise<Task | null> {
-    return this.findById(rootId, true);
+    return this.findById(rootId);
   }
 
-  async moveTask(taskId: string, newParentId: string | null): Promise<Task | null> {
-    const task = await this.findById(taskId, false);
+  async moveTask(taskId: string, newParentId: string | null, index?: number): Promise<Task | null> {
+    const task = await this.findById(taskId, 0);
     if (!task) {
       return null;
     }
@@ -135,7 +391,7 @@ export class DrizzleTaskRepository implements TaskRepository {
     }
 
     if (newParentId) {
-      const newParent = await this.findById(newParentId, false);
+      const newParent = await this.findById(newParentId, 0);
       if (!newParent) {
         return null;
       }
@@ -145,56 +401,565 @@ export class DrizzleTaskRepository implements TaskRepository {
       }
     }
 
+    const oldSiblingCondition = and(
+      task.parentId ? eq(schema.tasks.parentId, task.parentId) : isNull(schema.tasks.parentId),
+      notTrashed,
+      ne(schema.tasks.id, taskId),
+    );
+    const newSiblingCondition = and(
+      newParentId ? eq(schema.tasks.parentId, newParentId) : isNull(schema.tasks.parentId),
+      notTrashed,
+      ne(schema.tasks.id, taskId),
+    );
+
     const siblingTasks = await this.db
+      .select({ id: schema.tasks.id, rankKey: schema.tasks.rankKey })
+      .from(schema.tasks)
+      .where(newSiblingCondition)
+      .orderBy(...siblingOrder)
+      .all();
+
+    // Without an index, or with one past the end, the task goes after its new siblings
+    const targetIndex = Math.min(index ?? siblingTasks.length, siblingTasks.length);
+    const previous = siblingTasks[targetIndex - 1] ?? null;
+    const next = siblingTasks[targetIndex] ?? null;
+    const rankKey = Rank.between(previous?.rankKey ?? null, next?.rankKey ?? null);
+
+    this.db.transaction((tx) => {
+      // Close the gap the task leaves among its former siblings
+      tx.update(schema.tasks)
+        .set({ order: sql`${schema.tasks.order} - 1`, version: sql`${schema.tasks.version} + 1` })
+        .where(and(oldSiblingCondition, gt(schema.tasks.order, task.order)))
+        .run();
+
+      // The task takes the order of the sibling it goes before, which moves down along with the ones after it
+      const nextOrder = next
+        ? tx.select({ order: schema.tasks.order }).from(schema.tasks).where(eq(schema.tasks.id, next.id)).get()?.order
+        : undefined;
+      const lastOrder = tx
+        .select({ order: sql<number | null>`max(${schema.tasks.order})` })
+        .from(schema.tasks)
+        .where(newSiblingCondition)
+        .get()?.order;
+      const newOrder = nextOrder ?? (lastOrder ?? 0) + 1;
+      if (nextOrder !== undefined) {
+        tx.update(schema.tasks)
+          .set({ order: sql`${schema.tasks.order} + 1`, version: sql`${schema.tasks.version} + 1` })
+          .where(and(newSiblingCondition, gte(schema.tasks.order, newOrder)))
+          .run();
+      }
+
+      tx.update(schema.tasks)
+        .set({
+          parentId: newParentId,
+          order: newOrder,
+          rankKey,
+          updatedAt: new Date(),
+          version: sql`${schema.tasks.version} + 1`,
+        })
+        .where(eq(schema.tasks.id, taskId))
+        .run();
+    });
+
+    return this.findById(taskId);
+  }
+
+  async findByDueDate(query: DueDateQuery): Promise<readonly Task[]> {
+    const { from, to, statuses } = query;
+    const conditions: SQL[] = [isNotNull(schema.tasks.dueDate), notTrashed];
+
+    if (from) {
+      conditions.push(gte(schema.tasks.dueDate, from));
+    }
+
+    if (to) {
+      conditions.push(lte(schema.tasks.dueDate, to));
+    }
+
+    if (statuses) {
+      conditions.push(inArray(schema.tasks.status, [...statuses]));
+    }
+
+    const records = await this.db
       .select()
       .from(schema.tasks)
-      .where(newParentId ? eq(schema.tasks.parentId, newParentId) : isNull(schema.tasks.parentId))
+      .where(and(...conditions))
+      .orderBy(asc(schema.tasks.dueDate), asc(schema.tasks.order))
       .all();
 
-    const newOrder = siblingTasks.length > 0 ? Math.max(...siblingTasks.map((t) => (t as schema.Task).order)) + 1 : 1;
-
-    const updatedTask = TaskNamespace.create(
-      task.title,
-      newParentId,
-      task.description,
-      task.id,
-      task.status,
-      newOrder,
-      task.createdAt,
-      new Date(),
-      task.subtasks,
+    const relationsByTaskId = await this.findRelationsByTaskIds(records.map((record) => record.id));
+    return Object.freeze(
+      records.map((record) => this.mapToModel(record as schema.Task, [], relationsByTaskId.get(record.id))),
     );
+  }
 
-    await this.db
-      .update(schema.tasks)
-      .set({
-        parentId: updatedTask.parentId,
-        order: updatedTask.order,
-        updatedAt: updatedTask.updatedAt,
-      })
-      .where(eq(schema.tasks.id, taskId));
+  async findByRecurringPatternId(patternId: string): Promise<readonly Task[]> {
+    const records = await this.db
+      .select()
+      .from(schema.tasks)
+      .where(and(eq(schema.tasks.recurringPatternId, patternId), notTrashed))
+      .orderBy(asc(schema.tasks.instanceDate))
+      .all();
+
+    return this.mapRecordsToTasks(records as schema.Task[]);
+  }
+
+  async findAncestors(id: string): Promise<readonly Task[]> {
+    const records = (await this.db
+      .select()
+      .from(schema.tasks)
+      .where(and(inArray(schema.tasks.id, this.ancestorIds(id)), notTrashed))
+      .all()) as schema.Task[];
+
+    const relationsByTaskId = await this.findRelationsByTaskIds(records.map((record) => record.id));
+
+    // Follow the chain down from the root, which is the only ancestor without a parent
+    const recordsByParentId = new Map(records.map((record) => [record.parentId, record]));
+    const ancestors: Task[] = [];
+    for (let record = recordsByParentId.get(null); record; record = recordsByParentId.get(record.id)) {
+      ancestors.push(this.mapToModel(record, [], relationsByTaskId.get(record.id)));
+    }
+
+    return Object.freeze(ancestors);
+  }
+
+  async findAncestorIds(id: string): Promise<readonly string[]> {
+    const records = await this.db
+      .select({ id: schema.tasks.id })
+      .from(schema.tasks)
+      .where(inArray(schema.tasks.id, this.ancestorIds(id, true)))
+      .all();
+
+    return records.map((record) => record.id);
+  }
+
+  async findDescendants(id: string): Promise<readonly Task[]> {
+    const descendantIds = this.subtreeIds([id], 1);
+    const records = (await this.db
+      .select()
+      .from(schema.tasks)
+      .where(inArray(schema.tasks.id, descendantIds))
+      .orderBy(...siblingOrder)
+      .all()) as schema.Task[];
 
-    return this.findById(taskId, true);
+    const relationsByTaskId = await this.findRelationsByTaskIds(descendantIds);
+    const recordsByParentId = this.groupByParentId(records);
+
+    const descendants: Task[] = [];
+    const visit = (parentId: string) => {
+      for (const record of recordsByParentId.get(parentId) ?? []) {
+        descendants.push(this.mapToModel(record, [], relationsByTaskId.get(record.id)));
+        visit(record.id);
+      }
+    };
+    visit(id);
+
+    return Object.freeze(descendants);
+  }
+
+  async countDescendants(id: string): Promise<number> {
+    const row = await this.db
+      .select({ count: count() })
+      .from(schema.tasks)
+      .where(inArray(schema.tasks.id, this.subtreeIds([id], 1)))
+      .get();
+
+    return row?.count ?? 0;
+  }
+
+  async findPath(id: string): Promise<readonly TaskPathSegment[]> {
+    const paths = await this.findPaths([id]);
+    return paths.get(id) ?? [];
+  }
+
+  async findPaths(ids: readonly string[]): Promise<ReadonlyMap<string, readonly TaskPathSegment[]>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    // The tasks and all their ancestors come from a single recursive query, each row tagged with the task it leads to.
+    // UNION rather than UNION ALL stops the recursion even if the parent chain were ever to loop.
+    const rows = this.db.all<PathRow>(sql`
+      WITH RECURSIVE chain(task_id, id) AS (
+        SELECT id, id FROM tasks
+        WHERE id IN (${sql.join(
+          ids.map((id) => sql`${id}`),
+          sql`, `,
+        )}) AND deleted_at IS NULL
+        UNION
+        SELECT chain.task_id, tasks.parent_id FROM tasks JOIN chain ON tasks.id = chain.id
+        WHERE tasks.parent_id IS NOT NULL
+      )
+      SELECT chain.task_id AS taskId, tasks.id, tasks.parent_id AS parentId, tasks.title
+      FROM chain JOIN tasks ON tasks.id = chain.id
+    `);
+
+    const chains = new Map<string, Map<string, PathRow>>();
+    for (const row of rows) {
+      const chain = chains.get(row.taskId) ?? new Map<string, PathRow>();
+      chain.set(row.id, row);
+      chains.set(row.taskId, chain);
+    }
+
+    // Follow the parents up from each task, then list them from the root down
+    const paths = new Map<string, readonly TaskPathSegment[]>();
+    for (const [taskId, chain] of chains) {
+      const path: TaskPathSegment[] = [];
+      let row = chain.get(chain.get(taskId)?.parentId ?? "");
+      while (row && path.length < chain.size) {
+        path.unshift({ id: row.id, title: row.title });
+        row = chain.get(row.parentId ?? "");
+      }
+      paths.set(taskId, Object.freeze(path));
+    }
+
+    return paths;
+  }
+
+  async findExistingIds(ids: readonly string[]): Promise<readonly string[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const records = await this.db
+      .select({ id: schema.tasks.id })
+      .from(schema.tasks)
+      .where(inArray(schema.tasks.id, [...ids]))
+      .all();
+
+    return records.map((record) => record.id);
+  }
+
+  async search(query: TaskSearchQuery): Promise<readonly TaskSearchMatch[]> {
+    const matchExpression = this.buildMatchExpression(query.text);
+    if (!matchExpression) {
+      return [];
+    }
+
+    // bm25 weights are per column (title, description): title matches count the most.
+    // The index shares its rowids with the tasks table it is built from.
+    const rows = this.db.all<SearchRow>(sql`
+      SELECT
+        tasks.id AS taskId,
+        bm25(tasks_fts, 10.0, 1.0) AS rank,
+        highlight(tasks_fts, 0, '<mark>', '</mark>') AS title,
+        snippet(tasks_fts, 1, '<mark>', '</mark>', '…', 16) AS description
+      FROM tasks_fts
+      JOIN tasks ON tasks.rowid = tasks_fts.rowid
+      WHERE tasks_fts MATCH ${matchExpression}
+        AND tasks.deleted_at IS NULL
+      ORDER BY rank
+      LIMIT ${query.limit}
+    `);
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const taskIds = rows.map((row) => row.taskId);
+    const records = await this.db.select().from(schema.tasks).where(inArray(schema.tasks.id, taskIds)).all();
+    const recordsById = new Map(records.map((record) => [record.id, record as schema.Task]));
+    const relationsByTaskId = await this.findRelationsByTaskIds(taskIds);
+
+    const matches: TaskSearchMatch[] = [];
+    for (const row of rows) {
+      const record = recordsById.get(row.taskId);
+      if (!record) {
+        continue;
+      }
+
+      matches.push({
+        task: this.mapToModel(record, [], relationsByTaskId.get(record.id)),
+        rank: row.rank,
+        highlights: {
+          title: row.title,
+          description: record.description === null ? null : row.description,
+        },
+      });
+    }
+
+    return Object.freeze(matches);
+  }
+
+  /**
+   * Turn free text into an FTS5 query matching every word as a prefix.
+   * Words are quoted so that FTS5 operators in user input are treated literally.
+   */
+  private buildMatchExpression(text: string): string | null {
+    const terms = text
+      .split(/\s+/)
+      .map((term) => term.replaceAll('"', ""))
+      .filter((term) => term.length > 0);
+
+    if (terms.length === 0) {
+      return null;
+    }
+
+    return terms.map((term) => `"${term}"*`).join(" ");
   }
 
   private async isDescendant(potentialDescendantId: string, ancestorId: string): Promise<boolean> {
-    const potentialDescendant = await this.findById(potentialDescendantId, false);
-    if (!potentialDescendant) {
-      return false;
+    const ancestor = await this.db
+      .select({ id: schema.tasks.id })
+      .from(schema.tasks)
+      .where(and(eq(schema.tasks.id, ancestorId), inArray(schema.tasks.id, this.ancestorIds(potentialDescendantId))))
+      .get();
+
+    return ancestor !== undefined;
+  }
+
+  /**
+   * Subquery selecting the IDs of the ancestors of a task, found with a single recursive query.
+   * Tasks in the trash have no ancestors unless `includeTrashed` is set.
+   */
+  private ancestorIds(id: string, includeTrashed = false): SQL {
+    const activeOnly = includeTrashed ? sql`` : sql`AND deleted_at IS NULL`;
+
+    // UNION rather than UNION ALL stops the recursion even if the parent chain were ever to loop
+    return sql`(
+      WITH RECURSIVE ancestors(id) AS (
+        SELECT parent_id FROM tasks WHERE id = ${id} ${activeOnly}
+        UNION
+        SELECT tasks.parent_id FROM tasks JOIN ancestors ON tasks.id = ancestors.id
+      )
+      SELECT id FROM ancestors WHERE id IS NOT NULL
+    )`;
+  }
+
+  /**
+   * Subquery selecting the IDs of the active tasks in the subtrees of the given tasks,
+   * from `minLevel` to `maxLevel` levels below them. The given tasks themselves are level 0.
+   */
+  private subtreeIds(rootIds: readonly string[], minLevel: number, maxLevel = Number.POSITIVE_INFINITY): SQL {
+    const levelLimit = Number.isFinite(maxLevel) ? sql`AND subtree.level < ${maxLevel}` : sql``;
+
+    return sql`(
+      WITH RECURSIVE subtree(id, level) AS (
+        SELECT id, 0 FROM tasks
+        WHERE id IN (${sql.join(
+          rootIds.map((id) => sql`${id}`),
+          sql`, `,
+        )}) AND deleted_at IS NULL
+        UNION ALL
+        SELECT tasks.id, subtree.level + 1 FROM tasks JOIN subtree ON tasks.parent_id = subtree.id
+        WHERE tasks.deleted_at IS NULL ${levelLimit}
+      )
+      SELECT id FROM subtree WHERE level >= ${minLevel}
+    )`;
+  }
+
+  private groupByParentId(records: readonly schema.Task[]): Map<string, schema.Task[]> {
+    const recordsByParentId = new Map<string, schema.Task[]>();
+    for (const record of records) {
+      if (record.parentId) {
+        const siblings = recordsByParentId.get(record.parentId) ?? [];
+        siblings.push(record);
+        recordsByParentId.set(record.parentId, siblings);
+      }
+    }
+    return recordsByParentId;
+  }
+
+  /**
+   * Assignments that overwrite every column of an existing row with the values of the row being inserted
+   */
+  private buildUpsertSet(task: Task): Record<string, SQL> {
+    const columns = getTableColumns(schema.tasks);
+    const names = Object.keys(this.toRecord(task))
+      .filter((key): key is keyof typeof columns => key !== "id" && key in columns)
+      .map((key) => [key, columns[key].name] as const);
+
+    // Rows saved unchanged, such as untouched subtasks of a saved hierarchy, keep their version
+    const excluded = names.map(([, name]) => `excluded."${name}"`).join(", ");
+    const current = names.map(([, name]) => `"tasks"."${name}"`).join(", ");
+    return {
+      ...Object.fromEntries(names.map(([key, name]) => [key, sql.raw(`excluded."${name}"`)])),
+      version: sql.raw(`CASE WHEN (${excluded}) IS (${current}) THEN "tasks"."version" ELSE "tasks"."version" + 1 END`),
+    };
+  }
+
+  private toRecord(task: Task): schema.NewTask {
+    return {
+      id: task.id,
+      parentId: task.parentId,
+      title: task.title,
+      description: task.description,
+      status: task.status,
+      priority: task.priority,
+      dueDate: task.dueDate,
+      startDate: task.startDate,
+      recurringPatternId: task.recurringPatternId,
+      instanceDate: task.instanceDate,
+      order: task.order,
+      rankKey: task.rankKey,
+      createdAt: task.createdAt,
+      updatedAt: task.updatedAt,
+      deletedAt: task.deletedAt,
+    };
+  }
+
+  private buildListCondition(filter: TaskFilter): SQL | undefined {
+    const conditions: SQL[] = [
+      filter.parentId !== undefined ? eq(schema.tasks.parentId, filter.parentId) : isNull(schema.tasks.parentId),
+      notTrashed,
+    ];
+
+    if (filter.priorities && filter.priorities.length > 0) {
+      conditions.push(inArray(schema.tasks.priority, [...filter.priorities]));
+    }
+
+    if (filter.statuses && filter.statuses.length > 0) {
+      conditions.push(inArray(schema.tasks.status, [...filter.statuses]));
+    }
+
+    if (filter.createdFrom) {
+      conditions.push(gte(schema.tasks.createdAt, filter.createdFrom));
+    }
+    if (filter.createdTo) {
+      conditions.push(lte(schema.tasks.createdAt, filter.createdTo));
+    }
+    if (filter.updatedFrom) {
+      conditions.push(gte(schema.tasks.updatedAt, filter.updatedFrom));
+    }
+    if (filter.updatedTo) {
+      conditions.push(lte(schema.tasks.updatedAt, filter.updatedTo));
     }
 
-    if (potentialDescendant.parentId === ancestorId) {
-      return true;
+    if (filter.tagIds && filter.tagIds.length > 0) {
+      const tagIds = [...new Set(filter.tagIds)];
+      const taggedTaskIds = this.db
+        .select({ taskId: schema.taskTags.taskId })
+        .from(schema.taskTags)
+        .where(inArray(schema.taskTags.tagId, tagIds))
+        .groupBy(schema.taskTags.taskId);
+
+      // With "all", a task qualifies only when every requested tag is attached
+      conditions.push(
+        inArray(
+          schema.tasks.id,
+          filter.tagMatch === "all"
+            ? taggedTaskIds.having(eq(countDistinct(schema.taskTags.tagId), tagIds.length))
+            : taggedTaskIds,
+        ),
+      );
+    }
+
+    return and(...conditions);
+  }
+
+  private buildSortOrder(filter: TaskFilter): SQL[] {
+    // The ID makes the sort order total, which keeps cursor positions unambiguous
+    if (filter.sort === "priority") {
+      return [asc(priorityRank), ...siblingOrder];
     }
 
-    if (potentialDescendant.parentId) {
-      return this.isDescendant(potentialDescendant.parentId, ancestorId);
+    return siblingOrder;
+  }
+
+  /**
+   * Condition matching the tasks that come after the cursor in the sort order of the filter
+   */
+  private buildCursorCondition(cursor: TaskCursor, filter: TaskFilter): SQL | undefined {
+    const afterPosition = or(
+      gt(schema.tasks.rankKey, cursor.rankKey),
+      and(
+        eq(schema.tasks.rankKey, cursor.rankKey),
+        or(
+          gt(schema.tasks.order, cursor.order),
+          and(eq(schema.tasks.order, cursor.order), gt(schema.tasks.id, cursor.id)),
+        ),
+      ),
+    );
+
+    if (filter.sort === "priority") {
+      const rank = priorityRanks[cursor.priority];
+      return or(gt(priorityRank, rank), and(eq(priorityRank, rank), afterPosition));
     }
 
-    return false;
+    return afterPosition;
   }
 
-  private mapToModel(record: schema.Task, subtasks: readonly Task[] = []): Task {
+  /**
+   * Tags and active blockers of the given tasks
+   */
+  private async findRelationsByTaskIds(taskIds: readonly string[] | SQL): Promise<Map<string, TaskRelations>> {
+    const tagsByTaskId = await this.findTagsByTaskIds(taskIds);
+    const blockerIdsByTaskId = await this.findBlockerIdsByTaskIds(taskIds);
+
+    const relationsByTaskId = new Map<string, TaskRelations>();
+    for (const taskId of new Set([...tagsByTaskId.keys(), ...blockerIdsByTaskId.keys()])) {
+      relationsByTaskId.set(taskId, { tags: tagsByTaskId.get(taskId), blockedBy: blockerIdsByTaskId.get(taskId) });
+    }
+
+    return relationsByTaskId;
+  }
+
+  private async findBlockerIdsByTaskIds(taskIds: readonly string[] | SQL): Promise<Map<string, string[]>> {
+    const blockerIdsByTaskId = new Map<string, string[]>();
+
+    if (!(taskIds instanceof SQL) && taskIds.length === 0) {
+      return blockerIdsByTaskId;
+    }
+
+    // Blockers in the trash no longer hold anything up
+    const records = await this.db
+      .select({ taskId: schema.taskDependencies.taskId, blockerId: schema.taskDependencies.blockerId })
+      .from(schema.taskDependencies)
+      .innerJoin(schema.tasks, eq(schema.taskDependencies.blockerId, schema.tasks.id))
+      .where(
+        and(
+          inArray(schema.taskDependencies.taskId, taskIds instanceof SQL ? taskIds : [...taskIds]),
+          isNull(schema.tasks.deletedAt),
+        ),
+      )
+      .orderBy(asc(schema.taskDependencies.createdAt))
+      .all();
+
+    for (const { taskId, blockerId } of records) {
+      const blockerIds = blockerIdsByTaskId.get(taskId) || [];
+      blockerIds.push(blockerId);
+      blockerIdsByTaskId.set(taskId, blockerIds);
+    }
+
+    return blockerIdsByTaskId;
+  }
+
+  private async findTagsByTaskIds(taskIds: readonly string[] | SQL): Promise<Map<string, Tag[]>> {
+    const tagsByTaskId = new Map<string, Tag[]>();
+
+    if (!(taskIds instanceof SQL) && taskIds.length === 0) {
+      return tagsByTaskId;
+    }
+
+    const records = await this.db
+      .select({ taskId: schema.taskTags.taskId, tag: schema.tags })
+      .from(schema.taskTags)
+      .innerJoin(schema.tags, eq(schema.taskTags.tagId, schema.tags.id))
+      .where(inArray(schema.taskTags.taskId, taskIds instanceof SQL ? taskIds : [...taskIds]))
+      .orderBy(asc(schema.tags.name))
+      .all();
+
+    for (const { taskId, tag } of records) {
+      const taskTagList = tagsByTaskId.get(taskId) || [];
+      taskTagList.push(TagNamespace.create(tag.name, tag.color, tag.id, tag.createdAt, tag.updatedAt));
+      tagsByTaskId.set(taskId, taskTagList);
+    }
+
+    return tagsByTaskId;
+  }
+
+  private async countSubtasks(parentIds: SQL): Promise<Map<string, number>> {
+    const rows = await this.db
+      .select({ parentId: schema.tasks.parentId, count: count() })
+      .from(schema.tasks)
+      .where(and(inArray(schema.tasks.parentId, parentIds), notTrashed))
+      .groupBy(schema.tasks.parentId)
+      .all();
+
+    return new Map(rows.flatMap(({ parentId, count }) => (parentId ? [[parentId, count] as const] : [])));
+  }
+
+  private mapToModel(record: schema.Task, subtasks: readonly Task[] = [], relations: TaskRelations = {}): Task {
     return TaskNamespace.create(
       record.title,
       record.parentId,
@@ -205,74 +970,64 @@ export class DrizzleTaskRepository implements TaskRepository {
       record.createdAt,
       record.updatedAt ?? new Date(),
       subtasks,
+      {
+        priority: record.priority,
+        rankKey: record.rankKey,
+        version: record.version,
+        dueDate: record.dueDate,
+        startDate: record.startDate,
+        tags: relations.tags ?? [],
+        blockedBy: relations.blockedBy ?? [],
+        recurringPatternId: record.recurringPatternId,
+        instanceDate: record.instanceDate,
+        deletedAt: record.deletedAt,
+      },
     );
   }
 
-  private async mapRecordsToTasks(records: schema.Task[]): Promise<readonly Task[]> {
+  /**
+   * Map records to tasks with their subtasks loaded `depth` levels deep.
+   * Tasks at the depth limit get no subtasks, only the number of subtasks they have.
+   */
+  private async mapRecordsToTasks(records: schema.Task[], depth = Number.POSITIVE_INFINITY): Promise<readonly Task[]> {
     if (records.length === 0) {
       return [];
     }
 
-    // Extract all record IDs
-    const parentIds = records.map((record) => record.id);
-
-    // Fetch all subtasks for all parent IDs in a single query
-    const allSubtasksRecords = (await this.db
-      .select()
-      .from(schema.tasks)
-      .where(inArray(schema.tasks.parentId, parentIds))
-      .orderBy(asc(schema.tasks.order))
-      .all()) as schema.Task[];
+    const rootIds = records.map((record) => record.id);
 
-    // Create a map of parentId -> subtasks records
-    const subtasksByParentId = new Map<string, schema.Task[]>();
+    // All levels of subtasks are fetched with one recursive query, however deep the hierarchy is
+    const subtaskRecords =
+      depth > 0
+        ? ((await this.db
+            .select()
+            .from(schema.tasks)
+            .where(inArray(schema.tasks.id, this.subtreeIds(rootIds, 1, depth)))
+            .orderBy(...siblingOrder)
+            .all()) as schema.Task[])
+        : [];
+    const subtaskRecordsByParentId = this.groupByParentId(subtaskRecords);
 
-    // Initialize empty arrays for all parent IDs
-    for (const id of parentIds) {
-      subtasksByParentId.set(id, []);
-    }
+    const relationsByTaskId = await this.findRelationsByTaskIds(
+      depth > 0 ? this.subtreeIds(rootIds, 0, depth) : rootIds,
+    );
 
-    // Group subtasks by their parent ID
-    for (const subtask of allSubtasksRecords) {
-      if (subtask.parentId) {
-        const parentSubtasks = subtasksByParentId.get(subtask.parentId) || [];
-        parentSubtasks.push(subtask);
-        subtasksByParentId.set(subtask.parentId, parentSubtasks);
-      }
-    }
+    const subtaskCounts = Number.isFinite(depth)
+      ? await this.countSubtasks(this.subtreeIds(rootIds, depth, depth))
+      : new Map<string, number>();
 
-    // Process subtasks recursively for each level
-    const subtaskEntries = Array.from(subtasksByParentId.entries());
-    if (subtaskEntries.length > 0) {
-      // Recursive call to process nested subtasks
-      const processedSubtasks = await this.mapRecordsToTasks(allSubtasksRecords);
+    const toTask = (record: schema.Task, level: number): Task => {
+      const relations = relationsByTaskId.get(record.id);
 
-      // Create a map of subtask ID -> processed subtask with its own children
-      const processedSubtasksById = new Map<string, Task>();
-      for (const subtask of processedSubtasks) {
-        processedSubtasksById.set(subtask.id, subtask);
+      if (level >= depth) {
+        const subtaskCount = subtaskCounts.get(record.id) ?? 0;
+        return { ...this.mapToModel(record, [], relations), subtaskCount, hasMore: subtaskCount > 0 };
       }
 
-      // Map record to task model with all subtasks
-      const tasks: Task[] = records.map((record) => {
-        const recordSubtasks = subtasksByParentId.get(record.id) || [];
-        const mappedSubtasks: Task[] = recordSubtasks.map((subtaskRecord) => {
-          // Use the already processed subtask if available (with its own children)
-          return (
-            processedSubtasksById.get(subtaskRecord.id) ||
-            // Fallback to creating a new task without children if not found
-            this.mapToModel(subtaskRecord, [])
-          );
-        });
-
-        return this.mapToModel(record, mappedSubtasks);
-      });
-
-      return Object.freeze(tasks);
-    }
+      const subtasks = (subtaskRecordsByParentId.get(record.id) ?? []).map((subtask) => toTask(subtask, level + 1));
+      return this.mapToModel(record, subtasks, relations);
+    };
 
-    // If there are no subtasks, just map the records to tasks without children
-    const tasks: Task[] = records.map((record) => this.mapToModel(record, []));
-    return Object.freeze(tasks);
+    return Object.freeze(records.map((record) => toTask(record, 0)));
   }
 }
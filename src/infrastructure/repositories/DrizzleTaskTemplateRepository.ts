@@ -0,0 +1,65 @@
+import { asc, eq } from "drizzle-orm";
+import type { BunSQLiteDatabase } from "drizzle-orm/bun-sqlite";
+import { inject, injectable, singleton } from "tsyringe";
+import * as schema from "../../db/schema";
+import { TaskTemplate, type TemplateTask } from "../../domain/models/TaskTemplate";
+import type { TaskTemplateRepository } from "../../domain/repositories/TaskTemplateRepository";
+
+type DbSchema = typeof schema;
+
+@injectable()
+@singleton()
+export class DrizzleTaskTemplateRepository implements TaskTemplateRepository {
+  constructor(@inject("DB") private readonly db: BunSQLiteDatabase<DbSchema>) {}
+
+  async findAll(): Promise<readonly TaskTemplate[]> {
+    const records = await this.db
+      .select()
+      .from(schema.taskTemplates)
+      .orderBy(asc(schema.taskTemplates.name), asc(schema.taskTemplates.createdAt))
+      .all();
+
+    return Object.freeze(records.map((record) => this.mapToModel(record)));
+  }
+
+  async findById(id: string): Promise<TaskTemplate | null> {
+    const record = await this.db.select().from(schema.taskTemplates).where(eq(schema.taskTemplates.id, id)).get();
+
+    return record ? this.mapToModel(record) : null;
+  }
+
+  async save(template: TaskTemplate): Promise<TaskTemplate> {
+    const templateData = {
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      task: template.task,
+      createdAt: template.createdAt,
+      updatedAt: template.updatedAt,
+    } as const;
+
+    const { id, createdAt, ...changes } = templateData;
+    await this.db
+      .insert(schema.taskTemplates)
+      .values(templateData)
+      .onConflictDoUpdate({ target: schema.taskTemplates.id, set: changes });
+
+    const saved = await this.findById(template.id);
+    return saved || template;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.delete(schema.taskTemplates).where(eq(schema.taskTemplates.id, id));
+  }
+
+  private mapToModel(record: schema.TaskTemplate): TaskTemplate {
+    return TaskTemplate.create(
+      record.name,
+      record.task as TemplateTask,
+      record.description,
+      record.id,
+      record.createdAt,
+      record.updatedAt,
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { sql } from "drizzle-orm";
+import type { BunSQLiteDatabase } from "drizzle-orm/bun-sqlite";
+import { inject, injectable, singleton } from "tsyringe";
+import type * as schema from "../../db/schema";
+import type { TransactionManager } from "../../domain/repositories/TransactionManager";
+
+type DbSchema = typeof schema;
+
+type TransactionContext = {
+  afterCommit: (() => void)[];
+};
+
+/**
+ * Transactions built on SQLite savepoints, which start a transaction at the top level and nest inside one.
+ * All work shares a single connection, so top-level transactions are queued and run one at a time.
+ */
+@injectable()
+@singleton()
+export class DrizzleTransactionManager implements TransactionManager {
+  private readonly activeTransaction = new AsyncLocalStorage<TransactionContext>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private savepointCount = 0;
+
+  constructor(@inject("DB") private readonly db: BunSQLiteDatabase<DbSchema>) {}
+
+  async runInTransaction<T>(work: () => Promise<T>): Promise<T> {
+    // Nested calls join the surrounding transaction instead of waiting behind it
+    const activeContext = this.activeTransaction.getStore();
+    if (activeContext) {
+      return this.runInSavepoint(work, activeContext);
+    }
+
+    const context: TransactionContext = { afterCommit: [] };
+    const result = this.queue.then(async () => {
+      const value = await this.activeTransaction.run(context, () => this.runInSavepoint(work, context));
+      for (const callback of context.afterCommit) {
+        callback();
+      }
+      return value;
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  afterCommit(callback: () => void): void {
+    const context = this.activeTransaction.getStore();
+    if (context) {
+      context.afterCommit.push(callback);
+    } else {
+      callback();
+    }
+  }
+
+  private async runInSavepoint<T>(work: () => Promise<T>, context: TransactionContext): Promise<T> {
+    this.savepointCount++;
+    const savepoint = sql.raw(`tx_${this.savepointCount}`);
+    const callbackCount = context.afterCommit.length;
+
+    this.db.run(sql`SAVEPOINT ${savepoint}`);
+    try {
+      const result = await work();
+      this.db.run(sql`RELEASE ${savepoint}`);
+      return result;
+    } catch (error) {
+      this.db.run(sql`ROLLBACK TO ${savepoint}`);
+      this.db.run(sql`RELEASE ${savepoint}`);
+      // Whatever the rolled back work was waiting to announce never happened
+      context.afterCommit.length = callbackCount;
+      throw error;
+    }
+  }
+}
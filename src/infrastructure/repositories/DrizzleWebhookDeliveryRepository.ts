@@ -0,0 +1,109 @@
+import { and, asc, desc, eq, lte } from "drizzle-orm";
+import type { BunSQLiteDatabase } from "drizzle-orm/bun-sqlite";
+import { inject, injectable, singleton } from "tsyringe";
+import * as schema from "../../db/schema";
+import { Webhook, type WebhookEventType } from "../../domain/models/Webhook";
+import type { WebhookDelivery, WebhookDeliveryStatus } from "../../domain/models/WebhookDelivery";
+import type {
+  DueWebhookDelivery,
+  WebhookDeliveryRepository,
+} from "../../domain/repositories/WebhookDeliveryRepository";
+
+type DbSchema = typeof schema;
+
+@injectable()
+@singleton()
+export class DrizzleWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  constructor(@inject("DB") private readonly db: BunSQLiteDatabase<DbSchema>) {}
+
+  async findByWebhookId(
+    webhookId: string,
+    limit: number,
+    status?: WebhookDeliveryStatus,
+  ): Promise<readonly WebhookDelivery[]> {
+    const records = await this.db
+      .select()
+      .from(schema.webhookDeliveries)
+      .where(
+        and(
+          eq(schema.webhookDeliveries.webhookId, webhookId),
+          status !== undefined ? eq(schema.webhookDeliveries.status, status) : undefined,
+        ),
+      )
+      .orderBy(desc(schema.webhookDeliveries.createdAt), desc(schema.webhookDeliveries.eventId))
+      .limit(limit)
+      .all();
+
+    return Object.freeze(records.map((record) => this.mapToModel(record)));
+  }
+
+  async findDue(now: Date, limit: number): Promise<readonly DueWebhookDelivery[]> {
+    const records = await this.db
+      .select({ delivery: schema.webhookDeliveries, webhook: schema.webhooks })
+      .from(schema.webhookDeliveries)
+      .innerJoin(schema.webhooks, eq(schema.webhooks.id, schema.webhookDeliveries.webhookId))
+      .where(and(eq(schema.webhookDeliveries.status, "pending"), lte(schema.webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(schema.webhookDeliveries.nextAttemptAt), asc(schema.webhookDeliveries.eventId))
+      .limit(limit)
+      .all();
+
+    return Object.freeze(
+      records.map(({ delivery, webhook }) => ({
+        delivery: this.mapToModel(delivery),
+        webhook: Webhook.create(
+          webhook.url,
+          webhook.secret,
+          webhook.eventTypes as WebhookEventType[],
+          webhook.id,
+          webhook.createdAt,
+          webhook.updatedAt,
+        ),
+      })),
+    );
+  }
+
+  async add(deliveries: readonly WebhookDelivery[]): Promise<void> {
+    if (deliveries.length === 0) {
+      return;
+    }
+
+    await this.db
+      .insert(schema.webhookDeliveries)
+      .values(deliveries.map((delivery) => ({ ...delivery })))
+      .onConflictDoNothing();
+  }
+
+  async save(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    await this.db
+      .update(schema.webhookDeliveries)
+      .set({
+        status: delivery.status,
+        attempts: delivery.attempts,
+        nextAttemptAt: delivery.nextAttemptAt,
+        lastAttemptAt: delivery.lastAttemptAt,
+        responseStatus: delivery.responseStatus,
+        error: delivery.error,
+      })
+      .where(eq(schema.webhookDeliveries.id, delivery.id));
+
+    return delivery;
+  }
+
+  private mapToModel(record: schema.WebhookDelivery): WebhookDelivery {
+    return {
+      id: record.id,
+      webhookId: record.webhookId,
+      eventId: record.eventId,
+      eventType: record.eventType as WebhookEventType,
+      taskId: record.taskId,
+      payload: record.payload,
+      status: record.status as WebhookDeliveryStatus,
+      attempts: record.attempts,
+      nextAttemptAt: record.nextAttemptAt,
+      lastAttemptAt: record.lastAttemptAt,
+      responseStatus: record.responseStatus,
+      error: record.error,
+      createdAt: record.createdAt,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { asc, eq, sql } from "drizzle-orm";
+import type { BunSQLiteDatabase } from "drizzle-orm/bun-sqlite";
+import { inject, injectable, singleton } from "tsyringe";
+import * as schema from "../../db/schema";
+import { Webhook, type WebhookEventType } from "../../domain/models/Webhook";
+import type { WebhookRepository } from "../../domain/repositories/WebhookRepository";
+
+type DbSchema = typeof schema;
+
+@injectable()
+@singleton()
+export class DrizzleWebhookRepository implements WebhookRepository {
+  constructor(@inject("DB") private readonly db: BunSQLiteDatabase<DbSchema>) {}
+
+  async findAll(): Promise<readonly Webhook[]> {
+    const records = await this.db.select().from(schema.webhooks).orderBy(asc(schema.webhooks.createdAt)).all();
+
+    return Object.freeze(records.map((record) => this.mapToModel(record)));
+  }
+
+  async findById(id: string): Promise<Webhook | null> {
+    const record = await this.db.select().from(schema.webhooks).where(eq(schema.webhooks.id, id)).get();
+
+    return record ? this.mapToModel(record) : null;
+  }
+
+  async findByEventType(eventType: WebhookEventType): Promise<readonly Webhook[]> {
+    const records = await this.db
+      .select()
+      .from(schema.webhooks)
+      .where(sql`exists (select 1 from json_each(${schema.webhooks.eventTypes}) where value = ${eventType})`)
+      .orderBy(asc(schema.webhooks.createdAt))
+      .all();
+
+    return Object.freeze(records.map((record) => this.mapToModel(record)));
+  }
+
+  async save(webhook: Webhook): Promise<Webhook> {
+    const webhookData = {
+      id: webhook.id,
+      url: webhook.url,
+      secret: webhook.secret,
+      eventTypes: webhook.eventTypes,
+      createdAt: webhook.createdAt,
+      updatedAt: webhook.updatedAt,
+    } as const;
+
+    const { id, createdAt, ...changes } = webhookData;
+    await this.db
+      .insert(schema.webhooks)
+      .values(webhookData)
+      .onConflictDoUpdate({ target: schema.webhooks.id, set: changes });
+
+    const saved = await this.findById(webhook.id);
+    return saved || webhook;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.delete(schema.webhooks).where(eq(schema.webhooks.id, id));
+  }
+
+  private mapToModel(record: schema.Webhook): Webhook {
+    return Webhook.create(
+      record.url,
+      record.secret,
+      record.eventTypes as WebhookEventType[],
+      record.id,
+      record.createdAt,
+      record.updatedAt,
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { eq } from "drizzle-orm";
+import type { BunSQLiteDatabase } from "drizzle-orm/bun-sqlite";
+import { inject, injectable, singleton } from "tsyringe";
+import * as schema from "../../db/schema";
+import { type TaskStatus, Workflow, type WorkflowState } from "../../domain/models/Workflow";
+import type { WorkflowRepository } from "../../domain/repositories/WorkflowRepository";
+
+type DbSchema = typeof schema;
+
+// The workflow is stored in a single row
+const WORKFLOW_ID = 1;
+
+@injectable()
+@singleton()
+export class DrizzleWorkflowRepository implements WorkflowRepository {
+  constructor(@inject("DB") private readonly db: BunSQLiteDatabase<DbSchema>) {}
+
+  async find(): Promise<Workflow> {
+    const record = await this.db.select().from(schema.workflows).where(eq(schema.workflows.id, WORKFLOW_ID)).get();
+
+    return record ? this.mapToModel(record) : Workflow.standard;
+  }
+
+  async save(workflow: Workflow): Promise<Workflow> {
+    const changes = {
+      states: workflow.states,
+      initialStatus: workflow.initialStatus,
+      completedStatus: workflow.completedStatus,
+      updatedAt: new Date(),
+    };
+
+    await this.db
+      .insert(schema.workflows)
+      .values({ id: WORKFLOW_ID, ...changes })
+      .onConflictDoUpdate({ target: schema.workflows.id, set: changes });
+
+    return this.find();
+  }
+
+  private mapToModel(record: schema.Workflow): Workflow {
+    return {
+      states: record.states as Record<TaskStatus, WorkflowState>,
+      initialStatus: record.initialStatus,
+      completedStatus: record.completedStatus,
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { RebalanceRanksUseCase } from "../../application/usecases/task/RebalanceRanksUseCase";
+
+const logger = new Logger({ name: "RankRebalanceScheduler" });
+
+const DEFAULT_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Periodically gives evenly spaced ranks to siblings whose ranks have grown too long from repeated placing
+ */
+@injectable()
+@singleton()
+export class RankRebalanceScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(@inject("RebalanceRanksUseCase") private rebalanceRanksUseCase: RebalanceRanksUseCase) {}
+
+  start(intervalMs = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    const rebalance = async () => {
+      try {
+        const rebalancedCount = await this.rebalanceRanksUseCase.execute();
+        if (rebalancedCount > 0) {
+          logger.info(`Rebalanced the ranks of ${rebalancedCount} sibling groups`);
+        }
+      } catch (error) {
+        logger.error("Failed to rebalance task ranks:", error);
+      }
+    };
+
+    void rebalance();
+    this.timer = setInterval(rebalance, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { FireDueRemindersUseCase } from "../../application/usecases/reminder/FireDueRemindersUseCase";
+
+const logger = new Logger({ name: "ReminderScheduler" });
+
+const DEFAULT_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Periodically fires reminders whose time has come.
+ * The first check runs on start, so reminders missed while the server was down fire right away.
+ */
+@injectable()
+@singleton()
+export class ReminderScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(@inject("FireDueRemindersUseCase") private fireDueRemindersUseCase: FireDueRemindersUseCase) {}
+
+  start(intervalMs = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    const fire = async () => {
+      // Skip a tick while slow notifiers are still busy with the previous one
+      if (this.running) {
+        return;
+      }
+
+      this.running = true;
+      try {
+        const deliveries = await this.fireDueRemindersUseCase.execute();
+        for (const { reminder, failures } of deliveries) {
+          for (const { notifier, error } of failures) {
+            logger.error(`Failed to deliver reminder ${reminder.id} through the ${notifier} notifier:`, error);
+          }
+        }
+      } catch (error) {
+        logger.error("Failed to fire reminders:", error);
+      } finally {
+        this.running = false;
+      }
+    };
+
+    void fire();
+    this.timer = setInterval(fire, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
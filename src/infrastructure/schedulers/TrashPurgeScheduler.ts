@@ -0,0 +1,45 @@
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { PurgeTrashUseCase } from "../../application/usecases/trash/PurgeTrashUseCase";
+
+const logger = new Logger({ name: "TrashPurgeScheduler" });
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Periodically purges tasks that have been in the trash for longer than the retention period
+ */
+@injectable()
+@singleton()
+export class TrashPurgeScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(@inject("PurgeTrashUseCase") private purgeTrashUseCase: PurgeTrashUseCase) {}
+
+  start(retentionDays: number, intervalMs = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    const purge = async () => {
+      try {
+        const purgedCount = await this.purgeTrashUseCase.execute(retentionDays);
+        if (purgedCount > 0) {
+          logger.info(`Purged ${purgedCount} tasks from the trash`);
+        }
+      } catch (error) {
+        logger.error("Failed to purge the trash:", error);
+      }
+    };
+
+    void purge();
+    this.timer = setInterval(purge, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { Logger } from "tslog";
+import { inject, injectable, singleton } from "tsyringe";
+import type { DeliverWebhooksUseCase } from "../../application/usecases/webhook/DeliverWebhooksUseCase";
+import type { EnqueueWebhookDeliveriesUseCase } from "../../application/usecases/webhook/EnqueueWebhookDeliveriesUseCase";
+import type { TaskEvent } from "../../domain/models/TaskEvent";
+import type { TaskEventBus } from "../../domain/services/TaskEventBus";
+
+const logger = new Logger({ name: "WebhookDeliveryScheduler" });
+
+const DEFAULT_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Queues webhook deliveries for task events as they are committed and sends them right away.
+ * Deliveries whose retry is due, or that were left pending by a restart, are sent periodically.
+ */
+@injectable()
+@singleton()
+export class WebhookDeliveryScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  // Events are queued and deliveries sent one at a time, in the order of the events
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    @inject("TaskEventBus") private taskEventBus: TaskEventBus,
+    @inject("EnqueueWebhookDeliveriesUseCase") private enqueueWebhookDeliveriesUseCase: EnqueueWebhookDeliveriesUseCase,
+    @inject("DeliverWebhooksUseCase") private deliverWebhooksUseCase: DeliverWebhooksUseCase,
+  ) {}
+
+  start(intervalMs = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.unsubscribe = this.taskEventBus.subscribe((event) => {
+      this.schedule(() => this.enqueue(event));
+    });
+
+    void this.deliver();
+    this.timer = setInterval(() => void this.deliver(), intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Send the deliveries that are due. Resolves once every event published so far has been handled.
+   */
+  deliver(): Promise<void> {
+    return this.schedule(async () => {
+      const attempted = await this.deliverWebhooksUseCase.execute();
+      for (const delivery of attempted) {
+        if (delivery.status !== "succeeded") {
+          logger.warn(`Failed to deliver ${delivery.id} to webhook ${delivery.webhookId}: ${delivery.error}`);
+        }
+      }
+    });
+  }
+
+  private async enqueue(event: TaskEvent): Promise<void> {
+    const deliveries = await this.enqueueWebhookDeliveriesUseCase.execute(event);
+    if (deliveries.length > 0) {
+      void this.deliver();
+    }
+  }
+
+  private schedule(work: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(async () => {
+      try {
+        await work();
+      } catch (error) {
+        logger.error("Failed to process webhook deliveries:", error);
+      }
+    });
+    return this.queue;
+  }
+}
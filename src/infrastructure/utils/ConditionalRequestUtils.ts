@@ -0,0 +1,47 @@
+import type { Context } from "hono";
+import type { Task } from "../../domain/models/Task";
+
+/**
+ * Versions listed in an If-Match header by task ID, or "any" for `If-Match: *`
+ */
+export type IfMatch = ReadonlyMap<string, number> | "any";
+
+/**
+ * Entity tag of a task. It names the task along with its version, so that one If-Match header can list several tasks.
+ */
+export function formatETag(task: Pick<Task, "id" | "version">): string {
+  return `"${task.id}:${task.version}"`;
+}
+
+/**
+ * Helper function to read the If-Match header that writes to tasks require
+ */
+export function requireIfMatch(c: Context): { success: true; data: IfMatch } | Response {
+  if (c.req.header("If-Match") === undefined) {
+    return c.json({ error: "If-Match header with the ETag of the task is required" }, 428);
+  }
+  return { success: true, data: readIfMatch(c) };
+}
+
+/**
+ * Helper function to read an optional If-Match header; without one, changes apply whatever the version
+ */
+export function readIfMatch(c: Context): IfMatch {
+  const header = c.req.header("If-Match");
+  if (header === undefined || header.trim() === "*") {
+    return "any";
+  }
+
+  const versions = new Map<string, number>();
+  for (const [, id, version] of header.matchAll(/"([^":]+):(\d+)"/g)) {
+    versions.set(id as string, Number(version));
+  }
+  return versions;
+}
+
+/**
+ * Version a change to the task has to be based on. A header without a tag of the task matches no version.
+ */
+export function expectedVersion(ifMatch: IfMatch, taskId: string): number | undefined {
+  return ifMatch === "any" ? undefined : (ifMatch.get(taskId) ?? 0);
+}
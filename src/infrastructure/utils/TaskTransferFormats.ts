@@ -0,0 +1,287 @@
+import type { Task } from "../../domain/models/Task";
+import { Task as TaskNamespace } from "../../domain/models/Task";
+import { type TaskStatus, Workflow } from "../../domain/models/Workflow";
+import { InvalidImportFileError } from "../../domain/models/errors";
+
+/**
+ * Columns written to and read from CSV files, one row per task
+ */
+const csvColumns = [
+  "id",
+  "parentId",
+  "title",
+  "description",
+  "status",
+  "priority",
+  "dueDate",
+  "startDate",
+  "order",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+type CsvColumn = (typeof csvColumns)[number];
+
+type CsvRow = Partial<Record<CsvColumn, string>> & {
+  subtasks: CsvRow[];
+};
+
+// Matches a checklist item such as "  - [x] Buy milk"
+const checklistItemPattern = /^( *)[-*+] \[( |x|X)\] (.*)$/;
+
+const markdownIndent = "  ";
+
+type ChecklistItem = {
+  indent: number;
+  title: string;
+  status: TaskStatus;
+  descriptionLines: string[];
+  subtasks: ChecklistItem[];
+};
+
+/**
+ * Serialize task trees as a JSON document
+ */
+export function formatTasksAsJson(tasks: readonly Task[], exportedAt: Date = new Date()): string {
+  return JSON.stringify({ exportedAt, tasks }, null, 2);
+}
+
+/**
+ * Serialize task trees as CSV, listing every task after its parent
+ */
+export function formatTasksAsCsv(tasks: readonly Task[]): string {
+  const rows = tasks.flatMap((task) => TaskNamespace.getTaskHierarchy(task));
+  const lines = [
+    csvColumns.join(","),
+    ...rows.map((task) => csvColumns.map((column) => escapeCsvValue(toCsvValue(task, column))).join(",")),
+  ];
+
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+/**
+ * Serialize task trees as a nested Markdown checklist.
+ * Descriptions are written as indented lines below the item they belong to.
+ */
+export function formatTasksAsMarkdown(tasks: readonly Task[]): string {
+  const lines: string[] = [];
+
+  const writeTask = (task: Task, depth: number) => {
+    const indent = markdownIndent.repeat(depth);
+    const checkbox = Workflow.isClosed(task.status) ? "[x]" : "[ ]";
+    lines.push(`${indent}- ${checkbox} ${task.title.replace(/\s*\r?\n\s*/g, " ")}`);
+
+    if (task.description) {
+      for (const line of task.description.split(/\r?\n/)) {
+        lines.push(line ? `${indent}${markdownIndent}${line}` : "");
+      }
+    }
+
+    for (const subtask of task.subtasks) {
+      writeTask(subtask, depth + 1);
+    }
+  };
+
+  for (const task of tasks) {
+    writeTask(task, 0);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Parse a CSV export into an import document.
+ * The hierarchy is rebuilt from the id and parentId columns.
+ */
+export function parseTasksCsv(text: string): { tasks: unknown[] } {
+  const [header, ...records] = parseCsvRows(text).filter((row) => row.some((cell) => cell !== ""));
+  if (!header || !header.includes("title")) {
+    throw new InvalidImportFileError('CSV file must start with a header row containing a "title" column');
+  }
+
+  const rows = records.map((record) => {
+    const row: CsvRow = { subtasks: [] };
+    header.forEach((column, index) => {
+      const value = record[index];
+      if (value !== undefined && value !== "" && isCsvColumn(column)) {
+        row[column] = value;
+      }
+    });
+    return row;
+  });
+
+  const rowsById = new Map<string, CsvRow>();
+  for (const row of rows) {
+    if (row.id === undefined) {
+      continue;
+    }
+    if (rowsById.has(row.id)) {
+      throw new InvalidImportFileError(`Task ${row.id} appears more than once`);
+    }
+    rowsById.set(row.id, row);
+  }
+
+  const roots: CsvRow[] = [];
+  for (const row of rows) {
+    const { parentId } = row;
+    if (parentId === undefined) {
+      roots.push(row);
+      continue;
+    }
+
+    const parent = rowsById.get(parentId);
+    if (!parent) {
+      throw new InvalidImportFileError(`Parent task ${parentId} is not part of the file`);
+    }
+    parent.subtasks.push(row);
+  }
+
+  // Rows whose parent chain loops back on itself never hang below a root
+  const attachedCount = roots.reduce((count, root) => count + countRows(root), 0);
+  if (attachedCount !== rows.length) {
+    throw new InvalidImportFileError("Parent references in the file form a cycle");
+  }
+
+  return { tasks: roots };
+}
+
+/**
+ * Parse a nested Markdown checklist into an import document.
+ * Lines other than checklist items and their indented descriptions are ignored.
+ */
+export function parseTasksMarkdown(text: string): { tasks: unknown[] } {
+  const roots: ChecklistItem[] = [];
+  const stack: ChecklistItem[] = [];
+  let pendingBlankLines = 0;
+
+  for (const rawLine of text.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const line = rawLine.replace(/\t/g, "    ");
+    const match = checklistItemPattern.exec(line);
+
+    if (match) {
+      const [, indent = "", mark, title = ""] = match;
+      while (stack.length > 0 && (stack.at(-1) as ChecklistItem).indent >= indent.length) {
+        stack.pop();
+      }
+
+      const item: ChecklistItem = {
+        indent: indent.length,
+        title: title.trim(),
+        status: mark === " " ? Workflow.standard.initialStatus : Workflow.standard.completedStatus,
+        descriptionLines: [],
+        subtasks: [],
+      };
+      (stack.at(-1)?.subtasks ?? roots).push(item);
+      stack.push(item);
+      pendingBlankLines = 0;
+      continue;
+    }
+
+    if (line.trim() === "") {
+      pendingBlankLines++;
+      continue;
+    }
+
+    const lineIndent = line.length - line.trimStart().length;
+    while (stack.length > 0 && (stack.at(-1) as ChecklistItem).indent >= lineIndent) {
+      stack.pop();
+    }
+
+    const owner = stack.at(-1);
+    if (owner) {
+      if (owner.descriptionLines.length > 0) {
+        owner.descriptionLines.push(...Array<string>(pendingBlankLines).fill(""));
+      }
+      owner.descriptionLines.push(line.slice(Math.min(lineIndent, owner.indent + markdownIndent.length)));
+    }
+    pendingBlankLines = 0;
+  }
+
+  return { tasks: roots.map(toImportTask) };
+}
+
+function toCsvValue(task: Task, column: CsvColumn): string {
+  const value = task[column];
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  return value === null ? "" : String(value);
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Split CSV text into rows of cells, honouring quoted cells that contain commas, quotes or line breaks
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new InvalidImportFileError("CSV file ends inside a quoted value");
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function isCsvColumn(column: string): column is CsvColumn {
+  return (csvColumns as readonly string[]).includes(column);
+}
+
+function countRows(row: CsvRow): number {
+  return 1 + row.subtasks.reduce((count, subtask) => count + countRows(subtask), 0);
+}
+
+function toImportTask(item: ChecklistItem): Record<string, unknown> {
+  return {
+    title: item.title,
+    status: item.status,
+    ...(item.descriptionLines.length > 0 && { description: item.descriptionLines.join("\n") }),
+    subtasks: item.subtasks.map(toImportTask),
+  };
+}
@@ -0,0 +1,25 @@
+import { injectable, singleton } from "tsyringe";
+import type { WebhookRequest, WebhookSender } from "../../domain/services/WebhookSender";
+
+const TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Posts webhook deliveries with fetch, giving up on receivers that do not answer in time
+ */
+@injectable()
+@singleton()
+export class FetchWebhookSender implements WebhookSender {
+  async send({ url, headers, body }: WebhookRequest): Promise<number> {
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+
+    // The body is not used, but has to be read to release the connection
+    await response.arrayBuffer();
+    return response.status;
+  }
+}
@@ -1,13 +1,15 @@
-import { beforeAll, beforeEach, describe, expect, it } from "bun:test";
+import "reflect-metadata";
+import { beforeAll, beforeEach, describe, expect, it, mock } from "bun:test";
 import { Hono } from "hono";
 import { v4 as uuidv4 } from "uuid";
+import { createTestDb } from "./setup";
 
 type Task = {
   id: string;
   parentId: string | null;
   title: string;
   description: string | null;
-  status: "completed" | "incomplete";
+  status: "todo" | "in_progress" | "blocked" | "done" | "cancelled";
   order: number;
   createdAt: string; // ISO-8601 timestamp
   updatedAt: string;
@@ -86,7 +88,7 @@ describe("API Tests", () => {
         parentId,
         title,
         description,
-        status: "incomplete",
+        status: "todo",
         order,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -243,3 +245,104 @@ describe("API Tests", () => {
     });
   });
 });
+
+describe("Conditional requests", () => {
+  let app: Hono;
+
+  type VersionedTask = Task & { version: number };
+
+  beforeAll(async () => {
+    // The controllers run against an in-memory database instead of the application's database file
+    mock.module("../src/db", () => ({ db: createTestDb() }));
+    const { getTaskController, initializeContainer } = await import("../src/application/services/DependencyContainer");
+    initializeContainer();
+
+    const taskController = getTaskController();
+    app = new Hono();
+    app.get("/api/tasks/:id", taskController.getTaskById);
+    app.post("/api/tasks", taskController.create);
+    app.post("/api/tasks/bulk", taskController.bulk);
+    app.patch("/api/tasks/:id", taskController.update);
+    app.patch("/api/tasks/:id/move", taskController.move);
+    app.post("/api/tasks/:id/position", taskController.position);
+  });
+
+  const send = (path: string, method: string, body: unknown, ifMatch?: string) =>
+    app.request(path, {
+      method,
+      headers: { "Content-Type": "application/json", ...(ifMatch !== undefined && { "If-Match": ifMatch }) },
+      body: JSON.stringify(body),
+    });
+
+  const createTask = async (title: string) => {
+    const created = (await (await send("/api/tasks", "POST", { title })).json()) as VersionedTask;
+    const res = await app.request(`/api/tasks/${created.id}`);
+    return { task: (await res.json()) as VersionedTask, etag: res.headers.get("ETag") as string };
+  };
+
+  it("should require If-Match to change a task", async () => {
+    const { task } = await createTask("Buy milk");
+    const other = await createTask("Buy bread");
+
+    const update = await send(`/api/tasks/${task.id}`, "PATCH", { title: "Buy oat milk" });
+    expect(update.status).toBe(428);
+    const move = await send(`/api/tasks/${task.id}/move`, "PATCH", { newParentId: other.task.id });
+    expect(move.status).toBe(428);
+    const position = await send(`/api/tasks/${task.id}/position`, "POST", { before: other.task.id });
+    expect(position.status).toBe(428);
+
+    const unchanged = (await (await app.request(`/api/tasks/${task.id}`)).json()) as VersionedTask;
+    expect(unchanged.title).toBe("Buy milk");
+    expect(unchanged.version).toBe(task.version);
+  });
+
+  it("should answer a stale If-Match with the current task", async () => {
+    const { task, etag } = await createTask("Buy milk");
+    expect(etag).toBe(`"${task.id}:${task.version}"`);
+
+    const first = await send(`/api/tasks/${task.id}`, "PATCH", { title: "Buy oat milk" }, etag);
+    expect(first.status).toBe(200);
+    const currentETag = first.headers.get("ETag");
+    expect(currentETag).toBe(`"${task.id}:${task.version + 1}"`);
+
+    // A second change based on the same tag is refused, with what it would overwrite
+    const stale = await send(`/api/tasks/${task.id}`, "PATCH", { title: "Buy soy milk" }, etag);
+    expect(stale.status).toBe(412);
+    expect(stale.headers.get("ETag")).toBe(currentETag);
+    const body = (await stale.json()) as { currentVersion: number; current: VersionedTask };
+    expect(body.currentVersion).toBe(task.version + 1);
+    expect(body.current.title).toBe("Buy oat milk");
+
+    const position = await send(`/api/tasks/${task.id}/position`, "POST", { parentId: null }, etag);
+    expect(position.status).toBe(412);
+    expect(
+      await send(`/api/tasks/${task.id}`, "PATCH", { title: "Buy soy milk" }, currentETag as string),
+    ).toHaveProperty("status", 200);
+  });
+
+  it("should fail bulk operations on tasks the If-Match header has no tag for", async () => {
+    const first = await createTask("First");
+    const second = await createTask("Second");
+
+    const res = await send(
+      "/api/tasks/bulk",
+      "POST",
+      {
+        mode: "bestEffort",
+        operations: [
+          { type: "update", id: first.task.id, title: "First v2" },
+          { type: "complete", id: second.task.id },
+        ],
+      },
+      first.etag,
+    );
+    expect(res.status).toBe(200);
+    const result = (await res.json()) as { succeeded: boolean; results: { status: string; error?: string }[] };
+    expect(result.succeeded).toBe(false);
+    expect(result.results.map((r) => r.status)).toEqual(["succeeded", "failed"]);
+    expect(result.results[1]?.error).toContain(second.task.id);
+
+    const unchanged = (await (await app.request(`/api/tasks/${second.task.id}`)).json()) as VersionedTask;
+    expect(unchanged.status).toBe("todo");
+  });
+});
@@ -0,0 +1,90 @@
+import "reflect-metadata";
+import { describe, expect, it } from "bun:test";
+import type { NewTask } from "../src/db/schema";
+import { tasks } from "../src/db/schema";
+import type { Task } from "../src/domain/models/Task";
+import { DrizzleTaskRepository, saveBatchSize } from "../src/infrastructure/repositories/DrizzleTaskRepository";
+import { createTestDb } from "./setup";
+import { createMockChildTask, createMockTask } from "./utils";
+
+const insertBatchSize = 500;
+
+/**
+ * Build a tree of `size` tasks: a balanced part with `fanOut` subtasks per task,
+ * ending in a chain of `chainLength` tasks that makes the tree deep as well as wide
+ */
+function buildTree(size: number, fanOut: number, chainLength: number): NewTask[] {
+  const root = createMockTask({ title: "Root" });
+  const records: NewTask[] = [root];
+
+  const balancedSize = size - chainLength;
+  for (let i = 1; i < balancedSize; i++) {
+    const parent = records[Math.floor((i - 1) / fanOut)] as NewTask;
+    records.push(createMockChildTask(parent.id, { title: `Task ${i}`, order: ((i - 1) % fanOut) + 1 }));
+  }
+
+  for (let i = 0; i < chainLength; i++) {
+    const parent = records.at(-1) as NewTask;
+    records.push(createMockChildTask(parent.id, { title: `Chain ${i}` }));
+  }
+
+  return records;
+}
+
+describe("Tree query benchmark", () => {
+  it("should run the same number of queries for a 10k-node tree as for a small one", async () => {
+    let queryCount = 0;
+    const db = createTestDb({
+      logQuery: () => {
+        queryCount++;
+      },
+    });
+    const taskRepository = new DrizzleTaskRepository(db);
+
+    const smallTree = buildTree(10, 3, 2);
+    const largeTree = buildTree(10_000, 10, 1_000);
+    for (const tree of [smallTree, largeTree]) {
+      for (let i = 0; i < tree.length; i += insertBatchSize) {
+        await db.insert(tasks).values(tree.slice(i, i + insertBatchSize));
+      }
+    }
+
+    const measure = async (run: () => Promise<unknown>) => {
+      queryCount = 0;
+      await run();
+      return queryCount;
+    };
+
+    const queries = {
+      findById: (tree: NewTask[]) => taskRepository.findById((tree[0] as NewTask).id),
+      findByIdWithDepth: (tree: NewTask[]) => taskRepository.findById((tree[0] as NewTask).id, 2),
+      findSiblings: (tree: NewTask[]) => taskRepository.findSiblings((tree[0] as NewTask).id),
+      findDescendants: (tree: NewTask[]) => taskRepository.findDescendants((tree[0] as NewTask).id),
+      findAncestors: (tree: NewTask[]) => taskRepository.findAncestors((tree.at(-1) as NewTask).id),
+      findPath: (tree: NewTask[]) => taskRepository.findPath((tree.at(-1) as NewTask).id),
+      countDescendants: (tree: NewTask[]) => taskRepository.countDescendants((tree[0] as NewTask).id),
+    };
+
+    for (const query of Object.values(queries)) {
+      expect(await measure(() => query(largeTree))).toBe(await measure(() => query(smallTree)));
+    }
+
+    // Saving a hierarchy writes it in batches of rows rather than row by row
+    expect(largeTree.length).toBeGreaterThan(saveBatchSize);
+    const smallRoot = await taskRepository.findById((smallTree[0] as NewTask).id);
+    const largeRoot = await taskRepository.findById((largeTree[0] as NewTask).id);
+    const smallSave = await measure(() => taskRepository.save(smallRoot as Task, true));
+    const largeSave = await measure(() => taskRepository.save(largeRoot as Task, true));
+    expect(largeSave - smallSave).toBe(Math.ceil(largeTree.length / saveBatchSize) - 1);
+
+    // The results cover the whole tree, however deep it goes
+    expect(await taskRepository.countDescendants((largeTree[0] as NewTask).id)).toBe(largeTree.length - 1);
+    const descendants = await taskRepository.findDescendants((largeTree[0] as NewTask).id);
+    expect(descendants).toHaveLength(largeTree.length - 1);
+
+    const ancestors = await taskRepository.findAncestors((largeTree.at(-1) as NewTask).id);
+    // Five levels of the balanced part, then the rest of the chain
+    expect(ancestors).toHaveLength(5 + 999);
+    expect(ancestors[0]?.id).toBe((largeTree[0] as NewTask).id);
+  });
+});
@@ -1,9 +1,17 @@
+import "reflect-metadata";
 import { describe, expect, it } from "bun:test";
 import { eq, isNull } from "drizzle-orm";
-import { tasks } from "../src/db/schema";
+import { tags, taskTags, tasks } from "../src/db/schema";
+import { Reminder } from "../src/domain/models/Reminder";
+import { Task } from "../src/domain/models/Task";
+import { Workflow } from "../src/domain/models/Workflow";
+import { DrizzleReminderRepository } from "../src/infrastructure/repositories/DrizzleReminderRepository";
+import { DrizzleTagRepository } from "../src/infrastructure/repositories/DrizzleTagRepository";
 import { DrizzleTaskRepository } from "../src/infrastructure/repositories/DrizzleTaskRepository";
+import { DrizzleTransactionManager } from "../src/infrastructure/repositories/DrizzleTransactionManager";
+import { DrizzleWorkflowRepository } from "../src/infrastructure/repositories/DrizzleWorkflowRepository";
 import { createTestDb } from "./setup";
-import { createMockChildTask, createMockTask } from "./utils";
+import { createMockChildTask, createMockTag, createMockTask } from "./utils";
 
 describe("Database operations", () => {
   describe("Task operations", () => {
@@ -173,6 +181,35 @@ describe("Database operations", () => {
       expect(movedTask?.parentId).toBeNull();
     });
 
+    it("should load subtasks down to the requested depth", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+
+      const rootTask = createMockTask({ title: "Root" });
+      const childTask = createMockChildTask(rootTask.id, { title: "Child" });
+      const leafTask = createMockChildTask(rootTask.id, { title: "Leaf", order: 2 });
+      const grandchildTask = createMockChildTask(childTask.id, { title: "Grandchild" });
+      await db.insert(tasks).values([rootTask, childTask, leafTask, grandchildTask]);
+
+      const shallow = await taskRepository.findById(rootTask.id, 0);
+      expect(shallow?.subtasks).toEqual([]);
+      expect(shallow?.subtaskCount).toBe(2);
+      expect(shallow?.hasMore).toBe(true);
+
+      const oneLevel = await taskRepository.findById(rootTask.id, 1);
+      expect(oneLevel?.subtaskCount).toBeUndefined();
+      expect(oneLevel?.subtasks.map((t) => [t.title, t.subtaskCount, t.hasMore])).toEqual([
+        ["Child", 1, true],
+        ["Leaf", 0, false],
+      ]);
+
+      const page = await taskRepository.findTasksWithPagination({ limit: 10 }, {}, 1);
+      expect(page.items[0]?.subtasks[0]?.subtasks).toEqual([]);
+
+      const full = await taskRepository.findById(rootTask.id);
+      expect(full?.subtasks[0]?.subtasks.map((t) => t.id)).toEqual([grandchildTask.id]);
+    });
+
     it("should delete child tasks when parent is deleted", async () => {
       const db = createTestDb();
 
@@ -196,4 +233,318 @@ describe("Database operations", () => {
       expect(deletedChildTask).toBeUndefined();
     });
   });
+
+  describe("Task priority operations", () => {
+    it("should filter and sort root tasks by priority", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+
+      const lowTask = createMockTask({ title: "Low", priority: "low", order: 1 });
+      const highTask = createMockTask({ title: "High", priority: "high", order: 2 });
+      const mediumTask = createMockTask({ title: "Medium", order: 3 });
+      await db.insert(tasks).values([lowTask, highTask, mediumTask]);
+
+      const byPriority = await taskRepository.findRootTasks({ sort: "priority" });
+      expect(byPriority.map((t) => t.id)).toEqual([highTask.id, mediumTask.id, lowTask.id]);
+      expect(byPriority[1]?.priority).toBe("medium");
+
+      const filtered = await taskRepository.findTasksWithPagination({ limit: 10 }, { priorities: ["high", "low"] });
+      expect(filtered.items.map((t) => t.id)).toEqual([lowTask.id, highTask.id]);
+      expect(filtered.totalCount).toBe(2);
+
+      const firstPage = await taskRepository.findTasksWithPagination({ limit: 2 }, { sort: "priority" });
+      expect(firstPage.items.map((t) => t.id)).toEqual([highTask.id, mediumTask.id]);
+      const secondPage = await taskRepository.findTasksWithPagination(
+        { after: firstPage.nextCursor ?? undefined, limit: 2 },
+        { sort: "priority" },
+      );
+      expect(secondPage.items.map((t) => t.id)).toEqual([lowTask.id]);
+      expect(secondPage.nextCursor).toBeNull();
+    });
+  });
+
+  describe("Task pagination", () => {
+    it("should continue from the cursor when tasks are inserted between pages", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+
+      const first = createMockTask({ title: "First", order: 1 });
+      const second = createMockTask({ title: "Second", order: 2 });
+      const third = createMockTask({ title: "Third", order: 3 });
+      await db.insert(tasks).values([first, second, third]);
+
+      const firstPage = await taskRepository.findTasksWithPagination({ limit: 2 });
+      expect(firstPage.items.map((t) => t.id)).toEqual([first.id, second.id]);
+      expect(firstPage.totalCount).toBe(3);
+      expect(firstPage.nextCursor).not.toBeNull();
+
+      // A task inserted before the cursor would shift an offset-based page
+      await db.insert(tasks).values(createMockTask({ title: "Inserted", order: 0 }));
+
+      const secondPage = await taskRepository.findTasksWithPagination({
+        after: firstPage.nextCursor ?? undefined,
+        limit: 2,
+      });
+      expect(secondPage.items.map((t) => t.id)).toEqual([third.id]);
+      expect(secondPage.nextCursor).toBeNull();
+      expect(secondPage.totalCount).toBe(4);
+    });
+
+    it("should filter by status, creation time and parent", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+
+      const parent = createMockTask({ title: "Parent", createdAt: new Date("2024-01-01T00:00:00Z") });
+      const recent = createMockTask({ title: "Recent", order: 2, createdAt: new Date("2024-06-01T00:00:00Z") });
+      const openChild = createMockChildTask(parent.id, { title: "Open child" });
+      const doneChild = createMockChildTask(parent.id, { title: "Done child", status: "done", order: 2 });
+      await db.insert(tasks).values([parent, recent, openChild, doneChild]);
+
+      const createdInJune = await taskRepository.findTasksWithPagination(
+        { limit: 10 },
+        { createdFrom: new Date("2024-06-01T00:00:00Z"), createdTo: new Date("2024-06-30T00:00:00Z") },
+      );
+      expect(createdInJune.items.map((t) => t.id)).toEqual([recent.id]);
+
+      const completedChildren = await taskRepository.findTasksWithPagination(
+        { limit: 10 },
+        { parentId: parent.id, statuses: ["done"] },
+      );
+      expect(completedChildren.items.map((t) => t.id)).toEqual([doneChild.id]);
+      expect(completedChildren.totalCount).toBe(1);
+    });
+  });
+
+  describe("Task due date operations", () => {
+    it("should find due tasks across the hierarchy with their ancestor path", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+
+      const rootTask = createMockTask({ title: "Root" });
+      const childTask = createMockChildTask(rootTask.id, { title: "Child" });
+      const dueTask = createMockChildTask(childTask.id, {
+        title: "Due grandchild",
+        dueDate: new Date("2024-06-10T00:00:00Z"),
+      });
+      const completedTask = createMockChildTask(childTask.id, {
+        title: "Completed grandchild",
+        status: "done",
+        order: 2,
+        dueDate: new Date("2024-06-11T00:00:00Z"),
+      });
+      await db.insert(tasks).values([rootTask, childTask, dueTask, completedTask]);
+
+      const dueTasks = await taskRepository.findByDueDate({
+        from: new Date("2024-06-01T00:00:00Z"),
+        to: new Date("2024-06-30T00:00:00Z"),
+        statuses: Workflow.statusesIn("open"),
+      });
+      expect(dueTasks.map((t) => t.id)).toEqual([dueTask.id]);
+
+      const withCompleted = await taskRepository.findByDueDate({});
+      expect(withCompleted.map((t) => t.id)).toEqual([dueTask.id, completedTask.id]);
+
+      const path = await taskRepository.findPath(dueTask.id);
+      expect(path).toEqual([
+        { id: rootTask.id, title: "Root" },
+        { id: childTask.id, title: "Child" },
+      ]);
+
+      // Paths of several tasks are found at once
+      const manyPaths = await taskRepository.findPaths([dueTask.id, rootTask.id, "missing"]);
+      expect(manyPaths.get(dueTask.id)).toEqual(path);
+      expect(manyPaths.get(rootTask.id)).toEqual([]);
+      expect(manyPaths.has("missing")).toBe(false);
+    });
+  });
+
+  describe("Task tree insertion", () => {
+    it("should insert whole trees and roll back every insert when one fails", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+
+      const childTask = Task.create("Child", "3b6e1c52-4c3f-4f7e-9a59-0d6f2f1c8a01");
+      const rootTask = Task.create(
+        "Root",
+        null,
+        null,
+        "3b6e1c52-4c3f-4f7e-9a59-0d6f2f1c8a01",
+        "todo",
+        1,
+        undefined,
+        undefined,
+        [childTask],
+      );
+      await taskRepository.insertTrees([rootTask]);
+      expect((await taskRepository.findById(rootTask.id))?.subtasks.map((t) => t.id)).toEqual([childTask.id]);
+
+      // The second tree reuses the ID of the existing child, so the insert before it must be undone too
+      const newTask = Task.create("New", null, null, undefined, "todo", 2);
+      await expect(taskRepository.insertTrees([newTask, { ...childTask, parentId: null }])).rejects.toThrow();
+      expect(await taskRepository.findById(newTask.id)).toBeNull();
+    });
+  });
+
+  describe("Transactions", () => {
+    it("should roll back every change of a failed transaction, including nested ones", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const transactionManager = new DrizzleTransactionManager(db);
+
+      const kept = Task.create("Kept");
+      const discarded = Task.create("Discarded", null, null, undefined, "todo", 2);
+
+      await expect(
+        transactionManager.runInTransaction(async () => {
+          await taskRepository.save(discarded);
+          await transactionManager.runInTransaction(() => taskRepository.save(Task.create("Nested", discarded.id)));
+          throw new Error("Abort");
+        }),
+      ).rejects.toThrow("Abort");
+
+      await transactionManager.runInTransaction(async () => {
+        await taskRepository.save(kept);
+        // A failing nested transaction only undoes its own changes
+        await transactionManager
+          .runInTransaction(async () => {
+            await taskRepository.save(discarded);
+            throw new Error("Abort nested");
+          })
+          .catch(() => undefined);
+      });
+
+      expect((await db.select().from(tasks).all()).map((t) => t.id)).toEqual([kept.id]);
+    });
+  });
+
+  describe("Reminder operations", () => {
+    it("should only find pending reminders of incomplete tasks outside the trash", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const reminderRepository = new DrizzleReminderRepository(db);
+
+      const dueDate = new Date("2024-06-01T09:00:00Z");
+      const open = await taskRepository.save(
+        Task.create("Open", null, null, undefined, "todo", 1, undefined, undefined, [], { dueDate }),
+      );
+      const completed = await taskRepository.save(Task.create("Completed", null, null, undefined, "done", 2));
+      const trashed = await taskRepository.save(Task.create("Trashed", null, null, undefined, "todo", 3));
+      await taskRepository.trash(trashed.id, new Date());
+
+      const relative = await reminderRepository.save(Reminder.create(open.id, null, 30));
+      await reminderRepository.save(Reminder.dismiss(Reminder.create(open.id, null, 60)));
+      await reminderRepository.save(Reminder.create(completed.id, new Date(), null));
+      await reminderRepository.save(Reminder.create(trashed.id, new Date(), null));
+
+      const pending = await reminderRepository.findPending(Workflow.statusesIn("open"));
+      expect(pending.map(({ reminder }) => reminder.id)).toEqual([relative.id]);
+      expect(pending[0]?.task).toEqual({ id: open.id, title: "Open", description: null, dueDate });
+      expect(await reminderRepository.findByTaskId(open.id)).toHaveLength(2);
+
+      // Reminders go away with their task
+      await taskRepository.delete(open.id);
+      expect(await reminderRepository.findById(relative.id)).toBeNull();
+    });
+  });
+
+  describe("Workflow operations", () => {
+    it("should keep the configured workflow and fall back to the standard one", async () => {
+      const db = createTestDb();
+      const workflowRepository = new DrizzleWorkflowRepository(db);
+
+      expect(await workflowRepository.find()).toEqual(Workflow.standard);
+
+      const workflow = Workflow.create(
+        { ...Workflow.standard.states, blocked: { category: "closed", transitions: ["todo"] } },
+        "in_progress",
+        "blocked",
+      );
+      await workflowRepository.save(workflow);
+      expect(await workflowRepository.find()).toEqual(workflow);
+
+      // Saving again replaces the workflow instead of adding another one
+      await workflowRepository.save(Workflow.standard);
+      expect(await workflowRepository.find()).toEqual(Workflow.standard);
+    });
+  });
+
+  describe("Task search operations", () => {
+    it("should rank title matches first and keep the index in sync with task changes", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+
+      const rootTask = createMockTask({ title: "Quarterly planning", description: "Prepare the budget review" });
+      const childTask = createMockChildTask(rootTask.id, { title: "Budget spreadsheet", description: null });
+      const otherTask = createMockTask({ title: "Groceries", order: 2 });
+      await db.insert(tasks).values([rootTask, childTask, otherTask]);
+
+      const matches = await taskRepository.search({ text: "budg", limit: 10 });
+      expect(matches.map((m) => m.task.id)).toEqual([childTask.id, rootTask.id]);
+      expect(matches[0]?.highlights).toEqual({ title: "<mark>Budget</mark> spreadsheet", description: null });
+      expect(matches[1]?.highlights.description).toBe("Prepare the <mark>budget</mark> review");
+
+      await db.update(tasks).set({ title: "Shopping list" }).where(eq(tasks.id, childTask.id));
+      await taskRepository.delete(rootTask.id);
+      await db.update(tasks).set({ description: "Milk and budget bread" }).where(eq(tasks.id, otherTask.id));
+
+      const afterChanges = await taskRepository.search({ text: "budget", limit: 10 });
+      expect(afterChanges.map((m) => m.task.id)).toEqual([otherTask.id]);
+
+      // FTS5 syntax in user input is matched literally instead of failing
+      expect(await taskRepository.search({ text: '"budget AND (', limit: 10 })).toHaveLength(1);
+    });
+  });
+
+  describe("Task tag operations", () => {
+    it("should load tags with tasks and filter root tasks by any or all tags", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const tagRepository = new DrizzleTagRepository(db);
+
+      const workTag = createMockTag({ name: "work" });
+      const urgentTag = createMockTag({ name: "urgent" });
+      await db.insert(tags).values([workTag, urgentTag]);
+
+      const bothTask = createMockTask({ title: "Both", order: 1 });
+      const workTask = createMockTask({ title: "Work only", order: 2 });
+      const untaggedTask = createMockTask({ title: "Untagged", order: 3 });
+      const childTask = createMockChildTask(bothTask.id, { title: "Tagged child" });
+      await db.insert(tasks).values([bothTask, workTask, untaggedTask, childTask]);
+
+      await tagRepository.attachToTask(bothTask.id, workTag.id);
+      await tagRepository.attachToTask(bothTask.id, urgentTag.id);
+      await tagRepository.attachToTask(workTask.id, workTag.id);
+      await tagRepository.attachToTask(childTask.id, urgentTag.id);
+
+      const loaded = await taskRepository.findById(bothTask.id);
+      expect(loaded?.tags.map((t) => t.name)).toEqual(["urgent", "work"]);
+      expect(loaded?.subtasks[0]?.tags.map((t) => t.name)).toEqual(["urgent"]);
+
+      const anyMatch = await taskRepository.findRootTasks({ tagIds: [workTag.id, urgentTag.id] });
+      expect(anyMatch.map((t) => t.id)).toEqual([bothTask.id, workTask.id]);
+
+      const allMatch = await taskRepository.findRootTasks({ tagIds: [workTag.id, urgentTag.id], tagMatch: "all" });
+      expect(allMatch.map((t) => t.id)).toEqual([bothTask.id]);
+    });
+
+    it("should remove tag links when a task is deleted", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const tagRepository = new DrizzleTagRepository(db);
+
+      const tag = createMockTag();
+      await db.insert(tags).values(tag);
+      const parentTask = createMockTask();
+      const childTask = createMockChildTask(parentTask.id);
+      await db.insert(tasks).values([parentTask, childTask]);
+      await tagRepository.attachToTask(parentTask.id, tag.id);
+      await tagRepository.attachToTask(childTask.id, tag.id);
+
+      await taskRepository.delete(parentTask.id);
+
+      const links = await db.select().from(taskTags).where(eq(taskTags.tagId, tag.id)).all();
+      expect(links).toHaveLength(0);
+      expect(await tagRepository.findById(tag.id)).not.toBeNull();
+    });
+  });
 });
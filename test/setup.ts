@@ -1,17 +1,37 @@
 import { Database } from "bun:sqlite";
+import type { Logger } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/bun-sqlite";
 import * as schema from "../src/db/schema";
 
 /**
- * Create an in-memory database and Drizzle instance for testing
+ * Create an in-memory database and Drizzle instance for testing.
+ * The optional logger sees every query run through Drizzle.
  */
-export function createTestDb() {
+export function createTestDb(logger?: Logger) {
   // Create in-memory SQLite database
   const db = new Database(":memory:");
 
   // Enable foreign key constraints
   db.exec("PRAGMA foreign_keys = ON;");
 
+  // Create recurring patterns table referenced by tasks
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS recurring_patterns (
+      id TEXT PRIMARY KEY NOT NULL,
+      title TEXT NOT NULL,
+      description TEXT,
+      priority TEXT DEFAULT 'medium' NOT NULL,
+      type TEXT NOT NULL,
+      interval INTEGER DEFAULT 1 NOT NULL,
+      days_of_week TEXT,
+      day_of_month INTEGER,
+      end_date INTEGER,
+      occurrences INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+
   // Create tasks table
   db.exec(`
     CREATE TABLE IF NOT EXISTS tasks (
@@ -19,15 +39,156 @@ export function createTestDb() {
       parent_id TEXT REFERENCES tasks(id) ON DELETE CASCADE,
       title TEXT NOT NULL,
       description TEXT,
-      status TEXT DEFAULT 'incomplete' NOT NULL,
+      status TEXT DEFAULT 'todo' NOT NULL,
+      priority TEXT DEFAULT 'medium' NOT NULL,
+      due_date INTEGER,
+      start_date INTEGER,
+      recurring_pattern_id TEXT REFERENCES recurring_patterns(id) ON DELETE SET NULL,
+      instance_date INTEGER,
       "order" INTEGER DEFAULT 1 NOT NULL,
+      rank_key TEXT DEFAULT '' NOT NULL,
+      version INTEGER DEFAULT 1 NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER,
+      deleted_at INTEGER
+    );
+  `);
+
+  // Create tag tables
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS tags (
+      id TEXT PRIMARY KEY NOT NULL,
+      name TEXT NOT NULL UNIQUE,
+      color TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS task_tags (
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+      PRIMARY KEY (task_id, tag_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS reminders (
+      id TEXT PRIMARY KEY NOT NULL,
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      remind_at INTEGER,
+      minutes_before_due INTEGER,
+      status TEXT DEFAULT 'pending' NOT NULL,
+      snoozed_until INTEGER,
+      fired_at INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+
+  // Create task change history table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS task_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      operation_id TEXT NOT NULL,
+      task_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      changes TEXT NOT NULL,
+      occurred_at INTEGER NOT NULL,
+      origin TEXT DEFAULT 'change' NOT NULL,
+      reverted_operation_id TEXT
+    );
+  `);
+
+  // Create status propagation policies table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS status_propagation_policies (
+      root_task_id TEXT PRIMARY KEY NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      policy TEXT NOT NULL
+    );
+  `);
+
+  // Create workflow table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS workflows (
+      id INTEGER PRIMARY KEY NOT NULL,
+      states TEXT NOT NULL,
+      initial_status TEXT NOT NULL,
+      completed_status TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+
+  // Create task dependencies table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS task_dependencies (
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      blocker_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (task_id, blocker_id)
+    );
+  `);
+
+  // Create task templates table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS task_templates (
+      id TEXT PRIMARY KEY NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT,
+      task TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+
+  // Create webhook tables
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id TEXT PRIMARY KEY NOT NULL,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      event_types TEXT NOT NULL,
       created_at INTEGER NOT NULL,
-      updated_at INTEGER
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY NOT NULL,
+      webhook_id TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+      event_id INTEGER NOT NULL,
+      event_type TEXT NOT NULL,
+      task_id TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT DEFAULT 'pending' NOT NULL,
+      attempts INTEGER DEFAULT 0 NOT NULL,
+      next_attempt_at INTEGER,
+      last_attempt_at INTEGER,
+      response_status INTEGER,
+      error TEXT,
+      created_at INTEGER NOT NULL
     );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id_event_id
+      ON webhook_deliveries(webhook_id, event_id);
+  `);
+
+  // Create full-text search index and its sync triggers
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS tasks_fts USING fts5(title, description, content='tasks');
+
+    CREATE TRIGGER IF NOT EXISTS tasks_fts_after_insert AFTER INSERT ON tasks BEGIN
+      INSERT INTO tasks_fts (rowid, title, description) VALUES (new.rowid, new.title, new.description);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS tasks_fts_after_update AFTER UPDATE OF title, description ON tasks BEGIN
+      INSERT INTO tasks_fts (tasks_fts, rowid, title, description) VALUES ('delete', old.rowid, old.title, old.description);
+      INSERT INTO tasks_fts (rowid, title, description) VALUES (new.rowid, new.title, new.description);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS tasks_fts_after_delete AFTER DELETE ON tasks BEGIN
+      INSERT INTO tasks_fts (tasks_fts, rowid, title, description) VALUES ('delete', old.rowid, old.title, old.description);
+    END;
   `);
 
   // Create Drizzle ORM instance
-  return drizzle(db, { schema });
+  return drizzle(db, { schema, ...(logger && { logger }) });
 }
 
 /**
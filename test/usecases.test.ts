@@ -1,33 +1,168 @@
 import "reflect-metadata";
 import { describe, expect, it, mock } from "bun:test";
+import { createHmac } from "node:crypto";
+import { AddTaskDependencyUseCase } from "../src/application/usecases/dependency/AddTaskDependencyUseCase";
+import { GetTaskBlockersUseCase } from "../src/application/usecases/dependency/GetTaskBlockersUseCase";
+import { RemoveTaskDependencyUseCase } from "../src/application/usecases/dependency/RemoveTaskDependencyUseCase";
+import { GetActivityUseCase } from "../src/application/usecases/history/GetActivityUseCase";
+import { GetTaskHistoryUseCase } from "../src/application/usecases/history/GetTaskHistoryUseCase";
+import { RedoUseCase } from "../src/application/usecases/history/RedoUseCase";
+import { RevertOperationUseCase } from "../src/application/usecases/history/RevertOperationUseCase";
+import { StreamTaskEventsUseCase } from "../src/application/usecases/history/StreamTaskEventsUseCase";
+import { UndoUseCase } from "../src/application/usecases/history/UndoUseCase";
+import { CreateNextRecurringInstanceUseCase } from "../src/application/usecases/recurring/CreateNextRecurringInstanceUseCase";
+import { CreateRecurringPatternUseCase } from "../src/application/usecases/recurring/CreateRecurringPatternUseCase";
+import { UpdateRecurringPatternUseCase } from "../src/application/usecases/recurring/UpdateRecurringPatternUseCase";
+import { CreateReminderUseCase } from "../src/application/usecases/reminder/CreateReminderUseCase";
+import { DismissReminderUseCase } from "../src/application/usecases/reminder/DismissReminderUseCase";
+import { FireDueRemindersUseCase } from "../src/application/usecases/reminder/FireDueRemindersUseCase";
+import { SnoozeReminderUseCase } from "../src/application/usecases/reminder/SnoozeReminderUseCase";
+import { AddTagToTaskUseCase } from "../src/application/usecases/tag/AddTagToTaskUseCase";
+import { CreateTagUseCase } from "../src/application/usecases/tag/CreateTagUseCase";
+import { DeleteTagUseCase } from "../src/application/usecases/tag/DeleteTagUseCase";
+import { RemoveTagFromTaskUseCase } from "../src/application/usecases/tag/RemoveTagFromTaskUseCase";
+import { BulkTaskOperationsUseCase } from "../src/application/usecases/task/BulkTaskOperationsUseCase";
+import { CreateTaskUseCase } from "../src/application/usecases/task/CreateTaskUseCase";
+import { DeleteTaskUseCase } from "../src/application/usecases/task/DeleteTaskUseCase";
+import { DuplicateTaskUseCase } from "../src/application/usecases/task/DuplicateTaskUseCase";
+import { GetOverdueTasksUseCase } from "../src/application/usecases/task/GetOverdueTasksUseCase";
+import { GetRootTasksUseCase } from "../src/application/usecases/task/GetRootTasksUseCase";
+import { GetTaskAncestorsUseCase } from "../src/application/usecases/task/GetTaskAncestorsUseCase";
+import { GetTaskByIdUseCase } from "../src/application/usecases/task/GetTaskByIdUseCase";
+import { GetWorkflowUseCase } from "../src/application/usecases/task/GetWorkflowUseCase";
+import { MoveTaskUseCase } from "../src/application/usecases/task/MoveTaskUseCase";
+import { PositionTaskUseCase } from "../src/application/usecases/task/PositionTaskUseCase";
+import { PropagateStatusUseCase } from "../src/application/usecases/task/PropagateStatusUseCase";
+import { RebalanceRanksUseCase } from "../src/application/usecases/task/RebalanceRanksUseCase";
 import { ReorderTasksUseCase } from "../src/application/usecases/task/ReorderTasksUseCase";
-import type { Task } from "../src/domain/models/Task";
-import type { PaginationParams, TaskRepository } from "../src/domain/repositories/TaskRepository";
+import { UpdateStatusPropagationUseCase } from "../src/application/usecases/task/UpdateStatusPropagationUseCase";
+import { UpdateTaskUseCase } from "../src/application/usecases/task/UpdateTaskUseCase";
+import { UpdateWorkflowUseCase } from "../src/application/usecases/task/UpdateWorkflowUseCase";
+import { CreateTaskTemplateUseCase } from "../src/application/usecases/template/CreateTaskTemplateUseCase";
+import { InstantiateTaskTemplateUseCase } from "../src/application/usecases/template/InstantiateTaskTemplateUseCase";
+import { ExportTasksUseCase } from "../src/application/usecases/transfer/ExportTasksUseCase";
+import { ImportTasksUseCase } from "../src/application/usecases/transfer/ImportTasksUseCase";
+import { GetTrashUseCase } from "../src/application/usecases/trash/GetTrashUseCase";
+import { PurgeTrashUseCase } from "../src/application/usecases/trash/PurgeTrashUseCase";
+import { RestoreTaskUseCase } from "../src/application/usecases/trash/RestoreTaskUseCase";
+import { CreateWebhookUseCase } from "../src/application/usecases/webhook/CreateWebhookUseCase";
+import { DeliverWebhooksUseCase } from "../src/application/usecases/webhook/DeliverWebhooksUseCase";
+import { EnqueueWebhookDeliveriesUseCase } from "../src/application/usecases/webhook/EnqueueWebhookDeliveriesUseCase";
+import { GetWebhookDeliveriesUseCase } from "../src/application/usecases/webhook/GetWebhookDeliveriesUseCase";
+import { Rank } from "../src/domain/models/Rank";
+import { RecurringPattern } from "../src/domain/models/RecurringPattern";
+import { Tag } from "../src/domain/models/Tag";
+import { Task } from "../src/domain/models/Task";
+import { TaskEvent } from "../src/domain/models/TaskEvent";
+import { TaskTemplate, TemplateTask } from "../src/domain/models/TaskTemplate";
+import { Workflow } from "../src/domain/models/Workflow";
+import {
+  CircularReferenceError,
+  DuplicateTagNameError,
+  DuplicateTaskIdError,
+  InvalidOrderError,
+  InvalidStatusTransitionError,
+  InvalidWorkflowError,
+  OpenBlockersError,
+  RevertConflictError,
+  TagNotFoundError,
+  TaskNotFoundError,
+  TaskVersionMismatchError,
+} from "../src/domain/models/errors";
+import { taskStatusSchema } from "../src/domain/models/schema/TaskSchema";
+import { importDocumentSchema } from "../src/domain/models/schema/TransferSchema";
+import type { TaskEventRepository } from "../src/domain/repositories/TaskEventRepository";
+import type {
+  DueDateQuery,
+  PaginationParams,
+  TaskRepository,
+  TaskSearchQuery,
+} from "../src/domain/repositories/TaskRepository";
+import type { TransactionManager } from "../src/domain/repositories/TransactionManager";
+import type { WorkflowRepository } from "../src/domain/repositories/WorkflowRepository";
+import type { Notifier, ReminderNotification } from "../src/domain/services/Notifier";
+import { InProcessTaskEventBus } from "../src/infrastructure/events/InProcessTaskEventBus";
+import { DrizzleRecurringPatternRepository } from "../src/infrastructure/repositories/DrizzleRecurringPatternRepository";
+import { DrizzleReminderRepository } from "../src/infrastructure/repositories/DrizzleReminderRepository";
+import { DrizzleStatusPropagationPolicyRepository } from "../src/infrastructure/repositories/DrizzleStatusPropagationPolicyRepository";
+import { DrizzleTagRepository } from "../src/infrastructure/repositories/DrizzleTagRepository";
+import { DrizzleTaskDependencyRepository } from "../src/infrastructure/repositories/DrizzleTaskDependencyRepository";
+import { DrizzleTaskEventRepository } from "../src/infrastructure/repositories/DrizzleTaskEventRepository";
+import { DrizzleTaskRepository } from "../src/infrastructure/repositories/DrizzleTaskRepository";
+import { DrizzleTaskTemplateRepository } from "../src/infrastructure/repositories/DrizzleTaskTemplateRepository";
+import { DrizzleTransactionManager } from "../src/infrastructure/repositories/DrizzleTransactionManager";
+import { DrizzleWebhookDeliveryRepository } from "../src/infrastructure/repositories/DrizzleWebhookDeliveryRepository";
+import { DrizzleWebhookRepository } from "../src/infrastructure/repositories/DrizzleWebhookRepository";
+import { DrizzleWorkflowRepository } from "../src/infrastructure/repositories/DrizzleWorkflowRepository";
+import { WebhookDeliveryScheduler } from "../src/infrastructure/schedulers/WebhookDeliveryScheduler";
+import {
+  formatTasksAsCsv,
+  formatTasksAsMarkdown,
+  parseTasksCsv,
+  parseTasksMarkdown,
+} from "../src/infrastructure/utils/TaskTransferFormats";
+import { FetchWebhookSender } from "../src/infrastructure/webhooks/FetchWebhookSender";
+import { createTestDb } from "./setup";
 
 describe("Use Cases", () => {
   describe("ReorderTasksUseCase", () => {
     it("should validate order map for continuous sequence", async () => {
       // Create the sample tasks
       const sampleTasks = [
-        { id: "task1", order: 0 },
-        { id: "task2", order: 1 },
-        { id: "task3", order: 2 },
+        { id: "task1", order: 0, rankKey: "000000i" },
+        { id: "task2", order: 1, rankKey: "000001i" },
+        { id: "task3", order: 2, rankKey: "000002i" },
       ] as unknown as Task[];
 
       // Mock task repository
       const mockTaskRepository: TaskRepository = {
         findRootTasks: mock(async () => sampleTasks),
-        findRootTasksWithPagination: mock(async (_: PaginationParams) => sampleTasks),
+        findTasksWithPagination: mock(async (_: PaginationParams) => ({
+          items: sampleTasks,
+          nextCursor: null,
+          totalCount: sampleTasks.length,
+        })),
         findByParentId: mock(async (_: string) => sampleTasks),
+        findSiblings: mock(async (_: string | null) => sampleTasks),
+        findAncestors: mock(async (_: string) => []),
+        findAncestorIds: mock(async (_: string) => []),
+        findDescendants: mock(async (_: string) => []),
+        countDescendants: mock(async (_: string) => 0),
         findById: mock(async (_: string) => null),
+        shiftSiblings: mock(async (_: string | null, __: number) => {}),
         save: mock(async (task: Task) => task),
         delete: mock(async (_: string) => {}),
         updateOrder: mock(async (tasks: readonly Task[]) => tasks),
         findTaskTree: mock(async (_: string) => null),
         moveTask: mock(async (_: string, __: string | null) => null),
+        findByDueDate: mock(async (_: DueDateQuery) => []),
+        findByRecurringPatternId: mock(async (_: string) => []),
+        findPath: mock(async (_: string) => []),
+        findPaths: mock(async (_: readonly string[]) => new Map()),
+        findExistingIds: mock(async (_: readonly string[]) => []),
+        search: mock(async (_: TaskSearchQuery) => []),
+        insertTrees: mock(async (_: readonly Task[]) => {}),
+        trash: mock(async (_: string, __: Date) => {}),
+        findTrash: mock(async () => []),
+        findTrashedById: mock(async (_: string) => null),
+        restore: mock(async (_: string, __: string | null, ___: number) => {}),
+        findParentIdsWithRanksLongerThan: mock(async (_: number) => []),
+        purgeTrash: mock(async (_: Date) => 0),
       };
 
-      const useCase = new ReorderTasksUseCase(mockTaskRepository);
+      const mockTaskEventRepository: TaskEventRepository = {
+        append: mock(async () => {}),
+        find: mock(async () => []),
+        findAfter: mock(async () => []),
+        findLastUndoableOperation: mock(async () => []),
+        findLastRedoableOperation: mock(async () => []),
+      };
+      const transactionManager: TransactionManager = {
+        runInTransaction: (work) => work(),
+        afterCommit: (callback) => callback(),
+      };
+
+      const useCase = new ReorderTasksUseCase(mockTaskRepository, mockTaskEventRepository, transactionManager);
 
       // Valid order map with continuous sequence
       await expect(
@@ -79,4 +214,1837 @@ describe("Use Cases", () => {
       ).rejects.toThrow("not siblings");
     });
   });
+
+  describe("GetOverdueTasksUseCase", () => {
+    it("should exclude tasks that are completed or not yet due", async () => {
+      const now = new Date("2024-06-15T00:00:00Z");
+      const parent = Task.create("Parent");
+      const overdue = Task.create("Overdue", parent.id, null, undefined, "todo", 1, undefined, undefined, [], {
+        dueDate: new Date("2024-06-10T00:00:00Z"),
+      });
+      const completed = Task.markAsCompleted(
+        Task.create("Completed", parent.id, null, undefined, "todo", 2, undefined, undefined, [], {
+          dueDate: new Date("2024-06-11T00:00:00Z"),
+        }),
+      );
+      const dueNow = Task.create("Due now", parent.id, null, undefined, "todo", 3, undefined, undefined, [], {
+        dueDate: now,
+      });
+
+      const mockTaskRepository = {
+        findByDueDate: mock(async (_: DueDateQuery) => [overdue, completed, dueNow]),
+        findPaths: mock(
+          async (ids: readonly string[]) => new Map(ids.map((id) => [id, [{ id: parent.id, title: parent.title }]])),
+        ),
+      } as unknown as TaskRepository;
+
+      const mockWorkflowRepository = {
+        find: mock(async () => Workflow.standard),
+      } as unknown as WorkflowRepository;
+
+      const useCase = new GetOverdueTasksUseCase(mockTaskRepository, mockWorkflowRepository);
+      const result = await useCase.execute(now);
+
+      expect(result.map((t) => t.id)).toEqual([overdue.id]);
+      expect(result[0]?.path).toEqual([{ id: parent.id, title: "Parent" }]);
+    });
+  });
+
+  describe("Task paths", () => {
+    it("should return the ancestors of a task and embed its path on request", async () => {
+      const root = Task.create("Root");
+      const child = Task.create("Child", root.id);
+      const grandchild = Task.create("Grandchild", child.id);
+
+      const mockTaskRepository = {
+        findById: mock(async (id: string) => [root, child, grandchild].find((task) => task.id === id) ?? null),
+        findAncestors: mock(async (_: string) => [root, child]),
+        findPath: mock(async (_: string) => [
+          { id: root.id, title: root.title },
+          { id: child.id, title: child.title },
+        ]),
+      } as unknown as TaskRepository;
+
+      const ancestors = await new GetTaskAncestorsUseCase(mockTaskRepository).execute(grandchild.id);
+      expect(ancestors.map((t) => t.id)).toEqual([root.id, child.id]);
+      await expect(new GetTaskAncestorsUseCase(mockTaskRepository).execute("missing")).rejects.toThrow(
+        TaskNotFoundError,
+      );
+
+      const getTaskById = new GetTaskByIdUseCase(mockTaskRepository);
+      expect(await getTaskById.execute(grandchild.id, undefined, true)).toMatchObject({
+        id: grandchild.id,
+        path: [
+          { id: root.id, title: "Root" },
+          { id: child.id, title: "Child" },
+        ],
+      });
+      expect(await getTaskById.execute(grandchild.id)).not.toHaveProperty("path");
+    });
+  });
+
+  describe("Tags", () => {
+    const createUseCases = () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const tagRepository = new DrizzleTagRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        new PropagateStatusUseCase(
+          taskRepository,
+          new DrizzleStatusPropagationPolicyRepository(db),
+          taskEventRepository,
+          new DrizzleWorkflowRepository(db),
+        ),
+        new DrizzleTransactionManager(db),
+        new DrizzleWorkflowRepository(db),
+      );
+      return {
+        taskRepository,
+        createTaskUseCase,
+        createTagUseCase: new CreateTagUseCase(tagRepository),
+        deleteTagUseCase: new DeleteTagUseCase(tagRepository),
+        addTagToTaskUseCase: new AddTagToTaskUseCase(taskRepository, tagRepository),
+        removeTagFromTaskUseCase: new RemoveTagFromTaskUseCase(taskRepository, tagRepository),
+        getRootTasksUseCase: new GetRootTasksUseCase(taskRepository),
+      };
+    };
+
+    it("should tag and untag a task", async () => {
+      const { createTaskUseCase, createTagUseCase, addTagToTaskUseCase, removeTagFromTaskUseCase } = createUseCases();
+      const task = await createTaskUseCase.execute({ title: "Write report" });
+      const work = await createTagUseCase.execute({ name: "work" });
+      const urgent = await createTagUseCase.execute({ name: "urgent", color: "#ff0000" });
+      await expect(createTagUseCase.execute({ name: "work" })).rejects.toThrow(DuplicateTagNameError);
+
+      await addTagToTaskUseCase.execute({ taskId: task.id, tagId: work.id });
+      const tagged = await addTagToTaskUseCase.execute({ taskId: task.id, tagId: urgent.id });
+      expect(tagged.tags.map((t) => t.name)).toEqual(["urgent", "work"]);
+
+      const untagged = await removeTagFromTaskUseCase.execute({ taskId: task.id, tagId: work.id });
+      expect(untagged.tags.map((t) => t.name)).toEqual(["urgent"]);
+
+      await expect(addTagToTaskUseCase.execute({ taskId: "missing", tagId: work.id })).rejects.toThrow(
+        TaskNotFoundError,
+      );
+      await expect(addTagToTaskUseCase.execute({ taskId: task.id, tagId: "missing" })).rejects.toThrow(
+        TagNotFoundError,
+      );
+      await expect(removeTagFromTaskUseCase.execute({ taskId: task.id, tagId: "missing" })).rejects.toThrow(
+        TagNotFoundError,
+      );
+    });
+
+    it("should list root tasks carrying any or all of the given tags", async () => {
+      const { createTaskUseCase, createTagUseCase, addTagToTaskUseCase, getRootTasksUseCase } = createUseCases();
+      const both = await createTaskUseCase.execute({ title: "Both" });
+      const workOnly = await createTaskUseCase.execute({ title: "Work only" });
+      await createTaskUseCase.execute({ title: "Untagged" });
+      const work = await createTagUseCase.execute({ name: "work" });
+      const urgent = await createTagUseCase.execute({ name: "urgent" });
+      await addTagToTaskUseCase.execute({ taskId: both.id, tagId: work.id });
+      await addTagToTaskUseCase.execute({ taskId: both.id, tagId: urgent.id });
+      await addTagToTaskUseCase.execute({ taskId: workOnly.id, tagId: work.id });
+
+      const tagIds = [work.id, urgent.id];
+      const anyMatch = await getRootTasksUseCase.execute({ limit: 10 }, { tagIds, tagMatch: "any" });
+      expect(anyMatch.items.map((t) => t.title)).toEqual(["Both", "Work only"]);
+      expect(anyMatch.totalCount).toBe(2);
+
+      const allMatch = await getRootTasksUseCase.execute({ limit: 10 }, { tagIds, tagMatch: "all" });
+      expect(allMatch.items.map((t) => t.title)).toEqual(["Both"]);
+      expect(allMatch.totalCount).toBe(1);
+    });
+
+    it("should delete a tag that is still attached to tasks and keep the tasks", async () => {
+      const { taskRepository, createTaskUseCase, createTagUseCase, deleteTagUseCase, addTagToTaskUseCase } =
+        createUseCases();
+      const task = await createTaskUseCase.execute({ title: "Write report" });
+      const work = await createTagUseCase.execute({ name: "work" });
+      const urgent = await createTagUseCase.execute({ name: "urgent" });
+      await addTagToTaskUseCase.execute({ taskId: task.id, tagId: work.id });
+      await addTagToTaskUseCase.execute({ taskId: task.id, tagId: urgent.id });
+
+      expect(await deleteTagUseCase.execute(work.id)).toBe(true);
+      expect((await taskRepository.findById(task.id))?.tags.map((t) => t.name)).toEqual(["urgent"]);
+      expect(await deleteTagUseCase.execute(work.id)).toBe(false);
+
+      // The name is free again once the tag is gone
+      expect((await createTagUseCase.execute({ name: "work" })).id).not.toBe(work.id);
+    });
+  });
+
+  describe("Bulk operations", () => {
+    const createBulkUseCase = () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const transactionManager = new DrizzleTransactionManager(db);
+      const propagateStatusUseCase = new PropagateStatusUseCase(
+        taskRepository,
+        new DrizzleStatusPropagationPolicyRepository(db),
+        taskEventRepository,
+        new DrizzleWorkflowRepository(db),
+      );
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const updateTaskUseCase = new UpdateTaskUseCase(
+        taskRepository,
+        new CreateNextRecurringInstanceUseCase(
+          new DrizzleRecurringPatternRepository(db),
+          taskRepository,
+          createTaskUseCase,
+        ),
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+
+      return {
+        taskRepository,
+        createTaskUseCase,
+        bulkUseCase: new BulkTaskOperationsUseCase(
+          createTaskUseCase,
+          updateTaskUseCase,
+          new MoveTaskUseCase(
+            taskRepository,
+            taskEventRepository,
+            propagateStatusUseCase,
+            new RebalanceRanksUseCase(taskRepository, transactionManager),
+            transactionManager,
+          ),
+          new DeleteTaskUseCase(taskRepository, taskEventRepository, propagateStatusUseCase, transactionManager),
+          transactionManager,
+          new DrizzleWorkflowRepository(db),
+        ),
+      };
+    };
+
+    it("should roll back every operation when one fails in all-or-nothing mode", async () => {
+      const { taskRepository, createTaskUseCase, bulkUseCase } = createBulkUseCase();
+      const first = await createTaskUseCase.execute({ title: "First" });
+      const second = await createTaskUseCase.execute({ title: "Second" });
+
+      const result = await bulkUseCase.execute([
+        { type: "complete", id: first.id },
+        { type: "move", id: second.id, newParentId: first.id },
+        { type: "delete", id: "00000000-0000-4000-8000-000000000000" },
+        { type: "create", title: "Never created" },
+      ]);
+
+      expect(result.succeeded).toBe(false);
+      expect(result.results.map((r) => r.status)).toEqual(["rolledBack", "rolledBack", "failed", "skipped"]);
+      expect(result.results[2]?.error).toContain("not found");
+
+      const roots = await taskRepository.findRootTasks();
+      expect(roots.map((t) => [t.title, t.status])).toEqual([
+        ["First", "todo"],
+        ["Second", "todo"],
+      ]);
+    });
+
+    it("should apply the valid operations in best-effort mode", async () => {
+      const { taskRepository, createTaskUseCase, bulkUseCase } = createBulkUseCase();
+      const first = await createTaskUseCase.execute({ title: "First" });
+      const second = await createTaskUseCase.execute({ title: "Second" });
+
+      const result = await bulkUseCase.execute(
+        [
+          { type: "update", id: first.id, title: "First v2", expectedVersion: first.version },
+          // Based on the version before the update
+          { type: "complete", id: first.id, expectedVersion: first.version },
+          { type: "move", id: first.id, newParentId: first.id },
+          { type: "delete", id: second.id },
+          { type: "create", title: "Third", parentId: first.id },
+        ],
+        "bestEffort",
+      );
+
+      expect(result.succeeded).toBe(false);
+      expect(result.results.map((r) => r.status)).toEqual(["succeeded", "failed", "failed", "succeeded", "succeeded"]);
+      expect(result.results[0]?.task?.title).toBe("First v2");
+      expect(result.results[1]?.error).toContain(`not ${first.version}`);
+
+      const roots = await taskRepository.findRootTasks();
+      expect(roots.map((t) => t.title)).toEqual(["First v2"]);
+      expect(roots[0]?.subtasks.map((t) => t.title)).toEqual(["Third"]);
+    });
+  });
+
+  describe("Task duplication", () => {
+    it("should copy a task tree with new IDs right after the original", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const tagRepository = new DrizzleTagRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const transactionManager = new DrizzleTransactionManager(db);
+      const propagateStatusUseCase = new PropagateStatusUseCase(
+        taskRepository,
+        new DrizzleStatusPropagationPolicyRepository(db),
+        taskEventRepository,
+        new DrizzleWorkflowRepository(db),
+      );
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const duplicateTaskUseCase = new DuplicateTaskUseCase(
+        taskRepository,
+        tagRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+
+      const first = await createTaskUseCase.execute({ title: "First" });
+      const last = await createTaskUseCase.execute({ title: "Last" });
+      const child = await createTaskUseCase.execute({ title: "Child", parentId: first.id });
+      await createTaskUseCase.execute({ title: "Grandchild", parentId: child.id });
+      await taskRepository.save({ ...child, status: "done" }, false);
+      const tag = await tagRepository.save(Tag.create("work"));
+      await tagRepository.attachToTask(child.id, tag.id);
+
+      const copy = await duplicateTaskUseCase.execute({ id: first.id, titleSuffix: " (copy)" });
+      expect(copy.title).toBe("First (copy)");
+      expect(copy.id).not.toBe(first.id);
+      expect(copy.subtasks[0]?.id).not.toBe(child.id);
+      expect(copy.subtasks[0]?.title).toBe("Child");
+      expect(copy.subtasks[0]?.status).toBe("done");
+      expect(copy.subtasks[0]?.tags.map((t) => t.name)).toEqual(["work"]);
+      expect(copy.subtasks[0]?.subtasks[0]?.title).toBe("Grandchild");
+
+      // The copies are new tasks, whatever the version of their originals
+      expect((await taskRepository.findById(child.id, 0))?.version).toBeGreaterThan(1);
+      expect(Task.getTaskHierarchy(copy).map((t) => t.version)).toEqual([1, 1, 1]);
+
+      // The sibling making room for the copy is recorded as reordered along with the copy
+      const [lastEvent] = await taskEventRepository.find({ taskId: last.id, limit: 1 });
+      const [copyEvent] = await taskEventRepository.find({ taskId: copy.id, limit: 1 });
+      expect(lastEvent?.type).toBe("reordered");
+      expect(lastEvent?.changes.order).toEqual({ before: 2, after: 3 });
+      expect(lastEvent?.operationId).toBe(copyEvent?.operationId as string);
+
+      const roots = await taskRepository.findRootTasks();
+      expect(roots.map((t) => [t.title, t.order])).toEqual([
+        ["First", 1],
+        ["First (copy)", 2],
+        ["Last", 3],
+      ]);
+      expect((await taskRepository.findById(last.id, 0))?.order).toBe(3);
+
+      // Copying into another parent appends the copy there
+      const reset = await duplicateTaskUseCase.execute({ id: child.id, parentId: last.id, resetStatus: true });
+      expect(reset.parentId).toBe(last.id);
+      expect(reset.order).toBe(1);
+      expect(Task.getTaskHierarchy(reset).map((t) => t.status)).toEqual(["todo", "todo"]);
+
+      await expect(
+        duplicateTaskUseCase.execute({ id: first.id, parentId: "00000000-0000-4000-8000-000000000000" }),
+      ).rejects.toThrow("not found");
+    });
+  });
+
+  describe("Status propagation", () => {
+    it("should complete and reopen ancestors according to the policy of their tree", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const statusPropagationPolicyRepository = new DrizzleStatusPropagationPolicyRepository(db);
+      const transactionManager = new DrizzleTransactionManager(db);
+      const propagateStatusUseCase = new PropagateStatusUseCase(
+        taskRepository,
+        statusPropagationPolicyRepository,
+        taskEventRepository,
+        new DrizzleWorkflowRepository(db),
+      );
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const updateTaskUseCase = new UpdateTaskUseCase(
+        taskRepository,
+        new CreateNextRecurringInstanceUseCase(
+          new DrizzleRecurringPatternRepository(db),
+          taskRepository,
+          createTaskUseCase,
+        ),
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const deleteTaskUseCase = new DeleteTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+      );
+      const moveTaskUseCase = new MoveTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        new RebalanceRanksUseCase(taskRepository, transactionManager),
+        transactionManager,
+      );
+      const revertOperationUseCase = new RevertOperationUseCase(
+        taskRepository,
+        taskEventRepository,
+        transactionManager,
+      );
+      const undoUseCase = new UndoUseCase(taskEventRepository, revertOperationUseCase, transactionManager);
+
+      const root = await createTaskUseCase.execute({ title: "Release" });
+      const build = await createTaskUseCase.execute({ title: "Build", parentId: root.id });
+      const compile = await createTaskUseCase.execute({ title: "Compile", parentId: build.id });
+      const test = await createTaskUseCase.execute({ title: "Test", parentId: build.id });
+      const statusOf = async (id: string) => (await taskRepository.findById(id, 0))?.status;
+
+      // Without a policy nothing spreads upwards
+      await updateTaskUseCase.execute({ id: compile.id, status: "done" });
+      await updateTaskUseCase.execute({ id: test.id, status: "done" });
+      expect(await statusOf(build.id)).toBe("todo");
+
+      const setting = await new UpdateStatusPropagationUseCase(
+        taskRepository,
+        statusPropagationPolicyRepository,
+      ).execute(compile.id, "completeAndReopen");
+      expect(setting).toEqual({ rootId: root.id, policy: "completeAndReopen" });
+
+      // Completing the last open subtask completes every ancestor it was holding back
+      await updateTaskUseCase.execute({ id: test.id, status: "todo" });
+      await updateTaskUseCase.execute({ id: test.id, status: "done" });
+      expect([await statusOf(build.id), await statusOf(root.id)]).toEqual(["done", "done"]);
+
+      // A new open subtask reopens them, and deleting it completes them again
+      const docs = await createTaskUseCase.execute({ title: "Docs", parentId: build.id });
+      expect([await statusOf(build.id), await statusOf(root.id)]).toEqual(["todo", "todo"]);
+      await deleteTaskUseCase.execute(docs.id);
+      expect([await statusOf(build.id), await statusOf(root.id)]).toEqual(["done", "done"]);
+
+      // Moving an open task in reopens the new parent
+      const stray = await createTaskUseCase.execute({ title: "Stray" });
+      await moveTaskUseCase.execute({ taskId: stray.id, newParentId: build.id });
+      expect([await statusOf(build.id), await statusOf(root.id)]).toEqual(["todo", "todo"]);
+      await moveTaskUseCase.execute({ taskId: stray.id, newParentId: null });
+      expect([await statusOf(build.id), await statusOf(root.id)]).toEqual(["done", "done"]);
+
+      // Propagated changes belong to the operation that caused them
+      await updateTaskUseCase.execute({ id: compile.id, status: "todo" });
+      expect([await statusOf(build.id), await statusOf(root.id)]).toEqual(["todo", "todo"]);
+      await undoUseCase.execute(1);
+      expect([await statusOf(compile.id), await statusOf(build.id), await statusOf(root.id)]).toEqual([
+        "done",
+        "done",
+        "done",
+      ]);
+    });
+  });
+
+  describe("Task positions", () => {
+    it("should place a task between siblings, keep their orders in step and rebalance long keys", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const transactionManager = new DrizzleTransactionManager(db);
+      const propagateStatusUseCase = new PropagateStatusUseCase(
+        taskRepository,
+        new DrizzleStatusPropagationPolicyRepository(db),
+        taskEventRepository,
+        new DrizzleWorkflowRepository(db),
+      );
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const rebalanceRanksUseCase = new RebalanceRanksUseCase(taskRepository, transactionManager);
+      const positionTaskUseCase = new PositionTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        rebalanceRanksUseCase,
+        transactionManager,
+      );
+      const titles = async (parentId?: string) =>
+        (parentId ? await taskRepository.findByParentId(parentId) : await taskRepository.findRootTasks()).map(
+          (t) => t.title,
+        );
+
+      const plan = await createTaskUseCase.execute({ title: "Plan" });
+      const build = await createTaskUseCase.execute({ title: "Build" });
+      const ship = await createTaskUseCase.execute({ title: "Ship" });
+      const write = await createTaskUseCase.execute({ title: "Write docs", parentId: ship.id });
+
+      // Only the placed task gets a new rank; the orders of its siblings are renumbered to match
+      const before = new Map((await taskRepository.findRootTasks()).map((t) => [t.id, t]));
+      const placed = await positionTaskUseCase.execute({ taskId: ship.id, before: build.id });
+      expect(await titles()).toEqual(["Plan", "Ship", "Build"]);
+      const roots = await taskRepository.findRootTasks();
+      expect(roots.map((t) => t.order)).toEqual([1, 2, 3]);
+      expect(roots.map((t) => t.rankKey === before.get(t.id)?.rankKey)).toEqual([true, false, true]);
+      expect(placed.subtasks.map((t) => t.id)).toEqual([write.id]);
+      const positionEvents = await taskEventRepository.find({ limit: 2 });
+      expect(positionEvents.map((e) => [e.taskId, e.type, e.changes.order])).toEqual([
+        [build.id, "reordered", { before: 2, after: 3 }],
+        [ship.id, "reordered", { before: 3, after: 2 }],
+      ]);
+      await expect(
+        positionTaskUseCase.execute({ taskId: ship.id, after: build.id, expectedVersion: ship.version }),
+      ).rejects.toThrow(TaskVersionMismatchError);
+
+      // A sibling under another parent moves the task over; neighbours must share the parent
+      await positionTaskUseCase.execute({ taskId: build.id, after: write.id });
+      expect(await titles()).toEqual(["Plan", "Ship"]);
+      expect(await titles(ship.id)).toEqual(["Write docs", "Build"]);
+      expect((await taskRepository.findByParentId(ship.id)).map((t) => t.order)).toEqual([1, 2]);
+      await expect(positionTaskUseCase.execute({ taskId: plan.id, before: write.id, parentId: null })).rejects.toThrow(
+        InvalidOrderError,
+      );
+      await expect(positionTaskUseCase.execute({ taskId: ship.id, parentId: write.id })).rejects.toThrow(
+        CircularReferenceError,
+      );
+      const events = await taskEventRepository.find({ limit: 2 });
+      expect(events.map((e) => e.type)).toEqual(["moved", "reordered"]);
+
+      // Keys grown too long from placing tasks at the same spot over and over are rebalanced, keeping the order
+      const step = await createTaskUseCase.execute({ title: "Step" });
+      await taskRepository.save({ ...step, rankKey: `${"0".repeat(Rank.maxLength)}i` }, false);
+      const crowded = await taskRepository.findRootTasks();
+      expect(crowded.map((t) => t.title)).toEqual(["Step", "Plan", "Ship"]);
+
+      expect(await rebalanceRanksUseCase.execute()).toBe(1);
+      const rebalanced = await taskRepository.findRootTasks();
+      expect(rebalanced.map((t) => t.id)).toEqual(crowded.map((t) => t.id));
+      expect(rebalanced.map((t) => t.order)).toEqual(rebalanced.map((_, index) => index + 1));
+      expect(rebalanced.every((t) => !Rank.needsRebalance(t.rankKey))).toBe(true);
+      expect(await rebalanceRanksUseCase.execute()).toBe(0);
+    });
+  });
+
+  describe("Workflow", () => {
+    it("should enforce transitions and roll statuses up by category", () => {
+      const release = Task.create("Release", null, null, undefined, "in_progress");
+      const build = Task.create("Build", release.id, null, undefined, "done", 1);
+      const docs = Task.create("Docs", release.id, null, undefined, "blocked", 2);
+      const tree = { ...release, subtasks: [build, docs] };
+
+      // A blocked task has to be unblocked before it can be done
+      expect(() => Task.changeStatus(docs, "done")).toThrow(InvalidStatusTransitionError);
+      expect(Task.changeStatus(docs, "in_progress").status).toBe("in_progress");
+
+      // Closing a task closes its open subtasks with the same status
+      const cancelled = Task.changeStatus(tree, "cancelled");
+      expect(cancelled.subtasks.map((t) => t.status)).toEqual(["done", "cancelled"]);
+      expect(() => Task.changeStatus(cancelled, "in_progress")).toThrow(InvalidStatusTransitionError);
+
+      // Cancelled subtasks count as closed when completing their parent
+      const cancelledDocs = { ...tree, subtasks: [build, { ...docs, status: "cancelled" as const }] };
+      expect(Task.propagateStatus(cancelledDocs, release.id, "complete").status).toBe("done");
+      expect(Task.propagateStatus(tree, release.id, "completeAndReopen").status).toBe("in_progress");
+
+      // Statuses of earlier versions are still accepted
+      expect(taskStatusSchema.parse("completed")).toBe("done");
+      expect(taskStatusSchema.parse("incomplete")).toBe("todo");
+      expect(taskStatusSchema.safeParse("archived").success).toBe(false);
+    });
+
+    it("should apply the configured workflow to new tasks, status changes, propagation and bulk completion", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const transactionManager = new DrizzleTransactionManager(db);
+      const workflowRepository = new DrizzleWorkflowRepository(db);
+      const propagateStatusUseCase = new PropagateStatusUseCase(
+        taskRepository,
+        new DrizzleStatusPropagationPolicyRepository(db),
+        taskEventRepository,
+        workflowRepository,
+      );
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        workflowRepository,
+      );
+      const updateTaskUseCase = new UpdateTaskUseCase(
+        taskRepository,
+        new CreateNextRecurringInstanceUseCase(
+          new DrizzleRecurringPatternRepository(db),
+          taskRepository,
+          createTaskUseCase,
+        ),
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        workflowRepository,
+      );
+      const bulkUseCase = new BulkTaskOperationsUseCase(
+        createTaskUseCase,
+        updateTaskUseCase,
+        new MoveTaskUseCase(
+          taskRepository,
+          taskEventRepository,
+          propagateStatusUseCase,
+          new RebalanceRanksUseCase(taskRepository, transactionManager),
+          transactionManager,
+        ),
+        new DeleteTaskUseCase(taskRepository, taskEventRepository, propagateStatusUseCase, transactionManager),
+        transactionManager,
+        workflowRepository,
+      );
+      const updateWorkflowUseCase = new UpdateWorkflowUseCase(workflowRepository);
+
+      // Tasks start out in progress, and blocked tasks are parked for good unless they are started over
+      const states = {
+        ...Workflow.standard.states,
+        blocked: { category: "closed", transitions: ["todo"] },
+      } as const;
+      await expect(
+        updateWorkflowUseCase.execute({ states, initialStatus: "blocked", completedStatus: "done" }),
+      ).rejects.toThrow(InvalidWorkflowError);
+      const workflow = await updateWorkflowUseCase.execute({
+        states,
+        initialStatus: "in_progress",
+        completedStatus: "done",
+      });
+      expect(await new GetWorkflowUseCase(workflowRepository).execute()).toEqual(workflow);
+
+      const release = await createTaskUseCase.execute({ title: "Release" });
+      const build = await createTaskUseCase.execute({ title: "Build", parentId: release.id });
+      const docs = await createTaskUseCase.execute({ title: "Docs", parentId: release.id });
+      expect([release, build, docs].map((t) => t.status)).toEqual(["in_progress", "in_progress", "in_progress"]);
+      await new UpdateStatusPropagationUseCase(
+        taskRepository,
+        new DrizzleStatusPropagationPolicyRepository(db),
+      ).execute(release.id, "completeAndReopen");
+
+      await updateTaskUseCase.execute({ id: build.id, status: "blocked" });
+      await expect(updateTaskUseCase.execute({ id: build.id, status: "in_progress" })).rejects.toThrow(
+        InvalidStatusTransitionError,
+      );
+
+      // Parked subtasks count as closed, so completing the last open one completes the release
+      await bulkUseCase.execute([{ type: "complete", id: docs.id }]);
+      expect((await taskRepository.findById(release.id, 0))?.status).toBe("done");
+
+      await bulkUseCase.execute([{ type: "uncomplete", id: docs.id }]);
+      expect((await taskRepository.findById(docs.id, 0))?.status).toBe("in_progress");
+      expect((await taskRepository.findById(release.id, 0))?.status).toBe("in_progress");
+    });
+  });
+
+  describe("Task dependencies", () => {
+    it("should reject circular dependencies and refuse to complete tasks with open blockers unless forced", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const taskDependencyRepository = new DrizzleTaskDependencyRepository(db);
+      const transactionManager = new DrizzleTransactionManager(db);
+      const propagateStatusUseCase = new PropagateStatusUseCase(
+        taskRepository,
+        new DrizzleStatusPropagationPolicyRepository(db),
+        taskEventRepository,
+        new DrizzleWorkflowRepository(db),
+      );
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const updateTaskUseCase = new UpdateTaskUseCase(
+        taskRepository,
+        new CreateNextRecurringInstanceUseCase(
+          new DrizzleRecurringPatternRepository(db),
+          taskRepository,
+          createTaskUseCase,
+        ),
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const addTaskDependencyUseCase = new AddTaskDependencyUseCase(
+        taskRepository,
+        taskDependencyRepository,
+        transactionManager,
+      );
+      const removeTaskDependencyUseCase = new RemoveTaskDependencyUseCase(taskRepository, taskDependencyRepository);
+      const getTaskBlockersUseCase = new GetTaskBlockersUseCase(taskRepository);
+
+      const design = await createTaskUseCase.execute({ title: "Design" });
+      const build = await createTaskUseCase.execute({ title: "Build" });
+      const release = await createTaskUseCase.execute({ title: "Release" });
+
+      const blocked = await addTaskDependencyUseCase.execute({ taskId: release.id, blockerId: build.id });
+      await addTaskDependencyUseCase.execute({ taskId: build.id, blockerId: design.id });
+      expect(blocked.blockedBy).toEqual([build.id]);
+      expect((await getTaskBlockersUseCase.execute(release.id))?.map((t) => t.title)).toEqual(["Build"]);
+
+      // Dependencies may not loop back, directly or through other tasks
+      await expect(addTaskDependencyUseCase.execute({ taskId: design.id, blockerId: release.id })).rejects.toThrow(
+        CircularReferenceError,
+      );
+      await expect(addTaskDependencyUseCase.execute({ taskId: design.id, blockerId: design.id })).rejects.toThrow(
+        CircularReferenceError,
+      );
+
+      // Open blockers hold up completion, unless it is forced
+      await expect(updateTaskUseCase.execute({ id: release.id, status: "done" })).rejects.toThrow(OpenBlockersError);
+      await updateTaskUseCase.execute({ id: design.id, status: "done" });
+      await updateTaskUseCase.execute({ id: build.id, status: "done" });
+      expect((await updateTaskUseCase.execute({ id: release.id, status: "done" }))?.status).toBe("done");
+
+      const signOff = await createTaskUseCase.execute({ title: "Sign-off" });
+      const deploy = await createTaskUseCase.execute({ title: "Deploy" });
+      await addTaskDependencyUseCase.execute({ taskId: deploy.id, blockerId: signOff.id });
+      const forced = await updateTaskUseCase.execute({ id: deploy.id, status: "done", force: true });
+      expect(forced?.status).toBe("done");
+
+      const unblocked = await removeTaskDependencyUseCase.execute({ taskId: deploy.id, blockerId: signOff.id });
+      expect(unblocked?.blockedBy).toEqual([]);
+      expect(await removeTaskDependencyUseCase.execute({ taskId: deploy.id, blockerId: signOff.id })).toBeNull();
+    });
+  });
+
+  describe("Task templates", () => {
+    it("should save a task tree as a template and instantiate it with variables", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const taskTemplateRepository = new DrizzleTaskTemplateRepository(db);
+      const transactionManager = new DrizzleTransactionManager(db);
+      const propagateStatusUseCase = new PropagateStatusUseCase(
+        taskRepository,
+        new DrizzleStatusPropagationPolicyRepository(db),
+        taskEventRepository,
+        new DrizzleWorkflowRepository(db),
+      );
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const createTemplateUseCase = new CreateTaskTemplateUseCase(taskTemplateRepository, taskRepository);
+      const instantiateUseCase = new InstantiateTaskTemplateUseCase(
+        taskTemplateRepository,
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+
+      const release = await createTaskUseCase.execute({ title: "Release {{version}}", priority: "high" });
+      await createTaskUseCase.execute({ title: "Tag v{{ version }}", parentId: release.id });
+      await createTaskUseCase.execute({
+        title: "Announce",
+        description: "Post to {{channel}}",
+        parentId: release.id,
+      });
+      await taskRepository.save({ ...release, status: "done" }, false);
+
+      const template = await createTemplateUseCase.execute({ name: "Release checklist", taskId: release.id });
+      expect(TaskTemplate.variables(template)).toEqual(["version", "channel"]);
+
+      const instance = await instantiateUseCase.execute({
+        templateId: template.id,
+        variables: { version: "1.2.0", channel: "#releases" },
+      });
+      expect(instance.id).not.toBe(release.id);
+      expect(instance.order).toBe(2);
+      expect(instance.status).toBe("todo");
+      expect(instance.priority).toBe("high");
+      expect(instance.title).toBe("Release 1.2.0");
+      expect(instance.subtasks.map((t) => [t.title, t.description])).toEqual([
+        ["Tag v1.2.0", null],
+        ["Announce", "Post to #releases"],
+      ]);
+
+      await expect(
+        instantiateUseCase.execute({ templateId: template.id, variables: { version: "1.3.0" } }),
+      ).rejects.toThrow("Missing values for template variables: channel");
+
+      // Templates can also be given as a task tree directly
+      const onboarding = await createTemplateUseCase.execute({
+        name: "Onboarding",
+        task: TemplateTask.create("Onboard {{name}}", null, "medium", [TemplateTask.create("Create accounts")]),
+      });
+      const parent = await createTaskUseCase.execute({ title: "Team" });
+      const onboarded = await instantiateUseCase.execute({
+        templateId: onboarding.id,
+        parentId: parent.id,
+        variables: { name: "Sam" },
+      });
+      expect(onboarded.parentId).toBe(parent.id);
+      expect(Task.getTaskHierarchy(onboarded).map((t) => t.title)).toEqual(["Onboard Sam", "Create accounts"]);
+      expect((await taskTemplateRepository.findAll()).map((t) => t.name)).toEqual(["Onboarding", "Release checklist"]);
+    });
+  });
+
+  describe("Recurring tasks", () => {
+    it("should calculate the next occurrence of each pattern type", () => {
+      // 2024-06-12 is a Wednesday
+      const wednesday = new Date("2024-06-12T09:00:00Z");
+
+      expect(RecurringPattern.nextOccurrence(RecurringPattern.create("daily", 2), wednesday)).toEqual(
+        new Date("2024-06-14T09:00:00Z"),
+      );
+      expect(RecurringPattern.nextOccurrence(RecurringPattern.create("weekly", 2, [1, 5]), wednesday)).toEqual(
+        new Date("2024-06-14T09:00:00Z"),
+      );
+      expect(
+        RecurringPattern.nextOccurrence(RecurringPattern.create("weekly", 2, [1]), new Date("2024-06-14T09:00:00Z")),
+      ).toEqual(new Date("2024-06-24T09:00:00Z"));
+      expect(
+        RecurringPattern.nextOccurrence(
+          RecurringPattern.create("monthly", 1, null, 31),
+          new Date("2024-03-31T09:00:00Z"),
+        ),
+      ).toEqual(new Date("2024-04-30T09:00:00Z"));
+      expect(
+        RecurringPattern.nextOccurrence(
+          RecurringPattern.create("daily", 1, null, null, new Date("2024-06-12T23:59:59Z")),
+          wednesday,
+        ),
+      ).toBeNull();
+    });
+
+    it("should create the next instance with a copy of the subtask tree when an instance is completed", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const transactionManager = new DrizzleTransactionManager(db);
+      const propagateStatusUseCase = new PropagateStatusUseCase(
+        taskRepository,
+        new DrizzleStatusPropagationPolicyRepository(db),
+        taskEventRepository,
+        new DrizzleWorkflowRepository(db),
+      );
+      const recurringPatternRepository = new DrizzleRecurringPatternRepository(db);
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const updateTaskUseCase = new UpdateTaskUseCase(
+        taskRepository,
+        new CreateNextRecurringInstanceUseCase(recurringPatternRepository, taskRepository, createTaskUseCase),
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+
+      const todoPattern = await new CreateRecurringPatternUseCase(
+        recurringPatternRepository,
+        taskRepository,
+        createTaskUseCase,
+        transactionManager,
+      ).execute({
+        title: "Weekly review",
+        pattern: RecurringPattern.create("weekly", 1, null, null, null, 2),
+        startDate: new Date("2024-06-03T09:00:00Z"),
+      });
+
+      const [firstInstance] = await taskRepository.findByRecurringPatternId(todoPattern.id);
+      if (!firstInstance) {
+        throw new Error("First instance was not created");
+      }
+      const checklist = await createTaskUseCase.execute({ title: "Checklist", parentId: firstInstance.id });
+      await createTaskUseCase.execute({ title: "Inbox zero", parentId: checklist.id });
+
+      await updateTaskUseCase.execute({ id: firstInstance.id, status: "done" });
+
+      const instances = await taskRepository.findByRecurringPatternId(todoPattern.id);
+      expect(instances).toHaveLength(2);
+
+      const nextInstance = instances[1];
+      expect(nextInstance?.status).toBe("todo");
+      expect(nextInstance?.instanceDate).toEqual(new Date("2024-06-10T09:00:00Z"));
+      expect(nextInstance?.dueDate).toEqual(new Date("2024-06-10T09:00:00Z"));
+      expect(nextInstance?.subtasks.map((t) => t.title)).toEqual(["Checklist"]);
+      expect(nextInstance?.subtasks[0]?.subtasks.map((t) => t.title)).toEqual(["Inbox zero"]);
+      expect(nextInstance?.subtasks[0]?.id).not.toBe(checklist.id);
+
+      // The occurrence limit of two has been reached
+      await updateTaskUseCase.execute({ id: nextInstance?.id ?? "", status: "done" });
+      expect(await taskRepository.findByRecurringPatternId(todoPattern.id)).toHaveLength(2);
+    });
+
+    it("should apply pattern changes to pending instances and record them in the history", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const transactionManager = new DrizzleTransactionManager(db);
+      const recurringPatternRepository = new DrizzleRecurringPatternRepository(db);
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        new PropagateStatusUseCase(
+          taskRepository,
+          new DrizzleStatusPropagationPolicyRepository(db),
+          taskEventRepository,
+        ),
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const updateRecurringPatternUseCase = new UpdateRecurringPatternUseCase(
+        recurringPatternRepository,
+        taskRepository,
+        taskEventRepository,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+
+      const todoPattern = await new CreateRecurringPatternUseCase(
+        recurringPatternRepository,
+        taskRepository,
+        createTaskUseCase,
+        transactionManager,
+      ).execute({
+        title: "Water plants",
+        pattern: RecurringPattern.create("daily", 1),
+        startDate: new Date("2024-06-03T09:00:00Z"),
+      });
+
+      await updateRecurringPatternUseCase.execute(
+        { id: todoPattern.id, title: "Water the plants", applyToFutureInstances: true },
+        new Date("2024-06-01T00:00:00Z"),
+      );
+
+      const [instance] = await taskRepository.findByRecurringPatternId(todoPattern.id);
+      expect(instance?.title).toBe("Water the plants");
+      const [updated] = await taskEventRepository.find({ limit: 1 });
+      expect(updated?.type).toBe("updated");
+      expect(updated?.taskId).toBe(instance?.id as string);
+      expect(updated?.changes.title).toEqual({ before: "Water plants", after: "Water the plants" });
+    });
+  });
+
+  describe("Import and export", () => {
+    const checklist = [
+      "- [ ] Plan trip",
+      "  Book before the end of the month",
+      "  - [x] Choose dates",
+      "  - [ ] Book hotel",
+      "    - [ ] Compare prices",
+      "- [x] Renew passport",
+      "",
+    ].join("\n");
+
+    const createImportUseCase = (db: ReturnType<typeof createTestDb>) =>
+      new ImportTasksUseCase(
+        new DrizzleTaskRepository(db),
+        new DrizzleTaskEventRepository(db),
+        new DrizzleTransactionManager(db),
+      );
+
+    it("should round-trip a Markdown checklist and append imported tasks after existing roots", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      await new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        new PropagateStatusUseCase(
+          taskRepository,
+          new DrizzleStatusPropagationPolicyRepository(db),
+          taskEventRepository,
+        ),
+        new DrizzleTransactionManager(db),
+        new DrizzleWorkflowRepository(db),
+      ).execute({ title: "Existing task" });
+
+      const document = importDocumentSchema.parse(parseTasksMarkdown(checklist));
+      const result = await createImportUseCase(db).execute(document.tasks, "remap");
+      expect(result.importedCount).toBe(5);
+
+      // Every imported task is recorded as created by one operation
+      const events = await taskEventRepository.find({ limit: 10 });
+      expect(events.filter((e) => e.type === "created")).toHaveLength(6);
+      expect(new Set(events.slice(0, 5).map((e) => e.operationId)).size).toBe(1);
+
+      const exported = await new ExportTasksUseCase(taskRepository).execute();
+      expect(exported.map((t) => [t.title, t.order])).toEqual([
+        ["Existing task", 1],
+        ["Plan trip", 2],
+        ["Renew passport", 3],
+      ]);
+      expect(formatTasksAsMarkdown(exported.slice(1))).toBe(checklist);
+    });
+
+    it("should preserve IDs from a CSV export and leave the database untouched when they already exist", async () => {
+      const sourceDb = createTestDb();
+      const sourceRepository = new DrizzleTaskRepository(sourceDb);
+      await createImportUseCase(sourceDb).execute(
+        importDocumentSchema.parse(parseTasksMarkdown(checklist)).tasks,
+        "remap",
+      );
+      const csv = formatTasksAsCsv(await sourceRepository.findRootTasks());
+
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const importTasksUseCase = createImportUseCase(db);
+      const { tasks } = importDocumentSchema.parse(parseTasksCsv(csv));
+      await importTasksUseCase.execute(tasks, "preserve");
+
+      const imported = await taskRepository.findRootTasks();
+      expect(formatTasksAsCsv(imported)).toBe(csv);
+
+      await expect(importTasksUseCase.execute(tasks, "preserve")).rejects.toThrow(DuplicateTaskIdError);
+      expect(await taskRepository.findRootTasks()).toHaveLength(2);
+      expect(await new DrizzleTaskEventRepository(db).find({ limit: 10 })).toHaveLength(5);
+    });
+  });
+
+  describe("Trash", () => {
+    it("should hide trashed subtrees and restore them into their original slot", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const transactionManager = new DrizzleTransactionManager(db);
+      const propagateStatusUseCase = new PropagateStatusUseCase(
+        taskRepository,
+        new DrizzleStatusPropagationPolicyRepository(db),
+        taskEventRepository,
+        new DrizzleWorkflowRepository(db),
+      );
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const deleteTaskUseCase = new DeleteTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+      );
+      const restoreTaskUseCase = new RestoreTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+      );
+
+      const project = await createTaskUseCase.execute({ title: "Project" });
+      const design = await createTaskUseCase.execute({ title: "Design", parentId: project.id });
+      const build = await createTaskUseCase.execute({ title: "Build", parentId: project.id });
+      const review = await createTaskUseCase.execute({ title: "Review code", parentId: build.id });
+
+      await deleteTaskUseCase.execute(build.id);
+
+      expect((await taskRepository.findById(project.id))?.subtasks.map((t) => t.id)).toEqual([design.id]);
+      expect(await taskRepository.findById(review.id)).toBeNull();
+      expect(await taskRepository.search({ text: "review", limit: 10 })).toHaveLength(0);
+      expect((await new GetTrashUseCase(taskRepository).execute()).map((t) => t.id)).toEqual([build.id]);
+
+      // A new sibling takes the freed slot and is shifted down on restore
+      const deploy = await createTaskUseCase.execute({ title: "Deploy", parentId: project.id });
+      expect(deploy.order).toBe(build.order);
+
+      const restored = await restoreTaskUseCase.execute(build.id);
+      expect(restored?.subtasks.map((t) => t.id)).toEqual([review.id]);
+      expect((await taskRepository.findById(project.id))?.subtasks.map((t) => [t.id, t.order])).toEqual([
+        [design.id, 1],
+        [build.id, 2],
+        [deploy.id, 3],
+      ]);
+      expect(await new GetTrashUseCase(taskRepository).execute()).toHaveLength(0);
+    });
+
+    it("should restore to the root when the parent is in the trash and purge old items", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const transactionManager = new DrizzleTransactionManager(db);
+      const propagateStatusUseCase = new PropagateStatusUseCase(
+        taskRepository,
+        new DrizzleStatusPropagationPolicyRepository(db),
+        taskEventRepository,
+        new DrizzleWorkflowRepository(db),
+      );
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const deleteTaskUseCase = new DeleteTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+      );
+      const restoreTaskUseCase = new RestoreTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+      );
+
+      const project = await createTaskUseCase.execute({ title: "Project" });
+      const design = await createTaskUseCase.execute({ title: "Design", parentId: project.id });
+      const other = await createTaskUseCase.execute({ title: "Other" });
+
+      await deleteTaskUseCase.execute(design.id);
+      await Bun.sleep(5);
+      await deleteTaskUseCase.execute(project.id);
+
+      // Deleted separately, so both are listed
+      const trash = await new GetTrashUseCase(taskRepository).execute();
+      expect(trash.map((t) => t.id)).toEqual([project.id, design.id]);
+
+      const restored = await restoreTaskUseCase.execute(design.id);
+      expect(restored?.parentId).toBeNull();
+      expect((await taskRepository.findRootTasks()).map((t) => t.id)).toEqual([other.id, design.id]);
+
+      const purgeTrashUseCase = new PurgeTrashUseCase(taskRepository);
+      expect(await purgeTrashUseCase.execute(1)).toBe(0);
+      expect(await purgeTrashUseCase.execute(1, new Date(Date.now() + 2 * 24 * 60 * 60 * 1000))).toBe(1);
+      expect(await taskRepository.findTrashedById(project.id)).toBeNull();
+    });
+  });
+
+  describe("Task history", () => {
+    it("should record field-level changes of every operation and page through them newest first", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const transactionManager = new DrizzleTransactionManager(db);
+      const propagateStatusUseCase = new PropagateStatusUseCase(
+        taskRepository,
+        new DrizzleStatusPropagationPolicyRepository(db),
+        taskEventRepository,
+        new DrizzleWorkflowRepository(db),
+      );
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const updateTaskUseCase = new UpdateTaskUseCase(
+        taskRepository,
+        new CreateNextRecurringInstanceUseCase(
+          new DrizzleRecurringPatternRepository(db),
+          taskRepository,
+          createTaskUseCase,
+        ),
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+
+      const inbox = await createTaskUseCase.execute({ title: "Inbox" });
+      const first = await createTaskUseCase.execute({ title: "Write report" });
+      const second = await createTaskUseCase.execute({ title: "Send invoice" });
+
+      await updateTaskUseCase.execute({ id: first.id, status: "done" });
+      await updateTaskUseCase.execute({ id: first.id, status: "todo", title: "Write final report" });
+      await new ReorderTasksUseCase(taskRepository, taskEventRepository, transactionManager).execute({
+        parentId: null,
+        orderMap: { [inbox.id]: 1, [first.id]: 3, [second.id]: 2 },
+      });
+      await new MoveTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        new RebalanceRanksUseCase(taskRepository, transactionManager),
+        transactionManager,
+      ).execute({
+        taskId: first.id,
+        newParentId: inbox.id,
+      });
+      await new DeleteTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+      ).execute(inbox.id);
+
+      const getTaskHistoryUseCase = new GetTaskHistoryUseCase(taskRepository, taskEventRepository);
+      const history = await getTaskHistoryUseCase.execute({ taskId: first.id, limit: 10 });
+      expect(history?.items.map((event) => event.type)).toEqual([
+        "moved",
+        "reordered",
+        "updated",
+        "updated",
+        "created",
+      ]);
+      expect(history?.items[0]?.changes).toEqual({
+        parentId: { before: null, after: inbox.id },
+        order: { before: 3, after: 1 },
+        rankKey: { before: expect.any(String), after: expect.any(String) },
+      });
+      expect(history?.items[2]?.changes).toEqual({
+        title: { before: "Write report", after: "Write final report" },
+        status: { before: "done", after: "todo" },
+      });
+
+      // The reorder is one operation covering both siblings that changed place
+      const reorderEvents = (await taskEventRepository.find({ limit: 100 })).filter((e) => e.type === "reordered");
+      expect(reorderEvents.map((e) => e.taskId).sort()).toEqual([first.id, second.id].sort());
+      expect(new Set(reorderEvents.map((e) => e.operationId)).size).toBe(1);
+
+      const getActivityUseCase = new GetActivityUseCase(taskEventRepository);
+      const firstPage = await getActivityUseCase.execute({ limit: 4 });
+      expect(firstPage.items.map((event) => event.type)).toEqual(["deleted", "moved", "reordered", "reordered"]);
+      expect(firstPage.nextBeforeId).not.toBeNull();
+      const secondPage = await getActivityUseCase.execute({ beforeId: firstPage.nextBeforeId ?? 0, limit: 10 });
+      expect(secondPage.items).toHaveLength(5);
+      expect(secondPage.nextBeforeId).toBeNull();
+
+      expect(await getTaskHistoryUseCase.execute({ taskId: crypto.randomUUID(), limit: 10 })).toBeNull();
+    });
+  });
+
+  describe("Task versions", () => {
+    it("should bump the version of changed tasks only and reject changes based on a stale version", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const transactionManager = new DrizzleTransactionManager(db);
+      const propagateStatusUseCase = new PropagateStatusUseCase(
+        taskRepository,
+        new DrizzleStatusPropagationPolicyRepository(db),
+        taskEventRepository,
+        new DrizzleWorkflowRepository(db),
+      );
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const updateTaskUseCase = new UpdateTaskUseCase(
+        taskRepository,
+        new CreateNextRecurringInstanceUseCase(
+          new DrizzleRecurringPatternRepository(db),
+          taskRepository,
+          createTaskUseCase,
+        ),
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const reorderTasksUseCase = new ReorderTasksUseCase(taskRepository, taskEventRepository, transactionManager);
+      const deleteTaskUseCase = new DeleteTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+      );
+
+      const report = await createTaskUseCase.execute({ title: "Report" });
+      const draft = await createTaskUseCase.execute({ title: "Draft", parentId: report.id });
+      const review = await createTaskUseCase.execute({ title: "Review" });
+      expect([report.version, draft.version, review.version]).toEqual([1, 1, 1]);
+
+      // Saving the whole tree leaves the untouched subtask at its version
+      const renamed = await updateTaskUseCase.execute({ id: report.id, title: "Annual report", expectedVersion: 1 });
+      expect(renamed?.version).toBe(2);
+      expect(renamed?.subtasks[0]?.version).toBe(1);
+
+      // A client still holding the first version is turned away and told about the current one
+      const stale = updateTaskUseCase.execute({ id: report.id, title: "Quarterly report", expectedVersion: 1 });
+      await expect(stale).rejects.toThrow(TaskVersionMismatchError);
+      await stale.catch((error: TaskVersionMismatchError) => expect(error.current.title).toBe("Annual report"));
+      expect((await taskRepository.findById(report.id, 0))?.title).toBe("Annual report");
+
+      await expect(
+        reorderTasksUseCase.execute({
+          parentId: null,
+          orderMap: { [review.id]: 1, [report.id]: 2 },
+          expectedVersions: { [review.id]: 1, [report.id]: 1 },
+        }),
+      ).rejects.toThrow(TaskVersionMismatchError);
+      const reordered = await reorderTasksUseCase.execute({
+        parentId: null,
+        orderMap: { [review.id]: 1, [report.id]: 2 },
+        expectedVersions: { [review.id]: 1, [report.id]: 2 },
+      });
+      expect(reordered.map((t) => [t.title, t.version])).toEqual([
+        ["Review", 2],
+        ["Annual report", 3],
+      ]);
+
+      await expect(deleteTaskUseCase.execute(draft.id, 2)).rejects.toThrow(TaskVersionMismatchError);
+      expect(await deleteTaskUseCase.execute(draft.id, 1)).toBe(true);
+    });
+  });
+
+  describe("Task event stream", () => {
+    it("should catch up on missed events and then deliver committed changes within the subtree", async () => {
+      const db = createTestDb();
+      const transactionManager = new DrizzleTransactionManager(db);
+      const taskEventBus = new InProcessTaskEventBus(transactionManager);
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db, taskEventBus);
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        new PropagateStatusUseCase(
+          taskRepository,
+          new DrizzleStatusPropagationPolicyRepository(db),
+          taskEventRepository,
+        ),
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const streamTaskEventsUseCase = new StreamTaskEventsUseCase(taskRepository, taskEventRepository, taskEventBus);
+      const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+      const project = await createTaskUseCase.execute({ title: "Project" });
+      const design = await createTaskUseCase.execute({ title: "Design", parentId: project.id });
+      await createTaskUseCase.execute({ title: "Errands" });
+      const [projectCreated] = await taskEventRepository.findAfter(0, 1);
+
+      const received: string[] = [];
+      const stop = await streamTaskEventsUseCase.execute(
+        { rootId: project.id, lastEventId: projectCreated?.id as number },
+        (event) => received.push(`${event.type} ${event.taskId}`),
+      );
+      await settle();
+      expect(received).toEqual([`created ${design.id}`]);
+
+      // Changes rolled back are never announced
+      await expect(
+        transactionManager.runInTransaction(async () => {
+          await createTaskUseCase.execute({ title: "Draft", parentId: project.id });
+          throw new Error("Cancelled");
+        }),
+      ).rejects.toThrow("Cancelled");
+      const review = await createTaskUseCase.execute({ title: "Review", parentId: design.id });
+      await createTaskUseCase.execute({ title: "Groceries" });
+      await settle();
+      expect(received).toEqual([`created ${design.id}`, `created ${review.id}`]);
+
+      stop();
+      await createTaskUseCase.execute({ title: "Sketch", parentId: design.id });
+      await settle();
+      expect(received).toHaveLength(2);
+      await expect(streamTaskEventsUseCase.execute({ rootId: crypto.randomUUID() }, () => {})).rejects.toThrow(
+        TaskNotFoundError,
+      );
+    });
+
+    it("should deliver the deletion of tasks in the subtree", async () => {
+      const db = createTestDb();
+      const transactionManager = new DrizzleTransactionManager(db);
+      const taskEventBus = new InProcessTaskEventBus(transactionManager);
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db, taskEventBus);
+      const propagateStatusUseCase = new PropagateStatusUseCase(
+        taskRepository,
+        new DrizzleStatusPropagationPolicyRepository(db),
+        taskEventRepository,
+        new DrizzleWorkflowRepository(db),
+      );
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const deleteTaskUseCase = new DeleteTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+      );
+      const streamTaskEventsUseCase = new StreamTaskEventsUseCase(taskRepository, taskEventRepository, taskEventBus);
+      const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+      const project = await createTaskUseCase.execute({ title: "Project" });
+      const design = await createTaskUseCase.execute({ title: "Design", parentId: project.id });
+      const review = await createTaskUseCase.execute({ title: "Review", parentId: design.id });
+      const errands = await createTaskUseCase.execute({ title: "Errands" });
+
+      const received: string[] = [];
+      const stop = await streamTaskEventsUseCase.execute({ rootId: project.id }, (event) =>
+        received.push(`${event.type} ${event.taskId}`),
+      );
+      await deleteTaskUseCase.execute(review.id);
+      await deleteTaskUseCase.execute(errands.id);
+      await deleteTaskUseCase.execute(design.id);
+      await settle();
+      stop();
+
+      expect(received).toEqual([`deleted ${review.id}`, `deleted ${design.id}`]);
+    });
+  });
+
+  describe("Webhooks", () => {
+    it("should post signed deliveries of subscribed events and retry failed ones with backoff", async () => {
+      // Receiver that is unavailable for the first request
+      const requests: { headers: Headers; body: string }[] = [];
+      const receiver = Bun.serve({
+        port: 0,
+        fetch: async (request) => {
+          requests.push({ headers: request.headers, body: await request.text() });
+          return requests.length === 1 ? new Response("Unavailable", { status: 503 }) : new Response("OK");
+        },
+      });
+
+      try {
+        const db = createTestDb();
+        const transactionManager = new DrizzleTransactionManager(db);
+        const taskEventBus = new InProcessTaskEventBus(transactionManager);
+        const taskRepository = new DrizzleTaskRepository(db);
+        const taskEventRepository = new DrizzleTaskEventRepository(db, taskEventBus);
+        const propagateStatusUseCase = new PropagateStatusUseCase(
+          taskRepository,
+          new DrizzleStatusPropagationPolicyRepository(db),
+          taskEventRepository,
+          new DrizzleWorkflowRepository(db),
+        );
+        const createTaskUseCase = new CreateTaskUseCase(
+          taskRepository,
+          taskEventRepository,
+          propagateStatusUseCase,
+          transactionManager,
+          new DrizzleWorkflowRepository(db),
+        );
+        const updateTaskUseCase = new UpdateTaskUseCase(
+          taskRepository,
+          new CreateNextRecurringInstanceUseCase(
+            new DrizzleRecurringPatternRepository(db),
+            taskRepository,
+            createTaskUseCase,
+          ),
+          taskEventRepository,
+          propagateStatusUseCase,
+          transactionManager,
+          new DrizzleWorkflowRepository(db),
+        );
+        const webhookRepository = new DrizzleWebhookRepository(db);
+        const webhookDeliveryRepository = new DrizzleWebhookDeliveryRepository(db);
+        const deliverWebhooksUseCase = new DeliverWebhooksUseCase(webhookDeliveryRepository, new FetchWebhookSender());
+        const scheduler = new WebhookDeliveryScheduler(
+          taskEventBus,
+          new EnqueueWebhookDeliveriesUseCase(
+            taskRepository,
+            webhookRepository,
+            webhookDeliveryRepository,
+            new DrizzleWorkflowRepository(db),
+          ),
+          deliverWebhooksUseCase,
+        );
+
+        const secret = "a-secret-of-the-receiver";
+        const webhook = await new CreateWebhookUseCase(webhookRepository).execute({
+          url: receiver.url.href,
+          secret,
+          eventTypes: ["completed"],
+        });
+
+        scheduler.start(60 * 60 * 1000);
+        const task = await createTaskUseCase.execute({ title: "Release" });
+        await updateTaskUseCase.execute({ id: task.id, status: "done" });
+        await scheduler.deliver();
+        scheduler.stop();
+
+        // Only the completion is delivered, and its first attempt failed
+        expect(requests).toHaveLength(1);
+        const getWebhookDeliveriesUseCase = new GetWebhookDeliveriesUseCase(
+          webhookRepository,
+          webhookDeliveryRepository,
+        );
+        const [failed] = await getWebhookDeliveriesUseCase.execute({ webhookId: webhook.id, limit: 10 });
+        expect(failed).toMatchObject({
+          eventType: "completed",
+          taskId: task.id,
+          status: "pending",
+          attempts: 1,
+          responseStatus: 503,
+        });
+        const lastAttemptAt = failed?.lastAttemptAt?.getTime() as number;
+        expect(failed?.nextAttemptAt?.getTime()).toBe(lastAttemptAt + 30 * 1000);
+
+        // The retry is not due until the backoff has passed
+        expect(await deliverWebhooksUseCase.execute(new Date(lastAttemptAt + 29 * 1000))).toHaveLength(0);
+        const [retried] = await deliverWebhooksUseCase.execute(new Date(lastAttemptAt + 30 * 1000));
+        expect(retried).toMatchObject({ status: "succeeded", attempts: 2, responseStatus: 200, nextAttemptAt: null });
+
+        // Every attempt carries the same body, signed with the secret
+        const [first, second] = requests;
+        expect(second?.body).toBe(first?.body as string);
+        const timestamp = second?.headers.get("X-Webhook-Timestamp");
+        const signature = createHmac("sha256", secret).update(`${timestamp}.${second?.body}`).digest("hex");
+        expect(second?.headers.get("X-Webhook-Signature")).toBe(`sha256=${signature}`);
+        expect(JSON.parse(second?.body as string)).toMatchObject({
+          id: failed?.id,
+          event: "task.completed",
+          task: { id: task.id, status: "done" },
+          changes: { status: { before: "todo", after: "done" } },
+        });
+      } finally {
+        receiver.stop(true);
+      }
+    });
+  });
+
+  describe("Undo and redo", () => {
+    const createUseCases = () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const transactionManager = new DrizzleTransactionManager(db);
+      const propagateStatusUseCase = new PropagateStatusUseCase(
+        taskRepository,
+        new DrizzleStatusPropagationPolicyRepository(db),
+        taskEventRepository,
+        new DrizzleWorkflowRepository(db),
+      );
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        propagateStatusUseCase,
+        transactionManager,
+        new DrizzleWorkflowRepository(db),
+      );
+      const revertOperationUseCase = new RevertOperationUseCase(
+        taskRepository,
+        taskEventRepository,
+        transactionManager,
+      );
+
+      return {
+        taskRepository,
+        taskEventRepository,
+        createTaskUseCase,
+        updateTaskUseCase: new UpdateTaskUseCase(
+          taskRepository,
+          new CreateNextRecurringInstanceUseCase(
+            new DrizzleRecurringPatternRepository(db),
+            taskRepository,
+            createTaskUseCase,
+          ),
+          taskEventRepository,
+          propagateStatusUseCase,
+          transactionManager,
+          new DrizzleWorkflowRepository(db),
+        ),
+        moveTaskUseCase: new MoveTaskUseCase(
+          taskRepository,
+          taskEventRepository,
+          propagateStatusUseCase,
+          new RebalanceRanksUseCase(taskRepository, transactionManager),
+          transactionManager,
+        ),
+        reorderTasksUseCase: new ReorderTasksUseCase(taskRepository, taskEventRepository, transactionManager),
+        deleteTaskUseCase: new DeleteTaskUseCase(
+          taskRepository,
+          taskEventRepository,
+          propagateStatusUseCase,
+          transactionManager,
+        ),
+        updateStatusPropagationUseCase: new UpdateStatusPropagationUseCase(
+          taskRepository,
+          new DrizzleStatusPropagationPolicyRepository(db),
+        ),
+        revertOperationUseCase,
+        undoUseCase: new UndoUseCase(taskEventRepository, revertOperationUseCase, transactionManager),
+        redoUseCase: new RedoUseCase(taskEventRepository, revertOperationUseCase, transactionManager),
+      };
+    };
+
+    it("should undo and redo edits, moves, reorders and deletes in reverse order", async () => {
+      const useCases = createUseCases();
+      const { taskRepository, undoUseCase, redoUseCase } = useCases;
+
+      const project = await useCases.createTaskUseCase.execute({ title: "Project" });
+      const errands = await useCases.createTaskUseCase.execute({ title: "Errands" });
+      const design = await useCases.createTaskUseCase.execute({ title: "Design", parentId: project.id });
+      const sketch = await useCases.createTaskUseCase.execute({ title: "Sketch", parentId: design.id });
+
+      await useCases.updateTaskUseCase.execute({ id: design.id, title: "Design v2", status: "done" });
+      await useCases.moveTaskUseCase.execute({ taskId: errands.id, newParentId: project.id });
+      await useCases.reorderTasksUseCase.execute({
+        parentId: project.id,
+        orderMap: { [design.id]: 2, [errands.id]: 1 },
+      });
+      await useCases.deleteTaskUseCase.execute(design.id);
+
+      // Undoing the delete brings back the whole subtree with its original IDs and order
+      const restoreEvents = await undoUseCase.execute(1);
+      expect(restoreEvents.map((event) => [event.type, event.origin])).toEqual([["restored", "undo"]]);
+      expect((await taskRepository.findById(sketch.id, 0))?.parentId).toBe(design.id);
+      expect((await taskRepository.findById(design.id, 0))?.order).toBe(2);
+
+      // Undoing the rest puts every task back where it started
+      await undoUseCase.execute(3);
+      const restoredProject = await taskRepository.findById(project.id);
+      expect(restoredProject?.subtasks.map((t) => [t.title, t.order, t.status])).toEqual([["Design", 1, "todo"]]);
+      expect(restoredProject?.subtasks[0]?.subtasks.map((t) => t.status)).toEqual(["todo"]);
+      expect((await taskRepository.findById(errands.id, 0))?.parentId).toBeNull();
+      expect(await undoUseCase.execute(1)).toEqual([]);
+
+      // Redo replays the operations oldest first
+      await redoUseCase.execute(3);
+      const redoneProject = await taskRepository.findById(project.id);
+      expect(redoneProject?.subtasks.map((t) => [t.title, t.order])).toEqual([
+        ["Errands", 1],
+        ["Design v2", 2],
+      ]);
+      expect(redoneProject?.subtasks[1]?.subtasks.map((t) => t.status)).toEqual(["done"]);
+
+      const deleteEvents = await redoUseCase.execute(5);
+      expect(deleteEvents.map((event) => [event.type, event.origin])).toEqual([["deleted", "redo"]]);
+      expect(await taskRepository.findById(sketch.id, 0)).toBeNull();
+      expect(await redoUseCase.execute(1)).toEqual([]);
+
+      // A new change discards what could still be redone
+      await undoUseCase.execute(1);
+      await useCases.updateTaskUseCase.execute({ id: project.id, title: "Project v2" });
+      expect(await redoUseCase.execute(1)).toEqual([]);
+    });
+
+    it("should move a task to a position in its new parent and undo the renumbered siblings with it", async () => {
+      const useCases = createUseCases();
+      const { taskRepository, taskEventRepository, moveTaskUseCase, undoUseCase } = useCases;
+      const positions = async (parentId?: string) =>
+        (parentId ? await taskRepository.findByParentId(parentId) : await taskRepository.findRootTasks()).map((t) => [
+          t.title,
+          t.order,
+        ]);
+
+      const project = await useCases.createTaskUseCase.execute({ title: "Project" });
+      const inbox = await useCases.createTaskUseCase.execute({ title: "Inbox" });
+      const plan = await useCases.createTaskUseCase.execute({ title: "Plan" });
+      const build = await useCases.createTaskUseCase.execute({ title: "Build" });
+      const design = await useCases.createTaskUseCase.execute({ title: "Design", parentId: project.id });
+      const review = await useCases.createTaskUseCase.execute({ title: "Review", parentId: project.id });
+
+      // The former siblings close the gap and the new ones from the index on shift down
+      await moveTaskUseCase.execute({ taskId: plan.id, newParentId: project.id, index: 1 });
+      expect(await positions()).toEqual([
+        ["Project", 1],
+        ["Inbox", 2],
+        ["Build", 3],
+      ]);
+      expect(await positions(project.id)).toEqual([
+        ["Design", 1],
+        ["Plan", 2],
+        ["Review", 3],
+      ]);
+
+      await moveTaskUseCase.execute({ taskId: build.id, newParentId: project.id, before: design.id });
+      expect((await positions(project.id)).map(([title]) => title)).toEqual(["Build", "Design", "Plan", "Review"]);
+      await moveTaskUseCase.execute({ taskId: review.id, newParentId: project.id, after: build.id });
+      expect(await positions(project.id)).toEqual([
+        ["Build", 1],
+        ["Review", 2],
+        ["Design", 3],
+        ["Plan", 4],
+      ]);
+      const events = await taskEventRepository.find({ limit: 3 });
+      expect(new Set(events.map((e) => e.operationId)).size).toBe(1);
+      expect(events.map((e) => e.type)).toEqual(["reordered", "reordered", "reordered"]);
+      expect(events.map((e) => e.taskId).sort()).toEqual([review.id, design.id, plan.id].sort());
+
+      await expect(
+        moveTaskUseCase.execute({ taskId: plan.id, newParentId: project.id, after: inbox.id }),
+      ).rejects.toThrow(InvalidOrderError);
+      await expect(
+        moveTaskUseCase.execute({ taskId: plan.id, newParentId: project.id, index: 0, before: design.id }),
+      ).rejects.toThrow(InvalidOrderError);
+
+      // Undoing a move puts the siblings on both ends back in place too
+      await undoUseCase.execute(2);
+      expect(await positions(project.id)).toEqual([
+        ["Design", 1],
+        ["Plan", 2],
+        ["Review", 3],
+      ]);
+      await undoUseCase.execute(1);
+      expect(await positions()).toEqual([
+        ["Project", 1],
+        ["Inbox", 2],
+        ["Plan", 3],
+        ["Build", 4],
+      ]);
+      expect(await positions(project.id)).toEqual([
+        ["Design", 1],
+        ["Review", 2],
+      ]);
+    });
+
+    it("should reject an undo that conflicts with a later change and leave everything untouched", async () => {
+      const useCases = createUseCases();
+      const { taskRepository, taskEventRepository, undoUseCase } = useCases;
+
+      const first = await useCases.createTaskUseCase.execute({ title: "First" });
+      const second = await useCases.createTaskUseCase.execute({ title: "Second" });
+      await useCases.moveTaskUseCase.execute({ taskId: second.id, newParentId: first.id });
+      // The new task takes the root position the moved task left behind
+      const third = await useCases.createTaskUseCase.execute({ title: "Third" });
+      expect(third.order).toBe(2);
+      await useCases.updateTaskUseCase.execute({ id: first.id, title: "First v2" });
+
+      const eventCount = (await taskEventRepository.find({ limit: 100 })).length;
+      await expect(undoUseCase.execute(2)).rejects.toThrow(RevertConflictError);
+
+      // The title change undone in the first step is rolled back together with the failed step
+      expect((await taskRepository.findById(first.id, 0))?.title).toBe("First v2");
+      expect((await taskRepository.findById(second.id, 0))?.parentId).toBe(first.id);
+      expect(await taskEventRepository.find({ limit: 100 })).toHaveLength(eventCount);
+    });
+
+    it("should skip the creation of a task together with the status changes it propagated", async () => {
+      const useCases = createUseCases();
+      const { taskRepository, undoUseCase } = useCases;
+
+      const project = await useCases.createTaskUseCase.execute({ title: "Project" });
+      await useCases.updateStatusPropagationUseCase.execute(project.id, "completeAndReopen");
+      await useCases.updateTaskUseCase.execute({ id: project.id, status: "done" });
+
+      // The new subtask reopens the project as part of its creation
+      const design = await useCases.createTaskUseCase.execute({ title: "Design", parentId: project.id });
+      expect((await taskRepository.findById(project.id, 0))?.status).toBe("todo");
+      await useCases.updateTaskUseCase.execute({ id: design.id, title: "Design v2" });
+
+      await undoUseCase.execute(1);
+      expect((await taskRepository.findById(design.id, 0))?.title).toBe("Design");
+
+      // Completing the project is next, but the creation has reopened it since
+      await expect(undoUseCase.execute(1)).rejects.toThrow(RevertConflictError);
+      await expect(undoUseCase.execute(1)).rejects.toThrow(RevertConflictError);
+      expect((await taskRepository.findById(project.id, 0))?.status).toBe("todo");
+      expect(await taskRepository.findById(design.id, 0)).not.toBeNull();
+    });
+
+    it("should refuse to revert an operation that created a task before changing anything", async () => {
+      const useCases = createUseCases();
+      const { taskRepository, taskEventRepository, revertOperationUseCase } = useCases;
+
+      const project = await useCases.createTaskUseCase.execute({ title: "Project" });
+      await useCases.updateStatusPropagationUseCase.execute(project.id, "completeAndReopen");
+      await useCases.updateTaskUseCase.execute({ id: project.id, status: "done" });
+      const design = await useCases.createTaskUseCase.execute({ title: "Design", parentId: project.id });
+
+      // The creation of the subtask and the reopening of the project form one operation
+      const [created] = await taskEventRepository.find({ taskId: design.id, limit: 1 });
+      const operation = (await taskEventRepository.find({ limit: 100 }))
+        .filter((event) => event.operationId === created?.operationId)
+        .reverse();
+      expect(operation.map((event) => event.type)).toEqual(["created", "updated"]);
+
+      await expect(revertOperationUseCase.execute(operation, "undo")).rejects.toThrow(RevertConflictError);
+      expect((await taskRepository.findById(project.id, 0))?.status).toBe("todo");
+      expect(() => TaskEvent.createReversal("operation", "undo", operation[0] as TaskEvent, {})).toThrow(
+        RevertConflictError,
+      );
+    });
+  });
+
+  describe("Reminders", () => {
+    it("should fire due and missed reminders once, honouring snoozes, dismissals and failing notifiers", async () => {
+      const db = createTestDb();
+      const taskRepository = new DrizzleTaskRepository(db);
+      const reminderRepository = new DrizzleReminderRepository(db);
+      const taskEventRepository = new DrizzleTaskEventRepository(db);
+      const createTaskUseCase = new CreateTaskUseCase(
+        taskRepository,
+        taskEventRepository,
+        new PropagateStatusUseCase(
+          taskRepository,
+          new DrizzleStatusPropagationPolicyRepository(db),
+          taskEventRepository,
+        ),
+        new DrizzleTransactionManager(db),
+        new DrizzleWorkflowRepository(db),
+      );
+      const createReminderUseCase = new CreateReminderUseCase(taskRepository, reminderRepository);
+
+      const delivered: ReminderNotification[] = [];
+      const notifiers: Notifier[] = [
+        { name: "memory", notify: async (notification) => void delivered.push(notification) },
+        {
+          name: "broken",
+          notify: async () => {
+            throw new Error("Unreachable");
+          },
+        },
+      ];
+      const fireDueRemindersUseCase = new FireDueRemindersUseCase(
+        reminderRepository,
+        notifiers,
+        new DrizzleWorkflowRepository(db),
+      );
+
+      const now = new Date("2024-06-01T09:00:00Z");
+      const task = await createTaskUseCase.execute({
+        title: "Submit report",
+        dueDate: new Date("2024-06-01T10:00:00Z"),
+      });
+
+      // Missed while the server was down, due in 5 minutes, and in an hour before the due date
+      const missed = await createReminderUseCase.execute({
+        taskId: task.id,
+        remindAt: new Date("2024-05-31T18:00:00Z"),
+      });
+      const soon = await createReminderUseCase.execute({ taskId: task.id, minutesBeforeDue: 55 });
+      const relative = await createReminderUseCase.execute({ taskId: task.id, minutesBeforeDue: 60 });
+      const dismissed = await createReminderUseCase.execute({ taskId: task.id, minutesBeforeDue: 90 });
+      expect(soon.fireAt).toEqual(new Date("2024-06-01T09:05:00Z"));
+
+      await new DismissReminderUseCase(taskRepository, reminderRepository).execute({
+        taskId: task.id,
+        id: dismissed.id,
+      });
+
+      const deliveries = await fireDueRemindersUseCase.execute(now);
+      expect(deliveries.map(({ reminder }) => reminder.id).sort()).toEqual([missed.id, relative.id].sort());
+      expect(deliveries.every(({ failures }) => failures.map((f) => f.notifier).join() === "broken")).toBe(true);
+      expect(delivered.map(({ task: t }) => t.title)).toEqual(["Submit report", "Submit report"]);
+      expect((await reminderRepository.findById(missed.id))?.status).toBe("fired");
+
+      // Nothing fires twice
+      expect(await fireDueRemindersUseCase.execute(now)).toHaveLength(0);
+
+      // A snoozed reminder fires again once the snooze is over
+      const snoozed = await new SnoozeReminderUseCase(taskRepository, reminderRepository).execute(
+        { taskId: task.id, id: missed.id, minutes: 10 },
+        now,
+      );
+      expect(snoozed.fireAt).toEqual(new Date("2024-06-01T09:10:00Z"));
+
+      const later = await fireDueRemindersUseCase.execute(new Date("2024-06-01T09:10:00Z"));
+      expect(later.map(({ reminder }) => reminder.id).sort()).toEqual([missed.id, soon.id].sort());
+    });
+  });
 });
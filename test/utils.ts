@@ -1,5 +1,5 @@
 import { v4 as uuidv4 } from "uuid";
-import type { NewTask } from "../src/db/schema";
+import type { NewTag, NewTask } from "../src/db/schema";
 
 /**
  * Create mock Task data for testing (root task)
@@ -10,7 +10,7 @@ export function createMockTask(override: Partial<NewTask> = {}): NewTask {
     parentId: null,
     title: "Test Task",
     description: "Test Description",
-    status: "incomplete",
+    status: "todo",
     order: 1,
     createdAt: new Date(),
     updatedAt: new Date(),
@@ -27,10 +27,25 @@ export function createMockChildTask(parentId: string, override: Partial<NewTask>
     parentId,
     title: "Test Child Task",
     description: "Test Child Description",
-    status: "incomplete",
+    status: "todo",
     order: 1,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...override,
   };
 }
+
+/**
+ * Create mock Tag data for testing
+ */
+export function createMockTag(override: Partial<NewTag> = {}): NewTag {
+  const id = uuidv4();
+  return {
+    id,
+    name: `Tag ${id.slice(0, 8)}`,
+    color: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...override,
+  };
+}